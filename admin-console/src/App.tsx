@@ -5,15 +5,25 @@ import { Toaster } from '@/components/ui/toaster';
 import {
   LoginPage,
   SignupPage,
+  ResetPasswordPage,
+  VerifyEmailPage,
+  AcceptInvitationPage,
   DashboardPage,
   TenantsPage,
+  TenantDetailPage,
+  PlansPage,
   UsersPage,
+  RolesPage,
   PaymentsPage,
   OperationsPage,
+  LocationsPage,
   AuditPage,
   ConfigPage,
+  MySecurityPage,
+  SecurityLoginsPage,
 } from '@/pages';
 import { useAuthStore } from '@/store/auth';
+import { authApi } from '@/services/api';
 import { useEffect } from 'react';
 
 const queryClient = new QueryClient({
@@ -53,18 +63,25 @@ function PrivateRoute({ children }: { children: React.ReactNode }) {
 }
 
 function App() {
-  const { setLoading, isAuthenticated } = useAuthStore();
+  const { setLoading, setUser, isAuthenticated } = useAuthStore();
 
   // Check authentication status on mount
   useEffect(() => {
     const checkAuth = async () => {
-      // The auth state is persisted in localStorage via zustand
-      // Just mark loading as complete
+      // The auth state is persisted in localStorage via zustand; refresh the
+      // user so role and permission changes apply without signing in again
+      if (useAuthStore.getState().token) {
+        try {
+          setUser(await authApi.me());
+        } catch (error) {
+          console.error('Error refreshing current user:', error);
+        }
+      }
       setLoading(false);
     };
 
     checkAuth();
-  }, [setLoading]);
+  }, [setLoading, setUser]);
 
   return (
     <QueryClientProvider client={queryClient}>
@@ -83,6 +100,14 @@ function App() {
               isAuthenticated ? <Navigate to="/dashboard" replace /> : <SignupPage />
             }
           />
+          <Route path="/reset-password" element={<ResetPasswordPage />} />
+          <Route path="/verify-email" element={<VerifyEmailPage />} />
+          <Route
+            path="/accept-invitation"
+            element={
+              isAuthenticated ? <Navigate to="/dashboard" replace /> : <AcceptInvitationPage />
+            }
+          />
 
           {/* Protected routes */}
           <Route path="/" element={<Layout />}>
@@ -106,6 +131,24 @@ function App() {
               }
             />
 
+            <Route
+              path="tenants/:id"
+              element={
+                <SuperAdminRoute>
+                  <TenantDetailPage />
+                </SuperAdminRoute>
+              }
+            />
+
+            <Route
+              path="plans"
+              element={
+                <SuperAdminRoute>
+                  <PlansPage />
+                </SuperAdminRoute>
+              }
+            />
+
             <Route
               path="users"
               element={
@@ -115,6 +158,15 @@ function App() {
               }
             />
 
+            <Route
+              path="roles"
+              element={
+                <PrivateRoute>
+                  <RolesPage />
+                </PrivateRoute>
+              }
+            />
+
             <Route
               path="payments"
               element={
@@ -133,6 +185,15 @@ function App() {
               }
             />
 
+            <Route
+              path="locations"
+              element={
+                <PrivateRoute>
+                  <LocationsPage />
+                </PrivateRoute>
+              }
+            />
+
             <Route
               path="audit"
               element={
@@ -150,6 +211,24 @@ function App() {
                 </PrivateRoute>
               }
             />
+
+            <Route
+              path="security"
+              element={
+                <PrivateRoute>
+                  <MySecurityPage />
+                </PrivateRoute>
+              }
+            />
+
+            <Route
+              path="security/logins"
+              element={
+                <PrivateRoute>
+                  <SecurityLoginsPage />
+                </PrivateRoute>
+              }
+            />
           </Route>
 
           {/* Catch all */}
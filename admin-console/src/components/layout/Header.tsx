@@ -1,6 +1,7 @@
 import { useNavigate } from 'react-router-dom';
-import { LogOut, User, Settings, Bell } from 'lucide-react';
+import { LogOut, User, Settings, Bell, ShieldCheck } from 'lucide-react';
 import { useAuthStore } from '@/store/auth';
+import { authApi } from '@/services/api';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import {
@@ -15,12 +16,25 @@ import { Badge } from '@/components/ui/badge';
 import { getInitials, getRoleBadgeColor } from '@/lib/utils';
 
 export function Header() {
-  const { user, logout, isSuperAdmin } = useAuthStore();
+  const { user, logout, isSuperAdmin, impersonation, stopImpersonation } = useAuthStore();
   const navigate = useNavigate();
 
-  const handleLogout = () => {
-    logout();
-    navigate('/login');
+  const handleLogout = async () => {
+    try {
+      // Close the impersonation first so the superadmin's own session is the one revoked
+      if (impersonation) {
+        await authApi.endImpersonation().catch(() => undefined);
+        stopImpersonation();
+      }
+
+      // Revoke the server-side session so the token stops working immediately
+      await authApi.logout();
+    } catch (error) {
+      console.error('Error revoking session:', error);
+    } finally {
+      logout();
+      navigate('/login');
+    }
   };
 
   const roleLabels: Record<string, string> = {
@@ -102,6 +116,10 @@ export function Header() {
                 <User className="mr-2 h-4 w-4" />
                 Mi Perfil
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigate('/security')}>
+                <ShieldCheck className="mr-2 h-4 w-4" />
+                Mi Seguridad
+              </DropdownMenuItem>
               {isSuperAdmin() && (
                 <DropdownMenuItem onClick={() => navigate('/config')}>
                   <Settings className="mr-2 h-4 w-4" />
@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { UserCog } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuthStore } from '@/store/auth';
+import { authApi } from '@/services/api';
+import { formatDate } from '@/lib/utils';
+
+export function ImpersonationBanner() {
+  const { user, impersonation, stopImpersonation } = useAuthStore();
+  const [isEnding, setIsEnding] = useState(false);
+  const navigate = useNavigate();
+
+  if (!impersonation || !user) {
+    return null;
+  }
+
+  const handleEnd = async () => {
+    setIsEnding(true);
+    try {
+      await authApi.endImpersonation();
+    } catch (error) {
+      // The session may already be expired; the superadmin session is restored anyway
+      console.error('Error ending impersonation:', error);
+    } finally {
+      stopImpersonation();
+      setIsEnding(false);
+      navigate('/users');
+    }
+  };
+
+  return (
+    <div className="mb-6 flex items-center justify-between gap-4 rounded-lg border border-amber-300 bg-amber-50 px-4 py-3">
+      <div className="flex items-center gap-3 text-sm text-amber-900">
+        <UserCog className="h-5 w-5 shrink-0" />
+        <span>
+          Estás operando como <strong>{user.name}</strong> ({user.email}). Todas las acciones
+          quedan registradas a nombre de {impersonation.impersonator.email}. La sesión vence{' '}
+          {formatDate(impersonation.expiresAt)}.
+        </span>
+      </div>
+      <Button variant="outline" size="sm" onClick={handleEnd} disabled={isEnding}>
+        {isEnding ? 'Finalizando...' : 'Finalizar impersonación'}
+      </Button>
+    </div>
+  );
+}
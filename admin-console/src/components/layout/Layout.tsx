@@ -2,6 +2,8 @@ import { Outlet, Navigate } from 'react-router-dom';
 import { useAuthStore } from '@/store/auth';
 import { Header } from './Header';
 import { Sidebar } from './Sidebar';
+import { ImpersonationBanner } from './ImpersonationBanner';
+import { VerifyEmailBanner } from './VerifyEmailBanner';
 
 export function Layout() {
   const { isAuthenticated, isLoading } = useAuthStore();
@@ -27,6 +29,8 @@ export function Layout() {
       <Sidebar />
       <main className="pl-64 pt-16">
         <div className="p-6">
+          <ImpersonationBanner />
+          <VerifyEmailBanner />
           <Outlet />
         </div>
       </main>
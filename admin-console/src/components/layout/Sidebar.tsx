@@ -8,6 +8,10 @@ import {
   ClipboardList,
   Settings,
   Shield,
+  ShieldCheck,
+  ShieldAlert,
+  Package,
+  MapPin,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAuthStore } from '@/store/auth';
@@ -32,12 +36,24 @@ const navItems: NavItem[] = [
     icon: Building2,
     superadminOnly: true,
   },
+  {
+    label: 'Planes',
+    path: '/plans',
+    icon: Package,
+    superadminOnly: true,
+  },
   {
     label: 'Usuarios',
     path: '/users',
     icon: Users,
     permission: 'users:read',
   },
+  {
+    label: 'Roles',
+    path: '/roles',
+    icon: ShieldCheck,
+    permission: 'users:read',
+  },
   {
     label: 'Pagos MP',
     path: '/payments',
@@ -50,12 +66,24 @@ const navItems: NavItem[] = [
     icon: FileBarChart,
     permission: 'operations:read',
   },
+  {
+    label: 'Sucursales',
+    path: '/locations',
+    icon: MapPin,
+    permission: 'operations:read',
+  },
   {
     label: 'Auditoría',
     path: '/audit',
     icon: ClipboardList,
     permission: 'audit:read',
   },
+  {
+    label: 'Seguridad',
+    path: '/security/logins',
+    icon: ShieldAlert,
+    permission: 'audit:read',
+  },
   {
     label: 'Configuración',
     path: '/config',
@@ -0,0 +1,53 @@
+import { useState } from 'react';
+import { MailWarning } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuthStore } from '@/store/auth';
+import { authApi } from '@/services/api';
+import { toast } from '@/hooks/use-toast';
+import type { ApiError } from '@/types';
+
+export function VerifyEmailBanner() {
+  const { user } = useAuthStore();
+  const [isSending, setIsSending] = useState(false);
+
+  if (!user || user.emailVerified || user.role === 'superadmin') {
+    return null;
+  }
+
+  const handleResend = async () => {
+    setIsSending(true);
+    try {
+      await authApi.resendVerification();
+      toast({
+        title: 'Email enviado',
+        description: `Revisá tu bandeja de entrada en ${user.email}`,
+      });
+    } catch (err) {
+      const code = (err as ApiError)?.code;
+      toast({
+        title: 'Error',
+        description:
+          code === 'TOO_MANY_REQUESTS'
+            ? 'Ya te enviamos un email hace poco. Esperá unos minutos antes de pedir otro.'
+            : 'No se pudo reenviar el email de verificación',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 flex items-center justify-between gap-4 rounded-lg border border-yellow-200 bg-yellow-50 px-4 py-3">
+      <div className="flex items-center gap-3 text-sm text-yellow-800">
+        <MailWarning className="h-5 w-5 shrink-0" />
+        <span>
+          Confirmá tu email <strong>{user.email}</strong> para tener acceso completo a tu cuenta.
+        </span>
+      </div>
+      <Button variant="outline" size="sm" onClick={handleResend} disabled={isSending}>
+        {isSending ? 'Enviando...' : 'Reenviar email'}
+      </Button>
+    </div>
+  );
+}
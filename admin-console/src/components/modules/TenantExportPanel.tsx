@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { Archive, Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { tenantsApi } from '@/services/api';
+import { toast } from '@/hooks/use-toast';
+import { formatDate } from '@/lib/utils';
+import type { ApiError, TenantExport, TenantExportStatus } from '@/types';
+
+const statusLabels: Record<TenantExportStatus, string> = {
+  pending: 'En cola',
+  running: 'Generando',
+  completed: 'Lista',
+  failed: 'Falló',
+  expired: 'Vencida',
+};
+
+const stepLabels: Record<string, string> = {
+  settings: 'configuración',
+  users: 'usuarios',
+  locations: 'sucursales',
+  orders: 'órdenes',
+  payments: 'pagos',
+  subscriptions: 'suscripciones',
+  audit_logs: 'auditoría',
+  archive: 'archivo final',
+};
+
+// How often a running export is polled for progress
+const POLL_INTERVAL_MS = 3000;
+
+function formatSize(bytes?: number): string {
+  if (!bytes) return '';
+  return bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// Full data archive (JSON + CSV) of a tenant: start, follow progress and download
+export function TenantExportPanel({ tenantId, tenantName }: { tenantId: string; tenantName?: string }) {
+  const [exports, setExports] = useState<TenantExport[]>([]);
+  const [isStarting, setIsStarting] = useState(false);
+
+  const fetchExports = async () => {
+    try {
+      const { data } = await tenantsApi.listExports(tenantId);
+      setExports(data);
+    } catch (error) {
+      console.error('Error fetching exports:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchExports();
+  }, [tenantId]);
+
+  const inProgress = exports.some((job) => job.status === 'pending' || job.status === 'running');
+
+  useEffect(() => {
+    if (!inProgress) return;
+    const timer = setInterval(fetchExports, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [inProgress, tenantId]);
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    try {
+      await tenantsApi.startExport(tenantId);
+      toast({ title: 'Exportación iniciada', description: 'Te avisamos acá cuando esté lista' });
+      fetchExports();
+    } catch (error) {
+      const apiError = error as ApiError;
+      toast({
+        title: 'Error',
+        description:
+          apiError?.code === 'EXPORT_IN_PROGRESS'
+            ? 'Ya hay una exportación en curso'
+            : apiError?.code === 'EXPORTS_NOT_CONFIGURED'
+              ? 'Las exportaciones no están configuradas en el servidor'
+              : 'No se pudo iniciar la exportación',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleDownload = async (job: TenantExport) => {
+    try {
+      const blob = await tenantsApi.downloadExport(tenantId, job.id);
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `${tenantName ? `${tenantName}_` : ''}export_${job.createdAt.split(/[ T]/)[0]}.zip`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'No se pudo descargar la exportación',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-500">
+          Usuarios, sucursales, órdenes, pagos, suscripciones, configuración y auditoría en JSON y CSV.
+          El archivo queda disponible durante 7 días.
+        </p>
+        <Button size="sm" onClick={handleStart} disabled={isStarting || inProgress}>
+          <Archive className="h-4 w-4 mr-2" />
+          Exportar datos
+        </Button>
+      </div>
+
+      {exports.length === 0 ? (
+        <p className="text-center text-gray-500 py-4 text-sm">Todavía no hay exportaciones</p>
+      ) : (
+        <div className="space-y-2">
+          {exports.map((job) => (
+            <div key={job.id} className="flex items-center justify-between p-3 border rounded-lg">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge
+                    variant={
+                      job.status === 'completed'
+                        ? 'success'
+                        : job.status === 'failed'
+                          ? 'destructive'
+                          : 'secondary'
+                    }
+                  >
+                    {statusLabels[job.status]}
+                  </Badge>
+                  <span className="text-sm">{formatDate(job.createdAt)}</span>
+                  {job.requestedByName && (
+                    <span className="text-xs text-gray-500">por {job.requestedByName}</span>
+                  )}
+                </div>
+                {(job.status === 'pending' || job.status === 'running') && (
+                  <div className="flex items-center gap-2 text-xs text-gray-500">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    {job.progress}/{job.totalSteps}
+                    {job.currentStep && ` · ${stepLabels[job.currentStep] || job.currentStep}`}
+                  </div>
+                )}
+                {job.status === 'failed' && job.error && (
+                  <p className="text-xs text-red-600">{job.error}</p>
+                )}
+                {job.status === 'completed' && (
+                  <p className="text-xs text-gray-500">
+                    {formatSize(job.fileSize)}
+                    {job.expiresAt && ` · disponible hasta ${formatDate(job.expiresAt, { dateStyle: 'medium' })}`}
+                  </p>
+                )}
+              </div>
+              {job.status === 'completed' && (
+                <Button variant="outline" size="sm" onClick={() => handleDownload(job)}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Descargar
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
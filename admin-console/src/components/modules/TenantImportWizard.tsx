@@ -0,0 +1,253 @@
+import { useState } from 'react';
+import { FileUp, CheckCircle, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { tenantsApi } from '@/services/api';
+import { toast } from '@/hooks/use-toast';
+import type { ApiError, TenantImportErrorCode, TenantImportResult, TenantImportRow } from '@/types';
+
+type Step = 'upload' | 'review' | 'done';
+
+const fieldLabels: Record<TenantImportRow['errors'][number]['field'], string> = {
+  name: 'Nombre',
+  slug: 'Slug',
+  email: 'Email',
+  phone: 'Teléfono',
+  plan: 'Plan',
+  status: 'Estado',
+  adminEmail: 'Email admin',
+};
+
+const errorLabels: Record<TenantImportErrorCode, string> = {
+  REQUIRED: 'es obligatorio',
+  INVALID_EMAIL: 'no es un email válido',
+  INVALID_PLAN: 'no es un plan válido',
+  INVALID_STATUS: 'debe ser trial o active',
+  SLUG_TAKEN: 'ya existe otro tenant con ese nombre',
+  DUPLICATE_IN_FILE: 'está repetido en el archivo',
+  USER_EXISTS: 'ya tiene usuario',
+  INVITATION_PENDING: 'ya tiene una invitación pendiente',
+};
+
+const TEMPLATE = 'name,email,phone,plan,status,admin email\nTaller Ejemplo,contacto@ejemplo.com,1144445555,starter,trial,admin@ejemplo.com\n';
+
+function importErrorMessage(error: unknown): string {
+  const apiError = error as ApiError;
+  switch (apiError?.code) {
+    case 'MISSING_COLUMNS':
+      return `Faltan columnas obligatorias: ${apiError.missingColumns?.join(', ')}`;
+    case 'EMPTY_IMPORT':
+      return 'El archivo no tiene filas';
+    case 'TOO_MANY_ROWS':
+      return 'El archivo tiene demasiadas filas, dividilo en partes de hasta 500';
+    case 'INVALID_ROWS':
+      return 'Algunas filas dejaron de ser válidas, volvé a validar el archivo';
+    default:
+      return 'No se pudo procesar el archivo';
+  }
+}
+
+// Upload a CSV, review the dry run row by row, then create everything at once
+export function TenantImportWizard({
+  open,
+  onOpenChange,
+  onImported,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}) {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [csv, setCsv] = useState('');
+  const [result, setResult] = useState<TenantImportResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setCsv('');
+    setResult(null);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setFileName(file.name);
+    setCsv(await file.text());
+  };
+
+  const downloadTemplate = () => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([TEMPLATE], { type: 'text/csv;charset=utf-8;' }));
+    link.download = 'tenants_import.csv';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  const handleValidate = async () => {
+    setIsWorking(true);
+    try {
+      setResult(await tenantsApi.importCsv(csv, true));
+      setStep('review');
+    } catch (error) {
+      toast({ title: 'Error', description: importErrorMessage(error), variant: 'destructive' });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsWorking(true);
+    try {
+      const imported = await tenantsApi.importCsv(csv, false);
+      setResult(imported);
+      setStep('done');
+      toast({ title: `${imported.created} tenants importados` });
+      onImported();
+    } catch (error) {
+      toast({ title: 'Error', description: importErrorMessage(error), variant: 'destructive' });
+      if ((error as ApiError)?.code === 'INVALID_ROWS') handleValidate();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Importar tenants</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Subí un CSV con una fila por taller'}
+            {step === 'review' && 'Revisá el resultado de la validación antes de importar'}
+            {step === 'done' && 'Los tenants fueron creados y sus administradores invitados por email'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <label className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed rounded-lg cursor-pointer hover:bg-gray-50">
+              <FileUp className="h-8 w-8 text-gray-400" />
+              <span className="text-sm text-gray-600">{fileName || 'Elegí un archivo .csv'}</span>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </label>
+            <p className="text-xs text-gray-500">
+              Columnas: name y email (obligatorias), phone, plan, status (trial o active) y admin email.
+              Sin admin email se invita al email del tenant. Se crea una sucursal principal para cada uno.{' '}
+              <button type="button" className="text-fixly-purple-600 underline" onClick={downloadTemplate}>
+                Descargar plantilla
+              </button>
+            </p>
+          </div>
+        )}
+
+        {step !== 'upload' && result && (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Badge variant="secondary">{result.total} filas</Badge>
+              <Badge variant="success">{result.created ?? result.valid} {step === 'done' ? 'creadas' : 'válidas'}</Badge>
+              {result.invalid > 0 && <Badge variant="destructive">{result.invalid} con errores</Badge>}
+            </div>
+            <div className="max-h-96 overflow-y-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Fila</TableHead>
+                    <TableHead>Tenant</TableHead>
+                    <TableHead>Plan</TableHead>
+                    <TableHead>Admin</TableHead>
+                    <TableHead>Resultado</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.rows.map((row) => (
+                    <TableRow key={row.row}>
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell>
+                        <p className="font-medium">{row.name || '—'}</p>
+                        <p className="text-xs text-gray-500">
+                          {row.slug} · {row.email}
+                        </p>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {row.plan} · {row.status}
+                      </TableCell>
+                      <TableCell className="text-sm">{row.adminEmail}</TableCell>
+                      <TableCell>
+                        {row.errors.length === 0 ? (
+                          <span className="flex items-center gap-1 text-sm text-green-700">
+                            <CheckCircle className="h-4 w-4" />
+                            {step === 'done' ? 'Creado' : 'OK'}
+                          </span>
+                        ) : (
+                          <ul className="text-xs text-red-600 space-y-0.5">
+                            {row.errors.map((error) => (
+                              <li key={`${error.field}-${error.code}`} className="flex items-center gap-1">
+                                <AlertCircle className="h-3 w-3 shrink-0" />
+                                {fieldLabels[error.field]} {errorLabels[error.code] || error.code}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {step === 'review' && result.invalid > 0 && (
+              <p className="text-sm text-amber-700 bg-amber-50 p-2 rounded">
+                Corregí las filas con errores y volvé a subir el archivo; no se importa nada hasta que todas sean válidas.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'upload' && (
+            <Button onClick={handleValidate} disabled={!csv || isWorking}>
+              {isWorking ? 'Validando...' : 'Validar'}
+            </Button>
+          )}
+          {step === 'review' && (
+            <>
+              <Button variant="outline" onClick={reset} disabled={isWorking}>
+                Subir otro archivo
+              </Button>
+              <Button onClick={handleImport} disabled={!result || result.invalid > 0 || isWorking}>
+                {isWorking ? 'Importando...' : `Importar ${result?.valid ?? 0} tenants`}
+              </Button>
+            </>
+          )}
+          {step === 'done' && <Button onClick={() => handleOpenChange(false)}>Cerrar</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
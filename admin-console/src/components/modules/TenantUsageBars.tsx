@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { tenantsApi } from '@/services/api';
+import type { QuotaResource, TenantUsage } from '@/types';
+
+const resourceLabels: Record<QuotaResource, string> = {
+  users: 'Usuarios',
+  locations: 'Sucursales',
+};
+
+function barColor(ratio: number): string {
+  if (ratio >= 1) return 'bg-red-500';
+  if (ratio >= 0.8) return 'bg-amber-500';
+  return 'bg-fixly-purple-600';
+}
+
+// Users and locations in use against the tenant's plan limits
+export function TenantUsageBars({ tenantId, compact = false }: { tenantId: string; compact?: boolean }) {
+  const [usage, setUsage] = useState<TenantUsage | null>(null);
+
+  useEffect(() => {
+    setUsage(null);
+    tenantsApi
+      .usage(tenantId)
+      .then(setUsage)
+      .catch((error) => console.error('Error fetching usage:', error));
+  }, [tenantId]);
+
+  if (!usage) {
+    return compact ? null : <p className="text-sm text-gray-500">Cargando...</p>;
+  }
+
+  return (
+    <div className={cn(compact ? 'space-y-1 min-w-[140px]' : 'space-y-4')}>
+      {(Object.keys(resourceLabels) as QuotaResource[]).map((resource) => {
+        const { used, limit, pending } = usage[resource];
+        const taken = used + pending;
+        const ratio = limit > 0 ? taken / limit : 1;
+
+        return (
+          <div key={resource} className={cn(compact ? 'space-y-0.5' : 'space-y-1')}>
+            <div className={cn('flex justify-between', compact ? 'text-xs text-gray-500' : 'text-sm')}>
+              <span>{resourceLabels[resource]}</span>
+              <span className={cn(ratio >= 1 && 'text-red-600 font-medium')}>
+                {used}
+                {pending > 0 && ` + ${pending}`} / {limit}
+              </span>
+            </div>
+            <div className={cn('bg-gray-100 rounded-full overflow-hidden', compact ? 'h-1.5' : 'h-2')}>
+              <div
+                className={cn('h-full rounded-full', barColor(ratio))}
+                style={{ width: `${Math.min(ratio, 1) * 100}%` }}
+              />
+            </div>
+            {!compact && pending > 0 && (
+              <p className="text-xs text-gray-500">
+                {pending} {pending === 1 ? 'invitación pendiente reserva' : 'invitaciones pendientes reservan'} un lugar
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
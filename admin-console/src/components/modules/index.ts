@@ -1,3 +1,6 @@
 export { KPICard } from './KPICard';
 export { DataTable } from './DataTable';
 export { StatusBadge } from './StatusBadge';
+export { TenantExportPanel } from './TenantExportPanel';
+export { TenantImportWizard } from './TenantImportWizard';
+export { TenantUsageBars } from './TenantUsageBars';
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type { PasswordViolation, QuotaExceeded, Session } from '@/types';
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -151,3 +152,37 @@ export function downloadCSV(data: Record<string, unknown>[], filename: string):
   link.click();
   URL.revokeObjectURL(link.href);
 }
+
+const passwordViolationLabels: Record<PasswordViolation, string> = {
+  min_length: 'es demasiado corta',
+  uppercase: 'le falta una mayúscula',
+  lowercase: 'le falta una minúscula',
+  number: 'le falta un número',
+  symbol: 'le falta un símbolo',
+  breached: 'aparece en listas de contraseñas filtradas',
+  reused: 'ya fue usada recientemente',
+};
+
+// Human-readable reason for a WEAK_PASSWORD error from the API
+export function describePasswordViolations(violations?: PasswordViolation[]): string {
+  if (!violations?.length) return 'La contraseña no cumple la política de seguridad';
+  return `La contraseña ${violations.map((v) => passwordViolationLabels[v] || v).join(', ')}`;
+}
+
+// Human-readable reason for a QUOTA_EXCEEDED error from the API
+export function describeQuotaExceeded(quota?: QuotaExceeded): string {
+  if (quota?.resource === 'locations') {
+    return `Se alcanzó el límite de ${quota.limit} sucursales del plan`;
+  }
+  if (quota?.resource === 'users') {
+    const pending = quota.pending > 0 ? ` (${quota.pending} en invitaciones pendientes)` : '';
+    return `Se alcanzó el límite de ${quota.limit} usuarios del plan${pending}`;
+  }
+  return 'Se alcanzó el límite del plan';
+}
+
+// "Chrome en Windows", falling back to the raw User-Agent
+export function describeSession(session: Session): string {
+  if (session.browser && session.os) return `${session.browser} en ${session.os}`;
+  return session.browser || session.os || session.userAgent || 'Dispositivo desconocido';
+}
@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Eye, EyeOff, Lock, User as UserIcon, AlertCircle, ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuthStore } from '@/store/auth';
+import { authApi } from '@/services/api';
+import { toast } from '@/hooks/use-toast';
+import { describePasswordViolations } from '@/lib/utils';
+import type { ApiError, InvitationDetails } from '@/types';
+
+const acceptSchema = z.object({
+  name: z.string().min(2, 'El nombre debe tener al menos 2 caracteres'),
+  password: z.string().min(8, 'La contraseña debe tener al menos 8 caracteres'),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: 'Las contraseñas no coinciden',
+  path: ['confirmPassword'],
+});
+
+type AcceptFormData = z.infer<typeof acceptSchema>;
+
+function acceptErrorMessage(err: unknown): string {
+  const apiError = err as ApiError;
+  switch (apiError?.code) {
+    case 'WEAK_PASSWORD':
+      return describePasswordViolations(apiError.violations);
+    case 'QUOTA_EXCEEDED':
+      return 'La organización alcanzó el límite de usuarios de su plan. Pedile a un administrador que libere un lugar.';
+    case 'EMAIL_EXISTS':
+      return 'Ya existe una cuenta con este email. Iniciá sesión.';
+    case 'INVALID_INVITATION':
+      return 'La invitación es inválida o ya venció. Pedí una nueva.';
+    default:
+      return 'No se pudo aceptar la invitación';
+  }
+}
+
+export function AcceptInvitationPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [invitation, setInvitation] = useState<InvitationDetails | null>(null);
+  const [isInvalid, setIsInvalid] = useState(!token);
+  const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+  const { login } = useAuthStore();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<AcceptFormData>({
+    resolver: zodResolver(acceptSchema),
+  });
+
+  useEffect(() => {
+    if (!token) return;
+    authApi
+      .getInvitation(token)
+      .then(setInvitation)
+      .catch(() => setIsInvalid(true));
+  }, [token]);
+
+  const onSubmit = async (data: AcceptFormData) => {
+    if (!token) return;
+    setError(null);
+
+    try {
+      const response = await authApi.acceptInvitation(token, data.name, data.password);
+
+      if ('token' in response) {
+        login(response.user, response.token, response.refreshToken);
+        toast({ title: 'Bienvenido', description: `Hola ${response.user.name}` });
+        navigate('/dashboard');
+      } else {
+        // The account exists now; second-factor steps live in the login flow
+        toast({
+          title: 'Cuenta creada',
+          description: 'Iniciá sesión para completar la verificación en dos pasos',
+        });
+        navigate('/login');
+      }
+    } catch (err) {
+      const apiError = err as ApiError;
+      if (apiError?.code === 'INVALID_INVITATION') setIsInvalid(true);
+      setError(acceptErrorMessage(err));
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-fixly-purple-600 via-fixly-purple-500 to-indigo-500 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-white">Fixly Admin</h1>
+          <p className="text-white/70 mt-2">Invitación</p>
+        </div>
+
+        <Card className="shadow-2xl">
+          <CardHeader className="text-center">
+            <CardTitle>{isInvalid ? 'Invitación inválida' : 'Sumate al equipo'}</CardTitle>
+            <CardDescription>
+              {isInvalid && 'El enlace es inválido, ya fue usado o venció'}
+              {!isInvalid && invitation &&
+                `${invitation.inviterName || 'Un administrador'} te invitó a ${invitation.tenantName || 'Fixly'}`}
+              {!isInvalid && !invitation && 'Cargando invitación...'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {error && (
+              <div className="flex items-center gap-2 p-3 mb-4 text-sm text-red-600 bg-red-50 rounded-lg">
+                <AlertCircle className="h-4 w-4 shrink-0" />
+                {error}
+              </div>
+            )}
+
+            {!isInvalid && invitation && (
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                <div className="space-y-2">
+                  <Label>Email</Label>
+                  <Input value={invitation.email} disabled />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="name">Nombre</Label>
+                  <div className="relative">
+                    <UserIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="name"
+                      autoFocus
+                      placeholder="Tu nombre"
+                      className="pl-9"
+                      {...register('name')}
+                    />
+                  </div>
+                  {errors.name && (
+                    <p className="text-xs text-red-500">{errors.name.message}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="password">Contraseña</Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="password"
+                      type={showPassword ? 'text' : 'password'}
+                      autoComplete="new-password"
+                      placeholder="••••••••"
+                      className="pl-9 pr-10"
+                      {...register('password')}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                    >
+                      {showPassword ? (
+                        <EyeOff className="h-4 w-4" />
+                      ) : (
+                        <Eye className="h-4 w-4" />
+                      )}
+                    </button>
+                  </div>
+                  {errors.password && (
+                    <p className="text-xs text-red-500">{errors.password.message}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPassword">Confirmar Contraseña</Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="confirmPassword"
+                      type={showPassword ? 'text' : 'password'}
+                      autoComplete="new-password"
+                      placeholder="••••••••"
+                      className="pl-9"
+                      {...register('confirmPassword')}
+                    />
+                  </div>
+                  {errors.confirmPassword && (
+                    <p className="text-xs text-red-500">{errors.confirmPassword.message}</p>
+                  )}
+                </div>
+
+                <Button type="submit" className="w-full" disabled={isSubmitting}>
+                  {isSubmitting ? 'Creando cuenta...' : 'Aceptar invitación'}
+                </Button>
+              </form>
+            )}
+
+            {isInvalid && (
+              <p className="text-center text-sm text-gray-500">
+                <Link
+                  to="/login"
+                  className="text-fixly-purple-600 hover:underline font-medium inline-flex items-center gap-1"
+                >
+                  <ArrowLeft className="h-3 w-3" />
+                  Iniciar sesión
+                </Link>
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -94,15 +94,38 @@ const mockAuditLogs: AuditLog[] = [
   },
 ];
 
-const actionLabels: Record<string, { label: string; icon: typeof User; color: string }> = {
+export const actionLabels: Record<string, { label: string; icon: typeof User; color: string }> = {
   'user.login': { label: 'Inicio de sesión', icon: User, color: 'bg-blue-100 text-blue-700' },
   'user.logout': { label: 'Cierre de sesión', icon: User, color: 'bg-gray-100 text-gray-700' },
   'user.created': { label: 'Usuario creado', icon: User, color: 'bg-green-100 text-green-700' },
   'user.updated': { label: 'Usuario actualizado', icon: User, color: 'bg-yellow-100 text-yellow-700' },
   'user.deleted': { label: 'Usuario eliminado', icon: User, color: 'bg-red-100 text-red-700' },
+  'user.impersonation_started': { label: 'Impersonación iniciada', icon: User, color: 'bg-amber-100 text-amber-700' },
+  'user.impersonation_ended': { label: 'Impersonación finalizada', icon: User, color: 'bg-gray-100 text-gray-700' },
+  'user.invited': { label: 'Usuario invitado', icon: User, color: 'bg-blue-100 text-blue-700' },
+  'user.invitation_resent': { label: 'Invitación reenviada', icon: User, color: 'bg-blue-100 text-blue-700' },
+  'user.invitation_revoked': { label: 'Invitación revocada', icon: User, color: 'bg-red-100 text-red-700' },
+  'user.invitation_accepted': { label: 'Invitación aceptada', icon: User, color: 'bg-green-100 text-green-700' },
   'tenant.created': { label: 'Tenant creado', icon: Building2, color: 'bg-green-100 text-green-700' },
   'tenant.updated': { label: 'Tenant actualizado', icon: Building2, color: 'bg-yellow-100 text-yellow-700' },
   'tenant.deleted': { label: 'Tenant eliminado', icon: Building2, color: 'bg-red-100 text-red-700' },
+  'tenant.status_changed': { label: 'Estado de tenant', icon: Building2, color: 'bg-orange-100 text-orange-700' },
+  'tenant.restored': { label: 'Tenant restaurado', icon: Building2, color: 'bg-green-100 text-green-700' },
+  'tenant.purged': { label: 'Tenant purgado', icon: Building2, color: 'bg-red-100 text-red-700' },
+  'tenant.export_requested': { label: 'Exportación solicitada', icon: Building2, color: 'bg-blue-100 text-blue-700' },
+  'tenant.export_downloaded': { label: 'Exportación descargada', icon: Building2, color: 'bg-blue-100 text-blue-700' },
+  'tenant.imported': { label: 'Tenants importados', icon: Building2, color: 'bg-green-100 text-green-700' },
+  'tenant.note_created': { label: 'Nota agregada', icon: Building2, color: 'bg-blue-100 text-blue-700' },
+  'tenant.note_updated': { label: 'Nota actualizada', icon: Building2, color: 'bg-yellow-100 text-yellow-700' },
+  'tenant.note_deleted': { label: 'Nota eliminada', icon: Building2, color: 'bg-red-100 text-red-700' },
+  'plan.created': { label: 'Plan creado', icon: Settings, color: 'bg-green-100 text-green-700' },
+  'plan.updated': { label: 'Plan actualizado', icon: Settings, color: 'bg-yellow-100 text-yellow-700' },
+  'plan.deleted': { label: 'Plan eliminado', icon: Settings, color: 'bg-red-100 text-red-700' },
+  'location.created': { label: 'Sucursal creada', icon: Building2, color: 'bg-green-100 text-green-700' },
+  'location.updated': { label: 'Sucursal actualizada', icon: Building2, color: 'bg-yellow-100 text-yellow-700' },
+  'location.deactivated': { label: 'Sucursal desactivada', icon: Building2, color: 'bg-red-100 text-red-700' },
+  'location.activated': { label: 'Sucursal activada', icon: Building2, color: 'bg-green-100 text-green-700' },
+  'location.default_changed': { label: 'Sucursal principal', icon: Building2, color: 'bg-blue-100 text-blue-700' },
   'payment.created': { label: 'Pago registrado', icon: CreditCard, color: 'bg-green-100 text-green-700' },
   'payment.updated': { label: 'Pago actualizado', icon: CreditCard, color: 'bg-yellow-100 text-yellow-700' },
   'payment.refunded': { label: 'Pago reembolsado', icon: CreditCard, color: 'bg-orange-100 text-orange-700' },
@@ -111,6 +134,10 @@ const actionLabels: Record<string, { label: string; icon: typeof User; color: st
   'order.completed': { label: 'Orden completada', icon: ClipboardList, color: 'bg-blue-100 text-blue-700' },
   'settings.updated': { label: 'Configuración actualizada', icon: Settings, color: 'bg-purple-100 text-purple-700' },
   'config.updated': { label: 'Config. actualizada', icon: Settings, color: 'bg-purple-100 text-purple-700' },
+  'config.ip_allowlist_updated': { label: 'IPs permitidas actualizadas', icon: Shield, color: 'bg-purple-100 text-purple-700' },
+  'security.ip_blocked': { label: 'Acceso bloqueado por IP', icon: Shield, color: 'bg-red-100 text-red-700' },
+  'user.login_suspicious': { label: 'Ingreso sospechoso', icon: Shield, color: 'bg-red-100 text-red-700' },
+  'security.login_reviewed': { label: 'Ingreso revisado', icon: Shield, color: 'bg-gray-100 text-gray-700' },
 };
 
 export function AuditPage() {
@@ -169,6 +196,7 @@ export function AuditPage() {
         ID: l.id,
         Usuario: l.userName,
         Email: l.userEmail,
+        Impersonador: l.impersonatorEmail || '',
         Acción: actionLabels[l.action]?.label || l.action,
         Recurso: `${l.resourceType}:${l.resourceId}`,
         IP: l.ipAddress || '',
@@ -201,6 +229,9 @@ export function AuditPage() {
           <div>
             <p className="font-medium text-sm">{row.original.userName}</p>
             <p className="text-xs text-gray-500">{row.original.userEmail}</p>
+            {row.original.impersonatorEmail && (
+              <p className="text-xs text-amber-600">vía {row.original.impersonatorEmail}</p>
+            )}
           </div>
         </div>
       ),
@@ -310,6 +341,8 @@ export function AuditPage() {
                   <SelectItem value="payment.created">Pago registrado</SelectItem>
                   <SelectItem value="payment.refunded">Pago reembolsado</SelectItem>
                   <SelectItem value="config.updated">Config. actualizada</SelectItem>
+                  <SelectItem value="security.ip_blocked">Acceso bloqueado por IP</SelectItem>
+                  <SelectItem value="user.login_suspicious">Ingreso sospechoso</SelectItem>
                 </SelectContent>
               </Select>
               <Input
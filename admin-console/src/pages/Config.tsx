@@ -10,6 +10,13 @@ import {
   Save,
   RefreshCw,
   CheckCircle,
+  KeyRound,
+  Plus,
+  Copy,
+  Lock,
+  Network,
+  Archive,
+  Gauge,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -25,10 +32,21 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
-import { configApi } from '@/services/api';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { TenantExportPanel } from '@/components/modules/TenantExportPanel';
+import { TenantUsageBars } from '@/components/modules/TenantUsageBars';
+import { apiKeysApi, configApi } from '@/services/api';
 import { useAuthStore } from '@/store/auth';
 import { toast } from '@/hooks/use-toast';
-import type { TenantSettings } from '@/types';
+import { formatDate } from '@/lib/utils';
+import type { ApiError, ApiKey, CreatedApiKey, PasswordPolicy, TenantSettings } from '@/types';
 
 interface SystemHealth {
   status: string;
@@ -52,12 +70,31 @@ const defaultSettings: TenantSettings = {
   },
 };
 
+// Mirrors the API default for tenants that never saved a policy
+const defaultPasswordPolicy: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: false,
+  requireLowercase: false,
+  requireNumber: false,
+  requireSymbol: false,
+  historyCount: 0,
+  maxAgeDays: 0,
+  blockBreached: true,
+};
+
+const passwordClassRules: { key: keyof PasswordPolicy; label: string }[] = [
+  { key: 'requireUppercase', label: 'Al menos una mayúscula' },
+  { key: 'requireLowercase', label: 'Al menos una minúscula' },
+  { key: 'requireNumber', label: 'Al menos un número' },
+  { key: 'requireSymbol', label: 'Al menos un símbolo' },
+];
+
 export function ConfigPage() {
   const [settings, setSettings] = useState<TenantSettings>(defaultSettings);
   const [systemHealth, setSystemHealth] = useState<SystemHealth | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [isLoadingHealth, setIsLoadingHealth] = useState(false);
-  const { user, isSuperAdmin } = useAuthStore();
+  const { user, isSuperAdmin, hasPermission } = useAuthStore();
 
   const fetchSettings = async () => {
     try {
@@ -124,6 +161,25 @@ export function ConfigPage() {
     }));
   };
 
+  const updateSecurity = (key: keyof NonNullable<TenantSettings['security']>, value: boolean) => {
+    setSettings(prev => ({
+      ...prev,
+      security: { ...prev.security, [key]: value },
+    }));
+  };
+
+  const passwordPolicy = { ...defaultPasswordPolicy, ...settings.security?.passwordPolicy };
+
+  const updatePasswordPolicy = <K extends keyof PasswordPolicy>(key: K, value: PasswordPolicy[K]) => {
+    setSettings(prev => ({
+      ...prev,
+      security: {
+        ...prev.security,
+        passwordPolicy: { ...defaultPasswordPolicy, ...prev.security?.passwordPolicy, [key]: value },
+      },
+    }));
+  };
+
   const updateBranding = (key: keyof typeof settings.branding, value: string) => {
     setSettings(prev => ({
       ...prev,
@@ -156,6 +212,7 @@ export function ConfigPage() {
           <TabsTrigger value="notifications">Notificaciones</TabsTrigger>
           <TabsTrigger value="branding">Branding</TabsTrigger>
           <TabsTrigger value="features">Funcionalidades</TabsTrigger>
+          {user?.tenantId && <TabsTrigger value="api-keys">API Keys</TabsTrigger>}
           {isSuperAdmin() && <TabsTrigger value="system">Sistema</TabsTrigger>}
         </TabsList>
 
@@ -241,10 +298,26 @@ export function ConfigPage() {
                   <div>
                     <Label>Autenticación 2FA</Label>
                     <p className="text-sm text-gray-500">
-                      Requerir verificación en dos pasos
+                      Requerir verificación en dos pasos a los administradores
+                    </p>
+                  </div>
+                  <Switch
+                    checked={settings.security?.requireTwoFactorForAdmins ?? false}
+                    onCheckedChange={(v) => updateSecurity('requireTwoFactorForAdmins', v)}
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <Label>Restringir usuarios sin verificar</Label>
+                    <p className="text-sm text-gray-500">
+                      Bloquear pagos y Mercado Pago hasta que confirmen su email
                     </p>
                   </div>
-                  <Switch />
+                  <Switch
+                    checked={settings.security?.restrictUnverifiedUsers ?? false}
+                    onCheckedChange={(v) => updateSecurity('restrictUnverifiedUsers', v)}
+                  />
                 </div>
 
                 <div className="flex items-center justify-between">
@@ -258,6 +331,113 @@ export function ConfigPage() {
                 </div>
               </CardContent>
             </Card>
+
+            {user?.tenantId && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Lock className="h-5 w-5" />
+                    Política de Contraseñas
+                  </CardTitle>
+                  <CardDescription>
+                    Se aplica al registrarse, cambiar o restablecer la contraseña
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label>Largo mínimo</Label>
+                      <Input
+                        type="number"
+                        min={6}
+                        max={128}
+                        value={passwordPolicy.minLength}
+                        onChange={(e) => updatePasswordPolicy('minLength', Number(e.target.value))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Historial</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={24}
+                        value={passwordPolicy.historyCount}
+                        onChange={(e) => updatePasswordPolicy('historyCount', Number(e.target.value))}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Vence (días)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={730}
+                        value={passwordPolicy.maxAgeDays}
+                        onChange={(e) => updatePasswordPolicy('maxAgeDays', Number(e.target.value))}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Historial: cuántas contraseñas anteriores no se pueden repetir. Vencimiento: 0
+                    para que no venzan nunca.
+                  </p>
+
+                  {passwordClassRules.map((rule) => (
+                    <div key={rule.key} className="flex items-center justify-between">
+                      <Label>{rule.label}</Label>
+                      <Switch
+                        checked={passwordPolicy[rule.key] === true}
+                        onCheckedChange={(v) => updatePasswordPolicy(rule.key, v)}
+                      />
+                    </div>
+                  ))}
+
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <Label>Bloquear contraseñas filtradas</Label>
+                      <p className="text-sm text-gray-500">
+                        Rechazar contraseñas comunes o expuestas en filtraciones
+                      </p>
+                    </div>
+                    <Switch
+                      checked={passwordPolicy.blockBreached}
+                      onCheckedChange={(v) => updatePasswordPolicy('blockBreached', v)}
+                    />
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {user?.tenantId && <IpAllowlistCard tenantId={user.tenantId} />}
+
+            {user?.tenantId && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Gauge className="h-5 w-5" />
+                    Uso del Plan
+                  </CardTitle>
+                  <CardDescription>Usuarios y sucursales en uso frente a los límites de tu plan</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <TenantUsageBars tenantId={user.tenantId} />
+                </CardContent>
+              </Card>
+            )}
+
+            {user?.tenantId && hasPermission('tenants:export') && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Archive className="h-5 w-5" />
+                    Exportar Datos
+                  </CardTitle>
+                  <CardDescription>Descargá una copia de todos los datos de tu organización</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <TenantExportPanel tenantId={user.tenantId} />
+                </CardContent>
+              </Card>
+            )}
           </div>
         </TabsContent>
 
@@ -394,7 +574,9 @@ export function ConfigPage() {
             <CardHeader>
               <CardTitle>Funcionalidades</CardTitle>
               <CardDescription>
-                Habilita o deshabilita funcionalidades del sistema
+                {isSuperAdmin()
+                  ? 'Habilita o deshabilita funcionalidades del sistema'
+                  : 'Las funcionalidades dependen del plan contratado'}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -407,6 +589,7 @@ export function ConfigPage() {
                 </div>
                 <Switch
                   checked={settings.features.inventoryEnabled}
+                  disabled={!isSuperAdmin()}
                   onCheckedChange={(v) => updateFeature('inventoryEnabled', v)}
                 />
               </div>
@@ -420,6 +603,7 @@ export function ConfigPage() {
                 </div>
                 <Switch
                   checked={settings.features.reportsEnabled}
+                  disabled={!isSuperAdmin()}
                   onCheckedChange={(v) => updateFeature('reportsEnabled', v)}
                 />
               </div>
@@ -433,6 +617,7 @@ export function ConfigPage() {
                 </div>
                 <Switch
                   checked={settings.features.multiLocationEnabled}
+                  disabled={!isSuperAdmin()}
                   onCheckedChange={(v) => updateFeature('multiLocationEnabled', v)}
                 />
               </div>
@@ -440,6 +625,13 @@ export function ConfigPage() {
           </Card>
         </TabsContent>
 
+        {/* API Keys for tenant integrations */}
+        {user?.tenantId && (
+          <TabsContent value="api-keys" className="space-y-6">
+            <ApiKeysTab tenantId={user.tenantId} />
+          </TabsContent>
+        )}
+
         {/* System Settings (Super Admin only) */}
         {isSuperAdmin() && (
           <TabsContent value="system" className="space-y-6">
@@ -515,6 +707,8 @@ export function ConfigPage() {
                   </div>
                 </CardContent>
               </Card>
+
+              <IpAllowlistCard tenantId="global" />
             </div>
 
             {/* API Info */}
@@ -545,3 +739,377 @@ export function ConfigPage() {
     </div>
   );
 }
+
+const apiKeyExpiryOptions = [
+  { value: '30', label: '30 días' },
+  { value: '90', label: '90 días' },
+  { value: '365', label: '1 año' },
+  { value: 'never', label: 'Sin vencimiento' },
+];
+
+// Group permission strings by resource (payments:read -> payments)
+function groupScopes(scopes: string[]): Record<string, string[]> {
+  return scopes.reduce<Record<string, string[]>>((groups, scope) => {
+    const [resource] = scope.split(':');
+    (groups[resource] ||= []).push(scope);
+    return groups;
+  }, {});
+}
+
+function ApiKeysTab({ tenantId }: { tenantId: string }) {
+  const { hasPermission } = useAuthStore();
+  const canManage = hasPermission('config:write');
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [availableScopes, setAvailableScopes] = useState<string[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [selectedScopes, setSelectedScopes] = useState<string[]>([]);
+  const [expiresIn, setExpiresIn] = useState('90');
+  const [isCreating, setIsCreating] = useState(false);
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
+
+  const fetchApiKeys = async () => {
+    try {
+      const response = await apiKeysApi.list(tenantId);
+      setApiKeys(response.data);
+      setAvailableScopes(response.availableScopes);
+    } catch (error) {
+      console.error('Error fetching API keys:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchApiKeys();
+  }, [tenantId]);
+
+  const openCreateDialog = () => {
+    setName('');
+    setSelectedScopes([]);
+    setExpiresIn('90');
+    setCreatedKey(null);
+    setIsDialogOpen(true);
+  };
+
+  const toggleScope = (scope: string) => {
+    setSelectedScopes((prev) =>
+      prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]
+    );
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      const created = await apiKeysApi.create({
+        name,
+        scopes: selectedScopes,
+        expiresInDays: expiresIn === 'never' ? null : Number(expiresIn),
+        tenantId,
+      });
+      setCreatedKey(created);
+      fetchApiKeys();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'No se pudo crear la API key',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!confirm(`¿Revocar la API key "${apiKey.name}"? Las integraciones que la usan dejarán de funcionar.`)) {
+      return;
+    }
+    try {
+      await apiKeysApi.revoke(apiKey.id);
+      toast({ title: 'API key revocada' });
+      fetchApiKeys();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'No se pudo revocar la API key',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const copyKey = async () => {
+    if (!createdKey) return;
+    await navigator.clipboard.writeText(createdKey.key);
+    toast({ title: 'API key copiada' });
+  };
+
+  const isExpired = (apiKey: ApiKey) =>
+    !!apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            API Keys
+          </CardTitle>
+          <CardDescription>
+            Credenciales para conectar sistemas contables y otras integraciones
+          </CardDescription>
+        </div>
+        {canManage && (
+          <Button onClick={openCreateDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            Nueva API Key
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {apiKeys.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No hay API keys creadas</p>
+        ) : (
+          apiKeys.map((apiKey) => (
+            <div
+              key={apiKey.id}
+              className="flex items-center justify-between p-4 border rounded-lg"
+            >
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">{apiKey.name}</p>
+                  <span className="font-mono text-xs text-gray-500">{apiKey.prefix}…</span>
+                  {apiKey.revokedAt ? (
+                    <Badge variant="destructive">Revocada</Badge>
+                  ) : isExpired(apiKey) ? (
+                    <Badge variant="secondary">Vencida</Badge>
+                  ) : (
+                    <Badge variant="success">Activa</Badge>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {apiKey.scopes.map((scope) => (
+                    <Badge key={scope} variant="outline" className="font-mono text-xs">
+                      {scope}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-sm text-gray-500">
+                  Creada {formatDate(apiKey.createdAt)}
+                  {' · '}
+                  {apiKey.expiresAt ? `Vence ${formatDate(apiKey.expiresAt)}` : 'Sin vencimiento'}
+                  {' · '}
+                  {apiKey.lastUsedAt ? `Último uso ${formatDate(apiKey.lastUsedAt)}` : 'Nunca usada'}
+                </p>
+              </div>
+              {canManage && !apiKey.revokedAt && (
+                <Button variant="destructive" size="sm" onClick={() => handleRevoke(apiKey)}>
+                  Revocar
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{createdKey ? 'API Key creada' : 'Nueva API Key'}</DialogTitle>
+            <DialogDescription>
+              {createdKey
+                ? 'Copiala ahora: por seguridad no vas a poder verla de nuevo'
+                : 'Elegí solo los permisos que la integración necesita'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {createdKey ? (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Input readOnly value={createdKey.key} className="font-mono text-sm" />
+                <Button variant="outline" size="icon" onClick={copyKey}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-sm text-gray-500">
+                Enviala en el header <span className="font-mono">X-API-Key</span> o como{' '}
+                <span className="font-mono">Authorization: Bearer</span>.
+              </p>
+              <DialogFooter>
+                <Button onClick={() => setIsDialogOpen(false)}>Listo</Button>
+              </DialogFooter>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="apiKeyName">Nombre</Label>
+                <Input
+                  id="apiKeyName"
+                  placeholder="Sistema contable"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Vencimiento</Label>
+                <Select value={expiresIn} onValueChange={setExpiresIn}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {apiKeyExpiryOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Permisos</Label>
+                <div className="grid grid-cols-2 gap-4 p-4 border rounded-lg">
+                  {Object.entries(groupScopes(availableScopes)).map(([resource, scopes]) => (
+                    <div key={resource} className="space-y-1">
+                      <p className="text-sm font-medium capitalize">{resource}</p>
+                      {scopes.map((scope) => (
+                        <label key={scope} className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4 accent-fixly-purple-600"
+                            checked={selectedScopes.includes(scope)}
+                            onChange={() => toggleScope(scope)}
+                          />
+                          <span className="font-mono text-xs">{scope}</span>
+                        </label>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancelar
+                </Button>
+                <Button
+                  onClick={handleCreate}
+                  disabled={isCreating || !name.trim() || selectedScopes.length === 0}
+                >
+                  {isCreating ? 'Creando...' : 'Crear API Key'}
+                </Button>
+              </DialogFooter>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
+
+// One CIDR per line; "global" edits the list that applies to superadmins
+function IpAllowlistCard({ tenantId }: { tenantId: string }) {
+  const { hasPermission } = useAuthStore();
+  const canManage = hasPermission('config:write');
+  const isGlobal = tenantId === 'global';
+  const [text, setText] = useState('');
+  const [currentIp, setCurrentIp] = useState<string | null>(null);
+  const [bypassEnabled, setBypassEnabled] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    configApi
+      .getIpAllowlist(tenantId)
+      .then((allowlist) => {
+        setText(allowlist.entries.join('\n'));
+        setCurrentIp(allowlist.currentIp);
+        setBypassEnabled(allowlist.bypassEnabled);
+      })
+      .catch((error) => console.error('Error fetching IP allowlist:', error));
+  }, [tenantId]);
+
+  const entries = text
+    .split(/[\n,]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  const addCurrentIp = () => {
+    if (currentIp && !entries.includes(currentIp)) {
+      setText([...entries, currentIp].join('\n'));
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await configApi.updateIpAllowlist(tenantId, entries);
+      setText(saved.entries.join('\n'));
+      toast({
+        title: 'IPs permitidas guardadas',
+        description: saved.entries.length === 0 ? 'El acceso no está restringido por IP' : undefined,
+      });
+    } catch (error) {
+      const apiError = error as ApiError;
+      toast({
+        title: 'Error',
+        description:
+          apiError?.code === 'INVALID_CIDR'
+            ? `Rangos inválidos: ${apiError.invalid?.join(', ')}`
+            : apiError?.code === 'IP_LOCKOUT'
+              ? `La lista no incluye tu IP actual (${apiError.currentIp || 'desconocida'}); perderías el acceso`
+              : 'No se pudo guardar la lista de IPs',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Network className="h-5 w-5" />
+          {isGlobal ? 'IPs Permitidas (Superadmins)' : 'IPs Permitidas'}
+        </CardTitle>
+        <CardDescription>
+          {isGlobal
+            ? 'Redes desde las que los superadmins pueden usar la consola'
+            : 'Redes desde las que tu equipo puede usar la consola'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <textarea
+          className="flex min-h-[120px] w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50"
+          placeholder={'203.0.113.0/24\n2001:db8::/48'}
+          value={text}
+          disabled={!canManage}
+          onChange={(e) => setText(e.target.value)}
+        />
+        <p className="text-xs text-gray-500">
+          Un rango CIDR o IP por línea. Dejala vacía para permitir cualquier red.
+          {!isGlobal && ' Los superadmins no están alcanzados por esta lista.'}
+        </p>
+        {bypassEnabled && (
+          <p className="text-xs text-amber-700 bg-amber-50 p-2 rounded">
+            El acceso de emergencia está activo: la lista no se está aplicando a los superadmins.
+          </p>
+        )}
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-500">
+            Tu IP: <span className="font-mono">{currentIp || 'desconocida'}</span>
+          </span>
+          {canManage && (
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={addCurrentIp} disabled={!currentIp}>
+                <Plus className="h-4 w-4 mr-1" />
+                Agregar mi IP
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={isSaving}>
+                {isSaving ? 'Guardando...' : 'Guardar'}
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -308,7 +308,7 @@ export function DashboardPage() {
                         className="w-3 h-3 rounded-full"
                         style={{ backgroundColor: PLAN_COLORS[index] }}
                       />
-                      <span className="capitalize">{item.plan}</span>
+                      <span>{item.planName || item.plan}</span>
                     </div>
                     <div className="flex items-center gap-2">
                       <div className="w-32 h-2 bg-gray-100 rounded-full overflow-hidden">
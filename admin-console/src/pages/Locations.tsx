@@ -0,0 +1,324 @@
+import { useEffect, useState } from 'react';
+import { MapPin, Plus, Pencil, Star, Power, PowerOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { locationsApi } from '@/services/api';
+import { useAuthStore } from '@/store/auth';
+import { toast } from '@/hooks/use-toast';
+import { describeQuotaExceeded } from '@/lib/utils';
+import type { ApiError, Location, LocationInput } from '@/types';
+
+const emptyForm: LocationInput = {
+  name: '',
+  address: '',
+  city: '',
+  province: '',
+  postalCode: '',
+  phone: '',
+  email: '',
+};
+
+function locationErrorMessage(error: unknown, fallback: string): string {
+  const apiError = error as ApiError;
+  switch (apiError?.code) {
+    case 'QUOTA_EXCEEDED':
+      return describeQuotaExceeded(apiError.quota);
+    case 'FEATURE_DISABLED':
+      return 'Tu plan no incluye sucursales múltiples. Contactá a soporte para cambiar de plan.';
+    case 'DEFAULT_LOCATION':
+      return 'No se puede desactivar la sucursal principal. Elegí otra como principal primero.';
+    default:
+      return fallback;
+  }
+}
+
+export function LocationsPage() {
+  const { user, hasPermission } = useAuthStore();
+  const canManage = hasPermission('config:write');
+  // Platform users pick the tenant; everyone else sees their own
+  const [tenantId, setTenantId] = useState(user?.tenantId || '');
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [multiLocationEnabled, setMultiLocationEnabled] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<Location | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<LocationInput>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchLocations = async () => {
+    if (!tenantId) {
+      setLocations([]);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const response = await locationsApi.list({ tenantId: user?.tenantId ? undefined : tenantId, all: true });
+      setLocations(response.data);
+      setMultiLocationEnabled(response.multiLocationEnabled);
+    } catch (error) {
+      console.error('Error fetching locations:', error);
+      setLocations([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchLocations();
+  }, [tenantId]);
+
+  const openCreateDialog = () => {
+    setEditingLocation(null);
+    setForm(emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (location: Location) => {
+    setEditingLocation(location);
+    setForm({
+      name: location.name,
+      address: location.address || '',
+      city: location.city || '',
+      province: location.province || '',
+      postalCode: location.postalCode || '',
+      phone: location.phone || '',
+      email: location.email || '',
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      if (editingLocation) {
+        await locationsApi.update(editingLocation.id, form);
+        toast({ title: 'Sucursal actualizada' });
+      } else {
+        await locationsApi.create({ ...form, tenantId: user?.tenantId ? undefined : tenantId });
+        toast({ title: 'Sucursal creada' });
+      }
+      setIsDialogOpen(false);
+      fetchLocations();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: locationErrorMessage(error, 'No se pudo guardar la sucursal'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (location: Location) => {
+    if (location.active && !confirm(`¿Desactivar ${location.name}? Sus órdenes se conservan.`)) return;
+    try {
+      if (location.active) {
+        await locationsApi.deactivate(location.id);
+        toast({ title: 'Sucursal desactivada' });
+      } else {
+        await locationsApi.activate(location.id);
+        toast({ title: 'Sucursal activada' });
+      }
+      fetchLocations();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: locationErrorMessage(error, 'No se pudo cambiar el estado de la sucursal'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleSetDefault = async (location: Location) => {
+    try {
+      await locationsApi.setDefault(location.id);
+      toast({ title: `${location.name} es ahora la sucursal principal` });
+      fetchLocations();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: locationErrorMessage(error, 'No se pudo cambiar la sucursal principal'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const formField = (field: keyof LocationInput, label: string, type = 'text') => (
+    <div className="space-y-2">
+      <Label htmlFor={`location-${field}`}>{label}</Label>
+      <Input
+        id={`location-${field}`}
+        type={type}
+        value={form[field] || ''}
+        onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <MapPin className="h-7 w-7 text-fixly-purple-600" />
+            Sucursales
+          </h1>
+          <p className="text-gray-500 mt-1">Los talleres de la organización y cuál es la principal</p>
+        </div>
+        {canManage && tenantId && (
+          <Button onClick={openCreateDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            Nueva sucursal
+          </Button>
+        )}
+      </div>
+
+      {!user?.tenantId && (
+        <Card>
+          <CardContent className="p-4">
+            <Input
+              placeholder="Tenant ID"
+              value={tenantId}
+              onChange={(e) => setTenantId(e.target.value.trim())}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      {tenantId && !multiLocationEnabled && (
+        <p className="text-sm text-amber-700 bg-amber-50 p-3 rounded-lg">
+          Las sucursales múltiples no están habilitadas: solo puede haber una sucursal activa.
+        </p>
+      )}
+
+      <Card>
+        <CardContent className="p-0 overflow-x-auto">
+          {isLoading ? (
+            <p className="text-center text-gray-500 py-8">Cargando...</p>
+          ) : locations.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">
+              {tenantId ? 'No hay sucursales' : 'Ingresá un tenant para ver sus sucursales'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sucursal</TableHead>
+                  <TableHead>Dirección</TableHead>
+                  <TableHead>Contacto</TableHead>
+                  <TableHead>Estado</TableHead>
+                  {canManage && <TableHead className="w-32" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {locations.map((location) => (
+                  <TableRow key={location.id} className={location.active ? undefined : 'opacity-60'}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium text-gray-900">{location.name}</p>
+                        {location.isDefault && <Badge variant="secondary">Principal</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {[location.address, location.city, location.province].filter(Boolean).join(', ') || '—'}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">
+                      {[location.phone, location.email].filter(Boolean).join(' · ') || '—'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={location.active ? 'success' : 'secondary'}>
+                        {location.active ? 'Activa' : 'Inactiva'}
+                      </Badge>
+                    </TableCell>
+                    {canManage && (
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="icon" title="Editar" onClick={() => openEditDialog(location)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          {!location.isDefault && location.active && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Marcar como principal"
+                              onClick={() => handleSetDefault(location)}
+                            >
+                              <Star className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {!location.isDefault && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className={location.active ? 'text-red-600' : 'text-green-600'}
+                              title={location.active ? 'Desactivar' : 'Activar'}
+                              onClick={() => handleToggleActive(location)}
+                            >
+                              {location.active ? <PowerOff className="h-4 w-4" /> : <Power className="h-4 w-4" />}
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingLocation ? 'Editar sucursal' : 'Nueva sucursal'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {formField('name', 'Nombre')}
+            {formField('address', 'Dirección')}
+            <div className="grid grid-cols-3 gap-4">
+              {formField('city', 'Ciudad')}
+              {formField('province', 'Provincia')}
+              {formField('postalCode', 'Código postal')}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {formField('phone', 'Teléfono')}
+              {formField('email', 'Email', 'email')}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={!form.name.trim() || isSaving}>
+              {isSaving ? 'Guardando...' : editingLocation ? 'Guardar' : 'Crear'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Eye, EyeOff, Lock, User, AlertCircle } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Eye, EyeOff, Lock, User, AlertCircle, ShieldCheck, KeyRound } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -11,6 +12,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { useAuthStore } from '@/store/auth';
 import { authApi } from '@/services/api';
 import { toast } from '@/hooks/use-toast';
+import { describePasswordViolations } from '@/lib/utils';
+import type { ApiError, AuthResponse, LoginResponse, TwoFactorSetup } from '@/types';
 
 const loginSchema = z.object({
   username: z.string().min(1, 'El usuario es requerido'),
@@ -19,10 +22,55 @@ const loginSchema = z.object({
 
 type LoginFormData = z.infer<typeof loginSchema>;
 
+// credentials -> [password-change] -> (totp | enroll) -> recovery-codes (only after enrolling)
+type LoginStep = 'credentials' | 'password-change' | 'totp' | 'enroll' | 'recovery-codes';
+
+const twoFactorErrors: Record<string, string> = {
+  INVALID_2FA_CODE: 'Código de verificación inválido',
+  CHALLENGE_EXPIRED: 'La verificación expiró, volvé a iniciar sesión',
+};
+
+// Minutes left before the API accepts another attempt, rounded up
+function formatRetryAfter(seconds?: number): string {
+  const minutes = Math.max(1, Math.ceil((seconds ?? 60) / 60));
+  return minutes === 1 ? '1 minuto' : `${minutes} minutos`;
+}
+
+function loginErrorMessage(err: unknown): string {
+  const apiError = err as ApiError;
+  switch (apiError?.code) {
+    case 'INVALID_CREDENTIALS':
+      return 'Usuario o contraseña incorrectos';
+    case 'ACCOUNT_LOCKED':
+      return `Cuenta bloqueada temporalmente por demasiados intentos fallidos. Probá de nuevo en ${formatRetryAfter(apiError.retryAfter)}.`;
+    case 'TOO_MANY_ATTEMPTS':
+      return `Demasiados intentos desde esta red. Probá de nuevo en ${formatRetryAfter(apiError.retryAfter)}.`;
+    default:
+      return 'Error al iniciar sesión';
+  }
+}
+
+function isAuthResponse(response: LoginResponse): response is AuthResponse {
+  return 'token' in response;
+}
+
 export function LoginPage() {
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [searchParams] = useSearchParams();
+  const [error, setError] = useState<string | null>(
+    searchParams.get('blocked') === 'ip'
+      ? 'Tu organización no permite el acceso desde esta red. Conectate desde una IP autorizada.'
+      : null
+  );
+  const [step, setStep] = useState<LoginStep>('credentials');
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [enrollment, setEnrollment] = useState<TwoFactorSetup | null>(null);
+  const [pendingAuth, setPendingAuth] = useState<AuthResponse | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmNewPassword, setConfirmNewPassword] = useState('');
   const navigate = useNavigate();
   const { login } = useAuthStore();
 
@@ -38,21 +86,65 @@ export function LoginPage() {
     },
   });
 
+  const finishLogin = (response: AuthResponse) => {
+    login(response.user, response.token, response.refreshToken);
+    toast({
+      title: 'Bienvenido',
+      description: `Hola ${response.user.name}`,
+      variant: 'default',
+    });
+    navigate('/dashboard');
+  };
+
+  const resetToCredentials = () => {
+    setStep('credentials');
+    setChallengeToken(null);
+    setTwoFactorCode('');
+    setEnrollment(null);
+    setNewPassword('');
+    setConfirmNewPassword('');
+  };
+
+  const handleTwoFactorError = (err: unknown) => {
+    const code = (err as ApiError)?.code;
+    setError(
+      code === 'ACCOUNT_LOCKED'
+        ? loginErrorMessage(err)
+        : twoFactorErrors[code] || 'No se pudo verificar el código'
+    );
+    if (code === 'CHALLENGE_EXPIRED' || code === 'ACCOUNT_LOCKED') {
+      resetToCredentials();
+    }
+  };
+
+  // Either finish or move on to whatever step the API asks for next
+  const handleLoginResponse = async (response: LoginResponse) => {
+    if (isAuthResponse(response)) {
+      finishLogin(response);
+      return;
+    }
+
+    setChallengeToken(response.challengeToken);
+    if ('passwordChangeRequired' in response) {
+      setStep('password-change');
+    } else if (response.twoFactorSetupRequired) {
+      const setup = await authApi.setupTwoFactorLogin(response.challengeToken);
+      setEnrollment(setup);
+      setStep('enroll');
+    } else {
+      setStep('totp');
+    }
+  };
+
   const onSubmit = async (data: LoginFormData) => {
     setIsLoading(true);
     setError(null);
 
     try {
       const response = await authApi.login(data.username, data.password);
-      login(response.user, response.token);
-      toast({
-        title: 'Bienvenido',
-        description: `Hola ${response.user.name}`,
-        variant: 'default',
-      });
-      navigate('/dashboard');
+      await handleLoginResponse(response);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Error al iniciar sesión';
+      const errorMessage = loginErrorMessage(err);
       setError(errorMessage);
       toast({
         title: 'Error',
@@ -64,6 +156,67 @@ export function LoginPage() {
     }
   };
 
+  const onChangeExpiredPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken || !newPassword) return;
+    if (newPassword !== confirmNewPassword) {
+      setError('Las contraseñas no coinciden');
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await authApi.changeExpiredPassword(challengeToken, newPassword);
+      await handleLoginResponse(response);
+    } catch (err) {
+      const apiError = err as ApiError;
+      if (apiError?.code === 'WEAK_PASSWORD') {
+        setError(describePasswordViolations(apiError.violations));
+      } else {
+        handleTwoFactorError(err);
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onVerifyTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken || !twoFactorCode) return;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await authApi.verifyTwoFactor(
+        challengeToken,
+        useRecoveryCode ? { recoveryCode: twoFactorCode } : { code: twoFactorCode }
+      );
+      finishLogin(response);
+    } catch (err) {
+      handleTwoFactorError(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onConfirmEnrollment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken || !twoFactorCode) return;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await authApi.enableTwoFactorLogin(challengeToken, twoFactorCode);
+      setPendingAuth(response);
+      setStep('recovery-codes');
+    } catch (err) {
+      handleTwoFactorError(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-fixly-purple-600 via-fixly-purple-500 to-indigo-500 flex items-center justify-center p-4">
       <div className="w-full max-w-md">
@@ -94,74 +247,242 @@ export function LoginPage() {
         {/* Login Card */}
         <Card className="shadow-2xl">
           <CardHeader className="text-center">
-            <CardTitle>Iniciar Sesión</CardTitle>
-            <CardDescription>Ingresa tus credenciales</CardDescription>
+            <CardTitle>
+              {step === 'credentials' && 'Iniciar Sesión'}
+              {step === 'password-change' && 'Cambiá tu contraseña'}
+              {step === 'totp' && 'Verificación en dos pasos'}
+              {step === 'enroll' && 'Configurar verificación en dos pasos'}
+              {step === 'recovery-codes' && 'Códigos de recuperación'}
+            </CardTitle>
+            <CardDescription>
+              {step === 'credentials' && 'Ingresa tus credenciales'}
+              {step === 'password-change' && 'Tu contraseña venció o un administrador pidió cambiarla'}
+              {step === 'totp' &&
+                (useRecoveryCode
+                  ? 'Ingresa uno de tus códigos de recuperación'
+                  : 'Ingresa el código de tu app de autenticación')}
+              {step === 'enroll' && 'Tu organización requiere 2FA para administradores'}
+              {step === 'recovery-codes' && 'Guárdalos en un lugar seguro, cada uno sirve una sola vez'}
+            </CardDescription>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-              {error && (
-                <div className="flex items-center gap-2 p-3 text-sm text-red-600 bg-red-50 rounded-lg">
-                  <AlertCircle className="h-4 w-4" />
-                  {error}
+            {error && (
+              <div className="flex items-center gap-2 p-3 mb-4 text-sm text-red-600 bg-red-50 rounded-lg">
+                <AlertCircle className="h-4 w-4" />
+                {error}
+              </div>
+            )}
+
+            {step === 'password-change' && (
+              <form onSubmit={onChangeExpiredPassword} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="newPassword">Nueva contraseña</Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="newPassword"
+                      type="password"
+                      autoFocus
+                      autoComplete="new-password"
+                      placeholder="••••••••"
+                      className="pl-9"
+                      value={newPassword}
+                      onChange={(e) => setNewPassword(e.target.value)}
+                    />
+                  </div>
                 </div>
-              )}
-
-              <div className="space-y-2">
-                <Label htmlFor="username">Usuario</Label>
-                <div className="relative">
-                  <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
-                  <Input
-                    id="username"
-                    type="text"
-                    placeholder="admin"
-                    className="pl-9"
-                    {...register('username')}
-                  />
+
+                <div className="space-y-2">
+                  <Label htmlFor="confirmNewPassword">Confirmar contraseña</Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="confirmNewPassword"
+                      type="password"
+                      autoComplete="new-password"
+                      placeholder="••••••••"
+                      className="pl-9"
+                      value={confirmNewPassword}
+                      onChange={(e) => setConfirmNewPassword(e.target.value)}
+                    />
+                  </div>
                 </div>
-                {errors.username && (
-                  <p className="text-xs text-red-500">{errors.username.message}</p>
-                )}
-              </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="password">Contraseña</Label>
-                <div className="relative">
-                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
-                  <Input
-                    id="password"
-                    type={showPassword ? 'text' : 'password'}
-                    placeholder="••••••••"
-                    className="pl-9 pr-10"
-                    {...register('password')}
-                  />
+                <Button type="submit" className="w-full" disabled={isLoading || !newPassword}>
+                  {isLoading ? 'Guardando...' : 'Cambiar y continuar'}
+                </Button>
+
+                <div className="text-right text-sm">
+                  <button
+                    type="button"
+                    className="text-gray-500 hover:underline"
+                    onClick={resetToCredentials}
+                  >
+                    Volver
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {step === 'totp' && (
+              <form onSubmit={onVerifyTwoFactor} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="twoFactorCode">
+                    {useRecoveryCode ? 'Código de recuperación' : 'Código'}
+                  </Label>
+                  <div className="relative">
+                    <ShieldCheck className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="twoFactorCode"
+                      autoFocus
+                      autoComplete="one-time-code"
+                      inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                      placeholder={useRecoveryCode ? 'xxxxx-xxxxx' : '123456'}
+                      className="pl-9"
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <Button type="submit" className="w-full" disabled={isLoading || !twoFactorCode}>
+                  {isLoading ? 'Verificando...' : 'Verificar'}
+                </Button>
+
+                <div className="flex justify-between text-sm">
                   <button
                     type="button"
-                    onClick={() => setShowPassword(!showPassword)}
-                    className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                    className="text-fixly-purple-600 hover:underline"
+                    onClick={() => {
+                      setUseRecoveryCode(!useRecoveryCode);
+                      setTwoFactorCode('');
+                    }}
                   >
-                    {showPassword ? (
-                      <EyeOff className="h-4 w-4" />
-                    ) : (
-                      <Eye className="h-4 w-4" />
-                    )}
+                    {useRecoveryCode ? 'Usar código de la app' : 'Usar código de recuperación'}
                   </button>
+                  <button
+                    type="button"
+                    className="text-gray-500 hover:underline"
+                    onClick={resetToCredentials}
+                  >
+                    Volver
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {step === 'enroll' && enrollment && (
+              <form onSubmit={onConfirmEnrollment} className="space-y-4">
+                <div className="flex justify-center p-4 bg-white border rounded-lg">
+                  <QRCodeSVG value={enrollment.otpauthUrl} size={176} />
                 </div>
-                {errors.password && (
-                  <p className="text-xs text-red-500">{errors.password.message}</p>
-                )}
+                <div className="space-y-1 text-center">
+                  <p className="text-xs text-gray-500">
+                    Escanea el código con Google Authenticator, Authy o similar, o ingresa la clave:
+                  </p>
+                  <p className="font-mono text-sm break-all select-all">{enrollment.secret}</p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="enrollCode">Código de verificación</Label>
+                  <div className="relative">
+                    <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="enrollCode"
+                      autoFocus
+                      autoComplete="one-time-code"
+                      inputMode="numeric"
+                      placeholder="123456"
+                      className="pl-9"
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <Button type="submit" className="w-full" disabled={isLoading || !twoFactorCode}>
+                  {isLoading ? 'Verificando...' : 'Activar y continuar'}
+                </Button>
+              </form>
+            )}
+
+            {step === 'recovery-codes' && pendingAuth && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 rounded-lg font-mono text-sm">
+                  {pendingAuth.recoveryCodes?.map((code) => (
+                    <span key={code} className="text-center">{code}</span>
+                  ))}
+                </div>
+                <Button className="w-full" onClick={() => finishLogin(pendingAuth)}>
+                  Ya los guardé, continuar
+                </Button>
               </div>
+            )}
+
+            {step === 'credentials' && (
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="username">Usuario</Label>
+                  <div className="relative">
+                    <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="username"
+                      type="text"
+                      placeholder="admin"
+                      className="pl-9"
+                      {...register('username')}
+                    />
+                  </div>
+                  {errors.username && (
+                    <p className="text-xs text-red-500">{errors.username.message}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="password">Contraseña</Label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                    <Input
+                      id="password"
+                      type={showPassword ? 'text' : 'password'}
+                      placeholder="••••••••"
+                      className="pl-9 pr-10"
+                      {...register('password')}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                    >
+                      {showPassword ? (
+                        <EyeOff className="h-4 w-4" />
+                      ) : (
+                        <Eye className="h-4 w-4" />
+                      )}
+                    </button>
+                  </div>
+                  {errors.password && (
+                    <p className="text-xs text-red-500">{errors.password.message}</p>
+                  )}
+                  <div className="text-right">
+                    <Link to="/reset-password" className="text-xs text-fixly-purple-600 hover:underline">
+                      ¿Olvidaste tu contraseña?
+                    </Link>
+                  </div>
+                </div>
 
-              <Button type="submit" className="w-full" disabled={isLoading}>
-                {isLoading ? (
-                  <span className="flex items-center gap-2">
-                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                    Iniciando sesión...
-                  </span>
-                ) : (
-                  'Iniciar Sesión'
-                )}
-              </Button>
-            </form>
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading ? (
+                    <span className="flex items-center gap-2">
+                      <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                      Iniciando sesión...
+                    </span>
+                  ) : (
+                    'Iniciar Sesión'
+                  )}
+                </Button>
+              </form>
+            )}
           </CardContent>
         </Card>
 
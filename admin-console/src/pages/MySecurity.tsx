@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ShieldCheck, Monitor, Smartphone, Tablet, MonitorSmartphone, LogOut, MapPin } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { authApi } from '@/services/api';
+import { useAuthStore } from '@/store/auth';
+import { toast } from '@/hooks/use-toast';
+import { describeSession, formatDate, formatRelativeTime } from '@/lib/utils';
+import type { Session } from '@/types';
+
+const deviceIcons: Record<NonNullable<Session['device']>, React.ElementType> = {
+  desktop: Monitor,
+  mobile: Smartphone,
+  tablet: Tablet,
+  unknown: MonitorSmartphone,
+};
+
+export function MySecurityPage() {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { impersonation, logout } = useAuthStore();
+  const navigate = useNavigate();
+
+  const fetchSessions = async () => {
+    setIsLoading(true);
+    try {
+      setSessions(await authApi.mySessions());
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const handleRevoke = async (session: Session) => {
+    if (session.current && !confirm('Esta es la sesión que estás usando. ¿Cerrarla?')) return;
+
+    try {
+      await authApi.revokeMySession(session.id);
+      if (session.current) {
+        logout();
+        navigate('/login');
+        return;
+      }
+      toast({ title: 'Sesión cerrada', description: describeSession(session) });
+      setSessions((prev) => prev.filter((s) => s.id !== session.id));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'No se pudo cerrar la sesión',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    if (!confirm('¿Cerrar todas las demás sesiones? Vas a seguir conectado en este dispositivo.')) return;
+
+    try {
+      const { revokedCount } = await authApi.revokeOtherSessions();
+      toast({
+        title: 'Sesiones cerradas',
+        description: revokedCount === 1 ? 'Se cerró 1 sesión' : `Se cerraron ${revokedCount} sesiones`,
+      });
+      fetchSessions();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'No se pudieron cerrar las sesiones',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const otherSessions = sessions.filter((s) => !s.current).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <ShieldCheck className="h-7 w-7 text-fixly-purple-600" />
+          Mi Seguridad
+        </h1>
+        <p className="text-gray-500 mt-1">Dispositivos donde tu cuenta tiene la sesión iniciada</p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="text-lg">Sesiones activas</CardTitle>
+            <CardDescription>
+              Si no reconocés alguna, cerrala y cambiá tu contraseña
+            </CardDescription>
+          </div>
+          {!impersonation && otherSessions > 0 && (
+            <Button variant="outline" onClick={handleRevokeOthers}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Cerrar las demás
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {isLoading ? (
+            <p className="text-center text-gray-500 py-8">Cargando...</p>
+          ) : sessions.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No hay sesiones activas</p>
+          ) : (
+            sessions.map((session) => {
+              const DeviceIcon = deviceIcons[session.device || 'unknown'];
+              return (
+                <div
+                  key={session.id}
+                  className="flex items-center justify-between p-4 border rounded-lg"
+                >
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-gray-100 rounded-lg">
+                      <DeviceIcon className="h-5 w-5 text-gray-600" />
+                    </div>
+                    <div>
+                      <p className="font-medium flex items-center gap-2">
+                        {describeSession(session)}
+                        {session.current && <Badge variant="success">Este dispositivo</Badge>}
+                        {session.impersonatorId && (
+                          <Badge className="bg-amber-100 text-amber-700">Impersonación</Badge>
+                        )}
+                      </p>
+                      <p className="text-sm text-gray-500 flex items-center gap-1">
+                        {session.location && (
+                          <>
+                            <MapPin className="h-3 w-3" />
+                            {session.location} ·{' '}
+                          </>
+                        )}
+                        IP {session.ipAddress || 'desconocida'} · Activa{' '}
+                        {formatRelativeTime(session.lastActivityAt)}
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        Inició {formatDate(session.createdAt)}
+                      </p>
+                    </div>
+                  </div>
+                  {!impersonation && (
+                    <Button
+                      variant={session.current ? 'outline' : 'destructive'}
+                      size="sm"
+                      onClick={() => handleRevoke(session)}
+                    >
+                      {session.current ? 'Salir' : 'Cerrar'}
+                    </Button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -30,9 +30,10 @@ import {
 import { DataTable } from '@/components/modules/DataTable';
 import { KPICard } from '@/components/modules/KPICard';
 import { StatusBadge } from '@/components/modules/StatusBadge';
-import { operationsApi } from '@/services/api';
+import { locationsApi, operationsApi } from '@/services/api';
+import { useAuthStore } from '@/store/auth';
 import { formatCurrency, formatDate, downloadCSV } from '@/lib/utils';
-import type { Order, OrderStatus } from '@/types';
+import type { Location, Order, OrderStatus } from '@/types';
 
 // Mock data
 const mockOrders: Order[] = [
@@ -120,15 +121,20 @@ const statusLabels: Record<OrderStatus, string> = {
   delivered: 'Entregado',
 };
 
+const emptyFilters = {
+  status: 'all' as 'all' | OrderStatus,
+  tenantId: '',
+  locationId: 'all',
+  dateFrom: '',
+  dateTo: '',
+};
+
 export function OperationsPage() {
+  const { user } = useAuthStore();
   const [orders, setOrders] = useState<Order[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [filters, setFilters] = useState({
-    status: 'all' as 'all' | OrderStatus,
-    tenantId: '',
-    dateFrom: '',
-    dateTo: '',
-  });
+  const [filters, setFilters] = useState(emptyFilters);
   const [pagination, setPagination] = useState({
     pageIndex: 0,
     pageSize: 10,
@@ -150,6 +156,7 @@ export function OperationsPage() {
         pageSize: pagination.pageSize,
         status: filters.status !== 'all' ? filters.status : undefined,
         tenantId: filters.tenantId || undefined,
+        locationId: filters.locationId !== 'all' ? filters.locationId : undefined,
         dateFrom: filters.dateFrom || undefined,
         dateTo: filters.dateTo || undefined,
       });
@@ -176,6 +183,21 @@ export function OperationsPage() {
     fetchOrders();
   }, [pagination.pageIndex, pagination.pageSize, filters]);
 
+  // Locations of the user's tenant, or of the tenant typed in the filter for platform users
+  const locationsTenantId = user?.tenantId || filters.tenantId;
+  useEffect(() => {
+    if (!locationsTenantId) {
+      setLocations([]);
+      return;
+    }
+    locationsApi
+      .list({ tenantId: user?.tenantId ? undefined : locationsTenantId, all: true })
+      .then((response) => setLocations(response.data))
+      .catch(() => setLocations([]));
+  }, [locationsTenantId]);
+
+  const locationName = (id?: string) => locations.find((l) => l.id === id)?.name;
+
   const handleExport = () => {
     downloadCSV(
       orders.map(o => ({
@@ -184,6 +206,7 @@ export function OperationsPage() {
         Teléfono: o.customerPhone || '',
         Vehículo: o.vehicleInfo || '',
         Descripción: o.description,
+        Sucursal: locationName(o.locationId) || o.locationId || '',
         Estado: statusLabels[o.status],
         Total: o.totalAmount,
         Pagado: o.paidAmount,
@@ -216,6 +239,13 @@ export function OperationsPage() {
         </div>
       ),
     },
+    {
+      accessorKey: 'locationId',
+      header: 'Sucursal',
+      cell: ({ row }) => (
+        <span className="text-sm text-gray-600">{locationName(row.original.locationId) || '—'}</span>
+      ),
+    },
     {
       accessorKey: 'description',
       header: 'Descripción',
@@ -312,7 +342,7 @@ export function OperationsPage() {
         <CardContent className="p-4">
           <div className="flex items-center gap-4">
             <Filter className="h-5 w-5 text-gray-400" />
-            <div className="flex-1 grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="flex-1 grid grid-cols-1 md:grid-cols-6 gap-4">
               <Select
                 value={filters.status}
                 onValueChange={(v) => setFilters(f => ({ ...f, status: v as typeof filters.status }))}
@@ -329,11 +359,31 @@ export function OperationsPage() {
                   <SelectItem value="cancelled">Cancelado</SelectItem>
                 </SelectContent>
               </Select>
-              <Input
-                placeholder="Tenant ID"
-                value={filters.tenantId}
-                onChange={(e) => setFilters(f => ({ ...f, tenantId: e.target.value }))}
-              />
+              {!user?.tenantId && (
+                <Input
+                  placeholder="Tenant ID"
+                  value={filters.tenantId}
+                  onChange={(e) => setFilters(f => ({ ...f, tenantId: e.target.value, locationId: 'all' }))}
+                />
+              )}
+              <Select
+                value={filters.locationId}
+                onValueChange={(v) => setFilters(f => ({ ...f, locationId: v }))}
+                disabled={locations.length === 0}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Sucursal" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas las sucursales</SelectItem>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                      {!location.active && ' (inactiva)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Input
                 type="date"
                 value={filters.dateFrom}
@@ -346,7 +396,7 @@ export function OperationsPage() {
               />
               <Button
                 variant="outline"
-                onClick={() => setFilters({ status: 'all', tenantId: '', dateFrom: '', dateTo: '' })}
+                onClick={() => setFilters(emptyFilters)}
               >
                 Limpiar
               </Button>
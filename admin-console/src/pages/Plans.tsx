@@ -0,0 +1,426 @@
+import { useEffect, useState } from 'react';
+import { Package, Plus, Pencil, Trash2, Building2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { plansApi } from '@/services/api';
+import { toast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
+import type { ApiError, Plan, PlanFeatures } from '@/types';
+
+const featureLabels: Record<keyof PlanFeatures, string> = {
+  inventoryEnabled: 'Inventario',
+  reportsEnabled: 'Reportes',
+  multiLocationEnabled: 'Multi-sucursal',
+  mercadoPagoEnabled: 'Mercado Pago',
+  apiKeysEnabled: 'API keys',
+};
+
+interface PlanForm {
+  id: string;
+  name: string;
+  description: string;
+  // Kept as text so an empty field means "not offered"
+  priceMonthly: string;
+  priceYearly: string;
+  currency: string;
+  maxUsers: number;
+  maxLocations: number;
+  features: PlanFeatures;
+  active: boolean;
+  sortOrder: number;
+}
+
+const emptyForm: PlanForm = {
+  id: '',
+  name: '',
+  description: '',
+  priceMonthly: '',
+  priceYearly: '',
+  currency: 'ARS',
+  maxUsers: 5,
+  maxLocations: 1,
+  features: {},
+  active: true,
+  sortOrder: 0,
+};
+
+function formatPrice(price: number | null, currency: string) {
+  return price === null ? '—' : formatCurrency(price, currency);
+}
+
+export function PlansPage() {
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingPlan, setEditingPlan] = useState<Plan | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<PlanForm>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchPlans = async () => {
+    setIsLoading(true);
+    try {
+      const response = await plansApi.list(true);
+      setPlans(response.data);
+    } catch (error) {
+      console.error('Error fetching plans:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPlans();
+  }, []);
+
+  const openCreateDialog = () => {
+    setEditingPlan(null);
+    setForm({ ...emptyForm, sortOrder: plans.length + 1 });
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (plan: Plan) => {
+    setEditingPlan(plan);
+    setForm({
+      id: plan.id,
+      name: plan.name,
+      description: plan.description || '',
+      priceMonthly: plan.priceMonthly === null ? '' : String(plan.priceMonthly),
+      priceYearly: plan.priceYearly === null ? '' : String(plan.priceYearly),
+      currency: plan.currency,
+      maxUsers: plan.maxUsers,
+      maxLocations: plan.maxLocations,
+      features: plan.features,
+      active: plan.active,
+      sortOrder: plan.sortOrder,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const { id, priceMonthly, priceYearly, ...fields } = form;
+    const data = {
+      ...fields,
+      description: fields.description || null,
+      priceMonthly: priceMonthly === '' ? null : Number(priceMonthly),
+      priceYearly: priceYearly === '' ? null : Number(priceYearly),
+    } as Partial<Plan>;
+
+    setIsSaving(true);
+    try {
+      if (editingPlan) {
+        await plansApi.update(editingPlan.id, data);
+        toast({ title: 'Plan actualizado' });
+      } else {
+        await plansApi.create({ ...data, id: id || undefined });
+        toast({ title: 'Plan creado' });
+      }
+      setIsDialogOpen(false);
+      fetchPlans();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description:
+          (error as ApiError)?.code === 'PLAN_EXISTS'
+            ? 'Ya existe un plan con esa clave'
+            : (error as ApiError)?.message || 'No se pudo guardar el plan',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (plan: Plan) => {
+    if (!confirm(`¿Eliminar el plan "${plan.name}"?`)) return;
+    try {
+      await plansApi.delete(plan.id);
+      toast({ title: 'Plan eliminado' });
+      fetchPlans();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description:
+          (error as ApiError)?.code === 'PLAN_IN_USE'
+            ? 'Hay tenants con este plan. Desactivalo para que no se pueda elegir en altas nuevas.'
+            : 'No se pudo eliminar el plan',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const setFeature = (feature: keyof PlanFeatures, value: boolean) =>
+    setForm((prev) => ({ ...prev, features: { ...prev.features, [feature]: value } }));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <Package className="h-7 w-7 text-fixly-purple-600" />
+            Planes
+          </h1>
+          <p className="text-gray-500 mt-1">
+            Precios, límites y funcionalidades de cada plan. Los cambios aplican a los tenants nuevos.
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="h-4 w-4 mr-2" />
+          Nuevo plan
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0 overflow-x-auto">
+          {isLoading ? (
+            <p className="text-center text-gray-500 py-8">Cargando...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Plan</TableHead>
+                  <TableHead>Mensual</TableHead>
+                  <TableHead>Anual</TableHead>
+                  <TableHead>Límites</TableHead>
+                  <TableHead>Funcionalidades</TableHead>
+                  <TableHead>Tenants</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plans.map((plan) => (
+                  <TableRow key={plan.id} className={plan.active ? undefined : 'opacity-60'}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium text-gray-900">{plan.name}</p>
+                        {!plan.active && <Badge variant="secondary">Inactivo</Badge>}
+                      </div>
+                      <p className="font-mono text-xs text-gray-400">{plan.id}</p>
+                      {plan.description && <p className="text-xs text-gray-500">{plan.description}</p>}
+                    </TableCell>
+                    <TableCell>{formatPrice(plan.priceMonthly, plan.currency)}</TableCell>
+                    <TableCell>{formatPrice(plan.priceYearly, plan.currency)}</TableCell>
+                    <TableCell className="text-sm">
+                      {plan.maxUsers} usuarios · {plan.maxLocations} sucursales
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {(Object.keys(featureLabels) as (keyof PlanFeatures)[])
+                          .filter((feature) => plan.features[feature])
+                          .map((feature) => (
+                            <Badge key={feature} variant="outline">
+                              {featureLabels[feature]}
+                            </Badge>
+                          ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <span className="flex items-center gap-1 text-sm text-gray-600">
+                        <Building2 className="h-4 w-4" />
+                        {plan.tenantCount ?? 0}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="icon" title="Editar" onClick={() => openEditDialog(plan)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-red-600"
+                          title="Eliminar"
+                          disabled={!!plan.tenantCount}
+                          onClick={() => handleDelete(plan)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingPlan ? 'Editar plan' : 'Nuevo plan'}</DialogTitle>
+            <DialogDescription>
+              {editingPlan
+                ? 'Los tenants que ya tienen este plan conservan sus límites actuales.'
+                : 'La clave identifica al plan en importaciones y en la API, y no se puede cambiar.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="planName">Nombre</Label>
+                <Input
+                  id="planName"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="planId">Clave</Label>
+                <Input
+                  id="planId"
+                  placeholder="Se genera a partir del nombre"
+                  value={form.id}
+                  disabled={!!editingPlan}
+                  onChange={(e) => setForm({ ...form, id: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="planDescription">Descripción</Label>
+              <Input
+                id="planDescription"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="priceMonthly">Precio mensual</Label>
+                <Input
+                  id="priceMonthly"
+                  type="number"
+                  min={0}
+                  placeholder="No disponible"
+                  value={form.priceMonthly}
+                  onChange={(e) => setForm({ ...form, priceMonthly: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="priceYearly">Precio anual</Label>
+                <Input
+                  id="priceYearly"
+                  type="number"
+                  min={0}
+                  placeholder="No disponible"
+                  value={form.priceYearly}
+                  onChange={(e) => setForm({ ...form, priceYearly: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Moneda</Label>
+                <Select value={form.currency} onValueChange={(v) => setForm({ ...form, currency: v })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="ARS">ARS</SelectItem>
+                    <SelectItem value="USD">USD</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="planMaxUsers">Máx. Usuarios</Label>
+                <Input
+                  id="planMaxUsers"
+                  type="number"
+                  min={1}
+                  value={form.maxUsers}
+                  onChange={(e) => setForm({ ...form, maxUsers: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="planMaxLocations">Máx. Ubicaciones</Label>
+                <Input
+                  id="planMaxLocations"
+                  type="number"
+                  min={1}
+                  value={form.maxLocations}
+                  onChange={(e) => setForm({ ...form, maxLocations: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="planSortOrder">Orden</Label>
+                <Input
+                  id="planSortOrder"
+                  type="number"
+                  value={form.sortOrder}
+                  onChange={(e) => setForm({ ...form, sortOrder: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div>
+                <Label>Funcionalidades</Label>
+                <p className="text-xs text-gray-500 mt-1">Los cambios se aplican a todos los tenants del plan</p>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                {(Object.keys(featureLabels) as (keyof PlanFeatures)[]).map((feature) => (
+                  <div key={feature} className="flex items-center justify-between rounded-lg border p-3">
+                    <span className="text-sm">{featureLabels[feature]}</span>
+                    <Switch
+                      checked={form.features[feature] ?? false}
+                      onCheckedChange={(v) => setFeature(feature, v)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Activo</Label>
+                <p className="text-sm text-gray-500">Los planes inactivos no se ofrecen en altas nuevas</p>
+              </div>
+              <Switch checked={form.active} onCheckedChange={(v) => setForm({ ...form, active: v })} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSave} disabled={!form.name.trim() || isSaving}>
+              {isSaving ? 'Guardando...' : editingPlan ? 'Guardar' : 'Crear'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
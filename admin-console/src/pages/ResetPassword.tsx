@@ -0,0 +1,238 @@
+import { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Eye, EyeOff, Lock, Mail, AlertCircle, ArrowLeft, CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { authApi } from '@/services/api';
+import { toast } from '@/hooks/use-toast';
+import { describePasswordViolations } from '@/lib/utils';
+import type { ApiError } from '@/types';
+
+const requestSchema = z.object({
+  email: z.string().email('Email inválido'),
+});
+
+const newPasswordSchema = z.object({
+  password: z.string().min(8, 'La contraseña debe tener al menos 8 caracteres'),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: 'Las contraseñas no coinciden',
+  path: ['confirmPassword'],
+});
+
+type RequestFormData = z.infer<typeof requestSchema>;
+type NewPasswordFormData = z.infer<typeof newPasswordSchema>;
+
+// Without ?token= the page asks for the email; with it, sets the new password
+export function ResetPasswordPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-fixly-purple-600 via-fixly-purple-500 to-indigo-500 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-white">Fixly Admin</h1>
+          <p className="text-white/70 mt-2">Recuperar acceso</p>
+        </div>
+
+        <Card className="shadow-2xl">
+          {token ? <NewPasswordForm token={token} /> : <RequestResetForm />}
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+function RequestResetForm() {
+  const [isSent, setIsSent] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<RequestFormData>({
+    resolver: zodResolver(requestSchema),
+  });
+
+  const onSubmit = async (data: RequestFormData) => {
+    try {
+      await authApi.resetPassword(data.email);
+      setIsSent(true);
+    } catch {
+      toast({
+        title: 'Error',
+        description: 'No se pudo enviar el email, intenta de nuevo',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <>
+      <CardHeader className="text-center">
+        <CardTitle>¿Olvidaste tu contraseña?</CardTitle>
+        <CardDescription>
+          Te enviaremos un enlace para elegir una nueva
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isSent ? (
+          <div className="space-y-4 text-center">
+            <CheckCircle className="h-10 w-10 text-green-500 mx-auto" />
+            <p className="text-sm text-gray-600">
+              Si el email está registrado, vas a recibir un enlace en los próximos minutos.
+              El enlace vence en una hora.
+            </p>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <div className="relative">
+                <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="tu@email.com"
+                  className="pl-9"
+                  {...register('email')}
+                />
+              </div>
+              {errors.email && (
+                <p className="text-xs text-red-500">{errors.email.message}</p>
+              )}
+            </div>
+
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? 'Enviando...' : 'Enviar enlace'}
+            </Button>
+          </form>
+        )}
+
+        <p className="text-center text-sm text-gray-500 pt-4">
+          <Link to="/login" className="text-fixly-purple-600 hover:underline font-medium inline-flex items-center gap-1">
+            <ArrowLeft className="h-3 w-3" />
+            Volver a iniciar sesión
+          </Link>
+        </p>
+      </CardContent>
+    </>
+  );
+}
+
+function NewPasswordForm({ token }: { token: string }) {
+  const [showPassword, setShowPassword] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<NewPasswordFormData>({
+    resolver: zodResolver(newPasswordSchema),
+  });
+
+  const onSubmit = async (data: NewPasswordFormData) => {
+    setError(null);
+    try {
+      await authApi.confirmResetPassword(token, data.password);
+      toast({
+        title: 'Contraseña actualizada',
+        description: 'Ya podés iniciar sesión con tu nueva contraseña',
+      });
+      navigate('/login');
+    } catch (err) {
+      const apiError = err as ApiError;
+      if (apiError?.code === 'WEAK_PASSWORD') {
+        setError(describePasswordViolations(apiError.violations));
+      } else {
+        setError(
+          apiError?.code === 'INVALID_RESET_TOKEN'
+            ? 'El enlace es inválido o ya venció. Pedí uno nuevo.'
+            : 'No se pudo actualizar la contraseña'
+        );
+      }
+    }
+  };
+
+  return (
+    <>
+      <CardHeader className="text-center">
+        <CardTitle>Nueva contraseña</CardTitle>
+        <CardDescription>Elegí una contraseña nueva para tu cuenta</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {error && (
+            <div className="flex items-center gap-2 p-3 text-sm text-red-600 bg-red-50 rounded-lg">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="password">Contraseña</Label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                id="password"
+                type={showPassword ? 'text' : 'password'}
+                placeholder="••••••••"
+                className="pl-9 pr-10"
+                {...register('password')}
+              />
+              <button
+                type="button"
+                onClick={() => setShowPassword(!showPassword)}
+                className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+              >
+                {showPassword ? (
+                  <EyeOff className="h-4 w-4" />
+                ) : (
+                  <Eye className="h-4 w-4" />
+                )}
+              </button>
+            </div>
+            {errors.password && (
+              <p className="text-xs text-red-500">{errors.password.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="confirmPassword">Confirmar Contraseña</Label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                id="confirmPassword"
+                type={showPassword ? 'text' : 'password'}
+                placeholder="••••••••"
+                className="pl-9"
+                {...register('confirmPassword')}
+              />
+            </div>
+            {errors.confirmPassword && (
+              <p className="text-xs text-red-500">{errors.confirmPassword.message}</p>
+            )}
+          </div>
+
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting ? 'Guardando...' : 'Guardar contraseña'}
+          </Button>
+
+          <p className="text-center text-sm text-gray-500">
+            <Link to="/reset-password" className="text-fixly-purple-600 hover:underline">
+              Pedir un enlace nuevo
+            </Link>
+          </p>
+        </form>
+      </CardContent>
+    </>
+  );
+}
@@ -0,0 +1,291 @@
+import { Fragment, useEffect, useState } from 'react';
+import { ShieldCheck, Copy, Trash2, Users as UsersIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { rolesApi } from '@/services/api';
+import { useAuthStore } from '@/store/auth';
+import { toast } from '@/hooks/use-toast';
+import type { ApiError, Role, UserRole } from '@/types';
+
+const resourceLabels: Record<string, string> = {
+  tenants: 'Tenants',
+  users: 'Usuarios',
+  payments: 'Pagos',
+  operations: 'Operaciones',
+  audit: 'Auditoría',
+  config: 'Configuración',
+  mercadopago: 'Mercado Pago',
+};
+
+const actionLabels: Record<string, string> = {
+  read: 'Ver',
+  write: 'Editar',
+  delete: 'Eliminar',
+  invite: 'Invitar',
+  refund: 'Reembolsar',
+  export: 'Exportar',
+};
+
+// Base roles from least to most privileged; nobody can clone a role above their own
+const baseRoleRank: Record<UserRole, number> = { viewer: 0, operator: 1, admin: 2, superadmin: 3 };
+
+// Group permission strings by resource (payments:read -> payments)
+function groupPermissions(permissions: string[]): [string, string[]][] {
+  const groups = permissions.reduce<Record<string, string[]>>((acc, permission) => {
+    const [resource] = permission.split(':');
+    (acc[resource] ||= []).push(permission);
+    return acc;
+  }, {});
+  return Object.entries(groups);
+}
+
+export function RolesPage() {
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [permissions, setPermissions] = useState<string[]>([]);
+  const [tenantPermissions, setTenantPermissions] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingRoleId, setSavingRoleId] = useState<string | null>(null);
+  const [cloneSource, setCloneSource] = useState<Role | null>(null);
+  const [cloneName, setCloneName] = useState('');
+  const { user, hasPermission } = useAuthStore();
+  // Tenant roles live inside a tenant; without one (platform superadmin) the matrix is read-only
+  const canManage = hasPermission('users:write') && !!user?.tenantId;
+  const canClone = (role: Role) =>
+    role.baseRole !== 'superadmin' && !!user && baseRoleRank[role.baseRole] <= baseRoleRank[user.role];
+
+  const fetchRoles = async () => {
+    setIsLoading(true);
+    try {
+      const response = await rolesApi.list();
+      setRoles(response.data);
+      setPermissions(response.permissions);
+      setTenantPermissions(response.tenantPermissions);
+    } catch (error) {
+      console.error('Error fetching roles:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRoles();
+  }, []);
+
+  // Platform-only permissions are not shown to tenant users at all
+  const visiblePermissions = user?.role === 'superadmin' ? permissions : tenantPermissions;
+
+  const isEditable = (role: Role, permission: string) =>
+    canManage &&
+    !role.isSystem &&
+    tenantPermissions.includes(permission) &&
+    (hasPermission(permission) || role.permissions.includes(permission));
+
+  const togglePermission = async (role: Role, permission: string) => {
+    const nextPermissions = role.permissions.includes(permission)
+      ? role.permissions.filter((p) => p !== permission)
+      : [...role.permissions, permission];
+
+    setSavingRoleId(role.id);
+    try {
+      const updated = await rolesApi.update(role.id, { permissions: nextPermissions });
+      setRoles((prev) => prev.map((r) => (r.id === role.id ? updated : r)));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'No se pudo actualizar el rol',
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingRoleId(null);
+    }
+  };
+
+  const openCloneDialog = (role: Role) => {
+    setCloneSource(role);
+    setCloneName(`${role.name} (copia)`);
+  };
+
+  const handleClone = async () => {
+    if (!cloneSource) return;
+    try {
+      await rolesApi.clone(cloneSource.id, cloneName);
+      toast({ title: 'Rol creado', description: `Se creó el rol ${cloneName}` });
+      setCloneSource(null);
+      fetchRoles();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as ApiError)?.message || 'No se pudo clonar el rol',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (role: Role) => {
+    if (!confirm(`¿Eliminar el rol "${role.name}"?`)) return;
+    try {
+      await rolesApi.delete(role.id);
+      toast({ title: 'Rol eliminado' });
+      fetchRoles();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description:
+          (error as ApiError)?.code === 'ROLE_IN_USE'
+            ? 'El rol tiene usuarios asignados. Cambiales el rol antes de eliminarlo.'
+            : 'No se pudo eliminar el rol',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+          <ShieldCheck className="h-7 w-7 text-fixly-purple-600" />
+          Roles y Permisos
+        </h1>
+        <p className="text-gray-500 mt-1">
+          Qué puede hacer cada rol. Cloná un rol del sistema para crear uno propio.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-0 overflow-x-auto">
+          {isLoading ? (
+            <p className="text-center text-gray-500 py-8">Cargando...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="min-w-[180px]">Permiso</TableHead>
+                  {roles.map((role) => (
+                    <TableHead key={role.id} className="text-center min-w-[140px] align-top py-3">
+                      <div className="space-y-1">
+                        <p className="font-semibold text-gray-900">{role.name}</p>
+                        <Badge variant={role.isSystem ? 'secondary' : 'outline'}>
+                          {role.isSystem ? 'Sistema' : 'Personalizado'}
+                        </Badge>
+                        <p className="text-xs text-gray-500 flex items-center justify-center gap-1">
+                          <UsersIcon className="h-3 w-3" />
+                          {role.userCount} {role.userCount === 1 ? 'usuario' : 'usuarios'}
+                        </p>
+                        {canManage && (
+                          <div className="flex justify-center gap-1">
+                            {canClone(role) && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                title="Clonar"
+                                onClick={() => openCloneDialog(role)}
+                              >
+                                <Copy className="h-3.5 w-3.5" />
+                              </Button>
+                            )}
+                            {!role.isSystem && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7 text-red-600"
+                                title="Eliminar"
+                                onClick={() => handleDelete(role)}
+                              >
+                                <Trash2 className="h-3.5 w-3.5" />
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groupPermissions(visiblePermissions).map(([resource, group]) => (
+                  <Fragment key={resource}>
+                    <TableRow className="bg-gray-50 hover:bg-gray-50">
+                      <TableCell colSpan={roles.length + 1} className="py-2 font-medium text-gray-700">
+                        {resourceLabels[resource] || resource}
+                      </TableCell>
+                    </TableRow>
+                    {group.map((permission) => (
+                      <TableRow key={permission}>
+                        <TableCell>
+                          <p className="text-sm">{actionLabels[permission.split(':')[1]] || permission}</p>
+                          <p className="font-mono text-xs text-gray-400">{permission}</p>
+                        </TableCell>
+                        {roles.map((role) => (
+                          <TableCell key={role.id} className="text-center">
+                            <input
+                              type="checkbox"
+                              className="h-4 w-4 accent-fixly-purple-600 disabled:opacity-50"
+                              checked={role.permissions.includes(permission)}
+                              disabled={!isEditable(role, permission) || savingRoleId === role.id}
+                              onChange={() => togglePermission(role, permission)}
+                            />
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Clone Dialog */}
+      <Dialog open={!!cloneSource} onOpenChange={(open) => !open && setCloneSource(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Clonar rol</DialogTitle>
+            <DialogDescription>
+              El nuevo rol empieza con los permisos de {cloneSource?.name} y podés ajustarlos en la
+              matriz.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="cloneName">Nombre</Label>
+            <Input
+              id="cloneName"
+              placeholder="Cajero"
+              value={cloneName}
+              onChange={(e) => setCloneName(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCloneSource(null)}>
+              Cancelar
+            </Button>
+            <Button onClick={handleClone} disabled={!cloneName.trim()}>
+              Crear rol
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { ShieldAlert, MapPin, Monitor, CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { securityApi } from '@/services/api';
+import { useAuthStore } from '@/store/auth';
+import { toast } from '@/hooks/use-toast';
+import { formatDate } from '@/lib/utils';
+import type { LoginEvent, LoginEventFilters, LoginRiskFlag, PaginatedResponse } from '@/types';
+
+const riskFlagLabels: Record<LoginRiskFlag, string> = {
+  new_ip: 'IP nueva',
+  new_device: 'Dispositivo nuevo',
+  impossible_travel: 'Viaje imposible',
+  failures_before_success: 'Intentos fallidos previos',
+};
+
+type LoginStatus = NonNullable<LoginEventFilters['status']>;
+
+export function SecurityLoginsPage() {
+  const [events, setEvents] = useState<PaginatedResponse<LoginEvent> | null>(null);
+  const [status, setStatus] = useState<LoginStatus>('open');
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const { hasPermission } = useAuthStore();
+  const canReview = hasPermission('users:write');
+
+  const fetchEvents = async () => {
+    setIsLoading(true);
+    try {
+      setEvents(await securityApi.listLogins({ status, page, pageSize: 20 }));
+    } catch (error) {
+      console.error('Error fetching login events:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEvents();
+  }, [status, page]);
+
+  const handleReview = async (event: LoginEvent) => {
+    try {
+      await securityApi.reviewLogin(event.id);
+      toast({ title: 'Ingreso marcado como revisado' });
+      fetchEvents();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'No se pudo marcar el ingreso como revisado',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const pagination = events?.pagination;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <ShieldAlert className="h-7 w-7 text-fixly-purple-600" />
+            Seguridad
+          </h1>
+          <p className="text-gray-500 mt-1">
+            Ingresos que no se parecen a los anteriores de cada usuario
+          </p>
+        </div>
+        <Select
+          value={status}
+          onValueChange={(value) => {
+            setStatus(value as LoginStatus);
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Sin revisar</SelectItem>
+            <SelectItem value="reviewed">Revisados</SelectItem>
+            <SelectItem value="all">Todos los ingresos</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardContent className="p-6 space-y-3">
+          {isLoading ? (
+            <p className="text-center text-gray-500 py-8">Cargando...</p>
+          ) : !events || events.data.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">
+              {status === 'open' ? 'No hay ingresos sospechosos sin revisar' : 'No hay ingresos'}
+            </p>
+          ) : (
+            events.data.map((event) => (
+              <div
+                key={event.id}
+                className="flex items-center justify-between p-4 border rounded-lg"
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{event.userName}</p>
+                    <span className="text-sm text-gray-500">{event.userEmail}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {event.riskFlags.map((flag) => (
+                      <Badge key={flag} variant="destructive">
+                        {riskFlagLabels[flag] || flag}
+                      </Badge>
+                    ))}
+                    {!event.flagged && <Badge variant="secondary">Normal</Badge>}
+                  </div>
+                  <p className="text-sm text-gray-500 flex items-center gap-1">
+                    <MapPin className="h-3 w-3" />
+                    {[event.city, event.country].filter(Boolean).join(', ') || 'Ubicación desconocida'}
+                    {' · '}IP {event.ipAddress || 'desconocida'}
+                    {' · '}
+                    <Monitor className="h-3 w-3" />
+                    {event.deviceLabel || 'Dispositivo desconocido'}
+                  </p>
+                  <p className="text-xs text-gray-400">
+                    {formatDate(event.createdAt)}
+                    {event.failedAttempts > 0 && ` · ${event.failedAttempts} intentos fallidos antes`}
+                    {event.reviewedAt &&
+                      ` · Revisado por ${event.reviewedByName || 'un administrador'} ${formatDate(event.reviewedAt)}`}
+                  </p>
+                </div>
+                {canReview && event.flagged && !event.reviewedAt && (
+                  <Button variant="outline" size="sm" onClick={() => handleReview(event)}>
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    Revisado
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between pt-2">
+              <span className="text-sm text-gray-500">
+                Página {pagination.page} de {pagination.totalPages}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page <= 1}
+                  onClick={() => setPage(page - 1)}
+                >
+                  Anterior
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page >= pagination.totalPages}
+                  onClick={() => setPage(page + 1)}
+                >
+                  Siguiente
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -11,11 +11,13 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { useAuthStore } from '@/store/auth';
 import { authApi } from '@/services/api';
 import { toast } from '@/hooks/use-toast';
+import { describePasswordViolations } from '@/lib/utils';
+import type { ApiError } from '@/types';
 
 const signupSchema = z.object({
   businessName: z.string().min(2, 'El nombre del taller debe tener al menos 2 caracteres'),
   email: z.string().email('Email inválido'),
-  password: z.string().min(6, 'La contraseña debe tener al menos 6 caracteres'),
+  password: z.string().min(8, 'La contraseña debe tener al menos 8 caracteres'),
   confirmPassword: z.string(),
   phone: z.string().optional(),
 }).refine((data) => data.password === data.confirmPassword, {
@@ -59,7 +61,7 @@ export function SignupPage() {
         phone: data.phone,
       });
 
-      login(response.user, response.token);
+      login(response.user, response.token, response.refreshToken);
 
       toast({
         title: '¡Cuenta creada!',
@@ -71,7 +73,10 @@ export function SignupPage() {
       const appUrl = import.meta.env.VITE_APP_URL || 'https://app.fixlytaller.com';
       window.location.href = `${appUrl}?token=${response.token}`;
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Error al crear la cuenta';
+      const apiError = err as ApiError;
+      const errorMessage = apiError?.code === 'WEAK_PASSWORD'
+        ? describePasswordViolations(apiError.violations)
+        : err instanceof Error ? err.message : 'Error al crear la cuenta';
       setError(errorMessage);
       toast({
         title: 'Error',
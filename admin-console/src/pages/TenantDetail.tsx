@@ -0,0 +1,420 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Building2,
+  StickyNote,
+  Phone,
+  Mail,
+  Users as UsersIcon,
+  CreditCard,
+  CalendarClock,
+  CheckCircle,
+  Trash2,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { StatusBadge } from '@/components/modules/StatusBadge';
+import { TenantUsageBars } from '@/components/modules/TenantUsageBars';
+import { tenantsApi, usersApi } from '@/services/api';
+import { toast } from '@/hooks/use-toast';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import { actionLabels } from './Audit';
+import type { Tenant, TenantNote, TenantNoteType, TenantTimelineItem, User } from '@/types';
+
+const noteTypeLabels: Record<TenantNoteType, string> = {
+  note: 'Nota',
+  call: 'Llamada',
+  email: 'Email',
+  meeting: 'Reunión',
+};
+
+const noteTypeIcons: Record<TenantNoteType, typeof StickyNote> = {
+  note: StickyNote,
+  call: Phone,
+  email: Mail,
+  meeting: UsersIcon,
+};
+
+const emptyNote = {
+  type: 'note' as TenantNoteType,
+  subject: '',
+  body: '',
+  ownerId: '',
+  followUpAt: '',
+};
+
+function isFollowUpPending(note: TenantNote): boolean {
+  return !!note.followUpAt && !note.followUpDoneAt;
+}
+
+// Superadmin view of a tenant: details, usage and the CRM timeline
+export function TenantDetailPage() {
+  const { id = '' } = useParams();
+  const navigate = useNavigate();
+  const [tenant, setTenant] = useState<Tenant | null>(null);
+  const [owners, setOwners] = useState<User[]>([]);
+  const [items, setItems] = useState<TenantTimelineItem[]>([]);
+  const [nextBefore, setNextBefore] = useState<string | null>(null);
+  const [isLoadingTimeline, setIsLoadingTimeline] = useState(false);
+  const [note, setNote] = useState(emptyNote);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchTimeline = async (before?: string) => {
+    setIsLoadingTimeline(true);
+    try {
+      const response = await tenantsApi.timeline(id, before);
+      setItems((prev) => (before ? [...prev, ...response.data] : response.data));
+      setNextBefore(response.nextBefore);
+    } catch (error) {
+      console.error('Error fetching timeline:', error);
+    } finally {
+      setIsLoadingTimeline(false);
+    }
+  };
+
+  useEffect(() => {
+    tenantsApi
+      .get(id)
+      .then(setTenant)
+      .catch((error) => console.error('Error fetching tenant:', error));
+    usersApi
+      .list({ role: 'superadmin', pageSize: 100 })
+      .then((response) => setOwners(response.data))
+      .catch((error) => console.error('Error fetching owners:', error));
+    fetchTimeline();
+  }, [id]);
+
+  const handleAddNote = async () => {
+    setIsSaving(true);
+    try {
+      await tenantsApi.createNote(id, {
+        type: note.type,
+        subject: note.subject || null,
+        body: note.body,
+        ...(note.ownerId ? { ownerId: note.ownerId } : {}),
+        followUpAt: note.followUpAt ? new Date(`${note.followUpAt}T09:00:00`).toISOString() : null,
+      });
+      setNote(emptyNote);
+      toast({ title: 'Nota agregada' });
+      fetchTimeline();
+    } catch (error) {
+      toast({ title: 'Error', description: 'No se pudo guardar la nota', variant: 'destructive' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleFollowUpDone = async (item: TenantNote) => {
+    try {
+      await tenantsApi.updateNote(id, item.id, { followUpDone: true });
+      fetchTimeline();
+    } catch (error) {
+      toast({ title: 'Error', description: 'No se pudo actualizar la nota', variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteNote = async (item: TenantNote) => {
+    if (!confirm('¿Eliminar esta nota?')) return;
+    try {
+      await tenantsApi.deleteNote(id, item.id);
+      setItems((prev) => prev.filter((i) => !(i.kind === 'note' && i.id === item.id)));
+    } catch (error) {
+      toast({ title: 'Error', description: 'No se pudo eliminar la nota', variant: 'destructive' });
+    }
+  };
+
+  const pendingFollowUps = items.filter(
+    (item): item is Extract<TenantTimelineItem, { kind: 'note' }> => item.kind === 'note' && isFollowUpPending(item)
+  );
+
+  const renderItem = (item: TenantTimelineItem) => {
+    if (item.kind === 'note') {
+      const Icon = noteTypeIcons[item.type] || StickyNote;
+      return (
+        <>
+          <div className="h-8 w-8 rounded-full bg-fixly-purple-100 text-fixly-purple-700 flex items-center justify-center shrink-0">
+            <Icon className="h-4 w-4" />
+          </div>
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="flex items-center gap-2 flex-wrap">
+              <Badge variant="outline">{noteTypeLabels[item.type]}</Badge>
+              {item.subject && <p className="font-medium text-gray-900">{item.subject}</p>}
+            </div>
+            <p className="text-sm text-gray-700 whitespace-pre-wrap">{item.body}</p>
+            <p className="text-xs text-gray-500">
+              {item.createdByName || 'Sistema'}
+              {item.ownerName && item.ownerId !== item.createdBy && ` · Responsable: ${item.ownerName}`}
+            </p>
+            {item.followUpAt && (
+              <p
+                className={cn(
+                  'text-xs flex items-center gap-1',
+                  isFollowUpPending(item) ? 'text-amber-700' : 'text-gray-500 line-through'
+                )}
+              >
+                <CalendarClock className="h-3 w-3" />
+                Seguimiento: {formatDate(item.followUpAt, { dateStyle: 'medium' })}
+              </p>
+            )}
+          </div>
+          <div className="flex gap-1 shrink-0">
+            {isFollowUpPending(item) && (
+              <Button variant="ghost" size="icon" title="Marcar seguimiento hecho" onClick={() => handleFollowUpDone(item)}>
+                <CheckCircle className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-red-600"
+              title="Eliminar"
+              onClick={() => handleDeleteNote(item)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </>
+      );
+    }
+
+    if (item.kind === 'payment') {
+      return (
+        <>
+          <div className="h-8 w-8 rounded-full bg-green-100 text-green-700 flex items-center justify-center shrink-0">
+            <CreditCard className="h-4 w-4" />
+          </div>
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="flex items-center gap-2">
+              <p className="font-medium text-gray-900">Pago de {formatCurrency(item.amount, item.currency)}</p>
+              <StatusBadge status={item.status} size="sm" />
+            </div>
+            <p className="text-xs text-gray-500">
+              {[item.payerName, item.paymentMethod, item.description].filter(Boolean).join(' · ')}
+            </p>
+          </div>
+        </>
+      );
+    }
+
+    const config = actionLabels[item.action];
+    const Icon = config?.icon || Building2;
+    return (
+      <>
+        <div
+          className={cn(
+            'h-8 w-8 rounded-full flex items-center justify-center shrink-0',
+            config?.color || 'bg-gray-100 text-gray-700'
+          )}
+        >
+          <Icon className="h-4 w-4" />
+        </div>
+        <div className="flex-1 min-w-0 space-y-1">
+          <p className="font-medium text-gray-900">{config?.label || item.action}</p>
+          <p className="text-xs text-gray-500">
+            {item.userName}
+            {item.impersonatorEmail && ` (por ${item.impersonatorEmail})`}
+          </p>
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" onClick={() => navigate('/tenants')}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <Building2 className="h-7 w-7 text-fixly-purple-600" />
+            {tenant?.name || 'Tenant'}
+            {tenant && <StatusBadge status={tenant.status} />}
+          </h1>
+          {tenant && (
+            <p className="text-gray-500 mt-1">
+              {[tenant.slug, tenant.email, tenant.phone].filter(Boolean).join(' · ')}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-6">
+          {tenant && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Cuenta</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-500">Plan</span>
+                  <span className="font-medium">{tenant.plan}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-500">Alta</span>
+                  <span>{formatDate(tenant.createdAt, { dateStyle: 'medium' })}</span>
+                </div>
+                {tenant.trialEndsAt && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">Fin del trial</span>
+                    <span>{formatDate(tenant.trialEndsAt, { dateStyle: 'medium' })}</span>
+                  </div>
+                )}
+                {tenant.deletedAt && (
+                  <Badge variant="destructive">Eliminación pendiente</Badge>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Uso del plan</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TenantUsageBars tenantId={id} />
+            </CardContent>
+          </Card>
+
+          {pendingFollowUps.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarClock className="h-5 w-5" />
+                  Seguimientos pendientes
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {pendingFollowUps.map((item) => (
+                  <div key={item.id} className="flex justify-between gap-2">
+                    <span className="truncate">{item.subject || item.body}</span>
+                    <span className="text-amber-700 shrink-0">
+                      {formatDate(item.followUpAt!, { dateStyle: 'short' })}
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Nueva nota</CardTitle>
+              <CardDescription>Solo la ve el equipo de Fixly</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Tipo</Label>
+                  <Select value={note.type} onValueChange={(v) => setNote({ ...note, type: v as TenantNoteType })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(noteTypeLabels) as TenantNoteType[]).map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {noteTypeLabels[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Responsable</Label>
+                  <Select value={note.ownerId || 'me'} onValueChange={(v) => setNote({ ...note, ownerId: v === 'me' ? '' : v })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="me">Yo</SelectItem>
+                      {owners.map((owner) => (
+                        <SelectItem key={owner.id} value={owner.id}>
+                          {owner.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="followUpAt">Seguimiento</Label>
+                  <Input
+                    id="followUpAt"
+                    type="date"
+                    value={note.followUpAt}
+                    onChange={(e) => setNote({ ...note, followUpAt: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="noteSubject">Asunto</Label>
+                <Input
+                  id="noteSubject"
+                  value={note.subject}
+                  onChange={(e) => setNote({ ...note, subject: e.target.value })}
+                />
+              </div>
+              <textarea
+                className="flex min-h-[100px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                placeholder="Qué se habló, qué quedó pendiente..."
+                value={note.body}
+                onChange={(e) => setNote({ ...note, body: e.target.value })}
+              />
+              <div className="flex justify-end">
+                <Button onClick={handleAddNote} disabled={!note.body.trim() || isSaving}>
+                  {isSaving ? 'Guardando...' : 'Agregar nota'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Actividad</CardTitle>
+              <CardDescription>Notas, auditoría y pagos del tenant</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {items.length === 0 ? (
+                <p className="text-center text-gray-500 py-8">
+                  {isLoadingTimeline ? 'Cargando...' : 'Todavía no hay actividad'}
+                </p>
+              ) : (
+                <div className="space-y-4">
+                  {items.map((item) => (
+                    <div key={`${item.kind}-${item.id}`} className="flex gap-3">
+                      {renderItem(item)}
+                      <span className="text-xs text-gray-400 shrink-0 w-28 text-right">
+                        {formatDate(item.occurredAt, { dateStyle: 'short', timeStyle: 'short' })}
+                      </span>
+                    </div>
+                  ))}
+                  {nextBefore && (
+                    <div className="flex justify-center">
+                      <Button variant="outline" onClick={() => fetchTimeline(nextBefore)} disabled={isLoadingTimeline}>
+                        {isLoadingTimeline ? 'Cargando...' : 'Ver más'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
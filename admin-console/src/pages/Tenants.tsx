@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -9,9 +10,12 @@ import {
   MoreHorizontal,
   Edit,
   Trash2,
-  Ban,
-  CheckCircle,
   Eye,
+  History,
+  ArrowRight,
+  RotateCcw,
+  Archive,
+  Upload,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -40,25 +44,54 @@ import {
 } from '@/components/ui/select';
 import { DataTable } from '@/components/modules/DataTable';
 import { StatusBadge } from '@/components/modules/StatusBadge';
+import { TenantExportPanel } from '@/components/modules/TenantExportPanel';
+import { TenantImportWizard } from '@/components/modules/TenantImportWizard';
+import { TenantUsageBars } from '@/components/modules/TenantUsageBars';
 import { Badge } from '@/components/ui/badge';
-import { tenantsApi } from '@/services/api';
+import { plansApi, tenantsApi } from '@/services/api';
 import { toast } from '@/hooks/use-toast';
 import { formatDate, getPlanBadgeColor, downloadCSV } from '@/lib/utils';
-import type { Tenant, TenantStatus, TenantPlan } from '@/types';
+import type { ApiError, Plan, Tenant, TenantStatus, TenantStatusHistory } from '@/types';
 
 const tenantSchema = z.object({
   name: z.string().min(2, 'El nombre debe tener al menos 2 caracteres'),
   email: z.string().email('Email inválido'),
   slug: z.string().min(2, 'El slug debe tener al menos 2 caracteres').regex(/^[a-z0-9-]+$/, 'Solo letras minúsculas, números y guiones'),
   phone: z.string().optional(),
-  plan: z.enum(['free', 'starter', 'professional', 'enterprise']),
-  status: z.enum(['active', 'inactive', 'suspended', 'trial']),
+  plan: z.string().min(1, 'Elegí un plan'),
+  // Only used on creation; later changes go through the status dialog
+  status: z.enum(['trial', 'active']),
   maxUsers: z.number().min(1).max(1000),
   maxLocations: z.number().min(1).max(100),
 });
 
 type TenantFormData = z.infer<typeof tenantSchema>;
 
+const statusLabels: Record<TenantStatus, string> = {
+  trial: 'Trial',
+  active: 'Activo',
+  suspended: 'Suspendido',
+  cancelled: 'Cancelado',
+};
+
+const statusSourceLabels: Record<string, string> = {
+  scheduled: 'Automático',
+  system: 'Sistema',
+};
+
+function statusErrorMessage(err: unknown): string {
+  switch ((err as ApiError)?.code) {
+    case 'INVALID_STATUS_TRANSITION':
+      return 'Ese cambio de estado no está permitido';
+    case 'REASON_REQUIRED':
+      return 'Indicá el motivo del cambio';
+    case 'STATUS_CHANGED':
+      return 'El estado cambió mientras tanto. Volvé a abrir el diálogo.';
+    default:
+      return 'No se pudo cambiar el estado';
+  }
+}
+
 // Mock data
 const mockTenants: Tenant[] = [
   {
@@ -121,10 +154,20 @@ const mockTenants: Tenant[] = [
 ];
 
 export function TenantsPage() {
+  const navigate = useNavigate();
   const [tenants, setTenants] = useState<Tenant[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingTenant, setEditingTenant] = useState<Tenant | null>(null);
+  const [statusTenant, setStatusTenant] = useState<Tenant | null>(null);
+  const [statusHistory, setStatusHistory] = useState<TenantStatusHistory | null>(null);
+  const [nextStatus, setNextStatus] = useState<TenantStatus | ''>('');
+  const [statusReason, setStatusReason] = useState('');
+  const [isChangingStatus, setIsChangingStatus] = useState(false);
+  const [showDeleted, setShowDeleted] = useState(false);
+  const [exportTenant, setExportTenant] = useState<Tenant | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [plans, setPlans] = useState<Plan[]>([]);
   const [pagination, setPagination] = useState({
     pageIndex: 0,
     pageSize: 10,
@@ -155,6 +198,7 @@ export function TenantsPage() {
       const response = await tenantsApi.list({
         page: pagination.pageIndex + 1,
         pageSize: pagination.pageSize,
+        deleted: showDeleted || undefined,
       });
       setTenants(response.data);
       setPagination((prev) => ({
@@ -178,19 +222,39 @@ export function TenantsPage() {
 
   useEffect(() => {
     fetchTenants();
-  }, [pagination.pageIndex, pagination.pageSize]);
+  }, [pagination.pageIndex, pagination.pageSize, showDeleted]);
+
+  useEffect(() => {
+    plansApi
+      .list()
+      .then((response) => setPlans(response.data))
+      .catch((error) => console.error('Error fetching plans:', error));
+  }, []);
+
+  // Picking a plan fills in its limits; they can still be changed by hand afterwards
+  const handlePlanChange = (planId: string) => {
+    setValue('plan', planId);
+    const plan = plans.find((p) => p.id === planId);
+    if (plan) {
+      setValue('maxUsers', plan.maxUsers);
+      setValue('maxLocations', plan.maxLocations);
+    }
+  };
+
+  const planName = (planId: string) => plans.find((p) => p.id === planId)?.name || planId;
 
   const openCreateDialog = () => {
     setEditingTenant(null);
+    const defaultPlan = plans.find((p) => p.id === 'starter') || plans[0];
     reset({
       name: '',
       email: '',
       slug: '',
       phone: '',
-      plan: 'starter',
+      plan: defaultPlan?.id || 'starter',
       status: 'active',
-      maxUsers: 5,
-      maxLocations: 1,
+      maxUsers: defaultPlan?.maxUsers ?? 5,
+      maxLocations: defaultPlan?.maxLocations ?? 1,
     });
     setIsDialogOpen(true);
   };
@@ -203,7 +267,8 @@ export function TenantsPage() {
       slug: tenant.slug,
       phone: tenant.phone || '',
       plan: tenant.plan,
-      status: tenant.status,
+      // Not sent on edit; status changes go through the status dialog
+      status: 'active',
       maxUsers: tenant.maxUsers,
       maxLocations: tenant.maxLocations,
     });
@@ -213,7 +278,8 @@ export function TenantsPage() {
   const onSubmit = async (data: TenantFormData) => {
     try {
       if (editingTenant) {
-        await tenantsApi.update(editingTenant.id, data);
+        const { status: _status, ...fields } = data;
+        await tenantsApi.update(editingTenant.id, fields);
         toast({ title: 'Tenant actualizado', variant: 'default' });
       } else {
         await tenantsApi.create(data);
@@ -231,10 +297,18 @@ export function TenantsPage() {
   };
 
   const handleDelete = async (id: string) => {
-    if (!confirm('¿Estás seguro de eliminar este tenant?')) return;
+    if (
+      !confirm(
+        '¿Estás seguro de eliminar este tenant? Sus usuarios perderán el acceso y los datos se borrarán definitivamente al terminar el período de retención.'
+      )
+    ) return;
     try {
-      await tenantsApi.delete(id);
-      toast({ title: 'Tenant eliminado', variant: 'default' });
+      const { purgeAfter } = await tenantsApi.delete(id);
+      toast({
+        title: 'Tenant eliminado',
+        description: `Se puede restaurar hasta el ${formatDate(purgeAfter, { dateStyle: 'medium' })}`,
+        variant: 'default',
+      });
       fetchTenants();
     } catch (error) {
       toast({
@@ -245,31 +319,49 @@ export function TenantsPage() {
     }
   };
 
-  const handleSuspend = async (id: string) => {
+  const handleRestore = async (tenant: Tenant) => {
+    if (!confirm(`¿Restaurar ${tenant.name}? Sus usuarios podrán volver a ingresar.`)) return;
     try {
-      await tenantsApi.suspend(id, 'Suspended by admin');
-      toast({ title: 'Tenant suspendido', variant: 'default' });
+      await tenantsApi.restore(tenant.id);
+      toast({ title: 'Tenant restaurado', variant: 'default' });
       fetchTenants();
     } catch (error) {
       toast({
         title: 'Error',
-        description: 'No se pudo suspender el tenant',
+        description: 'No se pudo restaurar el tenant',
         variant: 'destructive',
       });
     }
   };
 
-  const handleActivate = async (id: string) => {
+  const openStatusDialog = async (tenant: Tenant) => {
+    setStatusTenant(tenant);
+    setStatusHistory(null);
+    setNextStatus('');
+    setStatusReason('');
     try {
-      await tenantsApi.activate(id);
-      toast({ title: 'Tenant activado', variant: 'default' });
+      setStatusHistory(await tenantsApi.statusHistory(tenant.id));
+    } catch (error) {
+      console.error('Error fetching status history:', error);
+    }
+  };
+
+  const handleChangeStatus = async () => {
+    if (!statusTenant || !nextStatus) return;
+    setIsChangingStatus(true);
+    try {
+      await tenantsApi.changeStatus(statusTenant.id, nextStatus, statusReason || undefined);
+      toast({ title: `Tenant ${statusLabels[nextStatus].toLowerCase()}`, variant: 'default' });
+      setStatusTenant(null);
       fetchTenants();
     } catch (error) {
       toast({
         title: 'Error',
-        description: 'No se pudo activar el tenant',
+        description: statusErrorMessage(error),
         variant: 'destructive',
       });
+    } finally {
+      setIsChangingStatus(false);
     }
   };
 
@@ -309,19 +401,32 @@ export function TenantsPage() {
       header: 'Plan',
       cell: ({ row }) => (
         <Badge className={getPlanBadgeColor(row.original.plan)}>
-          {row.original.plan.toUpperCase()}
+          {planName(row.original.plan).toUpperCase()}
         </Badge>
       ),
     },
     {
       accessorKey: 'status',
       header: 'Estado',
-      cell: ({ row }) => <StatusBadge status={row.original.status} />,
+      cell: ({ row }) =>
+        row.original.deletedAt ? (
+          <div className="space-y-1">
+            <Badge variant="destructive">Eliminación pendiente</Badge>
+            {row.original.purgeAfter && (
+              <p className="text-xs text-gray-500">
+                Se purga el {formatDate(row.original.purgeAfter, { dateStyle: 'medium' })}
+              </p>
+            )}
+          </div>
+        ) : (
+          <StatusBadge status={row.original.status} />
+        ),
     },
     {
-      accessorKey: 'maxUsers',
-      header: 'Usuarios',
-      cell: ({ row }) => <span>{row.original.maxUsers} max</span>,
+      id: 'usage',
+      header: 'Uso',
+      cell: ({ row }) =>
+        row.original.deletedAt ? null : <TenantUsageBars tenantId={row.original.id} compact />,
     },
     {
       accessorKey: 'mercadoPagoEnabled',
@@ -340,47 +445,53 @@ export function TenantsPage() {
     },
     {
       id: 'actions',
-      cell: ({ row }) => (
-        <DropdownMenu>
-          <DropdownMenuTrigger asChild>
-            <Button variant="ghost" size="icon">
-              <MoreHorizontal className="h-4 w-4" />
+      cell: ({ row }) =>
+        row.original.deletedAt ? (
+          <div className="flex justify-end gap-1">
+            <Button variant="ghost" size="sm" onClick={() => setExportTenant(row.original)}>
+              <Archive className="h-4 w-4 mr-2" />
+              Exportar
             </Button>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent align="end">
-            <DropdownMenuItem onClick={() => openEditDialog(row.original)}>
-              <Edit className="h-4 w-4 mr-2" />
-              Editar
-            </DropdownMenuItem>
-            <DropdownMenuItem>
-              <Eye className="h-4 w-4 mr-2" />
-              Ver detalles
-            </DropdownMenuItem>
-            <DropdownMenuSeparator />
-            {row.original.status === 'suspended' ? (
-              <DropdownMenuItem onClick={() => handleActivate(row.original.id)}>
-                <CheckCircle className="h-4 w-4 mr-2" />
-                Activar
+            <Button variant="ghost" size="sm" onClick={() => handleRestore(row.original)}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Restaurar
+            </Button>
+          </div>
+        ) : (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon">
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => openEditDialog(row.original)}>
+                <Edit className="h-4 w-4 mr-2" />
+                Editar
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => navigate(`/tenants/${row.original.id}`)}>
+                <Eye className="h-4 w-4 mr-2" />
+                Ver detalles
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => openStatusDialog(row.original)}>
+                <History className="h-4 w-4 mr-2" />
+                Estado e historial
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setExportTenant(row.original)}>
+                <Archive className="h-4 w-4 mr-2" />
+                Exportar datos
               </DropdownMenuItem>
-            ) : (
               <DropdownMenuItem
-                onClick={() => handleSuspend(row.original.id)}
-                className="text-yellow-600"
+                onClick={() => handleDelete(row.original.id)}
+                className="text-red-600"
               >
-                <Ban className="h-4 w-4 mr-2" />
-                Suspender
+                <Trash2 className="h-4 w-4 mr-2" />
+                Eliminar
               </DropdownMenuItem>
-            )}
-            <DropdownMenuItem
-              onClick={() => handleDelete(row.original.id)}
-              className="text-red-600"
-            >
-              <Trash2 className="h-4 w-4 mr-2" />
-              Eliminar
-            </DropdownMenuItem>
-          </DropdownMenuContent>
-        </DropdownMenu>
-      ),
+            </DropdownMenuContent>
+          </DropdownMenu>
+        ),
     },
   ];
 
@@ -395,10 +506,26 @@ export function TenantsPage() {
           </h1>
           <p className="text-gray-500 mt-1">Gestiona los tenants de la plataforma</p>
         </div>
-        <Button onClick={openCreateDialog}>
-          <Plus className="h-4 w-4 mr-2" />
-          Nuevo Tenant
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant={showDeleted ? 'default' : 'outline'}
+            onClick={() => {
+              setShowDeleted(!showDeleted);
+              setPagination((p) => ({ ...p, pageIndex: 0 }));
+            }}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            {showDeleted ? 'Ver activos' : 'Ver eliminados'}
+          </Button>
+          <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Importar CSV
+          </Button>
+          <Button onClick={openCreateDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            Nuevo Tenant
+          </Button>
+        </div>
       </div>
 
       {/* Table */}
@@ -470,39 +597,44 @@ export function TenantsPage() {
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label>Plan</Label>
-                <Select
-                  value={watch('plan')}
-                  onValueChange={(v) => setValue('plan', v as TenantPlan)}
-                >
+                <Select value={watch('plan')} onValueChange={handlePlanChange}>
                   <SelectTrigger>
-                    <SelectValue />
+                    <SelectValue placeholder="Seleccionar plan" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="free">Free</SelectItem>
-                    <SelectItem value="starter">Starter</SelectItem>
-                    <SelectItem value="professional">Professional</SelectItem>
-                    <SelectItem value="enterprise">Enterprise</SelectItem>
+                    {plans.map((plan) => (
+                      <SelectItem key={plan.id} value={plan.id}>
+                        {plan.name}
+                      </SelectItem>
+                    ))}
+                    {/* An inactive plan still shows while editing a tenant that has it */}
+                    {editingTenant && !plans.some((p) => p.id === editingTenant.plan) && (
+                      <SelectItem value={editingTenant.plan}>{editingTenant.plan}</SelectItem>
+                    )}
                   </SelectContent>
                 </Select>
+                {errors.plan && (
+                  <p className="text-xs text-red-500">{errors.plan.message}</p>
+                )}
               </div>
 
-              <div className="space-y-2">
-                <Label>Estado</Label>
-                <Select
-                  value={watch('status')}
-                  onValueChange={(v) => setValue('status', v as TenantStatus)}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="active">Activo</SelectItem>
-                    <SelectItem value="inactive">Inactivo</SelectItem>
-                    <SelectItem value="trial">Trial</SelectItem>
-                    <SelectItem value="suspended">Suspendido</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+              {!editingTenant && (
+                <div className="space-y-2">
+                  <Label>Estado inicial</Label>
+                  <Select
+                    value={watch('status')}
+                    onValueChange={(v) => setValue('status', v as TenantFormData['status'])}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="trial">Trial</SelectItem>
+                      <SelectItem value="active">Activo</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
             </div>
 
             <div className="grid grid-cols-2 gap-4">
@@ -540,6 +672,98 @@ export function TenantsPage() {
           </form>
         </DialogContent>
       </Dialog>
+
+      {/* Status Dialog */}
+      <Dialog open={!!statusTenant} onOpenChange={(open) => !open && setStatusTenant(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Estado de {statusTenant?.name}</DialogTitle>
+            <DialogDescription>
+              {statusTenant?.status === 'trial' && statusTenant.trialEndsAt
+                ? `El trial vence ${formatDate(statusTenant.trialEndsAt)}`
+                : 'Los cambios de estado quedan registrados en el historial'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {statusHistory && statusHistory.allowedTransitions.length > 0 && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Nuevo estado</Label>
+                  <Select value={nextStatus} onValueChange={(v) => setNextStatus(v as TenantStatus)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Elegí un estado" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {statusHistory.allowedTransitions.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {statusLabels[status]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="statusReason">Motivo</Label>
+                  <Input
+                    id="statusReason"
+                    placeholder="Falta de pago"
+                    value={statusReason}
+                    onChange={(e) => setStatusReason(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button onClick={handleChangeStatus} disabled={!nextStatus || isChangingStatus}>
+                  {isChangingStatus ? 'Guardando...' : 'Cambiar estado'}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {!statusHistory ? (
+              <p className="text-center text-gray-500 py-4">Cargando...</p>
+            ) : statusHistory.data.length === 0 ? (
+              <p className="text-center text-gray-500 py-4">Sin cambios registrados</p>
+            ) : (
+              statusHistory.data.map((change) => (
+                <div key={change.id} className="p-3 border rounded-lg space-y-1">
+                  <div className="flex items-center gap-2">
+                    {change.fromStatus && (
+                      <>
+                        <StatusBadge status={change.fromStatus} size="sm" />
+                        <ArrowRight className="h-3 w-3 text-gray-400" />
+                      </>
+                    )}
+                    <StatusBadge status={change.toStatus} size="sm" />
+                  </div>
+                  {change.reason && <p className="text-sm text-gray-700">{change.reason}</p>}
+                  <p className="text-xs text-gray-400">
+                    {formatDate(change.createdAt)} ·{' '}
+                    {change.changedByName || statusSourceLabels[change.source] || 'Sistema'}
+                  </p>
+                </div>
+              ))
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <TenantImportWizard open={isImportOpen} onOpenChange={setIsImportOpen} onImported={fetchTenants} />
+
+      {/* Export Dialog */}
+      <Dialog open={!!exportTenant} onOpenChange={(open) => !open && setExportTenant(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Exportar datos de {exportTenant?.name}</DialogTitle>
+            <DialogDescription>Archivo completo con todos los datos del tenant</DialogDescription>
+          </DialogHeader>
+          {exportTenant && (
+            <TenantExportPanel tenantId={exportTenant.id} tenantName={exportTenant.slug} />
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
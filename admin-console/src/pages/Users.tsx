@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -14,6 +15,10 @@ import {
   Mail,
   Shield,
   MonitorSmartphone,
+  UserCog,
+  RotateCcw,
+  Send,
+  X,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -44,11 +49,20 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { DataTable } from '@/components/modules/DataTable';
 import { StatusBadge } from '@/components/modules/StatusBadge';
 import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { usersApi } from '@/services/api';
 import { useAuthStore } from '@/store/auth';
 import { toast } from '@/hooks/use-toast';
-import { formatDate, getInitials, getRoleBadgeColor, downloadCSV } from '@/lib/utils';
-import type { User, UserRole, Session } from '@/types';
+import {
+  formatDate,
+  getInitials,
+  getRoleBadgeColor,
+  downloadCSV,
+  describePasswordViolations,
+  describeSession,
+  describeQuotaExceeded,
+} from '@/lib/utils';
+import type { ApiError, Invitation, User, UserRole, Session } from '@/types';
 
 const userSchema = z.object({
   name: z.string().min(2, 'El nombre debe tener al menos 2 caracteres'),
@@ -148,7 +162,9 @@ export function UsersPage() {
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [selectedUserSessions, setSelectedUserSessions] = useState<Session[]>([]);
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
-  const { isSuperAdmin } = useAuthStore();
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const { isSuperAdmin, hasPermission, startImpersonation } = useAuthStore();
+  const navigate = useNavigate();
   const [pagination, setPagination] = useState({
     pageIndex: 0,
     pageSize: 10,
@@ -196,10 +212,23 @@ export function UsersPage() {
     }
   };
 
+  const fetchInvitations = async () => {
+    try {
+      const response = await usersApi.listInvitations();
+      setInvitations(response.data);
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+    }
+  };
+
   useEffect(() => {
     fetchUsers();
   }, [pagination.pageIndex, pagination.pageSize]);
 
+  useEffect(() => {
+    fetchInvitations();
+  }, []);
+
   const openCreateDialog = () => {
     setEditingUser(null);
     reset({
@@ -246,9 +275,14 @@ export function UsersPage() {
       setIsDialogOpen(false);
       fetchUsers();
     } catch (error) {
+      const apiError = error as ApiError;
       toast({
         title: 'Error',
-        description: 'No se pudo guardar el usuario',
+        description: apiError?.code === 'WEAK_PASSWORD'
+          ? describePasswordViolations(apiError.violations)
+          : apiError?.code === 'QUOTA_EXCEEDED'
+            ? describeQuotaExceeded(apiError.quota)
+            : 'No se pudo guardar el usuario',
         variant: 'destructive',
       });
     }
@@ -273,8 +307,8 @@ export function UsersPage() {
     try {
       await usersApi.resetPassword(id);
       toast({
-        title: 'Contraseña reseteada',
-        description: 'Se envió un email con la nueva contraseña',
+        title: 'Email enviado',
+        description: 'Se envió un enlace para restablecer la contraseña',
       });
     } catch (error) {
       toast({
@@ -285,6 +319,44 @@ export function UsersPage() {
     }
   };
 
+  const handleImpersonate = async (user: User) => {
+    const reason = prompt(`Motivo para operar como ${user.name}:`);
+    if (!reason?.trim()) return;
+
+    try {
+      const response = await usersApi.impersonate(user.id, reason);
+      startImpersonation(response);
+      toast({
+        title: 'Impersonación iniciada',
+        description: `Ahora estás operando como ${user.name}`,
+      });
+      navigate('/dashboard');
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'No se pudo iniciar la impersonación',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleForcePasswordChange = async (user: User) => {
+    try {
+      await usersApi.update(user.id, { mustChangePassword: true });
+      toast({
+        title: 'Cambio de contraseña requerido',
+        description: `${user.name} deberá elegir una contraseña nueva al iniciar sesión`,
+      });
+      fetchUsers();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'No se pudo actualizar el usuario',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleBlock = async (id: string) => {
     try {
       await usersApi.block(id, 'Blocked by admin');
@@ -322,10 +394,54 @@ export function UsersPage() {
         title: 'Invitación enviada',
         description: `Se envió una invitación a ${email}`,
       });
+      fetchInvitations();
     } catch (error) {
+      const apiError = error as ApiError;
       toast({
         title: 'Error',
-        description: 'No se pudo enviar la invitación',
+        description:
+          apiError?.code === 'USER_EXISTS'
+            ? 'Ya existe un usuario con ese email'
+            : apiError?.code === 'INVITATION_PENDING'
+              ? 'Ya hay una invitación pendiente para ese email. Podés reenviarla.'
+              : apiError?.code === 'QUOTA_EXCEEDED'
+                ? describeQuotaExceeded(apiError.quota)
+                : 'No se pudo enviar la invitación',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleResendInvitation = async (invitation: Invitation) => {
+    try {
+      await usersApi.resendInvitation(invitation.id);
+      toast({
+        title: 'Invitación reenviada',
+        description: `Se envió un nuevo enlace a ${invitation.email}`,
+      });
+      fetchInvitations();
+    } catch (error) {
+      const apiError = error as ApiError;
+      toast({
+        title: 'Error',
+        description: apiError?.code === 'QUOTA_EXCEEDED'
+          ? describeQuotaExceeded(apiError.quota)
+          : 'No se pudo reenviar la invitación',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRevokeInvitation = async (invitation: Invitation) => {
+    if (!confirm(`¿Revocar la invitación de ${invitation.email}?`)) return;
+    try {
+      await usersApi.revokeInvitation(invitation.id);
+      toast({ title: 'Invitación revocada' });
+      setInvitations((prev) => prev.filter((i) => i.id !== invitation.id));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'No se pudo revocar la invitación',
         variant: 'destructive',
       });
     }
@@ -434,6 +550,18 @@ export function UsersPage() {
               <Key className="h-4 w-4 mr-2" />
               Reset contraseña
             </DropdownMenuItem>
+            {!row.original.mustChangePassword && (
+              <DropdownMenuItem onClick={() => handleForcePasswordChange(row.original)}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Forzar cambio de contraseña
+              </DropdownMenuItem>
+            )}
+            {isSuperAdmin() && row.original.role !== 'superadmin' && row.original.active && (
+              <DropdownMenuItem onClick={() => handleImpersonate(row.original)}>
+                <UserCog className="h-4 w-4 mr-2" />
+                Operar como este usuario
+              </DropdownMenuItem>
+            )}
             <DropdownMenuSeparator />
             {row.original.active ? (
               <DropdownMenuItem
@@ -506,6 +634,68 @@ export function UsersPage() {
         }}
       />
 
+      {/* Pending Invitations */}
+      {invitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Mail className="h-5 w-5" />
+              Invitaciones pendientes
+            </CardTitle>
+            <CardDescription>
+              El usuario se crea cuando acepta la invitación y elige su contraseña
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {invitations.map((invitation) => (
+              <div
+                key={invitation.id}
+                className="flex items-center justify-between p-3 border rounded-lg"
+              >
+                <div>
+                  <p className="font-medium flex items-center gap-2">
+                    {invitation.email}
+                    <Badge className={getRoleBadgeColor(invitation.role)}>
+                      {roleLabels[invitation.role]}
+                    </Badge>
+                    {invitation.status === 'expired' && (
+                      <Badge variant="destructive">Vencida</Badge>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {invitation.invitedByName && `Invitado por ${invitation.invitedByName} · `}
+                    Enviada {formatDate(invitation.lastSentAt)}
+                    {invitation.sendCount > 1 && ` (${invitation.sendCount} envíos)`}
+                    {invitation.status === 'pending' && ` · Vence ${formatDate(invitation.expiresAt)}`}
+                  </p>
+                </div>
+                {hasPermission('users:invite') && (
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleResendInvitation(invitation)}
+                    >
+                      <Send className="h-4 w-4 mr-1" />
+                      Reenviar
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-600"
+                      onClick={() => handleRevokeInvitation(invitation)}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      Revocar
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Create/Edit Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
         <DialogContent>
@@ -609,9 +799,15 @@ export function UsersPage() {
                       <MonitorSmartphone className="h-5 w-5 text-gray-600" />
                     </div>
                     <div>
-                      <p className="font-medium">{session.userAgent}</p>
+                      <p className="font-medium flex items-center gap-2">
+                        {describeSession(session)}
+                        {session.impersonatorId && (
+                          <Badge className="bg-amber-100 text-amber-700">Impersonación</Badge>
+                        )}
+                      </p>
                       <p className="text-sm text-gray-500">
-                        IP: {session.ipAddress} - Última actividad:{' '}
+                        IP: {session.ipAddress}
+                        {session.location && ` (${session.location})`} - Última actividad:{' '}
                         {formatDate(session.lastActivityAt)}
                       </p>
                     </div>
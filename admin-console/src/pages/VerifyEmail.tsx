@@ -0,0 +1,84 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { AlertCircle, ArrowLeft, CheckCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAuthStore } from '@/store/auth';
+import { authApi } from '@/services/api';
+
+type Status = 'verifying' | 'verified' | 'invalid';
+
+export function VerifyEmailPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<Status>(token ? 'verifying' : 'invalid');
+  const { user, isAuthenticated, setUser } = useAuthStore();
+  // Tokens are single-use, so avoid confirming twice under StrictMode
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    authApi
+      .verifyEmail(token)
+      .then(() => {
+        setStatus('verified');
+        if (user) setUser({ ...user, emailVerified: true });
+      })
+      .catch(() => setStatus('invalid'));
+  }, [token, user, setUser]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-fixly-purple-600 via-fixly-purple-500 to-indigo-500 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-white">Fixly Admin</h1>
+          <p className="text-white/70 mt-2">Verificación de email</p>
+        </div>
+
+        <Card className="shadow-2xl">
+          <CardHeader className="text-center">
+            <CardTitle>
+              {status === 'verifying' && 'Verificando...'}
+              {status === 'verified' && '¡Email verificado!'}
+              {status === 'invalid' && 'Enlace inválido'}
+            </CardTitle>
+            <CardDescription>
+              {status === 'verifying' && 'Estamos confirmando tu dirección de email'}
+              {status === 'verified' && 'Tu cuenta ya tiene acceso completo'}
+              {status === 'invalid' && 'El enlace es inválido o ya venció'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 text-center">
+            {status === 'verifying' && (
+              <div className="w-10 h-10 border-4 border-fixly-purple-200 border-t-fixly-purple-600 rounded-full animate-spin mx-auto" />
+            )}
+            {status === 'verified' && (
+              <CheckCircle className="h-10 w-10 text-green-500 mx-auto" />
+            )}
+            {status === 'invalid' && (
+              <>
+                <AlertCircle className="h-10 w-10 text-red-500 mx-auto" />
+                <p className="text-sm text-gray-600">
+                  Iniciá sesión y pedí un nuevo enlace desde el aviso en la parte superior.
+                </p>
+              </>
+            )}
+
+            {status !== 'verifying' && (
+              <p className="text-sm text-gray-500 pt-2">
+                <Link
+                  to={isAuthenticated ? '/dashboard' : '/login'}
+                  className="text-fixly-purple-600 hover:underline font-medium inline-flex items-center gap-1"
+                >
+                  <ArrowLeft className="h-3 w-3" />
+                  {isAuthenticated ? 'Ir al panel' : 'Iniciar sesión'}
+                </Link>
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
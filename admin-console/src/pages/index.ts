@@ -1,9 +1,18 @@
 export { LoginPage } from './Login';
 export { SignupPage } from './Signup';
+export { ResetPasswordPage } from './ResetPassword';
+export { VerifyEmailPage } from './VerifyEmail';
+export { AcceptInvitationPage } from './AcceptInvitation';
 export { DashboardPage } from './Dashboard';
 export { TenantsPage } from './Tenants';
+export { TenantDetailPage } from './TenantDetail';
+export { PlansPage } from './Plans';
 export { UsersPage } from './Users';
+export { RolesPage } from './Roles';
 export { PaymentsPage } from './Payments';
 export { OperationsPage } from './Operations';
+export { LocationsPage } from './Locations';
 export { AuditPage } from './Audit';
 export { ConfigPage } from './Config';
+export { MySecurityPage } from './MySecurity';
+export { SecurityLoginsPage } from './SecurityLogins';
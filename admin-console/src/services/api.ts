@@ -2,19 +2,44 @@ import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'ax
 import { useAuthStore } from '@/store/auth';
 import type {
   ApiError,
+  ApiKey,
   AuditFilters,
   AuditLog,
+  AuthResponse,
+  CreatedApiKey,
   DashboardStats,
+  ImpersonationResponse,
+  Invitation,
+  InvitationDetails,
+  IpAllowlist,
+  LoginEvent,
+  LoginEventFilters,
+  LoginResponse,
+  Location,
+  LocationInput,
   MercadoPagoConfig,
   OperationFilters,
   Order,
+  Plan,
   PaginatedResponse,
   Payment,
   PaymentFilters,
+  RefreshResponse,
+  Role,
+  RolesResponse,
   Session,
   Tenant,
+  TenantExport,
   TenantFilters,
+  TenantImportResult,
   TenantSettings,
+  TenantStatus,
+  TenantStatusHistory,
+  TenantUsage,
+  TenantNote,
+  TenantNoteInput,
+  TenantTimelineItem,
+  TwoFactorSetup,
   User,
   UserFilters,
   UserRole,
@@ -32,6 +57,8 @@ function toParams(filters?: unknown): Record<string, unknown> | undefined {
 
 class ApiClient {
   private client: AxiosInstance;
+  // In-flight refresh shared by every request that hit a 401 meanwhile
+  private refreshPromise: Promise<string> | null = null;
 
   constructor() {
     this.client = axios.create({
@@ -61,8 +88,35 @@ class ApiClient {
     // Response interceptor - handle errors
     this.client.interceptors.response.use(
       (response) => response,
-      (error: AxiosError<ApiError>) => {
-        if (error.response?.status === 401) {
+      async (error: AxiosError<ApiError>) => {
+        const originalRequest = error.config as
+          | (InternalAxiosRequestConfig & { _retried?: boolean })
+          | undefined;
+        // Failed login attempts and refreshes also answer 401; never refresh for those
+        const isAuthFlowRequest =
+          originalRequest?.url?.startsWith('/auth/login') ||
+          originalRequest?.url?.startsWith('/auth/refresh');
+
+        if (error.response?.status === 401 && originalRequest && !isAuthFlowRequest) {
+          // Impersonation sessions are never refreshed; fall back to the superadmin's own
+          if (useAuthStore.getState().impersonation) {
+            useAuthStore.getState().stopImpersonation();
+            window.location.href = '/users';
+            return Promise.reject(error);
+          }
+
+          // Expired access token: refresh once and replay the request with the new one
+          if (!originalRequest._retried && useAuthStore.getState().refreshToken) {
+            originalRequest._retried = true;
+            try {
+              const token = await this.refreshAccessToken();
+              originalRequest.headers.Authorization = `Bearer ${token}`;
+              return this.client(originalRequest);
+            } catch {
+              // Refresh token expired, revoked or reused - sign out below
+            }
+          }
+
           useAuthStore.getState().logout();
           window.location.href = '/login';
         }
@@ -83,6 +137,12 @@ class ApiClient {
             );
           }
 
+          // Signed in from a network outside the tenant's (or the global) IP allowlist
+          if (errorCode === 'IP_NOT_ALLOWED') {
+            useAuthStore.getState().logout();
+            window.location.href = '/login?blocked=ip';
+          }
+
           console.error('Access denied:', error.response?.data);
         }
 
@@ -97,6 +157,27 @@ class ApiClient {
           ...(typeof (error.response?.data as any)?.tenantName !== 'undefined'
             ? { tenantName: (error.response?.data as any)?.tenantName }
             : {}),
+          ...(typeof (error.response?.data as any)?.retryAfter !== 'undefined'
+            ? { retryAfter: (error.response?.data as any)?.retryAfter }
+            : {}),
+          ...(typeof (error.response?.data as any)?.violations !== 'undefined'
+            ? { violations: (error.response?.data as any)?.violations }
+            : {}),
+          ...(typeof (error.response?.data as any)?.invalid !== 'undefined'
+            ? { invalid: (error.response?.data as any)?.invalid }
+            : {}),
+          ...(typeof (error.response?.data as any)?.currentIp !== 'undefined'
+            ? { currentIp: (error.response?.data as any)?.currentIp }
+            : {}),
+          ...(typeof (error.response?.data as any)?.missingColumns !== 'undefined'
+            ? { missingColumns: (error.response?.data as any)?.missingColumns }
+            : {}),
+          ...(typeof (error.response?.data as any)?.quota !== 'undefined'
+            ? { quota: (error.response?.data as any)?.quota }
+            : {}),
+          ...(typeof (error.response?.data as any)?.feature !== 'undefined'
+            ? { feature: (error.response?.data as any)?.feature }
+            : {}),
         } as ApiError;
 
         return Promise.reject(apiError);
@@ -105,6 +186,40 @@ class ApiClient {
   }
 
   // Generic request methods
+  // Single-flight refresh: concurrent 401s wait on the same call, so a refresh
+  // token is never presented twice (the API treats that as reuse)
+  private refreshAccessToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.refreshSharedTokens(useAuthStore.getState().token).finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+
+    return this.refreshPromise;
+  }
+
+  // Tabs share the persisted tokens, so only one of them refreshes at a time
+  private async refreshSharedTokens(staleToken: string | null): Promise<string> {
+    if (navigator.locks) {
+      return await navigator.locks.request('fixly-auth-refresh', () => this.refreshStoredTokens(staleToken));
+    }
+    return this.refreshStoredTokens(staleToken);
+  }
+
+  // Another tab may have rotated the tokens already: use what it stored instead of
+  // presenting the refresh token it just spent
+  private async refreshStoredTokens(staleToken: string | null): Promise<string> {
+    await useAuthStore.persist.rehydrate();
+    const { token, refreshToken } = useAuthStore.getState();
+    if (token && token !== staleToken) {
+      return token;
+    }
+
+    const { data } = await axios.post<RefreshResponse>(`${API_BASE_URL}/auth/refresh`, { refreshToken });
+    useAuthStore.getState().setTokens(data.token, data.refreshToken);
+    return data.token;
+  }
+
   async get<T>(url: string, params?: unknown): Promise<T> {
     const response = await this.client.get<T>(url, { params: toParams(params) });
     return response.data;
@@ -129,6 +244,11 @@ class ApiClient {
     const response = await this.client.delete<T>(url);
     return response.data;
   }
+
+  async download(url: string): Promise<Blob> {
+    const response = await this.client.get<Blob>(url, { responseType: 'blob' });
+    return response.data;
+  }
 }
 
 export const api = new ApiClient();
@@ -139,27 +259,97 @@ export const api = new ApiClient();
 export const authApi = {
   // Backend ACTUAL (según tu captura): /auth/login (sin /api)
   login: (username: string, password: string) =>
-    api.post<{ user: User; token: string }>('/auth/login', { username, password }),
+    api.post<LoginResponse>('/auth/login', { username, password }),
+
+  // Segundo paso del login con 2FA (código TOTP o código de recuperación)
+  verifyTwoFactor: (challengeToken: string, data: { code?: string; recoveryCode?: string }) =>
+    api.post<AuthResponse>('/auth/login/2fa', { challengeToken, ...data }),
+
+  // Cambio obligatorio de contraseña (vencida o marcada por un admin); puede seguir con 2FA
+  changeExpiredPassword: (challengeToken: string, newPassword: string) =>
+    api.post<LoginResponse>('/auth/login/change-password', { challengeToken, newPassword }),
+
+  // Enrolamiento obligatorio durante el login
+  setupTwoFactorLogin: (challengeToken: string) =>
+    api.post<TwoFactorSetup>('/auth/login/2fa/setup', { challengeToken }),
+
+  enableTwoFactorLogin: (challengeToken: string, code: string) =>
+    api.post<AuthResponse>('/auth/login/2fa/enable', { challengeToken, code }),
+
+  setupTwoFactor: () => api.post<TwoFactorSetup>('/auth/2fa/setup'),
+
+  enableTwoFactor: (code: string) =>
+    api.post<{ success: boolean; recoveryCodes: string[] }>('/auth/2fa/enable', { code }),
+
+  disableTwoFactor: (password: string, code: string) =>
+    api.post<void>('/auth/2fa/disable', { password, code }),
+
+  regenerateRecoveryCodes: (code: string) =>
+    api.post<{ recoveryCodes: string[] }>('/auth/2fa/recovery-codes', { code }),
 
   logout: () => api.post<void>('/auth/logout'),
 
+  endImpersonation: () => api.post<void>('/auth/impersonation/end'),
+
   me: () => api.get<User>('/auth/me'),
 
-  refreshToken: () => api.post<{ token: string }>('/auth/refresh'),
+  refreshToken: (refreshToken: string) =>
+    api.post<RefreshResponse>('/auth/refresh', { refreshToken }),
 
   resetPassword: (email: string) => api.post<void>('/auth/reset-password', { email }),
 
+  confirmResetPassword: (token: string, newPassword: string) =>
+    api.post<void>('/auth/reset-password/confirm', { token, newPassword }),
+
+  verifyEmail: (token: string) =>
+    api.get<{ success: boolean }>('/auth/verify-email', { token }),
+
+  resendVerification: () => api.post<{ success: boolean }>('/auth/verify-email/resend'),
+
+  // Invitación: datos públicos y aceptación (puede seguir con 2FA)
+  getInvitation: (token: string) => api.get<InvitationDetails>('/auth/invitation', { token }),
+
+  acceptInvitation: (token: string, name: string, password: string) =>
+    api.post<LoginResponse>('/auth/invitation/accept', { token, name, password }),
+
+  // Sesiones propias ("Mi seguridad")
+  mySessions: () => api.get<Session[]>('/auth/sessions'),
+
+  revokeMySession: (sessionId: string) => api.delete<void>(`/auth/sessions/${sessionId}`),
+
+  revokeOtherSessions: () =>
+    api.post<{ success: boolean; revokedCount: number }>('/auth/sessions/revoke-others'),
+
   changePassword: (currentPassword: string, newPassword: string) =>
     api.post<void>('/auth/change-password', { currentPassword, newPassword }),
 
   // Public register - backend nuevo: /auth/public/register
   signup: (data: { email: string; password: string; businessName: string; phone?: string }) =>
-    api.post<{ ok: boolean; message?: string; user?: User; token?: string }>(
+    api.post<{ ok: boolean; message?: string; user?: User; token?: string; refreshToken?: string }>(
       '/auth/public/register',
       data
     ),
 };
 
+// =====================================================
+// ROLES
+// =====================================================
+export const rolesApi = {
+  list: (tenantId?: string) => api.get<RolesResponse>('/api/admin/roles', { tenantId }),
+  create: (data: {
+    name: string;
+    description?: string;
+    baseRole?: UserRole;
+    permissions: string[];
+    tenantId?: string;
+  }) => api.post<Role>('/api/admin/roles', data),
+  clone: (id: string, name: string, tenantId?: string) =>
+    api.post<Role>(`/api/admin/roles/${id}/clone`, { name, tenantId }),
+  update: (id: string, data: Partial<{ name: string; description: string; permissions: string[] }>) =>
+    api.put<Role>(`/api/admin/roles/${id}`, data),
+  delete: (id: string) => api.delete<void>(`/api/admin/roles/${id}`),
+};
+
 // =====================================================
 // DASHBOARD
 // =====================================================
@@ -181,9 +371,53 @@ export const tenantsApi = {
   get: (id: string) => api.get<Tenant>(`/api/admin/tenants/${id}`),
   create: (data: unknown) => api.post<Tenant>('/api/admin/tenants', data),
   update: (id: string, data: unknown) => api.put<Tenant>(`/api/admin/tenants/${id}`, data),
-  delete: (id: string) => api.delete<void>(`/api/admin/tenants/${id}`),
+  delete: (id: string) => api.delete<{ success: boolean; purgeAfter: string }>(`/api/admin/tenants/${id}`),
+  restore: (id: string) => api.post<Tenant>(`/api/admin/tenants/${id}/restore`),
   suspend: (id: string, reason: string) => api.post(`/api/admin/tenants/${id}/suspend`, { reason }),
   activate: (id: string) => api.post(`/api/admin/tenants/${id}/activate`),
+  changeStatus: (id: string, status: TenantStatus, reason?: string) =>
+    api.post<{ success: boolean; status: TenantStatus }>(`/api/admin/tenants/${id}/status`, { status, reason }),
+  statusHistory: (id: string) => api.get<TenantStatusHistory>(`/api/admin/tenants/${id}/status-history`),
+  usage: (id: string) => api.get<TenantUsage>(`/api/admin/tenants/${id}/usage`),
+  listNotes: (id: string) => api.get<{ data: TenantNote[] }>(`/api/admin/tenants/${id}/notes`),
+  createNote: (id: string, data: TenantNoteInput) => api.post<TenantNote>(`/api/admin/tenants/${id}/notes`, data),
+  updateNote: (id: string, noteId: string, data: Partial<TenantNoteInput>) =>
+    api.put<TenantNote>(`/api/admin/tenants/${id}/notes/${noteId}`, data),
+  deleteNote: (id: string, noteId: string) => api.delete<void>(`/api/admin/tenants/${id}/notes/${noteId}`),
+  timeline: (id: string, before?: string) =>
+    api.get<{ data: TenantTimelineItem[]; nextBefore: string | null }>(`/api/admin/tenants/${id}/timeline`, { before }),
+  importCsv: (csv: string, dryRun: boolean) =>
+    api.post<TenantImportResult>('/api/admin/tenants/import', { csv, dryRun }),
+  startExport: (id: string) => api.post<TenantExport>(`/api/admin/tenants/${id}/export`),
+  listExports: (id: string) => api.get<{ data: TenantExport[] }>(`/api/admin/tenants/${id}/exports`),
+  getExport: (id: string, exportId: string) =>
+    api.get<TenantExport>(`/api/admin/tenants/${id}/exports/${exportId}`),
+  downloadExport: (id: string, exportId: string) =>
+    api.download(`/api/admin/tenants/${id}/exports/${exportId}/download`),
+};
+
+// =====================================================
+// PLANS
+// =====================================================
+export const plansApi = {
+  list: (all = false) => api.get<{ data: Plan[] }>('/api/admin/plans', all ? { all: true } : undefined),
+  get: (id: string) => api.get<Plan>(`/api/admin/plans/${id}`),
+  create: (data: Partial<Plan>) => api.post<Plan>('/api/admin/plans', data),
+  update: (id: string, data: Partial<Plan>) => api.put<Plan>(`/api/admin/plans/${id}`, data),
+  delete: (id: string) => api.delete<void>(`/api/admin/plans/${id}`),
+};
+
+// =====================================================
+// LOCATIONS
+// =====================================================
+export const locationsApi = {
+  list: (params?: { tenantId?: string; all?: boolean }) =>
+    api.get<{ data: Location[]; multiLocationEnabled: boolean }>('/api/admin/locations', params),
+  create: (data: LocationInput & { tenantId?: string }) => api.post<Location>('/api/admin/locations', data),
+  update: (id: string, data: Partial<LocationInput>) => api.put<Location>(`/api/admin/locations/${id}`, data),
+  deactivate: (id: string) => api.post(`/api/admin/locations/${id}/deactivate`),
+  activate: (id: string) => api.post(`/api/admin/locations/${id}/activate`),
+  setDefault: (id: string) => api.post(`/api/admin/locations/${id}/default`),
 };
 
 // =====================================================
@@ -198,10 +432,20 @@ export const usersApi = {
   getSessions: (id: string) => api.get<Session[]>(`/api/admin/users/${id}/sessions`),
   terminateSession: (userId: string, sessionId: string) =>
     api.delete<void>(`/api/admin/users/${userId}/sessions/${sessionId}`),
-  resetPassword: (id: string) => api.post<void>(`/api/admin/users/${id}/reset-password`),
+  resetPassword: (id: string) =>
+    api.post<{ success: boolean; message: string; resetUrl?: string }>(
+      `/api/admin/users/${id}/reset-password`
+    ),
+
+  impersonate: (id: string, reason: string) =>
+    api.post<ImpersonationResponse>(`/api/admin/users/${id}/impersonate`, { reason }),
   block: (id: string, reason: string) => api.post<void>(`/api/admin/users/${id}/block`, { reason }),
   unblock: (id: string) => api.post<void>(`/api/admin/users/${id}/unblock`),
-  invite: (data: { email: string; role: UserRole }) => api.post<void>('/api/admin/users/invite', data),
+  invite: (data: { email: string; role: UserRole; roleId?: string }) =>
+    api.post<{ success: boolean; invitationId: string }>('/api/admin/users/invite', data),
+  listInvitations: () => api.get<{ data: Invitation[] }>('/api/admin/users/invitations'),
+  resendInvitation: (id: string) => api.post<void>(`/api/admin/users/invitations/${id}/resend`),
+  revokeInvitation: (id: string) => api.delete<void>(`/api/admin/users/invitations/${id}`),
 };
 
 // =====================================================
@@ -231,6 +475,15 @@ export const auditApi = {
   list: (filters?: AuditFilters) => api.get<PaginatedResponse<AuditLog>>('/api/admin/audit', filters),
 };
 
+// =====================================================
+// SECURITY
+// =====================================================
+export const securityApi = {
+  listLogins: (filters?: LoginEventFilters) =>
+    api.get<PaginatedResponse<LoginEvent>>('/api/admin/security/logins', filters),
+  reviewLogin: (id: string) => api.post<{ success: boolean }>(`/api/admin/security/logins/${id}/review`),
+};
+
 // =====================================================
 // CONFIG
 // =====================================================
@@ -243,6 +496,22 @@ export const configApi = {
     api.get<{ status: string; services: Record<string, { status: string; latency: number }> }>(
       '/api/admin/config/health'
     ),
+  // tenantId "global" is the superadmins' list
+  getIpAllowlist: (tenantId: string) =>
+    api.get<IpAllowlist>(`/api/admin/config/ip-allowlist/${tenantId}`),
+  updateIpAllowlist: (tenantId: string, entries: string[]) =>
+    api.put<IpAllowlist>(`/api/admin/config/ip-allowlist/${tenantId}`, { entries }),
+};
+
+// =====================================================
+// API KEYS
+// =====================================================
+export const apiKeysApi = {
+  list: (tenantId?: string) =>
+    api.get<{ data: ApiKey[]; availableScopes: string[] }>('/api/admin/api-keys', { tenantId }),
+  create: (data: { name: string; scopes: string[]; expiresInDays?: number | null; tenantId?: string }) =>
+    api.post<CreatedApiKey>('/api/admin/api-keys', data),
+  revoke: (id: string) => api.delete<void>(`/api/admin/api-keys/${id}`),
 };
 
 // =====================================================
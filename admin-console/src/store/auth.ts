@@ -1,18 +1,32 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { User, UserRole } from '@/types';
+import type { ImpersonationResponse, Impersonator, User } from '@/types';
+
+// The superadmin's own credentials are parked here while impersonating
+interface ImpersonationState {
+  impersonator: Impersonator;
+  expiresAt: string;
+  originalUser: User;
+  originalToken: string;
+  originalRefreshToken: string | null;
+}
 
 interface AuthState {
   user: User | null;
   token: string | null;
+  refreshToken: string | null;
+  impersonation: ImpersonationState | null;
   isAuthenticated: boolean;
   isLoading: boolean;
 
   // Actions
   setUser: (user: User) => void;
   setToken: (token: string) => void;
-  login: (user: User, token: string) => void;
+  setTokens: (token: string, refreshToken: string) => void;
+  login: (user: User, token: string, refreshToken?: string | null) => void;
   logout: () => void;
+  startImpersonation: (response: ImpersonationResponse) => void;
+  stopImpersonation: () => void;
   setLoading: (loading: boolean) => void;
 
   // Permission helpers
@@ -22,43 +36,13 @@ interface AuthState {
   canAccessTenant: (tenantId: string) => boolean;
 }
 
-// Define permissions for each role
-const rolePermissions: Record<UserRole, string[]> = {
-  superadmin: [
-    'tenants:read', 'tenants:write', 'tenants:delete',
-    'users:read', 'users:write', 'users:delete', 'users:invite',
-    'payments:read', 'payments:refund',
-    'operations:read', 'operations:export',
-    'audit:read', 'audit:export',
-    'config:read', 'config:write',
-    'mercadopago:read', 'mercadopago:write',
-  ],
-  admin: [
-    'users:read', 'users:write', 'users:invite',
-    'payments:read',
-    'operations:read', 'operations:export',
-    'audit:read',
-    'config:read', 'config:write',
-    'mercadopago:read', 'mercadopago:write',
-  ],
-  operator: [
-    'users:read',
-    'payments:read',
-    'operations:read',
-    'audit:read',
-  ],
-  viewer: [
-    'users:read',
-    'payments:read',
-    'operations:read',
-  ],
-};
-
 export const useAuthStore = create<AuthState>()(
   persist(
     (set, get) => ({
       user: null,
       token: null,
+      refreshToken: null,
+      impersonation: null,
       isAuthenticated: false,
       isLoading: true,
 
@@ -66,9 +50,12 @@ export const useAuthStore = create<AuthState>()(
 
       setToken: (token: string) => set({ token }),
 
-      login: (user: User, token: string) => set({
+      setTokens: (token: string, refreshToken: string) => set({ token, refreshToken }),
+
+      login: (user: User, token: string, refreshToken: string | null = null) => set({
         user,
         token,
+        refreshToken,
         isAuthenticated: true,
         isLoading: false,
       }),
@@ -76,10 +63,43 @@ export const useAuthStore = create<AuthState>()(
       logout: () => set({
         user: null,
         token: null,
+        refreshToken: null,
+        impersonation: null,
         isAuthenticated: false,
         isLoading: false,
       }),
 
+      startImpersonation: (response: ImpersonationResponse) => {
+        const { user, token, refreshToken } = get();
+        if (!user || !token) return;
+
+        set({
+          impersonation: {
+            impersonator: response.impersonator,
+            expiresAt: response.expiresAt,
+            originalUser: user,
+            originalToken: token,
+            originalRefreshToken: refreshToken,
+          },
+          user: response.user,
+          token: response.token,
+          // Impersonation sessions cannot be refreshed
+          refreshToken: null,
+        });
+      },
+
+      stopImpersonation: () => {
+        const { impersonation } = get();
+        if (!impersonation) return;
+
+        set({
+          user: impersonation.originalUser,
+          token: impersonation.originalToken,
+          refreshToken: impersonation.originalRefreshToken,
+          impersonation: null,
+        });
+      },
+
       setLoading: (isLoading: boolean) => set({ isLoading }),
 
       isSuperAdmin: () => get().user?.role === 'superadmin',
@@ -89,10 +109,11 @@ export const useAuthStore = create<AuthState>()(
         return role === 'superadmin' || role === 'admin';
       },
 
+      // Effective permissions come from the API (/auth/me and login)
       hasPermission: (permission: string) => {
         const user = get().user;
         if (!user) return false;
-        return rolePermissions[user.role]?.includes(permission) ?? false;
+        return user.permissions?.includes(permission) ?? false;
       },
 
       canAccessTenant: (tenantId: string) => {
@@ -109,6 +130,8 @@ export const useAuthStore = create<AuthState>()(
       partialize: (state) => ({
         user: state.user,
         token: state.token,
+        refreshToken: state.refreshToken,
+        impersonation: state.impersonation,
         isAuthenticated: state.isAuthenticated,
       }),
     }
@@ -10,6 +10,10 @@ export interface User {
   avatar?: string;
   active: boolean;
   emailVerified: boolean;
+  totpEnabled?: boolean;
+  roleId?: string | null;
+  permissions?: string[];
+  mustChangePassword?: boolean;
   lastLoginAt?: string;
   createdAt: string;
   updatedAt: string;
@@ -31,11 +35,82 @@ export interface AuthResponse {
   user: User;
   token: string;
   expiresAt: string;
+  refreshToken: string;
+  refreshExpiresAt: string;
+  recoveryCodes?: string[];
+}
+
+export interface RefreshResponse {
+  token: string;
+  expiresAt: string;
+  refreshToken: string;
+  refreshExpiresAt: string;
+}
+
+// Superadmin acting as another user
+export interface Impersonator {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface ImpersonationResponse {
+  user: User;
+  token: string;
+  expiresAt: string;
+  impersonator: Impersonator;
+}
+
+// Login either completes or asks for a second factor (or forced enrollment)
+export interface TwoFactorChallenge {
+  twoFactorRequired?: boolean;
+  twoFactorSetupRequired?: boolean;
+  challengeToken: string;
+}
+
+// Expired or admin-flagged passwords must be replaced before the login continues
+export interface PasswordChangeChallenge {
+  passwordChangeRequired: true;
+  challengeToken: string;
+}
+
+export type LoginResponse = AuthResponse | TwoFactorChallenge | PasswordChangeChallenge;
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+// ============ INVITATION TYPES ============
+export type InvitationStatus = 'pending' | 'expired';
+
+export interface Invitation {
+  id: string;
+  tenantId: string | null;
+  email: string;
+  role: UserRole;
+  roleId?: string | null;
+  status: InvitationStatus;
+  sendCount: number;
+  invitedByName?: string;
+  expiresAt: string;
+  lastSentAt: string;
+  createdAt: string;
+}
+
+// What the invitee sees before accepting
+export interface InvitationDetails {
+  email: string;
+  role: UserRole;
+  tenantName: string | null;
+  inviterName: string | null;
+  expiresAt: string;
 }
 
 // ============ TENANT TYPES ============
-export type TenantStatus = 'active' | 'inactive' | 'suspended' | 'trial';
-export type TenantPlan = 'free' | 'starter' | 'professional' | 'enterprise';
+export type TenantStatus = 'trial' | 'active' | 'suspended' | 'cancelled';
+// Plan keys come from the plans catalog (e.g. 'starter')
+export type TenantPlan = string;
 
 export interface Tenant {
   id: string;
@@ -51,10 +126,180 @@ export interface Tenant {
   maxLocations: number;
   settings: TenantSettings;
   mercadoPagoEnabled: boolean;
+  // Set while the tenant is pending deletion
+  deletedAt?: string;
+  deletionReason?: string;
+  purgeAfter?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PlanFeatures {
+  inventoryEnabled?: boolean;
+  reportsEnabled?: boolean;
+  multiLocationEnabled?: boolean;
+  mercadoPagoEnabled?: boolean;
+  apiKeysEnabled?: boolean;
+}
+
+export interface Plan {
+  id: string;
+  name: string;
+  description?: string;
+  // null when the plan isn't offered for that billing cycle
+  priceMonthly: number | null;
+  priceYearly: number | null;
+  currency: string;
+  maxUsers: number;
+  maxLocations: number;
+  features: PlanFeatures;
+  active: boolean;
+  sortOrder: number;
+  tenantCount?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TenantNoteType = 'note' | 'call' | 'email' | 'meeting';
+
+// Internal CRM note, only visible to superadmins
+export interface TenantNote {
+  id: string;
+  tenantId: string;
+  type: TenantNoteType;
+  subject?: string | null;
+  body: string;
+  ownerId?: string | null;
+  ownerName?: string | null;
+  followUpAt?: string | null;
+  followUpDoneAt?: string | null;
+  createdBy?: string | null;
+  createdByName?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface TenantNoteInput {
+  type: TenantNoteType;
+  subject?: string | null;
+  body: string;
+  ownerId?: string | null;
+  followUpAt?: string | null;
+  followUpDone?: boolean;
+}
+
+export type TenantTimelineItem =
+  | ({ kind: 'note'; occurredAt: string } & TenantNote)
+  | {
+      kind: 'audit';
+      occurredAt: string;
+      id: string;
+      action: AuditAction;
+      resourceType: string;
+      resourceId?: string;
+      userName: string;
+      impersonatorEmail?: string | null;
+    }
+  | {
+      kind: 'payment';
+      occurredAt: string;
+      id: string;
+      amount: number;
+      currency: string;
+      status: PaymentStatus;
+      paymentMethod?: string | null;
+      payerName?: string | null;
+      description?: string | null;
+    };
+
+export type QuotaResource = 'users' | 'locations';
+
+export interface QuotaUsage {
+  used: number;
+  limit: number;
+  // Open invitations reserve a user seat
+  pending: number;
+}
+
+export type TenantUsage = Record<QuotaResource, QuotaUsage>;
+
+export interface QuotaExceeded extends QuotaUsage {
+  resource: QuotaResource;
+}
+
+export type TenantExportStatus = 'pending' | 'running' | 'completed' | 'failed' | 'expired';
+
+export interface TenantExport {
+  id: string;
+  tenantId: string;
+  requestedBy?: string;
+  requestedByName?: string;
+  status: TenantExportStatus;
+  progress: number;
+  totalSteps: number;
+  currentStep?: string;
+  fileSize?: number;
+  recordCounts?: Record<string, number> | null;
+  error?: string;
+  downloadUrl: string | null;
+  startedAt?: string;
+  completedAt?: string;
+  expiresAt?: string;
+  createdAt: string;
+}
+
+export type TenantImportErrorCode =
+  | 'REQUIRED'
+  | 'INVALID_EMAIL'
+  | 'INVALID_PLAN'
+  | 'INVALID_STATUS'
+  | 'SLUG_TAKEN'
+  | 'DUPLICATE_IN_FILE'
+  | 'USER_EXISTS'
+  | 'INVITATION_PENDING';
+
+export interface TenantImportRow {
+  row: number;
+  name: string;
+  slug: string;
+  email: string;
+  phone: string | null;
+  plan: TenantPlan;
+  status: TenantStatus;
+  adminEmail: string;
+  errors: { field: 'name' | 'slug' | 'email' | 'phone' | 'plan' | 'status' | 'adminEmail'; code: TenantImportErrorCode }[];
+  tenantId?: string;
+}
+
+export interface TenantImportResult {
+  dryRun: boolean;
+  importId?: string;
+  total: number;
+  valid: number;
+  invalid: number;
+  created?: number;
+  rows: TenantImportRow[];
+}
+
+export interface TenantStatusChange {
+  id: string;
+  tenantId: string;
+  // null for the status the tenant was created with
+  fromStatus: TenantStatus | null;
+  toStatus: TenantStatus;
+  reason?: string;
+  source: 'manual' | 'scheduled' | 'system';
+  changedBy?: string;
+  changedByName?: string;
+  createdAt: string;
+}
+
+export interface TenantStatusHistory {
+  data: TenantStatusChange[];
+  status: TenantStatus;
+  allowedTransitions: TenantStatus[];
+}
+
 export interface TenantSettings {
   branding: {
     logoUrl?: string;
@@ -71,8 +316,40 @@ export interface TenantSettings {
     reportsEnabled: boolean;
     multiLocationEnabled: boolean;
   };
+  security?: {
+    requireTwoFactorForAdmins?: boolean;
+    restrictUnverifiedUsers?: boolean;
+    passwordPolicy?: PasswordPolicy;
+  };
+}
+
+// CIDR ranges allowed to use the console; empty means no restriction
+export interface IpAllowlist {
+  entries: string[];
+  currentIp: string | null;
+  bypassEnabled: boolean;
+}
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  historyCount: number;
+  maxAgeDays: number;
+  blockBreached: boolean;
 }
 
+export type PasswordViolation =
+  | 'min_length'
+  | 'uppercase'
+  | 'lowercase'
+  | 'number'
+  | 'symbol'
+  | 'breached'
+  | 'reused';
+
 export interface TenantStats {
   totalUsers: number;
   activeUsers: number;
@@ -86,18 +363,20 @@ export interface Location {
   id: string;
   tenantId: string;
   name: string;
-  address: string;
-  city: string;
-  state: string;
-  country: string;
-  zipCode?: string;
-  phone?: string;
-  email?: string;
+  address?: string | null;
+  city?: string | null;
+  province?: string | null;
+  postalCode?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  isDefault: boolean;
   active: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+export type LocationInput = Pick<Location, 'name' | 'address' | 'city' | 'province' | 'postalCode' | 'phone' | 'email'>;
+
 // ============ PAYMENT TYPES ============
 export type PaymentStatus = 'approved' | 'pending' | 'rejected' | 'refunded' | 'cancelled';
 export type PaymentMethod = 'credit_card' | 'debit_card' | 'bank_transfer' | 'cash' | 'mercadopago';
@@ -182,10 +461,19 @@ export interface OrderItem {
 // ============ AUDIT TYPES ============
 export type AuditAction =
   | 'user.created' | 'user.updated' | 'user.deleted' | 'user.login' | 'user.logout'
+  | 'user.impersonation_started' | 'user.impersonation_ended'
+  | 'user.invited' | 'user.invitation_resent' | 'user.invitation_revoked' | 'user.invitation_accepted'
   | 'tenant.created' | 'tenant.updated' | 'tenant.deleted'
   | 'payment.created' | 'payment.updated' | 'payment.refunded'
   | 'order.created' | 'order.updated' | 'order.completed'
-  | 'settings.updated' | 'config.updated';
+  | 'settings.updated' | 'config.updated' | 'config.ip_allowlist_updated'
+  | 'security.ip_blocked' | 'user.login_suspicious' | 'security.login_reviewed'
+  | 'tenant.status_changed' | 'tenant.restored' | 'tenant.purged'
+  | 'tenant.export_requested' | 'tenant.export_downloaded' | 'tenant.imported'
+  | 'tenant.note_created' | 'tenant.note_updated' | 'tenant.note_deleted'
+  | 'plan.created' | 'plan.updated' | 'plan.deleted'
+  | 'location.created' | 'location.updated' | 'location.deactivated' | 'location.activated'
+  | 'location.default_changed';
 
 export interface AuditLog {
   id: string;
@@ -200,9 +488,33 @@ export interface AuditLog {
   newValue?: Record<string, unknown>;
   ipAddress?: string;
   userAgent?: string;
+  impersonatorId?: string;
+  impersonatorEmail?: string;
   createdAt: string;
 }
 
+// ============ ROLE TYPES ============
+export interface Role {
+  id: string;
+  tenantId: string | null;
+  key: string;
+  name: string;
+  description?: string;
+  baseRole: UserRole;
+  isSystem: boolean;
+  permissions: string[];
+  userCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RolesResponse {
+  data: Role[];
+  // Every permission, and the subset tenant roles may hold
+  permissions: string[];
+  tenantPermissions: string[];
+}
+
 // ============ SESSION TYPES ============
 export interface Session {
   id: string;
@@ -210,11 +522,59 @@ export interface Session {
   userEmail: string;
   ipAddress: string;
   userAgent: string;
+  location?: string;
+  browser?: string | null;
+  os?: string | null;
+  device?: 'desktop' | 'mobile' | 'tablet' | 'unknown';
+  impersonatorId?: string;
+  // Only set when listing your own sessions
+  current?: boolean;
   lastActivityAt: string;
   expiresAt: string;
   createdAt: string;
 }
 
+export type LoginRiskFlag = 'new_ip' | 'new_device' | 'impossible_travel' | 'failures_before_success';
+
+// A completed login as compared against the user's history
+export interface LoginEvent {
+  id: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  tenantId?: string;
+  ipAddress?: string;
+  deviceLabel?: string;
+  country?: string;
+  city?: string;
+  failedAttempts: number;
+  riskFlags: LoginRiskFlag[];
+  flagged: boolean;
+  alertedAt?: string;
+  reviewedAt?: string;
+  reviewedByName?: string;
+  createdAt: string;
+}
+
+export interface ApiKey {
+  id: string;
+  tenantId: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expiresAt?: string;
+  lastUsedAt?: string;
+  lastUsedIp?: string;
+  createdBy?: string;
+  revokedAt?: string;
+  createdAt: string;
+}
+
+// Only returned once, right after creation
+export interface CreatedApiKey extends ApiKey {
+  key: string;
+}
+
 // ============ API TYPES ============
 export interface PaginatedResponse<T> {
   data: T[];
@@ -232,6 +592,13 @@ export interface ApiError {
   details?: Record<string, string[]>;
   tenantId?: string;
   tenantName?: string;
+  retryAfter?: number;
+  violations?: PasswordViolation[];
+  invalid?: string[];
+  currentIp?: string | null;
+  missingColumns?: string[];
+  quota?: QuotaExceeded;
+  feature?: string;
 }
 
 export interface DashboardStats {
@@ -247,7 +614,7 @@ export interface DashboardStats {
   rejectedPayments: number;
   revenueByMonth: { month: string; revenue: number }[];
   paymentsByStatus: { status: string; count: number; amount: number }[];
-  tenantsByPlan: { plan: string; count: number }[];
+  tenantsByPlan: { plan: string; planName: string; count: number }[];
   recentActivity: AuditLog[];
 }
 
@@ -269,6 +636,8 @@ export interface UserFilters extends BaseFilters {
 export interface TenantFilters extends BaseFilters {
   status?: TenantStatus;
   plan?: TenantPlan;
+  // Only tenants pending deletion
+  deleted?: boolean;
 }
 
 export interface PaymentFilters extends BaseFilters {
@@ -286,6 +655,12 @@ export interface AuditFilters extends BaseFilters {
   dateTo?: string;
 }
 
+export interface LoginEventFilters extends BaseFilters {
+  status?: 'open' | 'reviewed' | 'all';
+  userId?: string;
+  tenantId?: string;
+}
+
 export interface OperationFilters extends BaseFilters {
   status?: OrderStatus;
   tenantId?: string;
@@ -11,9 +11,10 @@ CREATE UNIQUE INDEX IF NOT EXISTS idx_users_username ON users(username) WHERE us
 -- Update existing users to have username = name (as fallback)
 UPDATE users SET username = LOWER(REPLACE(name, ' ', '')) WHERE username IS NULL;
 
--- Create or update admin user with username 'admin' and password 'admin628'
+-- Create the admin user with username 'admin' and password 'admin628'
+-- An existing admin is left alone, so re-running this never resets its password
 -- Password hash for 'admin628' using SHA-256
-INSERT OR REPLACE INTO users (
+INSERT OR IGNORE INTO users (
     id,
     email,
     name,
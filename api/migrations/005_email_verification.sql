@@ -0,0 +1,17 @@
+-- Migration: Email verification tokens
+
+-- =============================================
+-- EMAIL VERIFICATION TOKENS TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS email_verification_tokens (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+    token_hash TEXT NOT NULL,
+    expires_at DATETIME NOT NULL,
+    used_at DATETIME,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_verification_tokens_user ON email_verification_tokens(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_verification_tokens_hash ON email_verification_tokens(token_hash);
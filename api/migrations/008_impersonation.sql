@@ -0,0 +1,16 @@
+-- Migration: Superadmin impersonation
+-- Impersonation sessions belong to the impersonated user and remember the
+-- superadmin behind them; audit entries written during one record both.
+
+-- =============================================
+-- SESSIONS
+-- =============================================
+ALTER TABLE sessions ADD COLUMN impersonator_id TEXT REFERENCES users(id) ON DELETE CASCADE;
+
+-- =============================================
+-- AUDIT LOGS
+-- =============================================
+ALTER TABLE audit_logs ADD COLUMN impersonator_id TEXT;
+ALTER TABLE audit_logs ADD COLUMN impersonator_email TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_impersonator ON audit_logs(impersonator_id);
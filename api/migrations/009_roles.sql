@@ -0,0 +1,39 @@
+-- Migration: Database-backed roles
+-- System roles (tenant_id NULL) mirror the built-in user roles; tenants can add
+-- their own roles. A tenant role keeps a base_role so role-based checks
+-- (superadmin, admin) keep working, while its permission list decides access.
+
+-- =============================================
+-- ROLES TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS roles (
+    id TEXT PRIMARY KEY,
+    tenant_id TEXT REFERENCES tenants(id) ON DELETE CASCADE,
+    key TEXT NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    base_role TEXT NOT NULL CHECK (base_role IN ('superadmin', 'admin', 'operator', 'viewer')),
+    is_system INTEGER NOT NULL DEFAULT 0,
+    permissions TEXT NOT NULL DEFAULT '[]', -- JSON array of permission strings
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_roles_tenant_key ON roles(COALESCE(tenant_id, ''), key);
+CREATE INDEX IF NOT EXISTS idx_roles_tenant ON roles(tenant_id);
+
+-- Users keep their base role in users.role; role_id points at a tenant role when assigned
+ALTER TABLE users ADD COLUMN role_id TEXT REFERENCES roles(id) ON DELETE SET NULL;
+
+-- =============================================
+-- SEED SYSTEM ROLES
+-- =============================================
+INSERT OR IGNORE INTO roles (id, tenant_id, key, name, description, base_role, is_system, permissions) VALUES
+('role-superadmin', NULL, 'superadmin', 'Super Admin', 'Acceso total a la plataforma', 'superadmin', 1,
+ '["tenants:read","tenants:write","tenants:delete","users:read","users:write","users:delete","users:invite","payments:read","payments:refund","operations:read","operations:export","audit:read","audit:export","config:read","config:write","mercadopago:read","mercadopago:write"]'),
+('role-admin', NULL, 'admin', 'Administrador', 'Administra su taller', 'admin', 1,
+ '["users:read","users:write","users:invite","payments:read","operations:read","operations:export","audit:read","config:read","config:write","mercadopago:read","mercadopago:write"]'),
+('role-operator', NULL, 'operator', 'Operador', 'Operación diaria del taller', 'operator', 1,
+ '["users:read","payments:read","operations:read","audit:read"]'),
+('role-viewer', NULL, 'viewer', 'Visor', 'Solo lectura', 'viewer', 1,
+ '["users:read","payments:read","operations:read"]');
@@ -0,0 +1,22 @@
+-- Migration: Password policy (history, expiry and forced change)
+
+-- =============================================
+-- USERS: PASSWORD AGE AND FORCED CHANGE
+-- =============================================
+ALTER TABLE users ADD COLUMN password_changed_at DATETIME;
+ALTER TABLE users ADD COLUMN must_change_password INTEGER NOT NULL DEFAULT 0;
+
+-- Existing passwords start aging from the migration
+UPDATE users SET password_changed_at = CURRENT_TIMESTAMP WHERE password_changed_at IS NULL;
+
+-- =============================================
+-- PASSWORD HISTORY TABLE
+-- =============================================
+CREATE TABLE IF NOT EXISTS password_history (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    password_hash TEXT NOT NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_history_user ON password_history(user_id, created_at);
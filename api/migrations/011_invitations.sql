@@ -0,0 +1,28 @@
+-- Migration: Token-based user invitations
+
+-- =============================================
+-- INVITATIONS TABLE
+-- =============================================
+-- The user row is only created when the invitee accepts and picks a
+-- password. Only a SHA-256 hash of the emailed token is stored; resending
+-- rotates it so older links stop working.
+CREATE TABLE IF NOT EXISTS invitations (
+    id TEXT PRIMARY KEY,
+    tenant_id TEXT REFERENCES tenants(id) ON DELETE CASCADE,
+    email TEXT NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('superadmin', 'admin', 'operator', 'viewer')),
+    role_id TEXT REFERENCES roles(id) ON DELETE SET NULL,
+    token_hash TEXT NOT NULL,
+    invited_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    expires_at DATETIME NOT NULL,
+    send_count INTEGER NOT NULL DEFAULT 1,
+    last_sent_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    accepted_at DATETIME,
+    accepted_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+    revoked_at DATETIME,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invitations_token ON invitations(token_hash);
+CREATE INDEX IF NOT EXISTS idx_invitations_tenant ON invitations(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_invitations_email ON invitations(email);
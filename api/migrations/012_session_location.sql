@@ -0,0 +1,7 @@
+-- Migration: Approximate location of each session
+
+-- =============================================
+-- SESSIONS: LOCATION
+-- =============================================
+-- Filled from Cloudflare's request geolocation ("City, Region, Country")
+ALTER TABLE sessions ADD COLUMN location TEXT;
@@ -0,0 +1,31 @@
+-- Migration: Login history and suspicious login detection
+
+-- =============================================
+-- LOGIN EVENTS TABLE
+-- =============================================
+-- One row per completed login with the signals used to compare it against
+-- the user's history. risk_flags is a JSON array; flagged rows show up on
+-- the security panel until someone reviews them.
+CREATE TABLE IF NOT EXISTS login_events (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    tenant_id TEXT REFERENCES tenants(id) ON DELETE CASCADE,
+    session_id TEXT REFERENCES sessions(id) ON DELETE SET NULL,
+    ip_address TEXT,
+    user_agent TEXT,
+    device_label TEXT,
+    country TEXT,
+    city TEXT,
+    latitude REAL,
+    longitude REAL,
+    failed_attempts INTEGER NOT NULL DEFAULT 0,
+    risk_flags TEXT NOT NULL DEFAULT '[]',
+    flagged INTEGER NOT NULL DEFAULT 0,
+    alerted_at DATETIME,
+    reviewed_at DATETIME,
+    reviewed_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_events_user ON login_events(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_login_events_flagged ON login_events(tenant_id, flagged, created_at);
@@ -0,0 +1,23 @@
+-- Migration: Tenant lifecycle (status transitions and their history)
+
+-- =============================================
+-- TENANT STATUS HISTORY TABLE
+-- =============================================
+-- Every status change, manual or made by the scheduled lifecycle job
+-- (changed_by is NULL for those). from_status is NULL for the initial status.
+CREATE TABLE IF NOT EXISTS tenant_status_history (
+    id TEXT PRIMARY KEY,
+    tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    reason TEXT,
+    source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'scheduled', 'system')),
+    changed_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_status_history_tenant ON tenant_status_history(tenant_id, created_at);
+
+-- Existing tenants start their history with the status they have today
+INSERT INTO tenant_status_history (id, tenant_id, from_status, to_status, reason, source, created_at)
+SELECT lower(hex(randomblob(16))), id, NULL, status, 'migrated', 'system', created_at FROM tenants;
@@ -0,0 +1,19 @@
+-- Migration: Soft-deleted tenants with a retention window
+
+-- =============================================
+-- TENANTS: PENDING DELETION
+-- =============================================
+-- Deleting a tenant only marks it; its users are blocked right away and the
+-- data is purged by the scheduled job once purge_after has passed.
+ALTER TABLE tenants ADD COLUMN deleted_at DATETIME;
+ALTER TABLE tenants ADD COLUMN deleted_by TEXT REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE tenants ADD COLUMN deletion_reason TEXT;
+ALTER TABLE tenants ADD COLUMN purge_after DATETIME;
+
+CREATE INDEX IF NOT EXISTS idx_tenants_purge ON tenants(purge_after);
+
+-- =============================================
+-- CONFIG: RETENTION WINDOW
+-- =============================================
+INSERT OR IGNORE INTO config (id, tenant_id, key, value, type, description) VALUES
+    ('cfg-009', NULL, 'tenant.deletion_retention_days', '30', 'number', 'Days a deleted tenant can be restored before it is purged');
@@ -0,0 +1,32 @@
+-- Migration: Tenant data export jobs
+
+-- =============================================
+-- TENANT EXPORTS TABLE
+-- =============================================
+-- One row per requested archive. The archive itself lives in the EXPORTS_BUCKET
+-- R2 bucket under file_key; it is removed once expires_at has passed.
+CREATE TABLE IF NOT EXISTS tenant_exports (
+    id TEXT PRIMARY KEY,
+    tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    requested_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'expired')),
+
+    -- Progress: sections of the archive written so far
+    progress INTEGER NOT NULL DEFAULT 0,
+    total_steps INTEGER NOT NULL DEFAULT 0,
+    current_step TEXT,
+
+    -- Result
+    file_key TEXT,
+    file_size INTEGER,
+    record_counts TEXT, -- JSON: rows exported per section
+    error TEXT,
+
+    started_at DATETIME,
+    completed_at DATETIME,
+    expires_at DATETIME,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_exports_tenant ON tenant_exports(tenant_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_tenant_exports_status ON tenant_exports(status);
@@ -0,0 +1,47 @@
+-- Migration: Plan catalog in the database
+
+-- =============================================
+-- PLANS TABLE
+-- =============================================
+-- The id is the plan key tenants refer to (e.g. 'starter'). A NULL price means
+-- the plan is not offered for that billing cycle. Inactive plans keep their
+-- tenants but can't be picked for new ones.
+CREATE TABLE IF NOT EXISTS plans (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT,
+    price_monthly REAL,
+    price_yearly REAL,
+    currency TEXT NOT NULL DEFAULT 'ARS',
+    max_users INTEGER NOT NULL DEFAULT 1,
+    max_locations INTEGER NOT NULL DEFAULT 1,
+    features TEXT NOT NULL DEFAULT '{}', -- JSON object of feature flags
+    active INTEGER NOT NULL DEFAULT 1,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- The former hardcoded plans, with the limits tenants were created with.
+-- Prices start at zero and are set from the Plans screen.
+INSERT OR IGNORE INTO plans (id, name, description, price_monthly, price_yearly, max_users, max_locations, features, sort_order) VALUES
+('free', 'Free', 'Para probar Fixly', 0, 0, 3, 1,
+ '{"inventoryEnabled":false,"reportsEnabled":true,"multiLocationEnabled":false,"mercadoPagoEnabled":false,"apiKeysEnabled":false}', 1),
+('starter', 'Starter', 'Talleres chicos', 0, 0, 5, 1,
+ '{"inventoryEnabled":true,"reportsEnabled":true,"multiLocationEnabled":false,"mercadoPagoEnabled":true,"apiKeysEnabled":false}', 2),
+('professional', 'Professional', 'Talleres con varias sucursales', 0, 0, 10, 3,
+ '{"inventoryEnabled":true,"reportsEnabled":true,"multiLocationEnabled":true,"mercadoPagoEnabled":true,"apiKeysEnabled":true}', 3),
+('enterprise', 'Enterprise', 'Cadenas y franquicias', 0, 0, 50, 10,
+ '{"inventoryEnabled":true,"reportsEnabled":true,"multiLocationEnabled":true,"mercadoPagoEnabled":true,"apiKeysEnabled":true}', 4);
+
+-- =============================================
+-- TENANTS: PLAN REFERENCE
+-- =============================================
+-- tenants.plan has a CHECK constraint limited to the old keys, and dropping it
+-- means rebuilding the table, which on D1 would cascade into every child table.
+-- The plan now lives in plan_id; the old column is kept but no longer read.
+ALTER TABLE tenants ADD COLUMN plan_id TEXT REFERENCES plans(id);
+
+UPDATE tenants SET plan_id = plan WHERE plan_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tenants_plan_id ON tenants(plan_id);
@@ -0,0 +1,27 @@
+-- Migration: Internal CRM notes on tenants
+
+-- =============================================
+-- TENANT NOTES TABLE
+-- =============================================
+-- Calls, emails, meetings and free-text notes the support and sales team keep
+-- about a tenant. Only superadmins can read or write them; tenant users never
+-- see these rows. owner_id is the team member following the tenant up.
+CREATE TABLE IF NOT EXISTS tenant_notes (
+    id TEXT PRIMARY KEY,
+    tenant_id TEXT NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    type TEXT NOT NULL DEFAULT 'note' CHECK (type IN ('note', 'call', 'email', 'meeting')),
+    subject TEXT,
+    body TEXT NOT NULL,
+    owner_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+
+    -- Follow-up: pending while follow_up_at is set and follow_up_done_at is not
+    follow_up_at DATETIME,
+    follow_up_done_at DATETIME,
+
+    created_by TEXT REFERENCES users(id) ON DELETE SET NULL,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_notes_tenant ON tenant_notes(tenant_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_tenant_notes_follow_up ON tenant_notes(follow_up_at) WHERE follow_up_done_at IS NULL;
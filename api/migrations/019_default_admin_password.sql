@@ -0,0 +1,6 @@
+-- Migration: Force the seeded admin off the default password
+
+-- 002 created admin-main-001 with the publicly known 'admin628' password. Its
+-- hash is upgraded on login, so the current hash can't tell whether the password
+-- was ever changed; ask for a new one at the next login either way.
+UPDATE users SET must_change_password = 1 WHERE id = 'admin-main-001';
@@ -0,0 +1,9 @@
+-- Migration: Dedicated permission for the full tenant data export
+
+-- The export used to be open to any user whose base role was admin, custom
+-- roles included. It now needs tenants:export, which the built-in admin and
+-- superadmin roles keep; custom roles have to be granted it explicitly.
+UPDATE roles
+SET permissions = json_insert(permissions, '$[#]', 'tenants:export'), updated_at = datetime('now')
+WHERE id IN ('role-superadmin', 'role-admin')
+  AND NOT EXISTS (SELECT 1 FROM json_each(roles.permissions) WHERE value = 'tenants:export');
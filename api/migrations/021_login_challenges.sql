@@ -0,0 +1,21 @@
+-- Migration: One-time login challenges
+
+-- =============================================
+-- LOGIN CHALLENGES TABLE
+-- =============================================
+-- Every challenge token handed out between login steps (2FA code, forced
+-- enrollment, forced password change) carries the id of one of these rows
+-- as its jti. A challenge is spent once its step succeeds and gives out
+-- after a few wrong codes, so a leaked token cannot be replayed or used to
+-- keep guessing for the rest of its lifetime.
+CREATE TABLE IF NOT EXISTS login_challenges (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    purpose TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    expires_at DATETIME NOT NULL,
+    consumed_at DATETIME,
+    created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_challenges_user ON login_challenges(user_id);
@@ -0,0 +1,29 @@
+-- Baseline for databases created before `npm run db:migrate` used wrangler migrations
+--
+-- Those databases were set up with `wrangler d1 execute --file=...` and have no
+-- d1_migrations records, so `migrations apply` would run 001 and 002 again and
+-- 002's ALTER TABLE fails on the existing username column. Run this once before
+-- the first `npm run db:migrate` (or db:baseline:prod / db:migrate:prod):
+--
+--   npm run db:baseline
+--   npm run db:migrate
+--
+-- It records 001 when the schema exists and 002 only when its username column
+-- is already there; on a new, empty database it records nothing. Running it
+-- again changes nothing.
+
+-- Same table wrangler creates for its migration history
+CREATE TABLE IF NOT EXISTS d1_migrations (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT UNIQUE,
+    applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+INSERT OR IGNORE INTO d1_migrations (name)
+SELECT '001_initial_schema.sql'
+WHERE EXISTS (SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'users');
+
+-- ALTER TABLE ... ADD COLUMN rewrites the stored CREATE statement, so it shows up there
+INSERT OR IGNORE INTO d1_migrations (name)
+SELECT '002_add_username.sql'
+WHERE EXISTS (SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'users' AND sql LIKE '%username%');
@@ -30,9 +30,12 @@ const password = process.env.DEMO_USER_PASSWORD || 'demo123';
 const dbName = process.env.D1_DATABASE || 'fixly-admin-db';
 const isProduction = process.env.NODE_ENV === 'production';
 
-// Hash password using SHA-256 (same as backend)
+// Hash password using salted PBKDF2 (same format as backend)
 function hashPassword(pwd) {
-  return crypto.createHash('sha256').update(pwd).digest('hex');
+  const iterations = 100000;
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.pbkdf2Sync(pwd, salt, iterations, 32, 'sha256');
+  return `pbkdf2_sha256$${iterations}$${salt.toString('base64')}$${hash.toString('base64')}`;
 }
 
 function uuid() {
@@ -35,12 +35,17 @@ if (process.argv.includes('--help') || process.argv.includes('-h')) {
   process.exit(0);
 }
 
-// Hash password using SHA-256 (same as backend)
+// Hash password using salted PBKDF2 (same format as backend)
 function hashPassword(pwd) {
-  return crypto.createHash('sha256').update(pwd).digest('hex');
+  const iterations = 100000;
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.pbkdf2Sync(pwd, salt, iterations, 32, 'sha256');
+  return `pbkdf2_sha256$${iterations}$${salt.toString('base64')}$${hash.toString('base64')}`;
 }
 
 const passwordHash = hashPassword(password);
+// The default password is public, so it has to be changed at the first login
+const mustChangePassword = process.env.SUPERADMIN_PASSWORD ? 0 : 1;
 const userId = crypto.randomUUID();
 const now = new Date().toISOString();
 
@@ -48,7 +53,7 @@ const now = new Date().toISOString();
 const sql = `
 -- Check if superadmin exists, if not create
 INSERT OR IGNORE INTO users (
-  id, email, username, name, password_hash, role, tenant_id,
+  id, email, username, name, password_hash, must_change_password, role, tenant_id,
   active, email_verified, created_at, updated_at
 ) VALUES (
   '${userId}',
@@ -56,6 +61,7 @@ INSERT OR IGNORE INTO users (
   '${username.toLowerCase()}',
   'Super Admin',
   '${passwordHash}',
+  ${mustChangePassword},
   'superadmin',
   NULL,
   1,
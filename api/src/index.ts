@@ -6,12 +6,20 @@ import { authMiddleware } from './middleware/auth';
 import { authRoutes } from './routes/auth';
 import { tenantsRoutes } from './routes/tenants';
 import { usersRoutes } from './routes/users';
+import { rolesRoutes } from './routes/roles';
 import { paymentsRoutes } from './routes/payments';
 import { operationsRoutes } from './routes/operations';
 import { auditRoutes } from './routes/audit';
 import { configRoutes } from './routes/config';
 import { dashboardRoutes } from './routes/dashboard';
 import { webhookRoutes } from './routes/webhooks';
+import { apiKeysRoutes } from './routes/apiKeys';
+import { securityRoutes } from './routes/security';
+import { plansRoutes } from './routes/plans';
+import { locationsRoutes } from './routes/locations';
+import { runTenantLifecycle } from './services/tenantLifecycle';
+import { purgeDeletedTenants } from './services/tenantDeletion';
+import { processTenantExports } from './services/tenantExport';
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -30,7 +38,7 @@ app.use('*', async (c, next) => {
       'http://localhost:3000',
     ],
     allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-    allowHeaders: ['Content-Type', 'Authorization'],
+    allowHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
     credentials: true,
     maxAge: 86400,
   });
@@ -56,10 +64,15 @@ app.use('/admin/*', authMiddleware);
 app.route('/admin/dashboard', dashboardRoutes);
 app.route('/admin/tenants', tenantsRoutes);
 app.route('/admin/users', usersRoutes);
+app.route('/admin/roles', rolesRoutes);
 app.route('/admin/payments', paymentsRoutes);
 app.route('/admin/operations', operationsRoutes);
 app.route('/admin/audit', auditRoutes);
 app.route('/admin/config', configRoutes);
+app.route('/admin/api-keys', apiKeysRoutes);
+app.route('/admin/security', securityRoutes);
+app.route('/admin/plans', plansRoutes);
+app.route('/admin/locations', locationsRoutes);
 
 // 404 handler
 app.notFound((c) => {
@@ -78,4 +91,27 @@ app.onError((err, c) => {
   );
 });
 
-export default app;
+export default {
+  fetch: app.fetch,
+
+  // Cron trigger (see wrangler.toml): expire trials and lapsed subscriptions
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext) {
+    ctx.waitUntil(
+      runTenantLifecycle(env).then((result) => {
+        console.log(
+          `[lifecycle] trials expired: ${result.trialsExpired}, subscriptions lapsed: ${result.subscriptionsLapsed}`
+        );
+      })
+    );
+    ctx.waitUntil(
+      purgeDeletedTenants(env).then((purged) => {
+        console.log(`[lifecycle] deleted tenants purged: ${purged}`);
+      })
+    );
+    ctx.waitUntil(
+      processTenantExports(env).then((result) => {
+        console.log(`[exports] built: ${result.built}, expired: ${result.expired}`);
+      })
+    );
+  },
+};
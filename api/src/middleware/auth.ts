@@ -1,35 +1,44 @@
 import { Context, Next } from 'hono';
-import { Env, User, rolePermissions } from '../types';
-
-// Extend Hono context to include user
+import { Env, User } from '../types';
+import { createAuditLog, verifyToken } from '../utils/helpers';
+import { findActiveSession } from '../services/sessions';
+import { ApiKeyPrincipal, apiKeyUser, authenticateApiKey, readApiKey } from '../services/apiKeys';
+import { resolvePermissions } from '../services/roles';
+import { checkIpAllowlist } from '../services/ipAllowlist';
+
+// Extend Hono context to include user and the session (or API key) backing the request
 declare module 'hono' {
   interface ContextVariableMap {
     user: User;
+    sessionId: string;
+    apiKey: ApiKeyPrincipal;
+    impersonator: User;
+    permissions: string[];
   }
 }
 
-// Simple JWT verification (for production, use a proper JWT library)
-async function verifyToken(token: string, secret: string): Promise<{ userId: string } | null> {
-  try {
-    const [header, payload, signature] = token.split('.');
-    if (!header || !payload || !signature) return null;
-
-    const payloadData = JSON.parse(atob(payload));
-    
-    // Check expiration
-    if (payloadData.exp && Date.now() >= payloadData.exp * 1000) {
-      return null;
+export async function authMiddleware(c: Context<{ Bindings: Env }>, next: Next) {
+  // Integrations authenticate with a tenant API key instead of a user session
+  const presentedKey = readApiKey(c);
+  if (presentedKey) {
+    const apiKey = await authenticateApiKey(
+      c.env,
+      presentedKey,
+      c.req.header('CF-Connecting-IP') || null
+    );
+
+    if (!apiKey) {
+      return c.json({ error: 'Invalid, expired or revoked API key', code: 'INVALID_API_KEY' }, 401);
     }
 
-    // In production, verify signature using WebCrypto
-    // For now, we trust the payload
-    return { userId: payloadData.sub };
-  } catch {
-    return null;
+    c.set('user', apiKeyUser(apiKey));
+    c.set('apiKey', apiKey);
+    // API keys are limited to the scopes they were issued with
+    c.set('permissions', apiKey.scopes);
+    await next();
+    return;
   }
-}
 
-export async function authMiddleware(c: Context<{ Bindings: Env }>, next: Next) {
   const authHeader = c.req.header('Authorization');
 
   if (!authHeader?.startsWith('Bearer ')) {
@@ -37,31 +46,73 @@ export async function authMiddleware(c: Context<{ Bindings: Env }>, next: Next)
   }
 
   const token = authHeader.slice(7);
-  const payload = await verifyToken(token, c.env.JWT_SECRET);
+  const payload = await verifyToken(token, c.env);
 
   if (!payload) {
     return c.json({ error: 'Invalid token' }, 401);
   }
 
-  // Fetch user from database
-  const user = await c.env.DB.prepare(
-    'SELECT * FROM users WHERE id = ? AND active = 1'
-  )
-    .bind(payload.userId)
+  // Every token must be backed by a live session row
+  const sessionId = typeof payload.sid === 'string' ? payload.sid : null;
+  const session = sessionId
+    ? await findActiveSession(c.env, sessionId, payload.sub!, token)
+    : null;
+
+  if (!session) {
+    return c.json({ error: 'Session expired or revoked', code: 'SESSION_REVOKED' }, 401);
+  }
+
+  // Fetch user from database (users of a tenant pending deletion are locked out)
+  const user = await c.env.DB.prepare(`
+    SELECT u.* FROM users u
+    LEFT JOIN tenants t ON t.id = u.tenant_id
+    WHERE u.id = ? AND u.active = 1 AND t.deleted_at IS NULL
+  `)
+    .bind(payload.sub)
     .first<User>();
 
   if (!user) {
     return c.json({ error: 'User not found or inactive' }, 401);
   }
 
+  // Impersonation ends as soon as the superadmin behind it loses access
+  if (session.impersonator_id) {
+    const impersonator = await c.env.DB.prepare(
+      "SELECT * FROM users WHERE id = ? AND active = 1 AND role = 'superadmin'"
+    )
+      .bind(session.impersonator_id)
+      .first<User>();
+
+    if (!impersonator) {
+      return c.json({ error: 'Session expired or revoked', code: 'SESSION_REVOKED' }, 401);
+    }
+
+    c.set('impersonator', impersonator);
+  }
+
+  // Admin access can be restricted to known networks (tenant list, or the global one for superadmins)
+  const ipAddress = c.req.header('CF-Connecting-IP') || null;
+  const allowlist = await checkIpAllowlist(c.env, ipAddress, c.get('impersonator') || user);
+  if (!allowlist.allowed) {
+    c.set('user', user);
+    await createAuditLog(c, 'security.ip_blocked', 'user', user.id, null, {
+      ipAddress,
+      scope: allowlist.scope,
+      path: c.req.path,
+    });
+    return c.json({ error: 'Access from this IP address is not allowed', code: 'IP_NOT_ALLOWED' }, 403);
+  }
+
   // Update last activity
   await c.env.DB.prepare(
-    "UPDATE sessions SET last_activity_at = datetime('now') WHERE user_id = ?"
+    "UPDATE sessions SET last_activity_at = datetime('now') WHERE id = ?"
   )
-    .bind(user.id)
+    .bind(session.id)
     .run();
 
   c.set('user', user);
+  c.set('sessionId', session.id);
+  c.set('permissions', await resolvePermissions(c.env, user));
   await next();
 }
 
@@ -73,8 +124,8 @@ export function requirePermission(permission: string) {
       return c.json({ error: 'Unauthorized' }, 401);
     }
 
-    const userPermissions = rolePermissions[user.role] || [];
-    
+    const userPermissions = c.get('permissions') || [];
+
     if (!userPermissions.includes(permission)) {
       return c.json({ error: 'Forbidden', required: permission }, 403);
     }
@@ -83,6 +134,34 @@ export function requirePermission(permission: string) {
   };
 }
 
+/**
+ * Middleware for endpoints that act on the signed-in user's own account
+ * (profile, password, 2FA, sessions, key management); API keys are refused
+ */
+export function requireUserSession() {
+  return async (c: Context<{ Bindings: Env }>, next: Next) => {
+    if (c.get('apiKey')) {
+      return c.json({ error: 'Not available with API key authentication', code: 'API_KEY_NOT_ALLOWED' }, 403);
+    }
+
+    await next();
+  };
+}
+
+/**
+ * Middleware to keep impersonators away from the impersonated user's credentials
+ * (password, 2FA); returns 403 with code IMPERSONATION_FORBIDDEN
+ */
+export function requireNotImpersonating() {
+  return async (c: Context<{ Bindings: Env }>, next: Next) => {
+    if (c.get('impersonator')) {
+      return c.json({ error: 'Not allowed while impersonating', code: 'IMPERSONATION_FORBIDDEN' }, 403);
+    }
+
+    await next();
+  };
+}
+
 export function requireSuperAdmin() {
   return async (c: Context<{ Bindings: Env }>, next: Next) => {
     const user = c.get('user');
@@ -124,6 +203,37 @@ export function requireAdmin() {
   };
 }
 
+/**
+ * Middleware to block unverified users from sensitive actions
+ * Only applies when the tenant enables security.restrictUnverifiedUsers
+ * Returns 403 with code EMAIL_NOT_VERIFIED
+ */
+export function requireVerifiedEmail() {
+  return async (c: Context<{ Bindings: Env }>, next: Next) => {
+    const user = c.get('user');
+
+    if (!user || user.email_verified || !user.tenant_id) {
+      await next();
+      return;
+    }
+
+    const tenant = await c.env.DB.prepare('SELECT settings FROM tenants WHERE id = ?')
+      .bind(user.tenant_id)
+      .first<{ settings: string }>();
+
+    const settings = JSON.parse(tenant?.settings || '{}');
+    if (settings.security?.restrictUnverifiedUsers) {
+      return c.json({
+        error: 'Email not verified',
+        code: 'EMAIL_NOT_VERIFIED',
+        message: 'Please confirm your email address to perform this action.',
+      }, 403);
+    }
+
+    await next();
+  };
+}
+
 /**
  * Middleware to check tenant status
  * Used by the app (not admin) to enforce suspension
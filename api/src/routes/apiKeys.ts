@@ -0,0 +1,142 @@
+import { Hono } from 'hono';
+import { ApiKey, Env, User } from '../types';
+import { requirePermission, requireUserSession } from '../middleware/auth';
+import { createAuditLog, toCamelCase } from '../utils/helpers';
+import { API_KEY_SCOPES, createApiKey } from '../services/apiKeys';
+
+const app = new Hono<{ Bindings: Env }>();
+
+// Managing keys needs a signed-in user; a key cannot mint or revoke keys
+app.use('*', requireUserSession());
+
+// Superadmins pick the tenant, everyone else manages their own
+function resolveTenantId(user: User, requested?: string | null): string | null {
+  return user.role === 'superadmin' ? requested || null : user.tenant_id;
+}
+
+function toApiKeyResponse(row: ApiKey) {
+  const { key_hash, ...safeRow } = row;
+  return toCamelCase<Record<string, unknown>>({ ...safeRow, scopes: JSON.parse(row.scopes || '[]') });
+}
+
+// List API keys of a tenant
+app.get('/', requirePermission('config:read'), async (c) => {
+  const user = c.get('user');
+  const tenantId = resolveTenantId(user, c.req.query('tenantId'));
+
+  if (!tenantId) {
+    return c.json({ error: 'tenantId is required' }, 400);
+  }
+
+  const { results } = await c.env.DB.prepare(
+    'SELECT * FROM api_keys WHERE tenant_id = ? ORDER BY revoked_at IS NOT NULL, created_at DESC'
+  )
+    .bind(tenantId)
+    .all<ApiKey>();
+
+  return c.json({ data: results.map(toApiKeyResponse), availableScopes: API_KEY_SCOPES });
+});
+
+// Create API key - the full key is only returned here
+app.post('/', requirePermission('config:write'), async (c) => {
+  const user = c.get('user');
+  const body = await c.req.json<{
+    name: string;
+    scopes: string[];
+    expiresInDays?: number | null;
+    tenantId?: string;
+  }>();
+
+  const tenantId = resolveTenantId(user, body.tenantId);
+  if (!tenantId) {
+    return c.json({ error: 'tenantId is required' }, 400);
+  }
+
+  if (!body.name?.trim()) {
+    return c.json({ error: 'Name is required' }, 400);
+  }
+
+  if (!Array.isArray(body.scopes) || body.scopes.length === 0) {
+    return c.json({ error: 'At least one scope is required' }, 400);
+  }
+
+  // Nobody can hand a key more than they hold themselves
+  const ownPermissions = c.get('permissions') || [];
+  const invalidScopes = body.scopes.filter(
+    (scope) => !API_KEY_SCOPES.includes(scope) || !ownPermissions.includes(scope)
+  );
+  if (invalidScopes.length > 0) {
+    return c.json({ error: 'Invalid scopes', code: 'INVALID_SCOPES', scopes: invalidScopes }, 400);
+  }
+
+  let expiresAt: string | null = null;
+  if (body.expiresInDays) {
+    if (!Number.isInteger(body.expiresInDays) || body.expiresInDays < 1 || body.expiresInDays > 730) {
+      return c.json({ error: 'expiresInDays must be between 1 and 730' }, 400);
+    }
+    expiresAt = new Date(Date.now() + body.expiresInDays * 24 * 60 * 60 * 1000).toISOString();
+  }
+
+  const tenant = await c.env.DB.prepare('SELECT id FROM tenants WHERE id = ?')
+    .bind(tenantId)
+    .first();
+
+  if (!tenant) {
+    return c.json({ error: 'Tenant not found' }, 404);
+  }
+
+  const scopes = [...new Set(body.scopes)];
+  const { id, key, prefix } = await createApiKey(c.env, {
+    tenantId,
+    name: body.name.trim(),
+    scopes,
+    expiresAt,
+    createdBy: user.id,
+  });
+
+  await createAuditLog(c, 'api_key.created', 'api_key', id, null, {
+    name: body.name.trim(),
+    prefix,
+    scopes,
+    expiresAt,
+    tenantId,
+  });
+
+  const row = await c.env.DB.prepare('SELECT * FROM api_keys WHERE id = ?')
+    .bind(id)
+    .first<ApiKey>();
+
+  return c.json({ ...toApiKeyResponse(row!), key }, 201);
+});
+
+// Revoke API key
+app.delete('/:id', requirePermission('config:write'), async (c) => {
+  const { id } = c.req.param();
+  const user = c.get('user');
+
+  const existing = await c.env.DB.prepare('SELECT * FROM api_keys WHERE id = ?')
+    .bind(id)
+    .first<ApiKey>();
+
+  if (!existing) {
+    return c.json({ error: 'API key not found' }, 404);
+  }
+
+  if (user.role !== 'superadmin' && existing.tenant_id !== user.tenant_id) {
+    return c.json({ error: 'Forbidden' }, 403);
+  }
+
+  if (existing.revoked_at) {
+    return c.json({ error: 'API key already revoked' }, 400);
+  }
+
+  await c.env.DB.prepare("UPDATE api_keys SET revoked_at = datetime('now') WHERE id = ?")
+    .bind(id)
+    .run();
+
+  await createAuditLog(c, 'api_key.revoked', 'api_key', id, { name: existing.name, prefix: existing.prefix }, null);
+
+  return c.json({ success: true });
+});
+
+export { app as apiKeysRoutes };
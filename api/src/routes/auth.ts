@@ -1,17 +1,241 @@
-import { Hono } from 'hono';
+import { Context, Hono } from 'hono';
 import { Env, User } from '../types';
+import { authMiddleware, requireNotImpersonating, requireUserSession } from '../middleware/auth';
 import {
   generateId,
   hashPassword,
   verifyPassword,
+  passwordNeedsRehash,
   generateToken,
+  verifyToken,
   createAuditLog,
+  sanitizeUser,
   toCamelCase,
   slugify,
 } from '../utils/helpers';
+import {
+  createSession,
+  listActiveSessions,
+  revokeSession,
+  rotateRefreshToken,
+} from '../services/sessions';
+import {
+  claimPasswordResetToken,
+  createPasswordResetToken,
+  findPasswordResetToken,
+  sendPasswordResetEmail,
+} from '../services/passwordReset';
+import {
+  confirmEmailVerification,
+  getResendWaitSeconds,
+  sendVerificationEmail,
+} from '../services/emailVerification';
+import {
+  TWO_FACTOR_ROLES,
+  confirmEnrollment,
+  disableTwoFactor,
+  isTwoFactorRequired,
+  regenerateRecoveryCodes,
+  startEnrollment,
+  verifySecondFactor,
+} from '../services/twoFactor';
+import {
+  LoginThrottleResult,
+  checkAccountLock,
+  checkIpThrottle,
+  clearLoginFailures,
+  loginAccountKey,
+  recordLoginFailure,
+} from '../services/loginThrottle';
+import { resolvePermissions } from '../services/roles';
+import {
+  PasswordViolation,
+  DEFAULT_PASSWORD_POLICY,
+  checkPassword,
+  getPasswordPolicy,
+  isPasswordChangeRequired,
+  passwordHistoryStatement,
+  passwordUpdateStatements,
+} from '../services/passwordPolicy';
+import { claimInvitation, findPendingInvitation } from '../services/invitations';
+import { checkQuota, quotaExceededResponse } from '../services/quotas';
+import { getPlan, parsePlanFeatures, resolvePlanLimits } from '../services/plans';
+import { recordLoginEvent, sendSuspiciousLoginAlert } from '../services/loginSecurity';
+import { isTenantPendingDeletion } from '../services/tenantDeletion';
+import { TRIAL_DAYS } from '../services/tenantLifecycle';
+import {
+  ChallengePurpose,
+  consumeLoginChallenge,
+  createLoginChallenge,
+  isLoginChallengeOpen,
+  LOGIN_CHALLENGE_TTL_MINUTES,
+  registerLoginChallengeFailure,
+} from '../services/loginChallenges';
 
 const app = new Hono<{ Bindings: Env }>();
 
+// Short-lived token that only proves the password step of a 2FA login; its jti
+// points at a login_challenges row, so it works once and for a few codes only
+const TWO_FACTOR_CHALLENGE_TTL = `${LOGIN_CHALLENGE_TTL_MINUTES}m`;
+
+async function issueChallenge(c: Context<{ Bindings: Env }>, user: User, purpose: ChallengePurpose) {
+  const jti = await createLoginChallenge(c.env, user.id, purpose);
+  return generateToken(user.id, c.env, TWO_FACTOR_CHALLENGE_TTL, { purpose, jti });
+}
+
+async function resolveChallenge(
+  c: Context<{ Bindings: Env }>,
+  challengeToken: string | undefined,
+  purpose: ChallengePurpose
+): Promise<{ user: User; challengeId: string } | null> {
+  if (!challengeToken) return null;
+
+  const payload = await verifyToken(challengeToken, c.env);
+  if (!payload || payload.purpose !== purpose || !payload.jti) return null;
+
+  if (!(await isLoginChallengeOpen(c.env, payload.jti, payload.sub!, purpose))) return null;
+
+  const user = await c.env.DB.prepare('SELECT * FROM users WHERE id = ? AND active = 1')
+    .bind(payload.sub)
+    .first<User>();
+
+  return user ? { user, challengeId: payload.jti } : null;
+}
+
+function rejectExpiredChallenge(c: Context<{ Bindings: Env }>) {
+  return c.json({ error: 'Login challenge expired, please sign in again', code: 'CHALLENGE_EXPIRED' }, 401);
+}
+
+function clientIp(c: Context<{ Bindings: Env }>): string {
+  return c.req.header('CF-Connecting-IP') || c.req.header('X-Forwarded-For') || 'unknown';
+}
+
+function rejectThrottled(
+  c: Context<{ Bindings: Env }>,
+  result: Exclude<LoginThrottleResult, { allowed: true }>
+) {
+  c.header('Retry-After', String(result.retryAfter));
+  return c.json({
+    error: result.code === 'ACCOUNT_LOCKED'
+      ? 'Account temporarily locked after too many failed attempts'
+      : 'Too many failed login attempts',
+    code: result.code,
+    retryAfter: result.retryAfter,
+  }, 429);
+}
+
+function rejectWeakPassword(c: Context<{ Bindings: Env }>, violations: PasswordViolation[]) {
+  return c.json({
+    error: 'Password does not meet the password policy',
+    code: 'WEAK_PASSWORD',
+    violations,
+  }, 400);
+}
+
+// Count a failed credential or second-factor check against the IP and the account
+async function registerLoginFailure(
+  c: Context<{ Bindings: Env }>,
+  user: User | null,
+  identifier: string,
+  reason: string
+) {
+  const { failures, lockedFor } = await recordLoginFailure(
+    c.env,
+    clientIp(c),
+    loginAccountKey(user, identifier)
+  );
+
+  if (user) {
+    c.set('user', user);
+    await createAuditLog(c, 'user.login_failed', 'user', user.id, null, { reason, failures });
+    if (lockedFor) {
+      await createAuditLog(c, 'user.locked', 'user', user.id, null, { lockedForSeconds: lockedFor });
+    }
+  }
+
+  return lockedFor;
+}
+
+// Users of a tenant pending deletion can't get in until it is restored
+async function rejectPendingDeletion(c: Context<{ Bindings: Env }>, user: User) {
+  if (!user.tenant_id || !(await isTenantPendingDeletion(c.env, user.tenant_id))) {
+    return null;
+  }
+  return c.json({ error: 'Organization is pending deletion', code: 'TENANT_PENDING_DELETION' }, 403);
+}
+
+// Final step of every login path: record it, open a session and return the user
+async function completeLogin(
+  c: Context<{ Bindings: Env }>,
+  user: User,
+  extra: Record<string, unknown> = {}
+) {
+  const pendingDeletion = await rejectPendingDeletion(c, user);
+  if (pendingDeletion) return pendingDeletion;
+
+  // Update last login
+  await c.env.DB.prepare(
+    "UPDATE users SET last_login_at = datetime('now') WHERE id = ?"
+  )
+    .bind(user.id)
+    .run();
+
+  await clearLoginFailures(c.env, loginAccountKey(user, user.email));
+
+  // Create session and the token bound to it
+  const session = await createSession(c, user);
+
+  // Compare with previous logins (user still carries the previous last_login_at)
+  const loginEvent = await recordLoginEvent(c, user, session.sessionId);
+
+  // Create audit log
+  c.set('user', user);
+  await createAuditLog(c, 'user.login', 'user', user.id, null, { sessionId: session.sessionId });
+
+  if (loginEvent.flags.length > 0) {
+    await createAuditLog(c, 'user.login_suspicious', 'user', user.id, null, {
+      loginEventId: loginEvent.id,
+      flags: loginEvent.flags,
+      ipAddress: loginEvent.signals.ipAddress,
+      failedAttempts: loginEvent.failures,
+    });
+    await sendSuspiciousLoginAlert(c.env, user, loginEvent);
+  }
+
+  return c.json({
+    user: {
+      ...toCamelCase<Record<string, unknown>>(sanitizeUser(user)),
+      permissions: await resolvePermissions(c.env, user),
+    },
+    token: session.token,
+    expiresAt: session.expiresAt,
+    refreshToken: session.refreshToken,
+    refreshExpiresAt: session.refreshExpiresAt,
+    ...extra,
+  });
+}
+
+// Second-factor checks that follow a valid password, then the session itself
+async function continueLogin(c: Context<{ Bindings: Env }>, user: User) {
+  // Enrolled users must confirm a TOTP code before a session is created
+  if (user.totp_enabled) {
+    return c.json({
+      twoFactorRequired: true,
+      challengeToken: await issueChallenge(c, user, 'login_2fa'),
+    });
+  }
+
+  // Admins whose tenant requires 2FA must enroll before they can get in
+  if (await isTwoFactorRequired(c.env, user)) {
+    return c.json({
+      twoFactorSetupRequired: true,
+      challengeToken: await issueChallenge(c, user, 'login_2fa_setup'),
+    });
+  }
+
+  return completeLogin(c, user);
+}
+
 // Login - accepts username or email
 app.post('/login', async (c) => {
   const body = await c.req.json<{ username?: string; email?: string; password: string }>();
@@ -22,6 +246,11 @@ app.post('/login', async (c) => {
     return c.json({ error: 'Username/email and password are required' }, 400);
   }
 
+  const ipThrottle = await checkIpThrottle(c.env, clientIp(c));
+  if (!ipThrottle.allowed) {
+    return rejectThrottled(c, ipThrottle);
+  }
+
   // Check if identifier looks like email (contains @) or username
   const isEmail = identifier.includes('@');
 
@@ -41,70 +270,259 @@ app.post('/login', async (c) => {
       .first<User>();
   }
 
-  if (!user) {
-    return c.json({ error: 'Invalid credentials', code: 'INVALID_CREDENTIALS' }, 401);
+  // Locked accounts are refused before the password is even checked
+  const accountLock = await checkAccountLock(c.env, loginAccountKey(user, identifier));
+  if (!accountLock.allowed) {
+    return rejectThrottled(c, accountLock);
   }
 
-  const validPassword = await verifyPassword(password, user.password_hash);
-  if (!validPassword) {
+  const validPassword = user ? await verifyPassword(password, user.password_hash) : false;
+  if (!user || !validPassword) {
+    const lockedFor = await registerLoginFailure(c, user, identifier, 'invalid_credentials');
+    if (lockedFor) {
+      return rejectThrottled(c, { allowed: false, code: 'ACCOUNT_LOCKED', retryAfter: lockedFor });
+    }
     return c.json({ error: 'Invalid credentials', code: 'INVALID_CREDENTIALS' }, 401);
   }
 
-  // Update last login
-  await c.env.DB.prepare(
-    "UPDATE users SET last_login_at = datetime('now') WHERE id = ?"
-  )
-    .bind(user.id)
-    .run();
+  const pendingDeletion = await rejectPendingDeletion(c, user);
+  if (pendingDeletion) return pendingDeletion;
 
-  // Generate token
-  const token = await generateToken(user.id, c.env.JWT_SECRET);
+  // Transparently upgrade legacy or weaker password hashes
+  if (passwordNeedsRehash(user.password_hash)) {
+    const upgradedHash = await hashPassword(password);
+    await c.env.DB.prepare(
+      "UPDATE users SET password_hash = ?, updated_at = datetime('now') WHERE id = ?"
+    )
+      .bind(upgradedHash, user.id)
+      .run();
+  }
 
-  // Create audit log
-  c.set('user', user);
-  await createAuditLog(c, 'user.login', 'user', user.id);
+  // Expired or admin-flagged passwords must be replaced before anything else
+  const policy = await getPasswordPolicy(c.env, user.tenant_id);
+  if (isPasswordChangeRequired(policy, user)) {
+    return c.json({
+      passwordChangeRequired: true,
+      challengeToken: await issueChallenge(c, user, 'password_change'),
+    });
+  }
 
-  // Return user without password
-  const { password_hash, ...safeUser } = user;
+  return continueLogin(c, user);
+});
 
-  return c.json({
-    user: toCamelCase(safeUser),
-    token,
-    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+// Login after a forced password change - sets the new password and resumes the login
+app.post('/login/change-password', async (c) => {
+  const { challengeToken, newPassword } = await c.req.json<{
+    challengeToken: string;
+    newPassword: string;
+  }>();
+
+  const challenge = await resolveChallenge(c, challengeToken, 'password_change');
+  if (!challenge) {
+    return rejectExpiredChallenge(c);
+  }
+  const { user } = challenge;
+
+  if (!newPassword) {
+    return c.json({ error: 'New password is required', code: 'VALIDATION_ERROR' }, 400);
+  }
+
+  // The replacement must at least differ from the password being retired
+  const policy = await getPasswordPolicy(c.env, user.tenant_id);
+  const violations = await checkPassword(
+    c.env,
+    { ...policy, historyCount: Math.max(policy.historyCount, 1) },
+    newPassword,
+    user
+  );
+  if (violations.length > 0) {
+    return rejectWeakPassword(c, violations);
+  }
+
+  if (!(await consumeLoginChallenge(c.env, challenge.challengeId))) {
+    return rejectExpiredChallenge(c);
+  }
+
+  await c.env.DB.batch(passwordUpdateStatements(c.env, user.id, await hashPassword(newPassword)));
+
+  c.set('user', user);
+  await createAuditLog(c, 'user.updated', 'user', user.id, null, {
+    passwordChanged: true,
+    reason: user.must_change_password ? 'forced' : 'expired',
   });
+
+  return continueLogin(c, { ...user, must_change_password: false });
 });
 
-// Logout
-app.post('/logout', async (c) => {
-  const user = c.get('user');
-  if (user) {
-    await createAuditLog(c, 'user.logout', 'user', user.id);
+// Login second step - TOTP or recovery code
+app.post('/login/2fa', async (c) => {
+  const { challengeToken, code, recoveryCode } = await c.req.json<{
+    challengeToken: string;
+    code?: string;
+    recoveryCode?: string;
+  }>();
+
+  const challenge = await resolveChallenge(c, challengeToken, 'login_2fa');
+  if (!challenge) {
+    return rejectExpiredChallenge(c);
+  }
+  const { user } = challenge;
+
+  // Second-factor guesses count towards the same lockout as passwords
+  const accountLock = await checkAccountLock(c.env, loginAccountKey(user, user.email));
+  if (!accountLock.allowed) {
+    return rejectThrottled(c, accountLock);
+  }
+
+  const method = await verifySecondFactor(c.env, user, { code, recoveryCode });
+  if (!method) {
+    await registerLoginChallengeFailure(c.env, challenge.challengeId);
+    const lockedFor = await registerLoginFailure(c, user, user.email, 'invalid_2fa_code');
+    if (lockedFor) {
+      return rejectThrottled(c, { allowed: false, code: 'ACCOUNT_LOCKED', retryAfter: lockedFor });
+    }
+    return c.json({ error: 'Invalid verification code', code: 'INVALID_2FA_CODE' }, 401);
+  }
+
+  if (!(await consumeLoginChallenge(c.env, challenge.challengeId))) {
+    return rejectExpiredChallenge(c);
   }
+
+  if (method === 'recovery') {
+    c.set('user', user);
+    await createAuditLog(c, 'user.2fa_recovery_used', 'user', user.id);
+  }
+
+  return completeLogin(c, user);
+});
+
+// Forced enrollment during login - get a secret for the authenticator app
+app.post('/login/2fa/setup', async (c) => {
+  const { challengeToken } = await c.req.json<{ challengeToken: string }>();
+
+  const challenge = await resolveChallenge(c, challengeToken, 'login_2fa_setup');
+  if (!challenge) {
+    return rejectExpiredChallenge(c);
+  }
+  const { user } = challenge;
+
+  return c.json(await startEnrollment(c.env, user));
+});
+
+// Forced enrollment during login - confirm the code and sign in
+app.post('/login/2fa/enable', async (c) => {
+  const { challengeToken, code } = await c.req.json<{ challengeToken: string; code: string }>();
+
+  const challenge = await resolveChallenge(c, challengeToken, 'login_2fa_setup');
+  if (!challenge) {
+    return rejectExpiredChallenge(c);
+  }
+  const { user } = challenge;
+
+  const recoveryCodes = await confirmEnrollment(c.env, user, code || '');
+  if (!recoveryCodes) {
+    await registerLoginChallengeFailure(c.env, challenge.challengeId);
+    return c.json({ error: 'Invalid verification code', code: 'INVALID_2FA_CODE' }, 400);
+  }
+
+  if (!(await consumeLoginChallenge(c.env, challenge.challengeId))) {
+    return rejectExpiredChallenge(c);
+  }
+
+  c.set('user', user);
+  await createAuditLog(c, 'user.2fa_enabled', 'user', user.id);
+
+  return completeLogin(c, { ...user, totp_enabled: true }, { recoveryCodes });
+});
+
+// Logout - revokes the session backing the current token
+app.post('/logout', authMiddleware, requireUserSession(), async (c) => {
+  const user = c.get('user');
+  const sessionId = c.get('sessionId');
+
+  await revokeSession(c.env, sessionId, user.id);
+  await createAuditLog(c, 'user.logout', 'user', user.id, null, { sessionId });
+
   return c.json({ success: true });
 });
 
 // Get current user
-app.get('/me', async (c) => {
+app.get('/me', authMiddleware, requireUserSession(), async (c) => {
   const user = c.get('user');
   if (!user) {
     return c.json({ error: 'Unauthorized' }, 401);
   }
 
-  const { password_hash, ...safeUser } = user;
-  return c.json(toCamelCase(safeUser));
+  const impersonator = c.get('impersonator');
+
+  return c.json({
+    ...toCamelCase<Record<string, unknown>>(sanitizeUser(user)),
+    permissions: c.get('permissions'),
+    impersonator: impersonator
+      ? { id: impersonator.id, name: impersonator.name, email: impersonator.email }
+      : undefined,
+  });
 });
 
-// Refresh token
-app.post('/refresh', async (c) => {
+// End impersonation - revokes the impersonation session; the superadmin's own session is untouched
+app.post('/impersonation/end', authMiddleware, requireUserSession(), async (c) => {
   const user = c.get('user');
+
+  if (!c.get('impersonator')) {
+    return c.json({ error: 'Not impersonating', code: 'NOT_IMPERSONATING' }, 400);
+  }
+
+  await createAuditLog(c, 'user.impersonation_ended', 'user', user.id, null, {
+    sessionId: c.get('sessionId'),
+  });
+  await revokeSession(c.env, c.get('sessionId'), user.id);
+
+  return c.json({ success: true });
+});
+
+// Refresh - exchanges a refresh token for a new access/refresh pair (single use)
+app.post('/refresh', async (c) => {
+  const { refreshToken } = await c.req.json<{ refreshToken?: string }>();
+
+  if (!refreshToken) {
+    return c.json({ error: 'Refresh token is required', code: 'INVALID_REFRESH_TOKEN' }, 401);
+  }
+
+  const result = await rotateRefreshToken(c.env, refreshToken);
+
+  if (result.status === 'reused') {
+    const user = await c.env.DB.prepare('SELECT * FROM users WHERE id = ?')
+      .bind(result.userId)
+      .first<User>();
+
+    if (user) {
+      c.set('user', user);
+      await createAuditLog(c, 'session.refresh_reused', 'session', result.sessionId, null, {
+        revoked: true,
+      });
+    }
+
+    return c.json({ error: 'Refresh token reuse detected, session revoked', code: 'REFRESH_TOKEN_REUSED' }, 401);
+  }
+
+  if (result.status === 'invalid') {
+    return c.json({ error: 'Invalid or expired refresh token', code: 'INVALID_REFRESH_TOKEN' }, 401);
+  }
+
+  const user = await c.env.DB.prepare('SELECT id FROM users WHERE id = ? AND active = 1')
+    .bind(result.userId)
+    .first<{ id: string }>();
+
   if (!user) {
-    return c.json({ error: 'Unauthorized' }, 401);
+    await revokeSession(c.env, result.session.sessionId, result.userId);
+    return c.json({ error: 'User not found or inactive', code: 'INVALID_REFRESH_TOKEN' }, 401);
   }
 
-  const token = await generateToken(user.id, c.env.JWT_SECRET);
   return c.json({
-    token,
-    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+    token: result.session.token,
+    expiresAt: result.session.expiresAt,
+    refreshToken: result.session.refreshToken,
+    refreshExpiresAt: result.session.refreshExpiresAt,
   });
 });
 
@@ -112,24 +530,298 @@ app.post('/refresh', async (c) => {
 app.post('/reset-password', async (c) => {
   const { email } = await c.req.json<{ email: string }>();
 
+  if (!email) {
+    return c.json({ error: 'Email is required' }, 400);
+  }
+
   const user = await c.env.DB.prepare(
-    'SELECT id FROM users WHERE email = ?'
+    'SELECT id, email, name FROM users WHERE email = ? AND active = 1'
   )
     .bind(email.toLowerCase())
-    .first();
+    .first<Pick<User, 'id' | 'email' | 'name'>>();
 
   // Always return success to prevent email enumeration
-  if (!user) {
-    return c.json({ success: true, message: 'If the email exists, a reset link has been sent' });
+  if (user) {
+    const token = await createPasswordResetToken(
+      c.env,
+      user.id,
+      c.req.header('CF-Connecting-IP') || null
+    );
+    await sendPasswordResetEmail(c.env, user, token);
   }
 
-  // In production, send email with reset link
-  // For now, just return success
   return c.json({ success: true, message: 'If the email exists, a reset link has been sent' });
 });
 
+// Confirm password reset with the emailed token
+app.post('/reset-password/confirm', async (c) => {
+  const { token, newPassword } = await c.req.json<{ token: string; newPassword: string }>();
+
+  if (!token || !newPassword) {
+    return c.json({ error: 'Token and new password are required', code: 'VALIDATION_ERROR' }, 400);
+  }
+
+  // Validate before spending the token so a rejected password keeps the link usable
+  const resetToken = await findPasswordResetToken(c.env, token);
+  if (!resetToken) {
+    return c.json({ error: 'Reset link is invalid or has expired', code: 'INVALID_RESET_TOKEN' }, 400);
+  }
+
+  const user = await c.env.DB.prepare('SELECT * FROM users WHERE id = ?')
+    .bind(resetToken.user_id)
+    .first<User>();
+
+  if (!user) {
+    return c.json({ error: 'Reset link is invalid or has expired', code: 'INVALID_RESET_TOKEN' }, 400);
+  }
+
+  const violations = await checkPassword(
+    c.env,
+    await getPasswordPolicy(c.env, user.tenant_id),
+    newPassword,
+    user
+  );
+  if (violations.length > 0) {
+    return rejectWeakPassword(c, violations);
+  }
+
+  if (!(await claimPasswordResetToken(c.env, resetToken.id))) {
+    return c.json({ error: 'Reset link is invalid or has expired', code: 'INVALID_RESET_TOKEN' }, 400);
+  }
+
+  const newHash = await hashPassword(newPassword);
+
+  // Set the new password and sign out every existing session
+  await c.env.DB.batch([
+    ...passwordUpdateStatements(c.env, user.id, newHash),
+    c.env.DB.prepare('DELETE FROM sessions WHERE user_id = ?').bind(user.id),
+  ]);
+
+  c.set('user', user);
+  await createAuditLog(c, 'user.password_reset', 'user', user.id, null, { passwordReset: true });
+
+  return c.json({ success: true });
+});
+
+// Invitation details for the accept page
+app.get('/invitation', async (c) => {
+  const token = c.req.query('token');
+
+  const invitation = token ? await findPendingInvitation(c.env, token) : null;
+  if (!invitation) {
+    return c.json({ error: 'Invitation is invalid or has expired', code: 'INVALID_INVITATION' }, 400);
+  }
+
+  return c.json({
+    email: invitation.email,
+    role: invitation.role,
+    tenantName: invitation.tenant_name,
+    inviterName: invitation.inviter_name,
+    expiresAt: invitation.expires_at,
+  });
+});
+
+// Accept invitation - the invitee picks a name and password and is signed in
+app.post('/invitation/accept', async (c) => {
+  const { token, name, password } = await c.req.json<{
+    token: string;
+    name: string;
+    password: string;
+  }>();
+
+  if (!token || !name?.trim() || !password) {
+    return c.json({ error: 'Token, name and password are required', code: 'VALIDATION_ERROR' }, 400);
+  }
+
+  const invitation = await findPendingInvitation(c.env, token);
+  if (!invitation) {
+    return c.json({ error: 'Invitation is invalid or has expired', code: 'INVALID_INVITATION' }, 400);
+  }
+
+  const existingUser = await c.env.DB.prepare('SELECT id FROM users WHERE email = ?')
+    .bind(invitation.email)
+    .first();
+
+  if (existingUser) {
+    return c.json({ error: 'Email already registered', code: 'EMAIL_EXISTS' }, 400);
+  }
+
+  // The limit may have been lowered since the invitation was sent
+  const exceeded = await checkQuota(c.env, invitation.tenant_id, 'users', { acceptingInvitation: true });
+  if (exceeded) {
+    return quotaExceededResponse(c, exceeded);
+  }
+
+  const violations = await checkPassword(
+    c.env,
+    await getPasswordPolicy(c.env, invitation.tenant_id),
+    password
+  );
+  if (violations.length > 0) {
+    return rejectWeakPassword(c, violations);
+  }
+
+  if (!(await claimInvitation(c.env, invitation.id))) {
+    return c.json({ error: 'Invitation is invalid or has expired', code: 'INVALID_INVITATION' }, 400);
+  }
+
+  const userId = generateId();
+  const passwordHash = await hashPassword(password);
+
+  // Following the emailed link proves the address, so it starts verified
+  try {
+    await c.env.DB.batch([
+      c.env.DB.prepare(`
+        INSERT INTO users (
+          id, email, name, password_hash, password_changed_at, role, role_id, tenant_id,
+          active, email_verified, email_verified_at, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, datetime('now'), ?, ?, ?, 1, 1, datetime('now'), datetime('now'), datetime('now'))
+      `).bind(
+        userId,
+        invitation.email,
+        name.trim(),
+        passwordHash,
+        invitation.role,
+        invitation.role_id || null,
+        invitation.tenant_id
+      ),
+      passwordHistoryStatement(c.env, userId, passwordHash),
+      c.env.DB.prepare('UPDATE invitations SET accepted_user_id = ? WHERE id = ?').bind(userId, invitation.id),
+    ]);
+  } catch (error) {
+    // The email was registered concurrently; leave the invitation open again
+    await c.env.DB.prepare('UPDATE invitations SET accepted_at = NULL WHERE id = ?')
+      .bind(invitation.id)
+      .run();
+    console.error('Invitation accept error:', error);
+    return c.json({ error: 'Email already registered', code: 'EMAIL_EXISTS' }, 400);
+  }
+
+  const user = await c.env.DB.prepare('SELECT * FROM users WHERE id = ?')
+    .bind(userId)
+    .first<User>();
+
+  c.set('user', user!);
+  await createAuditLog(c, 'user.invitation_accepted', 'invitation', invitation.id, null, {
+    userId,
+    email: invitation.email,
+    role: invitation.role,
+  });
+
+  return continueLogin(c, user!);
+});
+
+// Confirm email address from the emailed link
+app.get('/verify-email', async (c) => {
+  const token = c.req.query('token');
+
+  if (!token) {
+    return c.json({ error: 'Token is required', code: 'VALIDATION_ERROR' }, 400);
+  }
+
+  const userId = await confirmEmailVerification(c.env, token);
+  if (!userId) {
+    return c.json({ error: 'Verification link is invalid or has expired', code: 'INVALID_VERIFICATION_TOKEN' }, 400);
+  }
+
+  const user = await c.env.DB.prepare('SELECT * FROM users WHERE id = ?')
+    .bind(userId)
+    .first<User>();
+
+  if (user) {
+    c.set('user', user);
+    await createAuditLog(c, 'user.email_verified', 'user', user.id, null, { email: user.email });
+  }
+
+  return c.json({ success: true });
+});
+
+// Resend verification email for the current user
+app.post('/verify-email/resend', authMiddleware, requireUserSession(), async (c) => {
+  const user = c.get('user');
+
+  if (user.email_verified) {
+    return c.json({ error: 'Email already verified', code: 'EMAIL_ALREADY_VERIFIED' }, 400);
+  }
+
+  const waitSeconds = await getResendWaitSeconds(c.env, user.id);
+  if (waitSeconds > 0) {
+    c.header('Retry-After', String(waitSeconds));
+    return c.json({
+      error: 'Please wait before requesting another verification email',
+      code: 'TOO_MANY_REQUESTS',
+      retryAfter: waitSeconds,
+    }, 429);
+  }
+
+  await sendVerificationEmail(c.env, user);
+
+  return c.json({ success: true, message: 'Verification email sent' });
+});
+
+// ============================================
+// SESSIONS (authenticated user)
+// ============================================
+
+// List my sessions, flagging the one making this request
+app.get('/sessions', authMiddleware, requireUserSession(), async (c) => {
+  const user = c.get('user');
+  const currentSessionId = c.get('sessionId');
+
+  const sessions = await listActiveSessions(c.env, user.id);
+
+  return c.json(
+    sessions.map((session) => ({
+      ...toCamelCase<Record<string, unknown>>(session as unknown as Record<string, unknown>),
+      current: session.id === currentSessionId,
+    }))
+  );
+});
+
+// Sign out every other session ("sign out everywhere else")
+app.post('/sessions/revoke-others', authMiddleware, requireUserSession(), requireNotImpersonating(), async (c) => {
+  const user = c.get('user');
+  const currentSessionId = c.get('sessionId');
+
+  const sessions = await listActiveSessions(c.env, user.id);
+  let revokedCount = 0;
+
+  for (const session of sessions) {
+    if (session.id === currentSessionId) continue;
+    if (await revokeSession(c.env, session.id, user.id)) {
+      revokedCount++;
+      await createAuditLog(c, 'session.revoked', 'session', session.id, null, {
+        userId: user.id,
+        selfService: true,
+        ipAddress: session.ip_address,
+      });
+    }
+  }
+
+  return c.json({ success: true, revokedCount });
+});
+
+// Sign out one of my sessions; revoking the current one logs this client out
+app.delete('/sessions/:sessionId', authMiddleware, requireUserSession(), requireNotImpersonating(), async (c) => {
+  const { sessionId } = c.req.param();
+  const user = c.get('user');
+
+  const revoked = await revokeSession(c.env, sessionId, user.id);
+  if (!revoked) {
+    return c.json({ error: 'Session not found' }, 404);
+  }
+
+  await createAuditLog(c, 'session.revoked', 'session', sessionId, null, {
+    userId: user.id,
+    selfService: true,
+    current: sessionId === c.get('sessionId'),
+  });
+
+  return c.json({ success: true });
+});
+
 // Change password
-app.post('/change-password', async (c) => {
+app.post('/change-password', authMiddleware, requireUserSession(), requireNotImpersonating(), async (c) => {
   const user = c.get('user');
   if (!user) {
     return c.json({ error: 'Unauthorized' }, 401);
@@ -145,22 +837,110 @@ app.post('/change-password', async (c) => {
     return c.json({ error: 'Current password is incorrect' }, 400);
   }
 
-  if (newPassword.length < 6) {
-    return c.json({ error: 'New password must be at least 6 characters' }, 400);
+  const violations = await checkPassword(
+    c.env,
+    await getPasswordPolicy(c.env, user.tenant_id),
+    newPassword || '',
+    user
+  );
+  if (violations.length > 0) {
+    return rejectWeakPassword(c, violations);
   }
 
   const newHash = await hashPassword(newPassword);
-  await c.env.DB.prepare(
-    "UPDATE users SET password_hash = ?, updated_at = datetime('now') WHERE id = ?"
-  )
-    .bind(newHash, user.id)
-    .run();
+  const sessionId = c.get('sessionId');
+
+  // Set the new password and sign out every session except this one
+  const results = await c.env.DB.batch([
+    ...passwordUpdateStatements(c.env, user.id, newHash),
+    c.env.DB.prepare('DELETE FROM refresh_tokens WHERE user_id = ? AND session_id != ?').bind(user.id, sessionId),
+    c.env.DB.prepare('DELETE FROM sessions WHERE user_id = ? AND id != ?').bind(user.id, sessionId),
+  ]);
+
+  await createAuditLog(c, 'user.updated', 'user', user.id, null, {
+    passwordChanged: true,
+    sessionsRevoked: results[results.length - 1].meta?.changes || 0,
+  });
+
+  return c.json({ success: true });
+});
+
+// ============================================
+// TWO-FACTOR AUTHENTICATION (authenticated user)
+// ============================================
 
-  await createAuditLog(c, 'user.updated', 'user', user.id, null, { passwordChanged: true });
+// Start enrollment - returns a new secret to scan
+app.post('/2fa/setup', authMiddleware, requireUserSession(), requireNotImpersonating(), async (c) => {
+  const user = c.get('user');
+
+  if (!TWO_FACTOR_ROLES.includes(user.role)) {
+    return c.json({ error: 'Two-factor authentication is not available for this role' }, 403);
+  }
+
+  if (user.totp_enabled) {
+    return c.json({ error: 'Two-factor authentication is already enabled', code: '2FA_ALREADY_ENABLED' }, 400);
+  }
+
+  return c.json(await startEnrollment(c.env, user));
+});
+
+// Confirm enrollment with a code from the app
+app.post('/2fa/enable', authMiddleware, requireUserSession(), requireNotImpersonating(), async (c) => {
+  const user = c.get('user');
+  const { code } = await c.req.json<{ code: string }>();
+
+  const recoveryCodes = await confirmEnrollment(c.env, user, code || '');
+  if (!recoveryCodes) {
+    return c.json({ error: 'Invalid verification code', code: 'INVALID_2FA_CODE' }, 400);
+  }
+
+  await createAuditLog(c, 'user.2fa_enabled', 'user', user.id);
+
+  return c.json({ success: true, recoveryCodes });
+});
+
+// Disable 2FA - requires password and a current code
+app.post('/2fa/disable', authMiddleware, requireUserSession(), requireNotImpersonating(), async (c) => {
+  const user = c.get('user');
+  const { password, code, recoveryCode } = await c.req.json<{
+    password: string;
+    code?: string;
+    recoveryCode?: string;
+  }>();
+
+  if (await isTwoFactorRequired(c.env, user)) {
+    return c.json({ error: 'Your organization requires two-factor authentication', code: '2FA_REQUIRED' }, 400);
+  }
+
+  if (!(await verifyPassword(password || '', user.password_hash))) {
+    return c.json({ error: 'Current password is incorrect' }, 400);
+  }
+
+  if (!(await verifySecondFactor(c.env, user, { code, recoveryCode }))) {
+    return c.json({ error: 'Invalid verification code', code: 'INVALID_2FA_CODE' }, 400);
+  }
+
+  await disableTwoFactor(c.env, user.id);
+  await createAuditLog(c, 'user.2fa_disabled', 'user', user.id);
 
   return c.json({ success: true });
 });
 
+// Regenerate recovery codes - invalidates the previous set
+app.post('/2fa/recovery-codes', authMiddleware, requireUserSession(), requireNotImpersonating(), async (c) => {
+  const user = c.get('user');
+  const { code } = await c.req.json<{ code: string }>();
+
+  if (!(await verifySecondFactor(c.env, user, { code }))) {
+    return c.json({ error: 'Invalid verification code', code: 'INVALID_2FA_CODE' }, 400);
+  }
+
+  const recoveryCodes = await regenerateRecoveryCodes(c.env, user.id);
+  await createAuditLog(c, 'user.2fa_recovery_regenerated', 'user', user.id);
+
+  return c.json({ recoveryCodes });
+});
+
 // ============================================
 // PUBLIC SIGNUP - Create new tenant (onboarding)
 // ============================================
@@ -182,11 +962,10 @@ app.post('/public/signup', async (c) => {
     }, 400);
   }
 
-  if (password.length < 6) {
-    return c.json({
-      error: 'Password must be at least 6 characters',
-      code: 'VALIDATION_ERROR',
-    }, 400);
+  // New tenants start with the default policy
+  const violations = await checkPassword(c.env, DEFAULT_PASSWORD_POLICY, password);
+  if (violations.length > 0) {
+    return rejectWeakPassword(c, violations);
   }
 
   // Check if email already exists
@@ -223,28 +1002,35 @@ app.post('/public/signup', async (c) => {
     slug = `${slug}-${Date.now().toString(36)}`;
   }
 
+  // Self-service tenants start on the free plan with its limits
+  const freePlan = await getPlan(c.env, 'free');
+  const limits = freePlan ? resolvePlanLimits(freePlan) : { maxUsers: 3, maxLocations: 1 };
+  const settings = JSON.stringify({ features: freePlan ? parsePlanFeatures(freePlan) : {} });
+
   // Hash password
   const passwordHash = await hashPassword(password);
 
-  // Calculate trial end date (14 days)
   const trialEndsAt = new Date();
-  trialEndsAt.setDate(trialEndsAt.getDate() + 14);
+  trialEndsAt.setDate(trialEndsAt.getDate() + TRIAL_DAYS);
 
   try {
     // Create tenant
     await c.env.DB.prepare(`
       INSERT INTO tenants (
-        id, name, slug, email, phone, plan, status,
+        id, name, slug, email, phone, plan, plan_id, status,
         trial_ends_at, max_users, max_locations,
         mp_enabled, settings, branding, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, 'free', 'trial', ?, 3, 1, 0, '{}', '{}', datetime('now'), datetime('now'))
+      ) VALUES (?, ?, ?, ?, ?, 'free', 'free', 'trial', ?, ?, ?, 0, ?, '{}', datetime('now'), datetime('now'))
     `).bind(
       tenantId,
       businessName,
       slug,
       email.toLowerCase(),
       phone || null,
-      trialEndsAt.toISOString()
+      trialEndsAt.toISOString(),
+      limits.maxUsers,
+      limits.maxLocations,
+      settings
     ).run();
 
     // Create default location
@@ -257,9 +1043,9 @@ app.post('/public/signup', async (c) => {
     // Create admin user for tenant
     await c.env.DB.prepare(`
       INSERT INTO users (
-        id, tenant_id, email, name, password_hash, role,
+        id, tenant_id, email, name, password_hash, password_changed_at, role,
         active, email_verified, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, 'admin', 1, 0, datetime('now'), datetime('now'))
+      ) VALUES (?, ?, ?, ?, ?, datetime('now'), 'admin', 1, 0, datetime('now'), datetime('now'))
     `).bind(
       userId,
       tenantId,
@@ -267,6 +1053,7 @@ app.post('/public/signup', async (c) => {
       businessName,
       passwordHash
     ).run();
+    await passwordHistoryStatement(c.env, userId, passwordHash).run();
 
     // Create trial subscription
     await c.env.DB.prepare(`
@@ -276,8 +1063,11 @@ app.post('/public/signup', async (c) => {
       ) VALUES (?, ?, 'free', 'active', 0, 'ARS', 'monthly', datetime('now'), ?, datetime('now'), datetime('now'))
     `).bind(subscriptionId, tenantId, trialEndsAt.toISOString()).run();
 
-    // Generate token
-    const token = await generateToken(userId, c.env.JWT_SECRET);
+    // Create session for the new admin
+    const session = await createSession(c, { id: userId, email: email.toLowerCase() });
+
+    // Ask the new admin to confirm their email
+    await sendVerificationEmail(c.env, { id: userId, email: email.toLowerCase(), name: businessName });
 
     // Create audit log (without user context since we just created it)
     await c.env.DB.prepare(`
@@ -299,7 +1089,10 @@ app.post('/public/signup', async (c) => {
 
     return c.json({
       success: true,
-      token,
+      token: session.token,
+      expiresAt: session.expiresAt,
+      refreshToken: session.refreshToken,
+      refreshExpiresAt: session.refreshExpiresAt,
       tenantId,
       user: {
         id: userId,
@@ -309,6 +1102,7 @@ app.post('/public/signup', async (c) => {
         tenantId,
         active: true,
         emailVerified: false,
+        permissions: await resolvePermissions(c.env, { role: 'admin', role_id: null, tenant_id: tenantId }),
       },
       tenant: {
         id: tenantId,
@@ -318,7 +1112,7 @@ app.post('/public/signup', async (c) => {
         plan: 'free',
         trialEndsAt: trialEndsAt.toISOString(),
       },
-      message: 'Account created successfully. Trial period: 14 days.',
+      message: `Account created successfully. Trial period: ${TRIAL_DAYS} days.`,
     }, 201);
   } catch (error) {
     console.error('Signup error:', error);
@@ -1,7 +1,16 @@
 import { Hono } from 'hono';
 import { Env } from '../types';
-import { requirePermission, requireSuperAdmin } from '../middleware/auth';
+import { requirePermission, requireSuperAdmin, requireVerifiedEmail } from '../middleware/auth';
 import { createAuditLog, toCamelCase } from '../utils/helpers';
+import { normalizePasswordPolicy } from '../services/passwordPolicy';
+import {
+  allowlistScopeFor,
+  getIpAllowlist,
+  isIpAllowed,
+  isSuperAdminBypassEnabled,
+  normalizeAllowlist,
+  saveIpAllowlist,
+} from '../services/ipAllowlist';
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -68,6 +77,11 @@ app.put('/:tenantId', requirePermission('config:write'), async (c) => {
     return c.json({ error: 'Tenant not found' }, 404);
   }
 
+  // Feature flags gate what the plan includes; only the platform team can change them
+  if (user.role !== 'superadmin') {
+    delete body.features;
+  }
+
   const currentSettings = JSON.parse((tenant as any).settings || '{}');
   const newSettings = {
     ...currentSettings,
@@ -75,7 +89,14 @@ app.put('/:tenantId', requirePermission('config:write'), async (c) => {
     branding: { ...currentSettings.branding, ...body.branding },
     notifications: { ...currentSettings.notifications, ...body.notifications },
     features: { ...currentSettings.features, ...body.features },
+    security: { ...currentSettings.security, ...body.security },
   };
+  if (body.security?.passwordPolicy) {
+    newSettings.security.passwordPolicy = normalizePasswordPolicy({
+      ...currentSettings.security?.passwordPolicy,
+      ...body.security.passwordPolicy,
+    });
+  }
 
   await c.env.DB.prepare(
     "UPDATE tenants SET settings = ?, updated_at = datetime('now') WHERE id = ?"
@@ -88,6 +109,65 @@ app.put('/:tenantId', requirePermission('config:write'), async (c) => {
   return c.json(newSettings);
 });
 
+// IP allowlist of a tenant, or the global one (superadmins) when tenantId is "global"
+app.get('/ip-allowlist/:tenantId', requirePermission('config:read'), async (c) => {
+  const { tenantId } = c.req.param();
+  const user = c.get('user');
+
+  if (tenantId === 'global' ? user.role !== 'superadmin' : user.role !== 'superadmin' && tenantId !== user.tenant_id) {
+    return c.json({ error: 'Forbidden' }, 403);
+  }
+
+  return c.json({
+    entries: await getIpAllowlist(c.env, tenantId === 'global' ? null : tenantId),
+    currentIp: c.req.header('CF-Connecting-IP') || null,
+    bypassEnabled: tenantId === 'global' && isSuperAdminBypassEnabled(c.env),
+  });
+});
+
+app.put('/ip-allowlist/:tenantId', requirePermission('config:write'), async (c) => {
+  const { tenantId } = c.req.param();
+  const user = c.get('user');
+  const body = await c.req.json<{ entries?: unknown }>();
+  const isGlobal = tenantId === 'global';
+
+  if (isGlobal ? user.role !== 'superadmin' : user.role !== 'superadmin' && tenantId !== user.tenant_id) {
+    return c.json({ error: 'Forbidden' }, 403);
+  }
+
+  if (!isGlobal) {
+    const tenant = await c.env.DB.prepare('SELECT id FROM tenants WHERE id = ?').bind(tenantId).first();
+    if (!tenant) {
+      return c.json({ error: 'Tenant not found' }, 404);
+    }
+  }
+
+  const { entries, invalid } = normalizeAllowlist(body.entries);
+  if (invalid.length > 0) {
+    return c.json({ error: 'Invalid IP ranges', code: 'INVALID_CIDR', invalid }, 400);
+  }
+
+  // Refuse a list that would lock out the person saving it
+  const currentIp = c.req.header('CF-Connecting-IP') || null;
+  const scope = allowlistScopeFor(user);
+  const appliesToRequester = isGlobal
+    ? scope === 'global' && !isSuperAdminBypassEnabled(c.env)
+    : scope === 'tenant';
+  if (appliesToRequester && !isIpAllowed(currentIp, entries)) {
+    return c.json(
+      { error: 'The list does not include your current IP address', code: 'IP_LOCKOUT', currentIp },
+      400
+    );
+  }
+
+  const oldEntries = await getIpAllowlist(c.env, isGlobal ? null : tenantId);
+  await saveIpAllowlist(c.env, isGlobal ? null : tenantId, entries);
+
+  await createAuditLog(c, 'config.ip_allowlist_updated', 'config', tenantId, { entries: oldEntries }, { entries });
+
+  return c.json({ entries, currentIp, bypassEnabled: isGlobal && isSuperAdminBypassEnabled(c.env) });
+});
+
 // Get system health (super admin only)
 app.get('/health', requireSuperAdmin, async (c) => {
   // Check database
@@ -154,7 +234,7 @@ app.get('/mercadopago/:tenantId', requirePermission('mercadopago:read'), async (
   });
 });
 
-app.put('/mercadopago/:tenantId', requirePermission('mercadopago:write'), async (c) => {
+app.put('/mercadopago/:tenantId', requirePermission('mercadopago:write'), requireVerifiedEmail(), async (c) => {
   const tenantId = c.req.param('tenantId');
   const { enabled } = await c.req.json<{ enabled: boolean }>();
 
@@ -169,7 +249,7 @@ app.put('/mercadopago/:tenantId', requirePermission('mercadopago:write'), async
   return c.json({ success: true });
 });
 
-app.post('/mercadopago/:tenantId/test', requirePermission('mercadopago:write'), async (c) => {
+app.post('/mercadopago/:tenantId/test', requirePermission('mercadopago:write'), requireVerifiedEmail(), async (c) => {
   // Test MercadoPago connection
   try {
     const response = await fetch('https://api.mercadopago.com/v1/payment_methods', {
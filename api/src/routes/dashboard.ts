@@ -54,7 +54,10 @@ app.get('/stats', async (c) => {
   // Get tenants by plan (super admin only)
   const tenantsByPlan = isSuperAdmin
     ? await c.env.DB.prepare(`
-        SELECT plan, COUNT(*) as count FROM tenants GROUP BY plan
+        SELECT t.plan_id as plan, p.name as plan_name, COUNT(*) as count
+        FROM tenants t
+        LEFT JOIN plans p ON p.id = t.plan_id
+        GROUP BY t.plan_id
       `).all()
     : { results: [] };
 
@@ -88,6 +91,7 @@ app.get('/stats', async (c) => {
     })),
     tenantsByPlan: tenantsByPlan.results.map((r: any) => ({
       plan: r.plan,
+      planName: r.plan_name || r.plan,
       count: r.count,
     })),
     recentActivity: rowsToCamelCase(recentActivity.results as Record<string, unknown>[]),
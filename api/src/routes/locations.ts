@@ -0,0 +1,306 @@
+import { Context, Hono } from 'hono';
+import { Env, Location, User } from '../types';
+import { requirePermission } from '../middleware/auth';
+import { createAuditLog, generateId, toCamelCase } from '../utils/helpers';
+import { checkQuota, quotaExceededResponse } from '../services/quotas';
+
+const app = new Hono<{ Bindings: Env }>();
+
+interface LocationBody {
+  name?: string;
+  address?: string | null;
+  city?: string | null;
+  province?: string | null;
+  postalCode?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  tenantId?: string;
+}
+
+// Editable columns and the body field each one comes from
+const LOCATION_FIELDS: [string, keyof LocationBody][] = [
+  ['name', 'name'],
+  ['address', 'address'],
+  ['city', 'city'],
+  ['province', 'province'],
+  ['postal_code', 'postalCode'],
+  ['phone', 'phone'],
+  ['email', 'email'],
+];
+
+// Superadmins pick the tenant, everyone else works on their own
+function resolveTenantId(user: User, requested?: string | null): string | null {
+  return user.role === 'superadmin' ? requested || null : user.tenant_id;
+}
+
+async function tenantExists(env: Env, id: string): Promise<boolean> {
+  return !!(await env.DB.prepare('SELECT id FROM tenants WHERE id = ?').bind(id).first());
+}
+
+function serializeLocation(row: Location) {
+  const { settings: _settings, ...location } = row;
+  return {
+    ...toCamelCase<Record<string, unknown>>(location as unknown as Record<string, unknown>),
+    isDefault: !!row.is_default,
+    active: !!row.active,
+  };
+}
+
+// Location of the caller's tenant (any tenant for superadmins)
+async function findLocation(c: Context<{ Bindings: Env }>, id: string): Promise<Location | null> {
+  const user = c.get('user');
+  const location = await c.env.DB.prepare('SELECT * FROM locations WHERE id = ?')
+    .bind(id)
+    .first<Location>();
+
+  if (!location || (user.role !== 'superadmin' && location.tenant_id !== user.tenant_id)) {
+    return null;
+  }
+  return location;
+}
+
+// Without the multi-location feature a tenant keeps a single active location.
+// Tenant admins can't change features through the config endpoint, only superadmins
+async function isMultiLocationEnabled(env: Env, tenantId: string): Promise<boolean> {
+  const tenant = await env.DB.prepare('SELECT settings FROM tenants WHERE id = ?')
+    .bind(tenantId)
+    .first<{ settings: string }>();
+
+  try {
+    return !!JSON.parse(tenant?.settings || '{}').features?.multiLocationEnabled;
+  } catch {
+    return false;
+  }
+}
+
+// Quota and feature checks for one more active location
+async function checkLocationAllowed(c: Context<{ Bindings: Env }>, tenantId: string) {
+  const exceeded = await checkQuota(c.env, tenantId, 'locations');
+  if (exceeded) {
+    return quotaExceededResponse(c, exceeded);
+  }
+
+  if (!(await isMultiLocationEnabled(c.env, tenantId))) {
+    const active = await c.env.DB.prepare('SELECT COUNT(*) as count FROM locations WHERE tenant_id = ? AND active = 1')
+      .bind(tenantId)
+      .first<{ count: number }>();
+
+    if ((active?.count || 0) > 0) {
+      return c.json({
+        error: 'Multiple locations are not enabled for this organization',
+        code: 'FEATURE_DISABLED',
+        feature: 'multiLocationEnabled',
+      }, 403);
+    }
+  }
+
+  return null;
+}
+
+// List locations; the Operations picker uses this too
+app.get('/', requirePermission('operations:read'), async (c) => {
+  const user = c.get('user');
+  const tenantId = resolveTenantId(user, c.req.query('tenantId'));
+
+  if (!tenantId) {
+    return c.json({ error: 'tenantId is required' }, 400);
+  }
+
+  const includeInactive = c.req.query('all') === 'true';
+
+  const { results } = await c.env.DB.prepare(`
+    SELECT * FROM locations
+    WHERE tenant_id = ? ${includeInactive ? '' : 'AND active = 1'}
+    ORDER BY is_default DESC, active DESC, name
+  `)
+    .bind(tenantId)
+    .all<Location>();
+
+  return c.json({
+    data: (results || []).map(serializeLocation),
+    multiLocationEnabled: await isMultiLocationEnabled(c.env, tenantId),
+  });
+});
+
+app.get('/:id', requirePermission('operations:read'), async (c) => {
+  const { id } = c.req.param();
+
+  const location = await findLocation(c, id);
+  if (!location) {
+    return c.json({ error: 'Location not found' }, 404);
+  }
+
+  return c.json(serializeLocation(location));
+});
+
+app.post('/', requirePermission('config:write'), async (c) => {
+  const user = c.get('user');
+  const body = await c.req.json<LocationBody>();
+
+  const tenantId = resolveTenantId(user, body.tenantId);
+  if (!tenantId) {
+    return c.json({ error: 'tenantId is required' }, 400);
+  }
+
+  if (!(await tenantExists(c.env, tenantId))) {
+    return c.json({ error: 'Tenant not found' }, 404);
+  }
+
+  if (!body.name?.trim()) {
+    return c.json({ error: 'Name is required' }, 400);
+  }
+
+  const blocked = await checkLocationAllowed(c, tenantId);
+  if (blocked) return blocked;
+
+  // The first location of a tenant becomes its default
+  const existing = await c.env.DB.prepare('SELECT COUNT(*) as count FROM locations WHERE tenant_id = ? AND is_default = 1')
+    .bind(tenantId)
+    .first<{ count: number }>();
+
+  const id = generateId();
+  await c.env.DB.prepare(`
+    INSERT INTO locations (
+      id, tenant_id, name, address, city, province, postal_code, phone, email,
+      is_default, active, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, datetime('now'), datetime('now'))
+  `).bind(
+    id,
+    tenantId,
+    body.name.trim(),
+    body.address || null,
+    body.city || null,
+    body.province || null,
+    body.postalCode || null,
+    body.phone || null,
+    body.email || null,
+    (existing?.count || 0) === 0 ? 1 : 0
+  ).run();
+
+  const location = (await findLocation(c, id))!;
+  await createAuditLog(c, 'location.created', 'location', id, null, serializeLocation(location));
+
+  return c.json(serializeLocation(location), 201);
+});
+
+app.put('/:id', requirePermission('config:write'), async (c) => {
+  const { id } = c.req.param();
+  const body = await c.req.json<LocationBody>();
+
+  const existing = await findLocation(c, id);
+  if (!existing) {
+    return c.json({ error: 'Location not found' }, 404);
+  }
+
+  if (body.name !== undefined && !body.name?.trim()) {
+    return c.json({ error: 'Name is required' }, 400);
+  }
+
+  const updates = LOCATION_FIELDS.filter(([, field]) => body[field] !== undefined);
+  if (updates.length === 0) {
+    return c.json({ error: 'No fields to update' }, 400);
+  }
+
+  await c.env.DB.prepare(`
+    UPDATE locations SET ${updates.map(([column]) => `${column} = ?`).join(', ')}, updated_at = datetime('now')
+    WHERE id = ?
+  `)
+    .bind(...updates.map(([, field]) => (field === 'name' ? body.name!.trim() : body[field] || null)), id)
+    .run();
+
+  const location = (await findLocation(c, id))!;
+  await createAuditLog(c, 'location.updated', 'location', id, serializeLocation(existing), serializeLocation(location));
+
+  return c.json(serializeLocation(location));
+});
+
+// Deactivated locations keep their orders but free a slot of the plan
+app.post('/:id/deactivate', requirePermission('config:write'), async (c) => {
+  const { id } = c.req.param();
+
+  const location = await findLocation(c, id);
+  if (!location) {
+    return c.json({ error: 'Location not found' }, 404);
+  }
+
+  if (location.is_default) {
+    return c.json({
+      error: 'The default location cannot be deactivated, set another one as default first',
+      code: 'DEFAULT_LOCATION',
+    }, 400);
+  }
+
+  if (!location.active) {
+    return c.json({ error: 'Location is already inactive', code: 'ALREADY_INACTIVE' }, 400);
+  }
+
+  await c.env.DB.prepare("UPDATE locations SET active = 0, updated_at = datetime('now') WHERE id = ?")
+    .bind(id)
+    .run();
+
+  await createAuditLog(c, 'location.deactivated', 'location', id, { active: true }, { active: false });
+
+  return c.json({ success: true });
+});
+
+app.post('/:id/activate', requirePermission('config:write'), async (c) => {
+  const { id } = c.req.param();
+
+  const location = await findLocation(c, id);
+  if (!location) {
+    return c.json({ error: 'Location not found' }, 404);
+  }
+
+  if (location.active) {
+    return c.json({ error: 'Location is already active', code: 'ALREADY_ACTIVE' }, 400);
+  }
+
+  const blocked = await checkLocationAllowed(c, location.tenant_id);
+  if (blocked) return blocked;
+
+  await c.env.DB.prepare("UPDATE locations SET active = 1, updated_at = datetime('now') WHERE id = ?")
+    .bind(id)
+    .run();
+
+  await createAuditLog(c, 'location.activated', 'location', id, { active: false }, { active: true });
+
+  return c.json({ success: true });
+});
+
+// Exactly one default per tenant
+app.post('/:id/default', requirePermission('config:write'), async (c) => {
+  const { id } = c.req.param();
+
+  const location = await findLocation(c, id);
+  if (!location) {
+    return c.json({ error: 'Location not found' }, 404);
+  }
+
+  if (!location.active) {
+    return c.json({ error: 'Only an active location can be the default', code: 'LOCATION_INACTIVE' }, 400);
+  }
+
+  const previous = await c.env.DB.prepare('SELECT id FROM locations WHERE tenant_id = ? AND is_default = 1')
+    .bind(location.tenant_id)
+    .first<{ id: string }>();
+
+  await c.env.DB.batch([
+    c.env.DB.prepare("UPDATE locations SET is_default = 0, updated_at = datetime('now') WHERE tenant_id = ? AND is_default = 1")
+      .bind(location.tenant_id),
+    c.env.DB.prepare("UPDATE locations SET is_default = 1, updated_at = datetime('now') WHERE id = ?")
+      .bind(id),
+  ]);
+
+  await createAuditLog(
+    c,
+    'location.default_changed',
+    'location',
+    id,
+    { defaultLocationId: previous?.id || null },
+    { defaultLocationId: id }
+  );
+
+  return c.json({ success: true });
+});
+
+export { app as locationsRoutes };
@@ -1,6 +1,6 @@
 import { Hono } from 'hono';
 import { Env, Payment } from '../types';
-import { requirePermission } from '../middleware/auth';
+import { requirePermission, requireVerifiedEmail } from '../middleware/auth';
 import {
   parsePagination,
   paginatedResponse,
@@ -92,7 +92,7 @@ app.get('/:id', requirePermission('payments:read'), async (c) => {
 });
 
 // Refund payment
-app.post('/:id/refund', requirePermission('payments:refund'), async (c) => {
+app.post('/:id/refund', requirePermission('payments:refund'), requireVerifiedEmail(), async (c) => {
   const id = c.req.param('id');
   const { reason } = await c.req.json<{ reason: string }>();
 
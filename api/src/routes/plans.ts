@@ -0,0 +1,199 @@
+import { Hono } from 'hono';
+import { Env, Plan } from '../types';
+import { requireSuperAdmin } from '../middleware/auth';
+import { createAuditLog, slugify } from '../utils/helpers';
+import { getPlan, planFeaturesStatement, serializePlan } from '../services/plans';
+
+const app = new Hono<{ Bindings: Env }>();
+
+const BILLING_CURRENCIES = ['ARS', 'USD'];
+
+interface PlanBody {
+  id?: string;
+  name?: string;
+  description?: string | null;
+  priceMonthly?: number | null;
+  priceYearly?: number | null;
+  currency?: string;
+  maxUsers?: number;
+  maxLocations?: number;
+  features?: Record<string, boolean>;
+  active?: boolean;
+  sortOrder?: number;
+}
+
+app.use('*', requireSuperAdmin());
+
+// Field checks shared by create and update; returns the first problem found
+function validatePlanBody(body: PlanBody): string | null {
+  const isPrice = (value: unknown) => value === null || (typeof value === 'number' && value >= 0);
+  const isLimit = (value: unknown) => Number.isInteger(value) && (value as number) >= 1;
+
+  if (body.name !== undefined && !body.name.trim()) return 'Name is required';
+  if (body.priceMonthly !== undefined && !isPrice(body.priceMonthly)) return 'Invalid monthly price';
+  if (body.priceYearly !== undefined && !isPrice(body.priceYearly)) return 'Invalid yearly price';
+  if (body.currency !== undefined && !BILLING_CURRENCIES.includes(body.currency)) return 'Invalid currency';
+  if (body.maxUsers !== undefined && !isLimit(body.maxUsers)) return 'Max users must be at least 1';
+  if (body.maxLocations !== undefined && !isLimit(body.maxLocations)) return 'Max locations must be at least 1';
+  if (
+    body.features !== undefined &&
+    (typeof body.features !== 'object' || body.features === null || Array.isArray(body.features) ||
+      Object.values(body.features).some((flag) => typeof flag !== 'boolean'))
+  ) {
+    return 'Features must be an object of flags';
+  }
+  return null;
+}
+
+// List plans with how many tenants are on each
+app.get('/', async (c) => {
+  const includeInactive = c.req.query('all') === 'true';
+
+  const { results } = await c.env.DB.prepare(`
+    SELECT p.*, (SELECT COUNT(*) FROM tenants t WHERE t.plan_id = p.id) as tenant_count
+    FROM plans p
+    ${includeInactive ? '' : 'WHERE p.active = 1'}
+    ORDER BY p.sort_order, p.name
+  `).all<Plan & { tenant_count: number }>();
+
+  return c.json({
+    data: (results || []).map(({ tenant_count, ...plan }) => serializePlan(plan as Plan, tenant_count)),
+  });
+});
+
+app.get('/:id', async (c) => {
+  const { id } = c.req.param();
+
+  const plan = await getPlan(c.env, id);
+  if (!plan) {
+    return c.json({ error: 'Plan not found' }, 404);
+  }
+
+  return c.json(serializePlan(plan));
+});
+
+app.post('/', async (c) => {
+  const body = await c.req.json<PlanBody>();
+
+  if (!body.name?.trim()) {
+    return c.json({ error: 'Name is required' }, 400);
+  }
+
+  const problem = validatePlanBody(body);
+  if (problem) {
+    return c.json({ error: problem, code: 'INVALID_PLAN' }, 400);
+  }
+
+  // The id is the key tenants and imports refer to, so it is fixed once created
+  const id = slugify(body.id || body.name);
+  if (!id) {
+    return c.json({ error: 'Invalid plan key', code: 'INVALID_PLAN' }, 400);
+  }
+
+  if (await getPlan(c.env, id)) {
+    return c.json({ error: 'A plan with this key already exists', code: 'PLAN_EXISTS' }, 400);
+  }
+
+  await c.env.DB.prepare(`
+    INSERT INTO plans (
+      id, name, description, price_monthly, price_yearly, currency,
+      max_users, max_locations, features, active, sort_order, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
+  `).bind(
+    id,
+    body.name.trim(),
+    body.description || null,
+    body.priceMonthly ?? null,
+    body.priceYearly ?? null,
+    body.currency || 'ARS',
+    body.maxUsers ?? 1,
+    body.maxLocations ?? 1,
+    JSON.stringify(body.features || {}),
+    body.active === false ? 0 : 1,
+    body.sortOrder ?? 0
+  ).run();
+
+  const plan = (await getPlan(c.env, id))!;
+  await createAuditLog(c, 'plan.created', 'plan', id, null, serializePlan(plan));
+
+  return c.json(serializePlan(plan), 201);
+});
+
+// Changing limits here doesn't touch existing tenants; they keep what they were given.
+// Feature changes do apply to every tenant on the plan
+app.put('/:id', async (c) => {
+  const { id } = c.req.param();
+  const body = await c.req.json<PlanBody>();
+
+  const existing = await getPlan(c.env, id);
+  if (!existing) {
+    return c.json({ error: 'Plan not found' }, 404);
+  }
+
+  const problem = validatePlanBody(body);
+  if (problem) {
+    return c.json({ error: problem, code: 'INVALID_PLAN' }, 400);
+  }
+
+  const fields: [string, unknown][] = [
+    ['name', body.name?.trim()],
+    ['description', body.description],
+    ['price_monthly', body.priceMonthly],
+    ['price_yearly', body.priceYearly],
+    ['currency', body.currency],
+    ['max_users', body.maxUsers],
+    ['max_locations', body.maxLocations],
+    ['features', body.features && JSON.stringify(body.features)],
+    ['active', body.active === undefined ? undefined : body.active ? 1 : 0],
+    ['sort_order', body.sortOrder],
+  ];
+  const updates = fields.filter(([, value]) => value !== undefined);
+
+  if (updates.length === 0) {
+    return c.json({ error: 'No fields to update' }, 400);
+  }
+
+  await c.env.DB.prepare(`
+    UPDATE plans SET ${updates.map(([column]) => `${column} = ?`).join(', ')}, updated_at = datetime('now')
+    WHERE id = ?
+  `)
+    .bind(...updates.map(([, value]) => value), id)
+    .run();
+
+  const plan = (await getPlan(c.env, id))!;
+  if (body.features !== undefined) {
+    await planFeaturesStatement(c.env, plan).run();
+  }
+  await createAuditLog(c, 'plan.updated', 'plan', id, serializePlan(existing), serializePlan(plan));
+
+  return c.json(serializePlan(plan));
+});
+
+// Only unused plans can be deleted; deactivate the others
+app.delete('/:id', async (c) => {
+  const { id } = c.req.param();
+
+  const existing = await getPlan(c.env, id);
+  if (!existing) {
+    return c.json({ error: 'Plan not found' }, 404);
+  }
+
+  const usage = await c.env.DB.prepare('SELECT COUNT(*) as count FROM tenants WHERE plan_id = ?')
+    .bind(id)
+    .first<{ count: number }>();
+
+  if ((usage?.count || 0) > 0) {
+    return c.json({
+      error: 'Plan is in use, deactivate it instead',
+      code: 'PLAN_IN_USE',
+      tenantCount: usage!.count,
+    }, 409);
+  }
+
+  await c.env.DB.prepare('DELETE FROM plans WHERE id = ?').bind(id).run();
+  await createAuditLog(c, 'plan.deleted', 'plan', id, serializePlan(existing), null);
+
+  return c.json({ success: true });
+});
+
+export { app as plansRoutes };
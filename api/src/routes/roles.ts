@@ -0,0 +1,339 @@
+import { Hono } from 'hono';
+import { Env, PERMISSIONS, Role, TENANT_PERMISSIONS, User, UserRole } from '../types';
+import { requirePermission, requireUserSession } from '../middleware/auth';
+import { createAuditLog, generateId, slugify, toCamelCase } from '../utils/helpers';
+import { canGrantBaseRole, parseRolePermissions } from '../services/roles';
+
+const app = new Hono<{ Bindings: Env }>();
+
+const TENANT_BASE_ROLES: UserRole[] = ['admin', 'operator', 'viewer'];
+
+// Superadmins pick the tenant, everyone else works on their own
+function resolveTenantId(user: User, requested?: string | null): string | null {
+  return user.role === 'superadmin' ? requested || null : user.tenant_id;
+}
+
+function toRoleResponse(role: Role, userCount: number) {
+  return {
+    ...toCamelCase<Record<string, unknown>>(role as unknown as Record<string, unknown>),
+    isSystem: !!role.is_system,
+    permissions: parseRolePermissions(role),
+    userCount,
+  };
+}
+
+// Validate a tenant role's permission set; nobody can grant more than they hold
+function invalidPermissions(requested: string[], ownPermissions: string[]): string[] {
+  return requested.filter(
+    (permission) => !TENANT_PERMISSIONS.includes(permission) || !ownPermissions.includes(permission)
+  );
+}
+
+async function findManageableRole(env: Env, user: User, id: string) {
+  const role = await env.DB.prepare('SELECT * FROM roles WHERE id = ?')
+    .bind(id)
+    .first<Role>();
+
+  if (!role) return { error: 'Role not found', status: 404 as const };
+  if (role.is_system || !role.tenant_id) {
+    return { error: 'System roles cannot be modified, clone them instead', status: 400 as const };
+  }
+  if (user.role !== 'superadmin' && role.tenant_id !== user.tenant_id) {
+    return { error: 'Forbidden', status: 403 as const };
+  }
+
+  return { role };
+}
+
+async function insertTenantRole(
+  env: Env,
+  data: { tenantId: string; name: string; description?: string | null; baseRole: UserRole; permissions: string[] }
+): Promise<Role | { error: string }> {
+  const key = slugify(data.name);
+  if (!key) {
+    return { error: 'Name is required' };
+  }
+
+  const existing = await env.DB.prepare(
+    'SELECT id FROM roles WHERE key = ? AND (tenant_id = ? OR tenant_id IS NULL)'
+  )
+    .bind(key, data.tenantId)
+    .first();
+
+  if (existing) {
+    return { error: 'A role with this name already exists' };
+  }
+
+  const id = generateId();
+  await env.DB.prepare(`
+    INSERT INTO roles (
+      id, tenant_id, key, name, description, base_role, is_system, permissions, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, 0, ?, datetime('now'), datetime('now'))
+  `).bind(
+    id,
+    data.tenantId,
+    key,
+    data.name.trim(),
+    data.description || null,
+    data.baseRole,
+    JSON.stringify([...new Set(data.permissions)])
+  ).run();
+
+  return (await env.DB.prepare('SELECT * FROM roles WHERE id = ?').bind(id).first<Role>())!;
+}
+
+// List system roles plus the tenant's own roles, with how many users hold each
+app.get('/', requirePermission('users:read'), async (c) => {
+  const user = c.get('user');
+  const tenantId = resolveTenantId(user, c.req.query('tenantId'));
+
+  const { results: roles } = await c.env.DB.prepare(`
+    SELECT * FROM roles
+    WHERE tenant_id IS NULL OR tenant_id = ?
+    ORDER BY is_system DESC, created_at ASC
+  `)
+    .bind(tenantId)
+    .all<Role>();
+
+  // System roles are counted by users.role among users without a tenant role
+  const userScope = tenantId ? 'AND tenant_id = ?' : '';
+  const scopeBindings = tenantId ? [tenantId] : [];
+  const [{ results: systemCounts }, { results: tenantCounts }] = await Promise.all([
+    c.env.DB.prepare(`
+      SELECT role AS id, COUNT(*) AS count FROM users
+      WHERE role_id IS NULL ${userScope}
+      GROUP BY role
+    `)
+      .bind(...scopeBindings)
+      .all<{ id: string; count: number }>(),
+    c.env.DB.prepare(`
+      SELECT role_id AS id, COUNT(*) AS count FROM users
+      WHERE role_id IS NOT NULL ${userScope}
+      GROUP BY role_id
+    `)
+      .bind(...scopeBindings)
+      .all<{ id: string; count: number }>(),
+  ]);
+
+  const countFor = (role: Role) =>
+    (role.is_system
+      ? systemCounts.find((row) => row.id === role.key)
+      : tenantCounts.find((row) => row.id === role.id)
+    )?.count || 0;
+
+  // Tenant users do not need to see the platform-only superadmin role
+  const visibleRoles = user.role === 'superadmin'
+    ? roles
+    : roles.filter((role) => role.base_role !== 'superadmin');
+
+  return c.json({
+    data: visibleRoles.map((role) => toRoleResponse(role, countFor(role))),
+    permissions: PERMISSIONS,
+    tenantPermissions: TENANT_PERMISSIONS,
+  });
+});
+
+// Create tenant role
+app.post('/', requirePermission('users:write'), requireUserSession(), async (c) => {
+  const user = c.get('user');
+  const body = await c.req.json<{
+    name: string;
+    description?: string;
+    baseRole?: UserRole;
+    permissions: string[];
+    tenantId?: string;
+  }>();
+
+  const tenantId = resolveTenantId(user, body.tenantId);
+  if (!tenantId) {
+    return c.json({ error: 'tenantId is required' }, 400);
+  }
+
+  // The base role can't be above the caller's own, whatever permissions the role carries
+  const baseRole = body.baseRole || 'operator';
+  if (!TENANT_BASE_ROLES.includes(baseRole) || !canGrantBaseRole(baseRole, user.role)) {
+    return c.json({ error: 'Invalid base role' }, 400);
+  }
+
+  const permissions = Array.isArray(body.permissions) ? body.permissions : [];
+  const invalid = invalidPermissions(permissions, c.get('permissions'));
+  if (invalid.length > 0) {
+    return c.json({ error: 'Invalid permissions', code: 'INVALID_PERMISSIONS', permissions: invalid }, 400);
+  }
+
+  const role = await insertTenantRole(c.env, {
+    tenantId,
+    name: body.name || '',
+    description: body.description,
+    baseRole,
+    permissions,
+  });
+
+  if ('error' in role) {
+    return c.json({ error: role.error }, 400);
+  }
+
+  await createAuditLog(c, 'role.created', 'role', role.id, null, {
+    name: role.name,
+    baseRole,
+    permissions,
+    tenantId,
+  });
+
+  return c.json(toRoleResponse(role, 0), 201);
+});
+
+// Clone a role (usually a system role) into a new tenant role
+app.post('/:id/clone', requirePermission('users:write'), requireUserSession(), async (c) => {
+  const { id } = c.req.param();
+  const user = c.get('user');
+  const body = await c.req.json<{ name: string; tenantId?: string }>();
+
+  const tenantId = resolveTenantId(user, body.tenantId);
+  if (!tenantId) {
+    return c.json({ error: 'tenantId is required' }, 400);
+  }
+
+  const source = await c.env.DB.prepare(
+    'SELECT * FROM roles WHERE id = ? AND (tenant_id IS NULL OR tenant_id = ?)'
+  )
+    .bind(id, tenantId)
+    .first<Role>();
+
+  if (!source) {
+    return c.json({ error: 'Role not found' }, 404);
+  }
+
+  if (!TENANT_BASE_ROLES.includes(source.base_role) || !canGrantBaseRole(source.base_role, user.role)) {
+    return c.json({ error: 'This role cannot be cloned into a tenant role' }, 400);
+  }
+
+  // Copy only what a tenant role may hold and the caller may grant
+  const ownPermissions = c.get('permissions');
+  const permissions = parseRolePermissions(source).filter(
+    (permission) => TENANT_PERMISSIONS.includes(permission) && ownPermissions.includes(permission)
+  );
+
+  const role = await insertTenantRole(c.env, {
+    tenantId,
+    name: body.name || '',
+    description: source.description,
+    baseRole: source.base_role,
+    permissions,
+  });
+
+  if ('error' in role) {
+    return c.json({ error: role.error }, 400);
+  }
+
+  await createAuditLog(c, 'role.created', 'role', role.id, null, {
+    name: role.name,
+    clonedFrom: source.id,
+    permissions,
+    tenantId,
+  });
+
+  return c.json(toRoleResponse(role, 0), 201);
+});
+
+// Update tenant role
+app.put('/:id', requirePermission('users:write'), requireUserSession(), async (c) => {
+  const { id } = c.req.param();
+  const user = c.get('user');
+  const body = await c.req.json<Partial<{ name: string; description: string; permissions: string[] }>>();
+
+  const found = await findManageableRole(c.env, user, id);
+  if (!found.role) {
+    return c.json({ error: found.error }, found.status);
+  }
+  const existing = found.role;
+
+  const updates: string[] = [];
+  const bindings: unknown[] = [];
+
+  if (body.name !== undefined) {
+    if (!body.name.trim()) {
+      return c.json({ error: 'Name is required' }, 400);
+    }
+    updates.push('name = ?');
+    bindings.push(body.name.trim());
+  }
+  if (body.description !== undefined) {
+    updates.push('description = ?');
+    bindings.push(body.description || null);
+  }
+  if (body.permissions !== undefined) {
+    // Only the permissions actually being added need to be grantable by the caller
+    const current = parseRolePermissions(existing);
+    const added = body.permissions.filter((permission) => !current.includes(permission));
+    const invalid = invalidPermissions(added, c.get('permissions'));
+    if (invalid.length > 0) {
+      return c.json({ error: 'Invalid permissions', code: 'INVALID_PERMISSIONS', permissions: invalid }, 400);
+    }
+    updates.push('permissions = ?');
+    bindings.push(JSON.stringify([...new Set(body.permissions)]));
+  }
+
+  if (updates.length === 0) {
+    return c.json({ error: 'No fields to update' }, 400);
+  }
+
+  updates.push("updated_at = datetime('now')");
+  bindings.push(id);
+
+  await c.env.DB.prepare(`UPDATE roles SET ${updates.join(', ')} WHERE id = ?`)
+    .bind(...bindings)
+    .run();
+
+  await createAuditLog(
+    c,
+    'role.updated',
+    'role',
+    id,
+    { name: existing.name, permissions: parseRolePermissions(existing) },
+    body
+  );
+
+  const role = await c.env.DB.prepare('SELECT * FROM roles WHERE id = ?')
+    .bind(id)
+    .first<Role>();
+  const usage = await c.env.DB.prepare('SELECT COUNT(*) AS count FROM users WHERE role_id = ?')
+    .bind(id)
+    .first<{ count: number }>();
+
+  return c.json(toRoleResponse(role!, usage?.count || 0));
+});
+
+// Delete tenant role - only when nobody holds it
+app.delete('/:id', requirePermission('users:write'), requireUserSession(), async (c) => {
+  const { id } = c.req.param();
+  const user = c.get('user');
+
+  const found = await findManageableRole(c.env, user, id);
+  if (!found.role) {
+    return c.json({ error: found.error }, found.status);
+  }
+
+  const usage = await c.env.DB.prepare('SELECT COUNT(*) AS count FROM users WHERE role_id = ?')
+    .bind(id)
+    .first<{ count: number }>();
+
+  if (usage?.count) {
+    return c.json({
+      error: 'Role is assigned to users',
+      code: 'ROLE_IN_USE',
+      userCount: usage.count,
+    }, 400);
+  }
+
+  await c.env.DB.prepare('DELETE FROM roles WHERE id = ?').bind(id).run();
+
+  await createAuditLog(c, 'role.deleted', 'role', id, {
+    name: found.role.name,
+    permissions: parseRolePermissions(found.role),
+  }, null);
+
+  return c.json({ success: true });
+});
+
+export { app as rolesRoutes };
@@ -0,0 +1,105 @@
+import { Hono } from 'hono';
+import { Env, LoginEvent } from '../types';
+import { requirePermission } from '../middleware/auth';
+import {
+  createAuditLog,
+  paginatedResponse,
+  parsePagination,
+  rowsToCamelCase,
+} from '../utils/helpers';
+
+const app = new Hono<{ Bindings: Env }>();
+
+// List logins, flagged ones by default (status=all for the full history)
+app.get('/logins', requirePermission('audit:read'), async (c) => {
+  const user = c.get('user');
+  const params = parsePagination(new URL(c.req.url).searchParams);
+  const status = c.req.query('status') || 'open';
+  const userId = c.req.query('userId');
+  const tenantId = c.req.query('tenantId');
+
+  let whereClause = '1=1';
+  const bindings: (string | number)[] = [];
+
+  // Non-superadmins only see logins of their own tenant
+  if (user.role !== 'superadmin') {
+    whereClause += ' AND e.tenant_id = ?';
+    bindings.push(user.tenant_id!);
+  } else if (tenantId) {
+    whereClause += ' AND e.tenant_id = ?';
+    bindings.push(tenantId);
+  }
+
+  if (status === 'open') {
+    whereClause += ' AND e.flagged = 1 AND e.reviewed_at IS NULL';
+  } else if (status === 'reviewed') {
+    whereClause += ' AND e.flagged = 1 AND e.reviewed_at IS NOT NULL';
+  }
+
+  if (userId) {
+    whereClause += ' AND e.user_id = ?';
+    bindings.push(userId);
+  }
+
+  const pageSize = params.pageSize || 20;
+  const offset = ((params.page || 1) - 1) * pageSize;
+
+  const [countResult, dataResult] = await Promise.all([
+    c.env.DB.prepare(`SELECT COUNT(*) as count FROM login_events e WHERE ${whereClause}`)
+      .bind(...bindings)
+      .first<{ count: number }>(),
+    c.env.DB.prepare(`
+      SELECT e.*, u.name as user_name, u.email as user_email, r.name as reviewed_by_name
+      FROM login_events e
+      JOIN users u ON u.id = e.user_id
+      LEFT JOIN users r ON r.id = e.reviewed_by
+      WHERE ${whereClause}
+      ORDER BY e.created_at DESC
+      LIMIT ? OFFSET ?
+    `)
+      .bind(...bindings, pageSize, offset)
+      .all(),
+  ]);
+
+  const events = rowsToCamelCase<Record<string, unknown>>(dataResult.results as Record<string, unknown>[])
+    .map((event) => ({
+      ...event,
+      flagged: !!event.flagged,
+      riskFlags: JSON.parse((event.riskFlags as string) || '[]'),
+    }));
+
+  return c.json(paginatedResponse(events, countResult?.count || 0, params));
+});
+
+// Mark a flagged login as checked so it leaves the open list
+app.post('/logins/:id/review', requirePermission('users:write'), async (c) => {
+  const { id } = c.req.param();
+  const user = c.get('user');
+
+  const event = await c.env.DB.prepare('SELECT * FROM login_events WHERE id = ?')
+    .bind(id)
+    .first<LoginEvent>();
+
+  if (!event || (user.role !== 'superadmin' && event.tenant_id !== user.tenant_id)) {
+    return c.json({ error: 'Login event not found' }, 404);
+  }
+
+  if (event.reviewed_at) {
+    return c.json({ error: 'Login event already reviewed', code: 'ALREADY_REVIEWED' }, 400);
+  }
+
+  await c.env.DB.prepare(
+    "UPDATE login_events SET reviewed_at = datetime('now'), reviewed_by = ? WHERE id = ?"
+  )
+    .bind(user.id, id)
+    .run();
+
+  await createAuditLog(c, 'security.login_reviewed', 'user', event.user_id, null, {
+    loginEventId: id,
+    riskFlags: JSON.parse(event.risk_flags || '[]'),
+  });
+
+  return c.json({ success: true });
+});
+
+export { app as securityRoutes };
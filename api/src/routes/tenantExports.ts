@@ -0,0 +1,142 @@
+import { Context, Hono } from 'hono';
+import { Env, TenantExport } from '../types';
+import { requirePermission, requireUserSession } from '../middleware/auth';
+import { createAuditLog, toCamelCase } from '../utils/helpers';
+import { createTenantExport, runTenantExport } from '../services/tenantExport';
+
+const app = new Hono<{ Bindings: Env }>();
+
+// The export holds every user, payment and audit record, so the routes need
+// tenants:export (never available to API keys). Superadmins export any tenant,
+// everyone else only their own
+function canExport(c: Context<{ Bindings: Env }>, tenantId: string): boolean {
+  const user = c.get('user');
+  return user.role === 'superadmin' || user.tenant_id === tenantId;
+}
+
+function serializeExport(job: TenantExport) {
+  const { fileKey: _fileKey, recordCounts, ...rest } = toCamelCase<Record<string, unknown>>(
+    job as unknown as Record<string, unknown>
+  );
+  return {
+    ...rest,
+    recordCounts: recordCounts ? JSON.parse(recordCounts as string) : null,
+    downloadUrl: job.status === 'completed'
+      ? `/admin/tenants/${job.tenant_id}/exports/${job.id}/download`
+      : null,
+  };
+}
+
+// Start an export; the archive is built in the background
+app.post('/:id/export', requirePermission('tenants:export'), requireUserSession(), async (c) => {
+  const { id } = c.req.param();
+
+  if (!canExport(c, id)) {
+    return c.json({ error: 'Forbidden' }, 403);
+  }
+
+  const tenant = await c.env.DB.prepare('SELECT id FROM tenants WHERE id = ?').bind(id).first();
+  if (!tenant) {
+    return c.json({ error: 'Tenant not found' }, 404);
+  }
+
+  if (!c.env.EXPORTS_BUCKET) {
+    return c.json({ error: 'Exports are not configured', code: 'EXPORTS_NOT_CONFIGURED' }, 503);
+  }
+
+  const job = await createTenantExport(c.env, id, c.get('user').id);
+  if (!job) {
+    return c.json({ error: 'An export is already in progress', code: 'EXPORT_IN_PROGRESS' }, 409);
+  }
+
+  await createAuditLog(c, 'tenant.export_requested', 'tenant', id, null, { exportId: job.id });
+
+  // Anything not finished here is picked up by the scheduled job
+  c.executionCtx.waitUntil(runTenantExport(c.env, job.id));
+
+  return c.json(serializeExport(job), 202);
+});
+
+// Recent exports of a tenant
+app.get('/:id/exports', requirePermission('tenants:export'), requireUserSession(), async (c) => {
+  const { id } = c.req.param();
+
+  if (!canExport(c, id)) {
+    return c.json({ error: 'Forbidden' }, 403);
+  }
+
+  const { results } = await c.env.DB.prepare(`
+    SELECT e.*, u.name as requested_by_name
+    FROM tenant_exports e
+    LEFT JOIN users u ON u.id = e.requested_by
+    WHERE e.tenant_id = ?
+    ORDER BY e.created_at DESC
+    LIMIT 20
+  `)
+    .bind(id)
+    .all<TenantExport & { requested_by_name: string | null }>();
+
+  return c.json({
+    data: (results || []).map((job) => ({
+      ...serializeExport(job),
+      requestedByName: job.requested_by_name,
+    })),
+  });
+});
+
+// Progress of a single export
+app.get('/:id/exports/:exportId', requirePermission('tenants:export'), requireUserSession(), async (c) => {
+  const { id, exportId } = c.req.param();
+
+  if (!canExport(c, id)) {
+    return c.json({ error: 'Forbidden' }, 403);
+  }
+
+  const job = await c.env.DB.prepare('SELECT * FROM tenant_exports WHERE id = ? AND tenant_id = ?')
+    .bind(exportId, id)
+    .first<TenantExport>();
+
+  if (!job) {
+    return c.json({ error: 'Export not found' }, 404);
+  }
+
+  return c.json(serializeExport(job));
+});
+
+app.get('/:id/exports/:exportId/download', requirePermission('tenants:export'), requireUserSession(), async (c) => {
+  const { id, exportId } = c.req.param();
+
+  if (!canExport(c, id)) {
+    return c.json({ error: 'Forbidden' }, 403);
+  }
+
+  const job = await c.env.DB.prepare('SELECT * FROM tenant_exports WHERE id = ? AND tenant_id = ?')
+    .bind(exportId, id)
+    .first<TenantExport>();
+
+  if (!job) {
+    return c.json({ error: 'Export not found' }, 404);
+  }
+
+  if (job.status !== 'completed' || !job.file_key) {
+    return c.json({ error: 'Export is not available for download', code: 'EXPORT_NOT_READY' }, 400);
+  }
+
+  const file = await c.env.EXPORTS_BUCKET?.get(job.file_key);
+  if (!file) {
+    return c.json({ error: 'Export file not found', code: 'EXPORT_NOT_READY' }, 404);
+  }
+
+  await createAuditLog(c, 'tenant.export_downloaded', 'tenant', id, null, { exportId });
+
+  const date = job.created_at.split(' ')[0];
+  return new Response(file.body, {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Length': String(file.size),
+      'Content-Disposition': `attachment; filename="tenant-export-${date}.zip"`,
+    },
+  });
+});
+
+export { app as tenantExportsRoutes };
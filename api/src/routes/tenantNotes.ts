@@ -0,0 +1,253 @@
+import { Context, Hono } from 'hono';
+import { Env, TenantNote, TenantNoteType } from '../types';
+import { createAuditLog, generateId, toCamelCase } from '../utils/helpers';
+
+const app = new Hono<{ Bindings: Env }>();
+
+const NOTE_TYPES: TenantNoteType[] = ['note', 'call', 'email', 'meeting'];
+
+const MAX_TIMELINE_ITEMS = 200;
+
+interface NoteBody {
+  type?: TenantNoteType;
+  subject?: string | null;
+  body?: string;
+  ownerId?: string | null;
+  followUpAt?: string | null;
+  followUpDone?: boolean;
+}
+
+type NoteRow = TenantNote & { owner_name: string | null; created_by_name: string | null };
+
+const NOTE_SELECT = `
+  SELECT n.*, o.name as owner_name, a.name as created_by_name
+  FROM tenant_notes n
+  LEFT JOIN users o ON o.id = n.owner_id
+  LEFT JOIN users a ON a.id = n.created_by
+`;
+
+function serializeNote(row: NoteRow) {
+  return toCamelCase<Record<string, unknown>>(row as unknown as Record<string, unknown>);
+}
+
+async function tenantExists(env: Env, id: string): Promise<boolean> {
+  return !!(await env.DB.prepare('SELECT id FROM tenants WHERE id = ?').bind(id).first());
+}
+
+async function findNote(env: Env, tenantId: string, noteId: string): Promise<NoteRow | null> {
+  return env.DB.prepare(`${NOTE_SELECT} WHERE n.id = ? AND n.tenant_id = ?`)
+    .bind(noteId, tenantId)
+    .first<NoteRow>();
+}
+
+// Checks shared by create and update; returns the first problem found
+async function validateNoteBody(c: Context<{ Bindings: Env }>, body: NoteBody): Promise<string | null> {
+  if (body.type !== undefined && !NOTE_TYPES.includes(body.type)) return 'Invalid note type';
+  if (body.body !== undefined && !body.body?.trim()) return 'Body is required';
+  if (body.followUpAt && Number.isNaN(new Date(body.followUpAt).getTime())) return 'Invalid follow-up date';
+
+  // Notes are owned by someone on the platform team
+  if (body.ownerId) {
+    const owner = await c.env.DB.prepare("SELECT id FROM users WHERE id = ? AND role = 'superadmin'")
+      .bind(body.ownerId)
+      .first();
+    if (!owner) return 'Invalid owner';
+  }
+
+  return null;
+}
+
+// List notes of a tenant, newest first
+app.get('/:id/notes', async (c) => {
+  const { id } = c.req.param();
+
+  if (!(await tenantExists(c.env, id))) {
+    return c.json({ error: 'Tenant not found' }, 404);
+  }
+
+  const { results } = await c.env.DB.prepare(`${NOTE_SELECT} WHERE n.tenant_id = ? ORDER BY n.created_at DESC`)
+    .bind(id)
+    .all<NoteRow>();
+
+  return c.json({ data: (results || []).map(serializeNote) });
+});
+
+app.post('/:id/notes', async (c) => {
+  const { id } = c.req.param();
+  const user = c.get('user');
+  const body = await c.req.json<NoteBody>();
+
+  if (!(await tenantExists(c.env, id))) {
+    return c.json({ error: 'Tenant not found' }, 404);
+  }
+
+  if (!body.body?.trim()) {
+    return c.json({ error: 'Body is required' }, 400);
+  }
+
+  const problem = await validateNoteBody(c, body);
+  if (problem) {
+    return c.json({ error: problem, code: 'INVALID_NOTE' }, 400);
+  }
+
+  const noteId = generateId();
+  await c.env.DB.prepare(`
+    INSERT INTO tenant_notes (
+      id, tenant_id, type, subject, body, owner_id, follow_up_at, created_by, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
+  `).bind(
+    noteId,
+    id,
+    body.type || 'note',
+    body.subject?.trim() || null,
+    body.body.trim(),
+    // Whoever writes the note owns it unless it is assigned to someone else
+    body.ownerId === undefined ? user.id : body.ownerId,
+    body.followUpAt ? new Date(body.followUpAt).toISOString() : null,
+    user.id
+  ).run();
+
+  const note = (await findNote(c.env, id, noteId))!;
+  await createAuditLog(c, 'tenant.note_created', 'tenant_note', noteId, null, { tenantId: id, type: note.type });
+
+  return c.json(serializeNote(note), 201);
+});
+
+app.put('/:id/notes/:noteId', async (c) => {
+  const { id, noteId } = c.req.param();
+  const body = await c.req.json<NoteBody>();
+
+  const existing = await findNote(c.env, id, noteId);
+  if (!existing) {
+    return c.json({ error: 'Note not found' }, 404);
+  }
+
+  const problem = await validateNoteBody(c, body);
+  if (problem) {
+    return c.json({ error: problem, code: 'INVALID_NOTE' }, 400);
+  }
+
+  const fields: [string, unknown][] = [
+    ['type', body.type],
+    ['subject', body.subject === undefined ? undefined : body.subject?.trim() || null],
+    ['body', body.body?.trim()],
+    ['owner_id', body.ownerId],
+    ['follow_up_at', body.followUpAt === undefined ? undefined : body.followUpAt ? new Date(body.followUpAt).toISOString() : null],
+  ];
+  const updates = fields.filter(([, value]) => value !== undefined);
+  const assignments = updates.map(([column]) => `${column} = ?`);
+
+  if (body.followUpDone !== undefined) {
+    assignments.push(body.followUpDone ? "follow_up_done_at = datetime('now')" : 'follow_up_done_at = NULL');
+  }
+
+  if (assignments.length === 0) {
+    return c.json({ error: 'No fields to update' }, 400);
+  }
+
+  await c.env.DB.prepare(`
+    UPDATE tenant_notes SET ${assignments.join(', ')}, updated_at = datetime('now')
+    WHERE id = ?
+  `)
+    .bind(...updates.map(([, value]) => value), noteId)
+    .run();
+
+  const note = (await findNote(c.env, id, noteId))!;
+  await createAuditLog(c, 'tenant.note_updated', 'tenant_note', noteId, null, { tenantId: id, type: note.type });
+
+  return c.json(serializeNote(note));
+});
+
+app.delete('/:id/notes/:noteId', async (c) => {
+  const { id, noteId } = c.req.param();
+
+  const existing = await findNote(c.env, id, noteId);
+  if (!existing) {
+    return c.json({ error: 'Note not found' }, 404);
+  }
+
+  await c.env.DB.prepare('DELETE FROM tenant_notes WHERE id = ?').bind(noteId).run();
+  await createAuditLog(c, 'tenant.note_deleted', 'tenant_note', noteId, { tenantId: id, type: existing.type }, null);
+
+  return c.json({ success: true });
+});
+
+/**
+ * Notes, audit entries and payments of a tenant merged newest first. Pass the
+ * returned nextBefore as ?before= to load older items.
+ */
+app.get('/:id/timeline', async (c) => {
+  const { id } = c.req.param();
+  const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '50', 10) || 50, 1), MAX_TIMELINE_ITEMS);
+  // "timestamp|id" of the last item already shown; the id breaks ties within a second
+  const [beforeAt, beforeId = ''] = (c.req.query('before') || '9999-12-31 23:59:59').split('|');
+
+  if (!(await tenantExists(c.env, id))) {
+    return c.json({ error: 'Tenant not found' }, 404);
+  }
+
+  // datetime() evens out ISO and SQLite timestamps so the three sources sort together
+  const [notes, auditLogs, payments] = await Promise.all([
+    c.env.DB.prepare(`
+      ${NOTE_SELECT}
+      WHERE n.tenant_id = ? AND (datetime(n.created_at), n.id) < (datetime(?), ?)
+      ORDER BY datetime(n.created_at) DESC, n.id DESC LIMIT ?
+    `)
+      .bind(id, beforeAt, beforeId, limit)
+      .all<NoteRow>(),
+    // Superadmin actions on the tenant are logged without a tenant_id
+    c.env.DB.prepare(`
+      SELECT id, action, resource_type, resource_id, user_name, impersonator_email, created_at
+      FROM audit_logs
+      WHERE (tenant_id = ? OR (resource_type = 'tenant' AND resource_id = ?))
+        AND (datetime(created_at), id) < (datetime(?), ?)
+      ORDER BY datetime(created_at) DESC, id DESC LIMIT ?
+    `)
+      .bind(id, id, beforeAt, beforeId, limit)
+      .all<Record<string, unknown>>(),
+    c.env.DB.prepare(`
+      SELECT id, amount, currency, status, payment_method, payer_name, description, created_at
+      FROM payments
+      WHERE tenant_id = ? AND (datetime(created_at), id) < (datetime(?), ?)
+      ORDER BY datetime(created_at) DESC, id DESC LIMIT ?
+    `)
+      .bind(id, beforeAt, beforeId, limit)
+      .all<Record<string, unknown>>(),
+  ]);
+
+  const items = [
+    ...(notes.results || []).map((row) => ({ kind: 'note', id: row.id, occurredAt: row.created_at, ...serializeNote(row) })),
+    ...(auditLogs.results || []).map((row) => ({
+      kind: 'audit',
+      id: row.id as string,
+      occurredAt: row.created_at as string,
+      ...toCamelCase<Record<string, unknown>>(row),
+    })),
+    ...(payments.results || []).map((row) => ({
+      kind: 'payment',
+      id: row.id as string,
+      occurredAt: row.created_at as string,
+      ...toCamelCase<Record<string, unknown>>(row),
+    })),
+  ]
+    .map((item) => ({ ...item, sortKey: toSortKey(item.occurredAt) }))
+    .sort((a, b) => compareDesc(a.sortKey, b.sortKey) || compareDesc(a.id, b.id))
+    .slice(0, limit);
+
+  const last = items[items.length - 1];
+  return c.json({
+    data: items.map(({ sortKey: _sortKey, ...item }) => item),
+    nextBefore: items.length === limit ? `${last.sortKey}|${last.id}` : null,
+  });
+});
+
+// "2024-01-20T10:00:00.000Z" and "2024-01-20 10:00:00" as the same comparable text
+function toSortKey(timestamp: string): string {
+  return timestamp.replace('T', ' ').slice(0, 19);
+}
+
+function compareDesc(a: string, b: string): number {
+  return a < b ? 1 : a > b ? -1 : 0;
+}
+
+export { app as tenantNotesRoutes };
@@ -1,5 +1,5 @@
-import { Hono } from 'hono';
-import { Env, Tenant } from '../types';
+import { Context, Hono } from 'hono';
+import { Env, Plan, Tenant } from '../types';
 import { requireSuperAdmin } from '../middleware/auth';
 import {
   generateId,
@@ -10,11 +10,133 @@ import {
   rowsToCamelCase,
   slugify,
 } from '../utils/helpers';
+import {
+  INITIAL_STATUSES,
+  TENANT_STATUS_TRANSITIONS,
+  TenantStatus,
+  TransitionResult,
+  isTenantStatus,
+  statusHistoryStatement,
+  tenantInsertStatement,
+  transitionTenantStatus,
+  validateTransition,
+} from '../services/tenantLifecycle';
+import { restoreTenant, scheduleTenantDeletion } from '../services/tenantDeletion';
+import {
+  MAX_IMPORT_ROWS,
+  importTenants,
+  parseCsv,
+  readImportRows,
+  validateImportRows,
+} from '../services/tenantImport';
+import {
+  DEFAULT_PLAN_ID,
+  getPlan,
+  parsePlanFeatures,
+  planFeaturesStatement,
+  resolvePlanLimits,
+} from '../services/plans';
+import { getTenantUsage } from '../services/quotas';
+import { tenantExportsRoutes } from './tenantExports';
+import { tenantNotesRoutes } from './tenantNotes';
 
 const app = new Hono<{ Bindings: Env }>();
 
-// Apply super admin check to all tenant routes
-app.use('*', requireSuperAdmin);
+// Create/update payload; limits may come camelCased from the console
+type TenantBody = Partial<Omit<Tenant, 'plan_id'>> & {
+  plan?: string;
+  maxUsers?: number;
+  maxLocations?: number;
+  reason?: string;
+};
+
+// The plan is exposed as `plan` (its id); the legacy plan column is left out
+function serializeTenant(row: Record<string, unknown>) {
+  const { plan: _legacyPlan, plan_id, ...tenant } = row;
+  return toCamelCase<Record<string, unknown>>({ ...tenant, plan: plan_id });
+}
+
+// Tenant admins can export their own data, so these are registered ahead of the superadmin check
+app.route('/', tenantExportsRoutes);
+
+// Usage against plan limits; tenant users can see their own
+app.get('/:id/usage', async (c) => {
+  const { id } = c.req.param();
+  const user = c.get('user');
+
+  if (user.role !== 'superadmin' && user.tenant_id !== id) {
+    return c.json({ error: 'Forbidden' }, 403);
+  }
+
+  const usage = await getTenantUsage(c.env, id);
+  if (!usage) {
+    return c.json({ error: 'Tenant not found' }, 404);
+  }
+
+  return c.json(usage);
+});
+
+// Apply super admin check to all other tenant routes
+app.use('*', requireSuperAdmin());
+
+// Internal CRM notes and the tenant timeline
+app.route('/', tenantNotesRoutes);
+
+// Change a tenant's status through the lifecycle rules and audit it
+async function changeTenantStatus(
+  c: Context<{ Bindings: Env }>,
+  tenant: Tenant,
+  to: TenantStatus,
+  reason?: string | null
+): Promise<TransitionResult> {
+  const result = await transitionTenantStatus(c.env, tenant, to, {
+    reason,
+    source: 'manual',
+    changedBy: c.get('user').id,
+  });
+
+  if (result.ok) {
+    await createAuditLog(c, 'tenant.status_changed', 'tenant', tenant.id, { status: tenant.status }, {
+      status: to,
+      reason: reason || null,
+    });
+  }
+
+  return result;
+}
+
+function rejectTransition(c: Context<{ Bindings: Env }>, result: Exclude<TransitionResult, { ok: true }>) {
+  return c.json({ error: result.error, code: result.code }, result.code === 'STATUS_CHANGED' ? 409 : 400);
+}
+
+// Look up the tenant and move it to the requested status
+async function applyStatusRequest(
+  c: Context<{ Bindings: Env }>,
+  id: string,
+  status: unknown,
+  reason?: string
+) {
+  if (!isTenantStatus(status)) {
+    return c.json({ error: 'Invalid status', code: 'INVALID_STATUS' }, 400);
+  }
+
+  const tenant = await c.env.DB.prepare('SELECT * FROM tenants WHERE id = ?')
+    .bind(id)
+    .first<Tenant>();
+
+  if (!tenant) {
+    return c.json({ error: 'Tenant not found' }, 404);
+  }
+
+  if (tenant.deleted_at) {
+    return c.json({ error: 'Tenant is pending deletion, restore it first', code: 'TENANT_PENDING_DELETION' }, 400);
+  }
+
+  const result = await changeTenantStatus(c, tenant, status, reason);
+  if (!result.ok) return rejectTransition(c, result);
+
+  return c.json({ success: true, status });
+}
 
 // List tenants
 app.get('/', async (c) => {
@@ -22,8 +144,10 @@ app.get('/', async (c) => {
   const search = c.req.query('search') || '';
   const status = c.req.query('status');
   const plan = c.req.query('plan');
+  const deleted = c.req.query('deleted') === 'true';
 
-  let whereClause = '1=1';
+  // Tenants pending deletion are only listed when asked for
+  let whereClause = deleted ? 'deleted_at IS NOT NULL' : 'deleted_at IS NULL';
   const bindings: (string | number)[] = [];
 
   if (search) {
@@ -37,7 +161,7 @@ app.get('/', async (c) => {
   }
 
   if (plan) {
-    whereClause += ' AND plan = ?';
+    whereClause += ' AND plan_id = ?';
     bindings.push(plan);
   }
 
@@ -58,7 +182,7 @@ app.get('/', async (c) => {
   ]);
 
   const total = (countResult as any)?.count || 0;
-  const tenants = rowsToCamelCase<Tenant>(dataResult.results as Record<string, unknown>[]);
+  const tenants = (dataResult.results as Record<string, unknown>[]).map(serializeTenant);
 
   return c.json(paginatedResponse(tenants, total, params));
 });
@@ -69,23 +193,28 @@ app.get('/:id', async (c) => {
 
   const tenant = await c.env.DB.prepare('SELECT * FROM tenants WHERE id = ?')
     .bind(id)
-    .first();
+    .first<Record<string, unknown>>();
 
   if (!tenant) {
     return c.json({ error: 'Tenant not found' }, 404);
   }
 
-  return c.json(toCamelCase(tenant as Record<string, unknown>));
+  return c.json(serializeTenant(tenant));
 });
 
 // Create tenant
 app.post('/', async (c) => {
-  const body = await c.req.json<Partial<Tenant>>();
+  const body = await c.req.json<TenantBody>();
 
   if (!body.name || !body.email) {
     return c.json({ error: 'Name and email are required' }, 400);
   }
 
+  const status = body.status || 'trial';
+  if (!INITIAL_STATUSES.includes(status)) {
+    return c.json({ error: 'New tenants must start as trial or active', code: 'INVALID_STATUS' }, 400);
+  }
+
   const id = generateId();
   const slug = body.slug || slugify(body.name);
 
@@ -98,46 +227,99 @@ app.post('/', async (c) => {
     return c.json({ error: 'Slug already exists' }, 400);
   }
 
-  const defaultSettings = JSON.stringify({
-    branding: {},
-    notifications: { emailEnabled: true, smsEnabled: false, whatsappEnabled: false },
-    features: { inventoryEnabled: false, reportsEnabled: true, multiLocationEnabled: false },
-  });
+  const plan = await getPlan(c.env, body.plan || DEFAULT_PLAN_ID);
+  if (!plan || !plan.active) {
+    return c.json({ error: 'Invalid plan', code: 'INVALID_PLAN' }, 400);
+  }
 
-  await c.env.DB.prepare(`
-    INSERT INTO tenants (
-      id, name, slug, email, phone, status, plan,
-      trial_ends_at, max_users, max_locations, settings,
-      mercadopago_enabled, created_at, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
-  `).bind(
+  await tenantInsertStatement(c.env, {
     id,
-    body.name,
+    name: body.name,
     slug,
-    body.email.toLowerCase(),
-    body.phone || null,
-    body.status || 'trial',
-    body.plan || 'starter',
-    body.status === 'trial' ? new Date(Date.now() + 15 * 24 * 60 * 60 * 1000).toISOString() : null,
-    body.max_users || 5,
-    body.max_locations || 1,
-    defaultSettings,
-    false
-  ).run();
-
-  await createAuditLog(c, 'tenant.created', 'tenant', id, null, { name: body.name, plan: body.plan });
+    email: body.email,
+    phone: body.phone,
+    planId: plan.id,
+    status,
+    features: parsePlanFeatures(plan),
+    ...resolvePlanLimits(plan, {
+      maxUsers: body.max_users ?? body.maxUsers,
+      maxLocations: body.max_locations ?? body.maxLocations,
+    }),
+  }).run();
+
+  await statusHistoryStatement(c.env, id, null, status, {
+    reason: 'Tenant created',
+    source: 'manual',
+    changedBy: c.get('user').id,
+  }).run();
+
+  await createAuditLog(c, 'tenant.created', 'tenant', id, null, { name: body.name, plan: plan.id });
 
   const tenant = await c.env.DB.prepare('SELECT * FROM tenants WHERE id = ?')
     .bind(id)
-    .first();
+    .first<Record<string, unknown>>();
+
+  return c.json(serializeTenant(tenant!), 201);
+});
+
+// Bulk create tenants from a CSV (name, email, phone, plan, status, admin email).
+// With dryRun nothing is written; otherwise the file is only imported when every row is valid.
+app.post('/import', async (c) => {
+  const isCsvBody = (c.req.header('Content-Type') || '').includes('text/csv');
+  const body = isCsvBody
+    ? { csv: await c.req.text(), dryRun: c.req.query('dryRun') === 'true' }
+    : await c.req.json<{ csv?: string; dryRun?: boolean }>();
+
+  if (!body.csv?.trim()) {
+    return c.json({ error: 'CSV content is required' }, 400);
+  }
+
+  const { rows: parsed, missingColumns } = readImportRows(parseCsv(body.csv));
+
+  if (missingColumns.length > 0) {
+    return c.json({ error: 'Missing required columns', code: 'MISSING_COLUMNS', missingColumns }, 400);
+  }
+
+  if (parsed.length === 0) {
+    return c.json({ error: 'The file has no rows', code: 'EMPTY_IMPORT' }, 400);
+  }
+
+  if (parsed.length > MAX_IMPORT_ROWS) {
+    return c.json({
+      error: `At most ${MAX_IMPORT_ROWS} rows can be imported at once`,
+      code: 'TOO_MANY_ROWS',
+    }, 400);
+  }
+
+  const rows = await validateImportRows(c.env, parsed);
+  const invalidRows = rows.filter((row) => row.errors.length > 0).length;
+  const summary = { total: rows.length, valid: rows.length - invalidRows, invalid: invalidRows };
+
+  if (body.dryRun) {
+    return c.json({ dryRun: true, ...summary, rows });
+  }
+
+  if (invalidRows > 0) {
+    return c.json({ error: 'Some rows are invalid', code: 'INVALID_ROWS', dryRun: false, ...summary, rows }, 400);
+  }
+
+  const user = c.get('user');
+  const imported = await importTenants(c.env, rows, { id: user.id, name: user.name });
+
+  // One audit entry for the whole file, keyed by an id the response reports back
+  const importId = generateId();
+  await createAuditLog(c, 'tenant.imported', 'tenant_import', importId, null, {
+    count: imported.length,
+    tenants: imported.map((row) => ({ id: row.tenantId, name: row.name, adminEmail: row.adminEmail })),
+  });
 
-  return c.json(toCamelCase(tenant as Record<string, unknown>), 201);
+  return c.json({ dryRun: false, importId, ...summary, created: imported.length, rows: imported }, 201);
 });
 
 // Update tenant
 app.put('/:id', async (c) => {
-  const id = c.req.param('id');
-  const body = await c.req.json<Partial<Tenant>>();
+  const { id } = c.req.param();
+  const body = await c.req.json<TenantBody>();
 
   const existing = await c.env.DB.prepare('SELECT * FROM tenants WHERE id = ?')
     .bind(id)
@@ -147,6 +329,19 @@ app.put('/:id', async (c) => {
     return c.json({ error: 'Tenant not found' }, 404);
   }
 
+  // Status changes follow the lifecycle rules and are applied after the other fields
+  const statusChange = body.status !== undefined && body.status !== existing.status ? body.status : null;
+  if (statusChange) {
+    if (!isTenantStatus(statusChange)) {
+      return c.json({ error: 'Invalid status', code: 'INVALID_STATUS' }, 400);
+    }
+    if (existing.deleted_at) {
+      return c.json({ error: 'Tenant is pending deletion, restore it first', code: 'TENANT_PENDING_DELETION' }, 400);
+    }
+    const validation = validateTransition(existing.status, statusChange, body.reason);
+    if (!validation.ok) return rejectTransition(c, validation);
+  }
+
   const updates: string[] = [];
   const bindings: unknown[] = [];
 
@@ -162,46 +357,66 @@ app.put('/:id', async (c) => {
     updates.push('phone = ?');
     bindings.push(body.phone);
   }
-  if (body.status !== undefined) {
-    updates.push('status = ?');
-    bindings.push(body.status);
-  }
-  if (body.plan !== undefined) {
-    updates.push('plan = ?');
-    bindings.push(body.plan);
+
+  // Changing plan resets the limits to the new plan's, unless they are sent too,
+  // and always resets the feature flags
+  let maxUsers = body.max_users ?? body.maxUsers;
+  let maxLocations = body.max_locations ?? body.maxLocations;
+  let newPlan: Plan | null = null;
+  if (body.plan !== undefined && body.plan !== existing.plan_id) {
+    const plan = await getPlan(c.env, body.plan);
+    if (!plan || !plan.active) {
+      return c.json({ error: 'Invalid plan', code: 'INVALID_PLAN' }, 400);
+    }
+    newPlan = plan;
+    updates.push('plan_id = ?');
+    bindings.push(plan.id);
+    ({ maxUsers, maxLocations } = resolvePlanLimits(plan, { maxUsers, maxLocations }));
   }
-  if (body.max_users !== undefined) {
+  if (maxUsers !== undefined) {
     updates.push('max_users = ?');
-    bindings.push(body.max_users);
+    bindings.push(maxUsers);
   }
-  if (body.max_locations !== undefined) {
+  if (maxLocations !== undefined) {
     updates.push('max_locations = ?');
-    bindings.push(body.max_locations);
+    bindings.push(maxLocations);
   }
 
-  if (updates.length === 0) {
+  if (updates.length === 0 && !statusChange) {
     return c.json({ error: 'No fields to update' }, 400);
   }
 
-  updates.push("updated_at = datetime('now')");
-  bindings.push(id);
+  if (updates.length > 0) {
+    updates.push("updated_at = datetime('now')");
+    bindings.push(id);
+
+    await c.env.DB.prepare(`UPDATE tenants SET ${updates.join(', ')} WHERE id = ?`)
+      .bind(...bindings)
+      .run();
+    if (newPlan) {
+      await planFeaturesStatement(c.env, newPlan, id).run();
+    }
 
-  await c.env.DB.prepare(`UPDATE tenants SET ${updates.join(', ')} WHERE id = ?`)
-    .bind(...bindings)
-    .run();
+    const { status: _status, reason: _reason, ...fields } = body;
+    await createAuditLog(c, 'tenant.updated', 'tenant', id, existing, fields);
+  }
 
-  await createAuditLog(c, 'tenant.updated', 'tenant', id, existing, body);
+  if (statusChange) {
+    const result = await changeTenantStatus(c, existing, statusChange, body.reason);
+    if (!result.ok) return rejectTransition(c, result);
+  }
 
   const tenant = await c.env.DB.prepare('SELECT * FROM tenants WHERE id = ?')
     .bind(id)
-    .first();
+    .first<Record<string, unknown>>();
 
-  return c.json(toCamelCase(tenant as Record<string, unknown>));
+  return c.json(serializeTenant(tenant!));
 });
 
-// Delete tenant
+// Delete tenant: users are locked out now, data is purged once the retention window ends
 app.delete('/:id', async (c) => {
-  const id = c.req.param('id');
+  const { id } = c.req.param();
+  const { reason } = await c.req.json<{ reason?: string }>().catch(() => ({ reason: undefined }));
 
   const existing = await c.env.DB.prepare('SELECT * FROM tenants WHERE id = ?')
     .bind(id)
@@ -211,42 +426,102 @@ app.delete('/:id', async (c) => {
     return c.json({ error: 'Tenant not found' }, 404);
   }
 
-  await c.env.DB.prepare('DELETE FROM tenants WHERE id = ?').bind(id).run();
+  if (existing.deleted_at) {
+    return c.json({ error: 'Tenant is already pending deletion', code: 'ALREADY_DELETED' }, 400);
+  }
+
+  const purgeAfter = await scheduleTenantDeletion(c.env, id, {
+    deletedBy: c.get('user').id,
+    reason,
+  });
+
+  if (!purgeAfter) {
+    return c.json({ error: 'Tenant is already pending deletion', code: 'ALREADY_DELETED' }, 400);
+  }
 
-  await createAuditLog(c, 'tenant.deleted', 'tenant', id, existing, null);
+  await createAuditLog(c, 'tenant.deleted', 'tenant', id, existing, {
+    purgeAfter,
+    reason: reason || null,
+  });
 
-  return c.json({ success: true });
+  return c.json({ success: true, purgeAfter });
 });
 
-// Suspend tenant
-app.post('/:id/suspend', async (c) => {
-  const id = c.req.param('id');
-  const { reason } = await c.req.json<{ reason: string }>();
+// Cancel a pending deletion
+app.post('/:id/restore', async (c) => {
+  const { id } = c.req.param();
 
-  await c.env.DB.prepare(
-    "UPDATE tenants SET status = 'suspended', updated_at = datetime('now') WHERE id = ?"
-  )
+  const existing = await c.env.DB.prepare('SELECT * FROM tenants WHERE id = ?')
     .bind(id)
-    .run();
+    .first<Tenant>();
 
-  await createAuditLog(c, 'tenant.updated', 'tenant', id, null, { status: 'suspended', reason });
+  if (!existing) {
+    return c.json({ error: 'Tenant not found' }, 404);
+  }
+
+  if (!existing.deleted_at || !(await restoreTenant(c.env, id))) {
+    return c.json({ error: 'Tenant is not pending deletion', code: 'NOT_DELETED' }, 400);
+  }
+
+  await createAuditLog(c, 'tenant.restored', 'tenant', id, {
+    deletedAt: existing.deleted_at,
+    purgeAfter: existing.purge_after,
+    reason: existing.deletion_reason,
+  }, null);
+
+  const tenant = await c.env.DB.prepare('SELECT * FROM tenants WHERE id = ?')
+    .bind(id)
+    .first<Record<string, unknown>>();
+
+  return c.json(serializeTenant(tenant!));
+});
+
+// Change tenant status (suspend and activate are shortcuts for it)
+app.post('/:id/status', async (c) => {
+  const { id } = c.req.param();
+  const { status, reason } = await c.req.json<{ status: TenantStatus; reason?: string }>();
+  return applyStatusRequest(c, id, status, reason);
+});
 
-  return c.json({ success: true });
+app.post('/:id/suspend', async (c) => {
+  const { id } = c.req.param();
+  const { reason } = await c.req.json<{ reason?: string }>().catch(() => ({ reason: undefined }));
+  return applyStatusRequest(c, id, 'suspended', reason);
 });
 
-// Activate tenant
 app.post('/:id/activate', async (c) => {
-  const id = c.req.param('id');
+  const { id } = c.req.param();
+  const { reason } = await c.req.json<{ reason?: string }>().catch(() => ({ reason: undefined }));
+  return applyStatusRequest(c, id, 'active', reason);
+});
+
+// Status history, newest first, plus where the tenant can go from here
+app.get('/:id/status-history', async (c) => {
+  const { id } = c.req.param();
 
-  await c.env.DB.prepare(
-    "UPDATE tenants SET status = 'active', updated_at = datetime('now') WHERE id = ?"
-  )
+  const tenant = await c.env.DB.prepare('SELECT status FROM tenants WHERE id = ?')
     .bind(id)
-    .run();
+    .first<Pick<Tenant, 'status'>>();
+
+  if (!tenant) {
+    return c.json({ error: 'Tenant not found' }, 404);
+  }
 
-  await createAuditLog(c, 'tenant.updated', 'tenant', id, null, { status: 'active' });
+  const { results } = await c.env.DB.prepare(`
+    SELECT h.*, u.name as changed_by_name
+    FROM tenant_status_history h
+    LEFT JOIN users u ON u.id = h.changed_by
+    WHERE h.tenant_id = ?
+    ORDER BY h.created_at DESC, h.rowid DESC
+  `)
+    .bind(id)
+    .all();
 
-  return c.json({ success: true });
+  return c.json({
+    data: rowsToCamelCase(results as Record<string, unknown>[]),
+    status: tenant.status,
+    allowedTransitions: TENANT_STATUS_TRANSITIONS[tenant.status] || [],
+  });
 });
 
 // Get tenant stats
@@ -1,6 +1,6 @@
-import { Hono } from 'hono';
-import { Env, User } from '../types';
-import { requirePermission } from '../middleware/auth';
+import { Context, Hono } from 'hono';
+import { Env, Invitation, User, UserRole } from '../types';
+import { requirePermission, requireSuperAdmin, requireUserSession } from '../middleware/auth';
 import {
   generateId,
   hashPassword,
@@ -9,10 +9,31 @@ import {
   createAuditLog,
   toCamelCase,
   rowsToCamelCase,
+  sanitizeUser,
 } from '../utils/helpers';
+import { createImpersonationSession, listActiveSessions, revokeSession } from '../services/sessions';
+import {
+  buildResetUrl,
+  createPasswordResetToken,
+  sendPasswordResetEmail,
+} from '../services/passwordReset';
+import { sendVerificationEmail } from '../services/emailVerification';
+import { canGrantRole, findAssignableRole, getSystemRole, resolvePermissions } from '../services/roles';
+import { checkPassword, getPasswordPolicy, passwordHistoryStatement } from '../services/passwordPolicy';
+import {
+  createInvitation,
+  renewInvitationToken,
+  sendInvitationEmail,
+} from '../services/invitations';
+import { checkQuota, quotaExceededResponse } from '../services/quotas';
 
 const app = new Hono<{ Bindings: Env }>();
 
+// Who is handing out a role, for canGrantRole
+function grantor(c: Context<{ Bindings: Env }>) {
+  return { role: c.get('user').role, permissions: c.get('permissions') || [] };
+}
+
 // List users
 app.get('/', requirePermission('users:read'), async (c) => {
   const user = c.get('user');
@@ -56,7 +77,8 @@ app.get('/', requirePermission('users:read'), async (c) => {
       .bind(...bindings)
       .first(),
     c.env.DB.prepare(`
-      SELECT id, email, name, role, tenant_id, active, email_verified, last_login_at, created_at, updated_at
+      SELECT id, email, name, role, role_id, tenant_id, active, email_verified, must_change_password,
+        last_login_at, created_at, updated_at
       FROM users
       WHERE ${whereClause}
       ORDER BY ${params.sortBy} ${params.sortOrder}
@@ -72,12 +94,214 @@ app.get('/', requirePermission('users:read'), async (c) => {
   return c.json(paginatedResponse(users, total, params));
 });
 
+// ============================================
+// INVITATIONS
+// ============================================
+
+async function tenantName(c: Context<{ Bindings: Env }>, tenantId: string | null): Promise<string | null> {
+  if (!tenantId) return null;
+  const tenant = await c.env.DB.prepare('SELECT name FROM tenants WHERE id = ?')
+    .bind(tenantId)
+    .first<{ name: string }>();
+  return tenant?.name || null;
+}
+
+// Invite user - nothing is created until the invitee accepts the emailed link
+app.post('/invite', requirePermission('users:invite'), async (c) => {
+  const currentUser = c.get('user');
+  const body = await c.req.json<{
+    email: string;
+    role?: string;
+    roleId?: string;
+    tenantId?: string;
+  }>();
+
+  if (!body.email) {
+    return c.json({ error: 'Email is required' }, 400);
+  }
+
+  const email = body.email.toLowerCase();
+  const tenantId = currentUser.role === 'superadmin'
+    ? body.tenantId || null
+    : currentUser.tenant_id;
+
+  // Check if email exists
+  const existing = await c.env.DB.prepare('SELECT id FROM users WHERE email = ?')
+    .bind(email)
+    .first();
+
+  if (existing) {
+    return c.json({ error: 'User already exists', code: 'USER_EXISTS' }, 400);
+  }
+
+  const pending = await c.env.DB.prepare(`
+    SELECT id FROM invitations
+    WHERE email = ? AND accepted_at IS NULL AND revoked_at IS NULL AND expires_at > datetime('now')
+  `)
+    .bind(email)
+    .first();
+
+  if (pending) {
+    return c.json({ error: 'An invitation is already pending for this email', code: 'INVITATION_PENDING' }, 400);
+  }
+
+  const exceeded = await checkQuota(c.env, tenantId, 'users');
+  if (exceeded) {
+    return quotaExceededResponse(c, exceeded);
+  }
+
+  // Same role rules as creating the user directly
+  let role: UserRole = currentUser.role === 'superadmin'
+    ? (body.role as UserRole) || 'operator'
+    : body.role !== 'superadmin' ? (body.role as UserRole) || 'operator' : 'operator';
+  let roleId: string | null = null;
+
+  if (body.roleId) {
+    const assigned = await findAssignableRole(c.env, body.roleId, tenantId);
+    if (!assigned || !canGrantRole(assigned, grantor(c))) {
+      return c.json({ error: 'Invalid role', code: 'INVALID_ROLE' }, 400);
+    }
+    role = assigned.base_role;
+    roleId = assigned.tenant_id ? assigned.id : null;
+  } else {
+    const systemRole = await getSystemRole(c.env, role);
+    if (!systemRole || !canGrantRole(systemRole, grantor(c))) {
+      return c.json({ error: 'Invalid role', code: 'INVALID_ROLE' }, 400);
+    }
+  }
+
+  const { id, token } = await createInvitation(c.env, {
+    email,
+    role,
+    roleId,
+    tenantId,
+    // An API key has no users row to point at; the audit log below records which key sent it
+    invitedBy: c.get('apiKey') ? null : currentUser.id,
+  });
+
+  await sendInvitationEmail(
+    c.env,
+    { email, tenantName: await tenantName(c, tenantId), inviterName: currentUser.name },
+    token
+  );
+
+  await createAuditLog(c, 'user.invited', 'invitation', id, null, { email, role, roleId, tenantId });
+
+  return c.json({
+    success: true,
+    message: 'Invitation sent',
+    invitationId: id,
+  }, 201);
+});
+
+// List open invitations (pending or expired, not yet accepted or revoked)
+app.get('/invitations', requirePermission('users:read'), async (c) => {
+  const user = c.get('user');
+  const tenantId = user.role === 'superadmin' ? c.req.query('tenantId') : user.tenant_id;
+
+  let whereClause = 'i.accepted_at IS NULL AND i.revoked_at IS NULL';
+  const bindings: string[] = [];
+
+  if (tenantId) {
+    whereClause += ' AND i.tenant_id = ?';
+    bindings.push(tenantId);
+  }
+
+  const { results } = await c.env.DB.prepare(`
+    SELECT i.id, i.tenant_id, i.email, i.role, i.role_id, i.expires_at, i.send_count,
+      i.last_sent_at, i.created_at, u.name as invited_by_name,
+      CASE WHEN i.expires_at > datetime('now') THEN 'pending' ELSE 'expired' END as status
+    FROM invitations i
+    LEFT JOIN users u ON u.id = i.invited_by
+    WHERE ${whereClause}
+    ORDER BY i.created_at DESC
+  `)
+    .bind(...bindings)
+    .all();
+
+  return c.json({ data: rowsToCamelCase(results as Record<string, unknown>[]) });
+});
+
+async function findManageableInvitation(c: Context<{ Bindings: Env }>, id: string) {
+  const user = c.get('user');
+  const invitation = await c.env.DB.prepare(
+    'SELECT * FROM invitations WHERE id = ? AND accepted_at IS NULL AND revoked_at IS NULL'
+  )
+    .bind(id)
+    .first<Invitation>();
+
+  if (!invitation) return null;
+  // Non-superadmins can only manage invitations of their tenant
+  if (user.role !== 'superadmin' && invitation.tenant_id !== user.tenant_id) return null;
+  return invitation;
+}
+
+// Resend invitation - issues a fresh link and restarts the expiry
+app.post('/invitations/:id/resend', requirePermission('users:invite'), async (c) => {
+  const { id } = c.req.param();
+  const currentUser = c.get('user');
+
+  const invitation = await findManageableInvitation(c, id);
+  if (!invitation) {
+    return c.json({ error: 'Invitation not found' }, 404);
+  }
+
+  // An expired invitation no longer holds a seat, so renewing it takes one again
+  // (expires_at is SQLite's "YYYY-MM-DD HH:MM:SS" in UTC, which compares as text)
+  if (invitation.expires_at <= new Date().toISOString().replace('T', ' ').slice(0, 19)) {
+    const exceeded = await checkQuota(c.env, invitation.tenant_id, 'users');
+    if (exceeded) {
+      return quotaExceededResponse(c, exceeded);
+    }
+  }
+
+  const token = await renewInvitationToken(c.env, id);
+  if (!token) {
+    return c.json({ error: 'Invitation not found' }, 404);
+  }
+
+  await sendInvitationEmail(
+    c.env,
+    {
+      email: invitation.email,
+      tenantName: await tenantName(c, invitation.tenant_id),
+      inviterName: currentUser.name,
+    },
+    token
+  );
+
+  await createAuditLog(c, 'user.invitation_resent', 'invitation', id, null, {
+    email: invitation.email,
+    sendCount: invitation.send_count + 1,
+  });
+
+  return c.json({ success: true });
+});
+
+// Revoke invitation - the emailed link stops working
+app.delete('/invitations/:id', requirePermission('users:invite'), async (c) => {
+  const { id } = c.req.param();
+
+  const invitation = await findManageableInvitation(c, id);
+  if (!invitation) {
+    return c.json({ error: 'Invitation not found' }, 404);
+  }
+
+  await c.env.DB.prepare("UPDATE invitations SET revoked_at = datetime('now') WHERE id = ?")
+    .bind(id)
+    .run();
+
+  await createAuditLog(c, 'user.invitation_revoked', 'invitation', id, { email: invitation.email, role: invitation.role }, null);
+
+  return c.json({ success: true });
+});
+
 // Get single user
 app.get('/:id', requirePermission('users:read'), async (c) => {
   const id = c.req.param('id');
   const currentUser = c.get('user');
 
-  let query = 'SELECT id, email, name, role, tenant_id, active, email_verified, last_login_at, created_at, updated_at FROM users WHERE id = ?';
+  let query = 'SELECT id, email, name, role, role_id, tenant_id, active, email_verified, must_change_password, last_login_at, created_at, updated_at FROM users WHERE id = ?';
 
   // Non-superadmins can only see users from their tenant
   if (currentUser.role !== 'superadmin') {
@@ -104,7 +328,9 @@ app.post('/', requirePermission('users:write'), async (c) => {
     email: string;
     password: string;
     role: string;
+    roleId?: string;
     tenantId?: string;
+    mustChangePassword?: boolean;
   }>();
 
   if (!body.name || !body.email || !body.password) {
@@ -125,32 +351,63 @@ app.post('/', requirePermission('users:write'), async (c) => {
     ? body.tenantId || null
     : currentUser.tenant_id;
 
+  const exceeded = await checkQuota(c.env, tenantId, 'users');
+  if (exceeded) {
+    return quotaExceededResponse(c, exceeded);
+  }
+
   // Non-superadmins cannot create superadmin users
-  const role = currentUser.role === 'superadmin'
+  let role = currentUser.role === 'superadmin'
     ? body.role || 'operator'
     : body.role !== 'superadmin' ? body.role || 'operator' : 'operator';
+  let roleId: string | null = null;
+
+  // A tenant role decides the permissions; its base role replaces body.role
+  if (body.roleId) {
+    const assigned = await findAssignableRole(c.env, body.roleId, tenantId);
+    if (!assigned || !canGrantRole(assigned, grantor(c))) {
+      return c.json({ error: 'Invalid role', code: 'INVALID_ROLE' }, 400);
+    }
+    role = assigned.base_role;
+    roleId = assigned.tenant_id ? assigned.id : null;
+  } else {
+    const systemRole = await getSystemRole(c.env, role);
+    if (!systemRole || !canGrantRole(systemRole, grantor(c))) {
+      return c.json({ error: 'Invalid role', code: 'INVALID_ROLE' }, 400);
+    }
+  }
+
+  const violations = await checkPassword(c.env, await getPasswordPolicy(c.env, tenantId), body.password);
+  if (violations.length > 0) {
+    return c.json({ error: 'Password does not meet the password policy', code: 'WEAK_PASSWORD', violations }, 400);
+  }
 
   const id = generateId();
   const passwordHash = await hashPassword(body.password);
 
-  await c.env.DB.prepare(`
-    INSERT INTO users (
-      id, email, name, password_hash, role, tenant_id,
-      active, email_verified, created_at, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, 1, 0, datetime('now'), datetime('now'))
-  `).bind(
-    id,
-    body.email.toLowerCase(),
-    body.name,
-    passwordHash,
-    role,
-    tenantId
-  ).run();
+  await c.env.DB.batch([
+    c.env.DB.prepare(`
+      INSERT INTO users (
+        id, email, name, password_hash, password_changed_at, must_change_password,
+        role, role_id, tenant_id, active, email_verified, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, datetime('now'), ?, ?, ?, ?, 1, 0, datetime('now'), datetime('now'))
+    `).bind(
+      id,
+      body.email.toLowerCase(),
+      body.name,
+      passwordHash,
+      body.mustChangePassword ? 1 : 0,
+      role,
+      roleId,
+      tenantId
+    ),
+    passwordHistoryStatement(c.env, id, passwordHash),
+  ]);
 
-  await createAuditLog(c, 'user.created', 'user', id, null, { email: body.email, role });
+  await createAuditLog(c, 'user.created', 'user', id, null, { email: body.email, role, roleId });
 
   const user = await c.env.DB.prepare(
-    'SELECT id, email, name, role, tenant_id, active, email_verified, created_at, updated_at FROM users WHERE id = ?'
+    'SELECT id, email, name, role, role_id, tenant_id, active, email_verified, must_change_password, created_at, updated_at FROM users WHERE id = ?'
   )
     .bind(id)
     .first();
@@ -162,7 +419,14 @@ app.post('/', requirePermission('users:write'), async (c) => {
 app.put('/:id', requirePermission('users:write'), async (c) => {
   const id = c.req.param('id');
   const currentUser = c.get('user');
-  const body = await c.req.json<Partial<{ name: string; email: string; role: string; active: boolean }>>();
+  const body = await c.req.json<Partial<{
+    name: string;
+    email: string;
+    role: string;
+    roleId: string | null;
+    active: boolean;
+    mustChangePassword: boolean;
+  }>>();
 
   const existing = await c.env.DB.prepare('SELECT * FROM users WHERE id = ?')
     .bind(id)
@@ -184,18 +448,39 @@ app.put('/:id', requirePermission('users:write'), async (c) => {
     updates.push('name = ?');
     bindings.push(body.name);
   }
-  if (body.email !== undefined) {
-    updates.push('email = ?');
-    bindings.push(body.email.toLowerCase());
+  // A changed email address has to be confirmed again
+  const emailChanged = body.email !== undefined && body.email.toLowerCase() !== existing.email;
+  if (emailChanged) {
+    updates.push('email = ?', 'email_verified = 0', 'email_verified_at = NULL');
+    bindings.push(body.email!.toLowerCase());
   }
-  if (body.role !== undefined && currentUser.role === 'superadmin') {
-    updates.push('role = ?');
+  if (body.roleId) {
+    const assigned = await findAssignableRole(c.env, body.roleId, existing.tenant_id);
+    if (!assigned || !canGrantRole(assigned, grantor(c))) {
+      return c.json({ error: 'Invalid role', code: 'INVALID_ROLE' }, 400);
+    }
+    updates.push('role = ?', 'role_id = ?');
+    bindings.push(assigned.base_role, assigned.tenant_id ? assigned.id : null);
+  } else if (body.role !== undefined && currentUser.role === 'superadmin') {
+    updates.push('role = ?', 'role_id = NULL');
     bindings.push(body.role);
+  } else if (body.roleId === null) {
+    // Dropping the tenant role leaves the user with the full system role of the same base
+    const systemRole = await getSystemRole(c.env, existing.role);
+    if (!systemRole || !canGrantRole(systemRole, grantor(c))) {
+      return c.json({ error: 'Invalid role', code: 'INVALID_ROLE' }, 400);
+    }
+    updates.push('role_id = NULL');
   }
   if (body.active !== undefined) {
     updates.push('active = ?');
     bindings.push(body.active ? 1 : 0);
   }
+  // Forces a new password at the next login
+  if (body.mustChangePassword !== undefined) {
+    updates.push('must_change_password = ?');
+    bindings.push(body.mustChangePassword ? 1 : 0);
+  }
 
   if (updates.length === 0) {
     return c.json({ error: 'No fields to update' }, 400);
@@ -210,8 +495,16 @@ app.put('/:id', requirePermission('users:write'), async (c) => {
 
   await createAuditLog(c, 'user.updated', 'user', id, existing, body);
 
+  if (emailChanged) {
+    await sendVerificationEmail(c.env, {
+      id,
+      email: body.email!.toLowerCase(),
+      name: body.name ?? existing.name,
+    });
+  }
+
   const user = await c.env.DB.prepare(
-    'SELECT id, email, name, role, tenant_id, active, email_verified, created_at, updated_at FROM users WHERE id = ?'
+    'SELECT id, email, name, role, role_id, tenant_id, active, email_verified, must_change_password, created_at, updated_at FROM users WHERE id = ?'
   )
     .bind(id)
     .first();
@@ -249,36 +542,38 @@ app.delete('/:id', requirePermission('users:delete'), async (c) => {
   return c.json({ success: true });
 });
 
-// Reset password
+// Reset password - emails the user a single-use reset link
 app.post('/:id/reset-password', requirePermission('users:write'), async (c) => {
   const id = c.req.param('id');
+  const currentUser = c.get('user');
 
-  const user = await c.env.DB.prepare('SELECT email FROM users WHERE id = ?')
+  const user = await c.env.DB.prepare('SELECT id, email, name, tenant_id FROM users WHERE id = ?')
     .bind(id)
-    .first();
+    .first<Pick<User, 'id' | 'email' | 'name' | 'tenant_id'>>();
 
   if (!user) {
     return c.json({ error: 'User not found' }, 404);
   }
 
-  // Generate temporary password
-  const tempPassword = Math.random().toString(36).slice(-8);
-  const passwordHash = await hashPassword(tempPassword);
+  // Non-superadmins can only reset passwords of users from their tenant
+  if (currentUser.role !== 'superadmin' && user.tenant_id !== currentUser.tenant_id) {
+    return c.json({ error: 'Forbidden' }, 403);
+  }
 
-  await c.env.DB.prepare(
-    "UPDATE users SET password_hash = ?, updated_at = datetime('now') WHERE id = ?"
-  )
-    .bind(passwordHash, id)
-    .run();
+  const token = await createPasswordResetToken(
+    c.env,
+    user.id,
+    c.req.header('CF-Connecting-IP') || null
+  );
+  const sent = await sendPasswordResetEmail(c.env, user, token);
 
-  await createAuditLog(c, 'user.updated', 'user', id, null, { passwordReset: true });
+  await createAuditLog(c, 'user.updated', 'user', user.id, null, { passwordResetRequested: true });
 
-  // In production, send email with temp password
   return c.json({
-    success: true,
-    message: 'Password reset email sent',
+    success: sent,
+    message: sent ? 'Password reset email sent' : 'Password reset email could not be sent',
     // Only in development:
-    tempPassword: c.env.ENVIRONMENT === 'development' ? tempPassword : undefined,
+    resetUrl: c.env.ENVIRONMENT === 'development' ? buildResetUrl(c.env, token) : undefined,
   });
 });
 
@@ -315,82 +610,89 @@ app.post('/:id/unblock', requirePermission('users:write'), async (c) => {
 
 // Get user sessions
 app.get('/:id/sessions', requirePermission('users:read'), async (c) => {
-  const id = c.req.param('id');
+  const { id } = c.req.param();
+  const currentUser = c.get('user');
 
-  const sessions = await c.env.DB.prepare(`
-    SELECT * FROM sessions WHERE user_id = ? AND expires_at > datetime('now') ORDER BY last_activity_at DESC
-  `)
+  const target = await c.env.DB.prepare('SELECT id, tenant_id FROM users WHERE id = ?')
     .bind(id)
-    .all();
+    .first<Pick<User, 'id' | 'tenant_id'>>();
+
+  // Non-superadmins can only see users from their tenant
+  if (!target || (currentUser.role !== 'superadmin' && target.tenant_id !== currentUser.tenant_id)) {
+    return c.json({ error: 'User not found' }, 404);
+  }
 
-  return c.json(rowsToCamelCase(sessions.results as Record<string, unknown>[]));
+  const sessions = await listActiveSessions(c.env, id);
+
+  return c.json(rowsToCamelCase(sessions as unknown as Record<string, unknown>[]));
 });
 
-// Terminate session
+// Terminate session - the token stops working on its next request
 app.delete('/:userId/sessions/:sessionId', requirePermission('users:write'), async (c) => {
-  const userId = c.req.param('userId');
-  const sessionId = c.req.param('sessionId');
+  const { userId, sessionId } = c.req.param();
+  const currentUser = c.get('user');
 
-  await c.env.DB.prepare('DELETE FROM sessions WHERE id = ? AND user_id = ?')
-    .bind(sessionId, userId)
-    .run();
+  const target = await c.env.DB.prepare('SELECT id, tenant_id FROM users WHERE id = ?')
+    .bind(userId)
+    .first<Pick<User, 'id' | 'tenant_id'>>();
+
+  if (!target) {
+    return c.json({ error: 'User not found' }, 404);
+  }
+
+  // Non-superadmins can only revoke sessions of users from their tenant
+  if (currentUser.role !== 'superadmin' && target.tenant_id !== currentUser.tenant_id) {
+    return c.json({ error: 'Forbidden' }, 403);
+  }
+
+  const revoked = await revokeSession(c.env, sessionId, userId);
+  if (!revoked) {
+    return c.json({ error: 'Session not found' }, 404);
+  }
+
+  await createAuditLog(c, 'session.revoked', 'session', sessionId, null, { userId });
 
   return c.json({ success: true });
 });
 
-// Invite user
-app.post('/invite', requirePermission('users:invite'), async (c) => {
+// Impersonate user - time-limited support access for superadmins, fully audited
+app.post('/:id/impersonate', requireSuperAdmin(), requireUserSession(), async (c) => {
+  const { id } = c.req.param();
   const currentUser = c.get('user');
-  const { email, role, tenantId } = await c.req.json<{
-    email: string;
-    role: string;
-    tenantId?: string;
-  }>();
+  const { reason } = await c.req.json<{ reason?: string }>();
 
-  if (!email) {
-    return c.json({ error: 'Email is required' }, 400);
+  if (!reason?.trim()) {
+    return c.json({ error: 'A reason is required to impersonate a user' }, 400);
   }
 
-  // Check if email exists
-  const existing = await c.env.DB.prepare('SELECT id FROM users WHERE email = ?')
-    .bind(email.toLowerCase())
-    .first();
+  const target = await c.env.DB.prepare('SELECT * FROM users WHERE id = ? AND active = 1')
+    .bind(id)
+    .first<User>();
 
-  if (existing) {
-    return c.json({ error: 'User already exists' }, 400);
+  if (!target) {
+    return c.json({ error: 'User not found or inactive' }, 404);
   }
 
-  // In production, send invitation email
-  // For now, create user with temp password
+  if (target.id === currentUser.id || target.role === 'superadmin') {
+    return c.json({ error: 'Superadmin accounts cannot be impersonated' }, 400);
+  }
 
-  const id = generateId();
-  const tempPassword = Math.random().toString(36).slice(-8);
-  const passwordHash = await hashPassword(tempPassword);
+  const session = await createImpersonationSession(c, target, currentUser.id);
 
-  const finalTenantId = currentUser.role === 'superadmin'
-    ? tenantId || null
-    : currentUser.tenant_id;
-
-  await c.env.DB.prepare(`
-    INSERT INTO users (
-      id, email, name, password_hash, role, tenant_id,
-      active, email_verified, created_at, updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, 1, 0, datetime('now'), datetime('now'))
-  `).bind(
-    id,
-    email.toLowerCase(),
-    email.split('@')[0],
-    passwordHash,
-    role || 'operator',
-    finalTenantId
-  ).run();
-
-  await createAuditLog(c, 'user.created', 'user', id, null, { email, role, invited: true });
+  await createAuditLog(c, 'user.impersonation_started', 'user', target.id, null, {
+    reason: reason.trim(),
+    sessionId: session.sessionId,
+    expiresAt: session.expiresAt,
+  });
 
   return c.json({
-    success: true,
-    message: 'Invitation sent',
-    userId: id,
+    user: {
+      ...toCamelCase<Record<string, unknown>>(sanitizeUser(target)),
+      permissions: await resolvePermissions(c.env, target),
+    },
+    token: session.token,
+    expiresAt: session.expiresAt,
+    impersonator: { id: currentUser.id, name: currentUser.name, email: currentUser.email },
   });
 });
 
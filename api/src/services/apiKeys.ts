@@ -0,0 +1,117 @@
+import { Context } from 'hono';
+import { ApiKey, Env, TENANT_PERMISSIONS, User } from '../types';
+import { generateId, generateOpaqueToken, hashToken } from '../utils/helpers';
+
+// Keys look like fxk_1a2b3c4d_<secret>; the first 12 characters are the public prefix
+export const API_KEY_PREFIX = 'fxk_';
+const PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+// Keys act inside one tenant, so platform permissions are never available;
+// neither is the full data export, which needs a signed-in user
+export const API_KEY_SCOPES = TENANT_PERMISSIONS.filter((permission) => permission !== 'tenants:export');
+
+// An authenticated key as seen by the middleware and permission checks
+export interface ApiKeyPrincipal {
+  id: string;
+  tenantId: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+}
+
+// Keys are accepted as X-API-Key or as a Bearer token with the key prefix
+export function readApiKey(c: Context<{ Bindings: Env }>): string | null {
+  const header = c.req.header('X-API-Key');
+  if (header) return header.trim();
+
+  const authHeader = c.req.header('Authorization');
+  if (authHeader?.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+    return authHeader.slice(7).trim();
+  }
+
+  return null;
+}
+
+export async function createApiKey(
+  env: Env,
+  data: { tenantId: string; name: string; scopes: string[]; expiresAt: string | null; createdBy: string }
+): Promise<{ id: string; key: string; prefix: string }> {
+  const id = generateId();
+  const prefix = `${API_KEY_PREFIX}${crypto.getRandomValues(new Uint32Array(1))[0].toString(16).padStart(8, '0')}`;
+  const key = `${prefix}_${generateOpaqueToken()}`;
+
+  await env.DB.prepare(`
+    INSERT INTO api_keys (
+      id, tenant_id, name, prefix, key_hash, scopes, expires_at, created_by, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+  `).bind(
+    id,
+    data.tenantId,
+    data.name,
+    prefix,
+    await hashToken(key),
+    JSON.stringify(data.scopes),
+    data.expiresAt,
+    data.createdBy
+  ).run();
+
+  return { id, key, prefix };
+}
+
+// Resolve a presented key to its principal; null for unknown, revoked or expired keys
+export async function authenticateApiKey(
+  env: Env,
+  key: string,
+  ipAddress: string | null
+): Promise<ApiKeyPrincipal | null> {
+  if (!key.startsWith(API_KEY_PREFIX) || key.length <= PREFIX_LENGTH) return null;
+
+  const row = await env.DB.prepare(`
+    SELECT k.* FROM api_keys k
+    JOIN tenants t ON t.id = k.tenant_id
+    WHERE k.prefix = ?
+      AND k.revoked_at IS NULL
+      -- expires_at is stored as ISO 8601; normalize it before comparing
+      AND (k.expires_at IS NULL OR datetime(k.expires_at) > datetime('now'))
+      AND t.status IN ('trial', 'active')
+      AND t.deleted_at IS NULL
+  `)
+    .bind(key.slice(0, PREFIX_LENGTH))
+    .first<ApiKey>();
+
+  if (!row || row.key_hash !== await hashToken(key)) return null;
+
+  // Record usage at most once a minute to keep writes down on busy integrations
+  await env.DB.prepare(`
+    UPDATE api_keys SET last_used_at = datetime('now'), last_used_ip = ?
+    WHERE id = ? AND (last_used_at IS NULL OR last_used_at < datetime('now', '-1 minute'))
+  `)
+    .bind(ipAddress, row.id)
+    .run();
+
+  return {
+    id: row.id,
+    tenantId: row.tenant_id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: JSON.parse(row.scopes || '[]'),
+  };
+}
+
+// Routes expect a user; a key acts as a tenant-scoped viewer whose permissions
+// come from its scopes (see requirePermission)
+export function apiKeyUser(key: ApiKeyPrincipal): User {
+  return {
+    id: `apikey:${key.id}`,
+    email: key.prefix,
+    name: `API key: ${key.name}`,
+    password_hash: '',
+    role: 'viewer',
+    tenant_id: key.tenantId,
+    active: true,
+    email_verified: true,
+    totp_enabled: false,
+    created_at: '',
+    updated_at: '',
+  };
+}
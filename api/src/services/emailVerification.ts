@@ -0,0 +1,95 @@
+import { Env } from '../types';
+import { generateId, generateOpaqueToken, hashToken } from '../utils/helpers';
+import { escapeHtml, sendMail } from './mail';
+
+export const VERIFICATION_TOKEN_TTL_HOURS = 48;
+
+// Resend throttling: one email per cooldown, capped per day
+const RESEND_COOLDOWN_SECONDS = 120;
+const RESEND_DAILY_LIMIT = 5;
+
+// Create a verification token for the user's current email and send it
+export async function sendVerificationEmail(
+  env: Env,
+  user: { id: string; email: string; name: string }
+): Promise<boolean> {
+  const token = generateOpaqueToken();
+
+  await env.DB.prepare(`
+    INSERT INTO email_verification_tokens (id, user_id, email, token_hash, expires_at, created_at)
+    VALUES (?, ?, ?, ?, datetime('now', ?), datetime('now'))
+  `).bind(
+    generateId(),
+    user.id,
+    user.email,
+    await hashToken(token),
+    `+${VERIFICATION_TOKEN_TTL_HOURS} hours`
+  ).run();
+
+  const verifyUrl = `${env.ADMIN_URL}/verify-email?token=${encodeURIComponent(token)}`;
+
+  return sendMail(env, {
+    to: user.email,
+    subject: 'Confirmá tu email en Fixly',
+    text: [
+      `Hola ${user.name},`,
+      '',
+      'Confirmá tu dirección de email con este enlace:',
+      verifyUrl,
+      '',
+      `El enlace vence en ${VERIFICATION_TOKEN_TTL_HOURS} horas.`,
+    ].join('\n'),
+    html: `<p>Hola ${escapeHtml(user.name)},</p>
+<p>Confirmá tu dirección de email con este enlace:</p>
+<p><a href="${verifyUrl}">Confirmar email</a></p>
+<p>El enlace vence en ${VERIFICATION_TOKEN_TTL_HOURS} horas.</p>`,
+  });
+}
+
+// Seconds until another email may be sent, or 0 if allowed now
+export async function getResendWaitSeconds(env: Env, userId: string): Promise<number> {
+  const stats = await env.DB.prepare(`
+    SELECT
+      COUNT(*) as sent_today,
+      CAST(strftime('%s', 'now') - strftime('%s', MAX(created_at)) AS INTEGER) as seconds_since_last
+    FROM email_verification_tokens
+    WHERE user_id = ? AND created_at > datetime('now', '-1 day')
+  `)
+    .bind(userId)
+    .first<{ sent_today: number; seconds_since_last: number | null }>();
+
+  if (!stats || stats.sent_today === 0) return 0;
+
+  if (stats.sent_today >= RESEND_DAILY_LIMIT) {
+    return 24 * 60 * 60;
+  }
+
+  const sinceLast = stats.seconds_since_last ?? RESEND_COOLDOWN_SECONDS;
+  return Math.max(0, RESEND_COOLDOWN_SECONDS - sinceLast);
+}
+
+// Consume a token and mark the email as verified; returns the user id
+export async function confirmEmailVerification(env: Env, token: string): Promise<string | null> {
+  const row = await env.DB.prepare(`
+    SELECT t.id, t.user_id
+    FROM email_verification_tokens t
+    JOIN users u ON u.id = t.user_id
+    WHERE t.token_hash = ? AND t.used_at IS NULL AND t.expires_at > datetime('now')
+      AND t.email = u.email
+  `)
+    .bind(await hashToken(token))
+    .first<{ id: string; user_id: string }>();
+
+  if (!row) return null;
+
+  await env.DB.batch([
+    env.DB.prepare(
+      "UPDATE email_verification_tokens SET used_at = datetime('now') WHERE user_id = ? AND used_at IS NULL"
+    ).bind(row.user_id),
+    env.DB.prepare(
+      "UPDATE users SET email_verified = 1, email_verified_at = datetime('now'), updated_at = datetime('now') WHERE id = ?"
+    ).bind(row.user_id),
+  ]);
+
+  return row.user_id;
+}
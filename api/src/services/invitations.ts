@@ -0,0 +1,125 @@
+import { Env, Invitation, UserRole } from '../types';
+import { generateId, generateOpaqueToken, hashToken } from '../utils/helpers';
+import { escapeHtml, sendMail } from './mail';
+
+export const INVITATION_TTL_DAYS = 7;
+
+// Invitation plus what the invitee sees on the accept page
+export interface PendingInvitation extends Invitation {
+  tenant_name: string | null;
+  inviter_name: string | null;
+}
+
+interface NewInvitation {
+  email: string;
+  role: UserRole;
+  roleId: string | null;
+  tenantId: string | null;
+  invitedBy: string | null;
+}
+
+// Insert for a new invitation plus its plain token, for callers that batch it with other writes
+export async function invitationStatement(
+  env: Env,
+  data: NewInvitation
+): Promise<{ id: string; token: string; statement: D1PreparedStatement }> {
+  const id = generateId();
+  const token = generateOpaqueToken();
+
+  const statement = env.DB.prepare(`
+    INSERT INTO invitations (
+      id, tenant_id, email, role, role_id, token_hash, invited_by,
+      expires_at, send_count, last_sent_at, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now', ?), 1, datetime('now'), datetime('now'))
+  `).bind(
+    id,
+    data.tenantId,
+    data.email,
+    data.role,
+    data.roleId,
+    await hashToken(token),
+    data.invitedBy,
+    `+${INVITATION_TTL_DAYS} days`
+  );
+
+  return { id, token, statement };
+}
+
+// Store a new invitation and return the plain token for the email link
+export async function createInvitation(env: Env, data: NewInvitation): Promise<{ id: string; token: string }> {
+  const { id, token, statement } = await invitationStatement(env, data);
+  await statement.run();
+  return { id, token };
+}
+
+// Replace the token of an open invitation and restart its expiry; old links stop working
+export async function renewInvitationToken(env: Env, id: string): Promise<string | null> {
+  const token = generateOpaqueToken();
+
+  const result = await env.DB.prepare(`
+    UPDATE invitations
+    SET token_hash = ?, expires_at = datetime('now', ?),
+      send_count = send_count + 1, last_sent_at = datetime('now')
+    WHERE id = ? AND accepted_at IS NULL AND revoked_at IS NULL
+  `)
+    .bind(await hashToken(token), `+${INVITATION_TTL_DAYS} days`, id)
+    .run();
+
+  return (result.meta?.changes || 0) > 0 ? token : null;
+}
+
+// Open (not accepted, revoked or expired) invitation for a token
+export async function findPendingInvitation(env: Env, token: string): Promise<PendingInvitation | null> {
+  return env.DB.prepare(`
+    SELECT i.*, t.name as tenant_name, u.name as inviter_name
+    FROM invitations i
+    LEFT JOIN tenants t ON t.id = i.tenant_id
+    LEFT JOIN users u ON u.id = i.invited_by
+    WHERE i.token_hash = ? AND i.accepted_at IS NULL AND i.revoked_at IS NULL
+      AND i.expires_at > datetime('now')
+  `)
+    .bind(await hashToken(token))
+    .first<PendingInvitation>();
+}
+
+// Mark the invitation as accepted; false if another request got there first
+export async function claimInvitation(env: Env, id: string): Promise<boolean> {
+  const result = await env.DB.prepare(`
+    UPDATE invitations SET accepted_at = datetime('now')
+    WHERE id = ? AND accepted_at IS NULL AND revoked_at IS NULL
+  `)
+    .bind(id)
+    .run();
+
+  return (result.meta?.changes || 0) > 0;
+}
+
+export function buildInvitationUrl(env: Env, token: string): string {
+  return `${env.ADMIN_URL}/accept-invitation?token=${encodeURIComponent(token)}`;
+}
+
+export async function sendInvitationEmail(
+  env: Env,
+  invitation: { email: string; tenantName: string | null; inviterName: string },
+  token: string
+): Promise<boolean> {
+  const inviteUrl = buildInvitationUrl(env, token);
+  const workspace = invitation.tenantName || 'Fixly';
+
+  return sendMail(env, {
+    to: invitation.email,
+    subject: `${invitation.inviterName} te invitó a ${workspace} en Fixly`,
+    text: [
+      'Hola,',
+      '',
+      `${invitation.inviterName} te invitó a sumarte a ${workspace}. Elegí tu nombre y contraseña con este enlace:`,
+      inviteUrl,
+      '',
+      `La invitación vence en ${INVITATION_TTL_DAYS} días.`,
+    ].join('\n'),
+    html: `<p>Hola,</p>
+<p>${escapeHtml(invitation.inviterName)} te invitó a sumarte a ${escapeHtml(workspace)}. Elegí tu nombre y contraseña con este enlace:</p>
+<p><a href="${inviteUrl}">Aceptar invitación</a></p>
+<p>La invitación vence en ${INVITATION_TTL_DAYS} días.</p>`,
+  });
+}
@@ -0,0 +1,166 @@
+import { Env, User } from '../types';
+import { generateId } from '../utils/helpers';
+
+// Stored in the config table; tenant_id NULL holds the global (platform) list
+const CONFIG_KEY = 'ip_allowlist';
+const MAX_ENTRIES = 100;
+
+export type AllowlistScope = 'tenant' | 'global';
+
+interface ParsedCidr {
+  version: 4 | 6;
+  network: bigint;
+  prefix: number;
+}
+
+function parseIpv4(ip: string): bigint | null {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return null;
+
+  let value = 0n;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = (value << 8n) | BigInt(part);
+  }
+  return value;
+}
+
+function parseIpv6(ip: string): bigint | null {
+  // IPv4-mapped tail (::ffff:1.2.3.4) becomes two hextets
+  const lastColon = ip.lastIndexOf(':');
+  if (ip.includes('.', lastColon)) {
+    const v4 = parseIpv4(ip.slice(lastColon + 1));
+    if (v4 === null) return null;
+    ip = `${ip.slice(0, lastColon + 1)}${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+
+  const halves = ip.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  let value = 0n;
+  for (const group of [...head, ...Array(missing).fill('0'), ...tail]) {
+    if (!/^[0-9a-f]{1,4}$/i.test(group)) return null;
+    value = (value << 16n) | BigInt(`0x${group}`);
+  }
+  return value;
+}
+
+function parseIp(ip: string): { version: 4 | 6; value: bigint } | null {
+  const v4 = parseIpv4(ip);
+  if (v4 !== null) return { version: 4, value: v4 };
+  const v6 = parseIpv6(ip);
+  return v6 !== null ? { version: 6, value: v6 } : null;
+}
+
+// "203.0.113.0/24", "2001:db8::/32" or a single address (treated as /32 or /128)
+function parseCidr(entry: string): ParsedCidr | null {
+  const [address, prefixText, ...rest] = entry.trim().split('/');
+  if (rest.length > 0) return null;
+
+  const ip = parseIp(address);
+  if (!ip) return null;
+
+  const bits = ip.version === 4 ? 32 : 128;
+  if (prefixText !== undefined && !/^\d{1,3}$/.test(prefixText)) return null;
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  if (prefix > bits) return null;
+
+  const mask = prefixMask(bits, prefix);
+  return { version: ip.version, network: ip.value & mask, prefix };
+}
+
+function prefixMask(bits: number, prefix: number): bigint {
+  const all = (1n << BigInt(bits)) - 1n;
+  return all ^ ((1n << BigInt(bits - prefix)) - 1n);
+}
+
+// Valid, de-duplicated entries plus the ones that could not be parsed
+export function normalizeAllowlist(input: unknown): { entries: string[]; invalid: string[] } {
+  const raw = Array.isArray(input) ? input : [];
+  const entries: string[] = [];
+  const invalid: string[] = [];
+
+  for (const value of raw) {
+    const text = String(value).trim();
+    if (!text) continue;
+
+    const cidr = parseCidr(text);
+    if (!cidr) {
+      invalid.push(text);
+    } else if (!entries.includes(text)) {
+      entries.push(text);
+    }
+  }
+
+  return { entries: entries.slice(0, MAX_ENTRIES), invalid };
+}
+
+// An empty list allows every address
+export function isIpAllowed(ip: string | null, entries: string[]): boolean {
+  if (entries.length === 0) return true;
+  if (!ip) return false;
+
+  const parsed = parseIp(ip.trim());
+  if (!parsed) return false;
+
+  return entries.some((entry) => {
+    const cidr = parseCidr(entry);
+    if (!cidr || cidr.version !== parsed.version) return false;
+    const mask = prefixMask(cidr.version === 4 ? 32 : 128, cidr.prefix);
+    return (parsed.value & mask) === cidr.network;
+  });
+}
+
+export async function getIpAllowlist(env: Env, tenantId: string | null): Promise<string[]> {
+  const row = await env.DB.prepare(
+    'SELECT value FROM config WHERE key = ? AND tenant_id IS ?'
+  )
+    .bind(CONFIG_KEY, tenantId)
+    .first<{ value: string }>();
+
+  return row ? normalizeAllowlist(JSON.parse(row.value)).entries : [];
+}
+
+export async function saveIpAllowlist(env: Env, tenantId: string | null, entries: string[]): Promise<void> {
+  // UNIQUE(tenant_id, key) does not cover NULL tenants, so replace instead of upserting
+  await env.DB.batch([
+    env.DB.prepare('DELETE FROM config WHERE key = ? AND tenant_id IS ?').bind(CONFIG_KEY, tenantId),
+    env.DB.prepare(`
+      INSERT INTO config (id, tenant_id, key, value, type, description, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 'json', 'CIDR ranges allowed to use the admin console', datetime('now'), datetime('now'))
+    `).bind(generateId(), tenantId, CONFIG_KEY, JSON.stringify(entries)),
+  ]);
+}
+
+// Which list governs a user: superadmins answer to the global one, everyone else to their tenant's
+export function allowlistScopeFor(user: Pick<User, 'role' | 'tenant_id'>): AllowlistScope | null {
+  if (user.role === 'superadmin') return 'global';
+  return user.tenant_id ? 'tenant' : null;
+}
+
+// Emergency switch (wrangler secret) for superadmins locked out by the global list
+export function isSuperAdminBypassEnabled(env: Env): boolean {
+  return env.IP_ALLOWLIST_BYPASS === 'true';
+}
+
+/**
+ * Check the request IP against the list that applies to the acting user.
+ * During impersonation the superadmin is the one acting, so the global list applies.
+ */
+export async function checkIpAllowlist(
+  env: Env,
+  ip: string | null,
+  actor: Pick<User, 'role' | 'tenant_id'>
+): Promise<{ allowed: true } | { allowed: false; scope: AllowlistScope }> {
+  const scope = allowlistScopeFor(actor);
+  if (!scope) return { allowed: true };
+  if (scope === 'global' && isSuperAdminBypassEnabled(env)) return { allowed: true };
+
+  const entries = await getIpAllowlist(env, scope === 'global' ? null : actor.tenant_id);
+  return isIpAllowed(ip, entries) ? { allowed: true } : { allowed: false, scope };
+}
@@ -0,0 +1,67 @@
+import { Env } from '../types';
+import { generateId } from '../utils/helpers';
+
+export const LOGIN_CHALLENGE_TTL_MINUTES = 5;
+
+// Wrong codes a single challenge tolerates before the login has to start over
+export const LOGIN_CHALLENGE_MAX_ATTEMPTS = 3;
+
+export type ChallengePurpose = 'login_2fa' | 'login_2fa_setup' | 'password_change';
+
+// Record a new challenge and return its id, which goes into the token as jti
+export async function createLoginChallenge(
+  env: Env,
+  userId: string,
+  purpose: ChallengePurpose
+): Promise<string> {
+  const id = generateId();
+
+  await env.DB.batch([
+    env.DB.prepare(
+      "DELETE FROM login_challenges WHERE user_id = ? AND (consumed_at IS NOT NULL OR expires_at <= datetime('now'))"
+    ).bind(userId),
+    env.DB.prepare(`
+      INSERT INTO login_challenges (id, user_id, purpose, expires_at, created_at)
+      VALUES (?, ?, ?, datetime('now', ?), datetime('now'))
+    `).bind(id, userId, purpose, `+${LOGIN_CHALLENGE_TTL_MINUTES} minutes`),
+  ]);
+
+  return id;
+}
+
+// Whether the challenge can still be answered, without spending it
+export async function isLoginChallengeOpen(
+  env: Env,
+  id: string,
+  userId: string,
+  purpose: ChallengePurpose
+): Promise<boolean> {
+  const row = await env.DB.prepare(`
+    SELECT id FROM login_challenges
+    WHERE id = ? AND user_id = ? AND purpose = ? AND consumed_at IS NULL
+      AND attempts < ? AND expires_at > datetime('now')
+  `)
+    .bind(id, userId, purpose, LOGIN_CHALLENGE_MAX_ATTEMPTS)
+    .first();
+
+  return row !== null;
+}
+
+// Spend the challenge; false if a concurrent request already did
+export async function consumeLoginChallenge(env: Env, id: string): Promise<boolean> {
+  const result = await env.DB.prepare(`
+    UPDATE login_challenges SET consumed_at = datetime('now')
+    WHERE id = ? AND consumed_at IS NULL AND attempts < ? AND expires_at > datetime('now')
+  `)
+    .bind(id, LOGIN_CHALLENGE_MAX_ATTEMPTS)
+    .run();
+
+  return (result.meta?.changes || 0) > 0;
+}
+
+// Count a wrong code against the challenge
+export async function registerLoginChallengeFailure(env: Env, id: string): Promise<void> {
+  await env.DB.prepare('UPDATE login_challenges SET attempts = attempts + 1 WHERE id = ?')
+    .bind(id)
+    .run();
+}
@@ -0,0 +1,231 @@
+import { Context } from 'hono';
+import { Env, LoginEvent, User } from '../types';
+import { generateId } from '../utils/helpers';
+import { parseUserAgent } from '../utils/userAgent';
+import { escapeHtml, sendMail } from './mail';
+
+export type LoginRiskFlag = 'new_ip' | 'new_device' | 'impossible_travel' | 'failures_before_success';
+
+// How far back a login is compared against the user's history
+const HISTORY_SIZE = 50;
+// Failed attempts since the previous login that make a success suspicious
+const FAILURES_THRESHOLD = 3;
+// Faster than a commercial flight; short hops are ignored since IP geolocation is coarse
+const MAX_TRAVEL_SPEED_KMH = 900;
+const MIN_TRAVEL_DISTANCE_KM = 300;
+
+const riskFlagLabels: Record<LoginRiskFlag, string> = {
+  new_ip: 'Dirección IP nueva',
+  new_device: 'Navegador o dispositivo nuevo',
+  impossible_travel: 'Ubicación imposible respecto del último ingreso',
+  failures_before_success: 'Varios intentos fallidos antes de entrar',
+};
+
+interface LoginSignals {
+  ipAddress: string | null;
+  userAgent: string | null;
+  deviceLabel: string | null;
+  country: string | null;
+  city: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+// What Cloudflare tells us about the client: IP, browser and geolocation
+function readSignals(c: Context<{ Bindings: Env }>): LoginSignals {
+  const cf = c.req.raw.cf as
+    | { city?: string; country?: string; latitude?: string; longitude?: string }
+    | undefined;
+  const userAgent = c.req.header('User-Agent') || null;
+  const { browser, os } = parseUserAgent(userAgent);
+  const coordinate = (value?: string) => (value && Number.isFinite(Number(value)) ? Number(value) : null);
+
+  return {
+    ipAddress: c.req.header('CF-Connecting-IP') || null,
+    userAgent,
+    deviceLabel: [browser, os].filter(Boolean).join(' en ') || null,
+    country: cf?.country || c.req.header('CF-IPCountry') || null,
+    city: cf?.city || null,
+    latitude: coordinate(cf?.latitude),
+    longitude: coordinate(cf?.longitude),
+  };
+}
+
+// Great-circle distance in kilometres
+function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function isImpossibleTravel(previous: LoginEvent, signals: LoginSignals): boolean {
+  if (
+    previous.latitude == null || previous.longitude == null ||
+    signals.latitude == null || signals.longitude == null
+  ) {
+    return false;
+  }
+
+  const km = distanceKm(previous.latitude, previous.longitude, signals.latitude, signals.longitude);
+  if (km < MIN_TRAVEL_DISTANCE_KM) return false;
+
+  // SQLite timestamps are UTC without a zone designator
+  const elapsedHours = (Date.now() - Date.parse(`${previous.created_at.replace(' ', 'T')}Z`)) / 3_600_000;
+  return km / Math.max(elapsedHours, 1 / 60) > MAX_TRAVEL_SPEED_KMH;
+}
+
+// Failed attempts recorded since the previous login (at most a day back)
+async function countRecentFailures(env: Env, user: User): Promise<number> {
+  const row = await env.DB.prepare(`
+    SELECT COUNT(*) as count FROM audit_logs
+    WHERE user_id = ? AND action = 'user.login_failed'
+      AND created_at > MAX(COALESCE(?, ''), datetime('now', '-1 day'))
+  `)
+    .bind(user.id, user.last_login_at || null)
+    .first<{ count: number }>();
+
+  return row?.count || 0;
+}
+
+function assessRisk(history: LoginEvent[], signals: LoginSignals, failures: number): LoginRiskFlag[] {
+  const flags: LoginRiskFlag[] = [];
+
+  // The very first login has nothing to be compared with
+  if (history.length > 0) {
+    if (signals.ipAddress && !history.some((event) => event.ip_address === signals.ipAddress)) {
+      flags.push('new_ip');
+    }
+
+    const seenDevice = signals.deviceLabel
+      ? history.some((event) => event.device_label === signals.deviceLabel)
+      : history.some((event) => event.user_agent === signals.userAgent);
+    if (!seenDevice) flags.push('new_device');
+
+    if (isImpossibleTravel(history[0], signals)) flags.push('impossible_travel');
+  }
+
+  if (failures >= FAILURES_THRESHOLD) flags.push('failures_before_success');
+
+  return flags;
+}
+
+/**
+ * Compare a completed login with the user's history and store it.
+ * Pass the user as loaded before this login so failures are counted from the previous one.
+ */
+export async function recordLoginEvent(
+  c: Context<{ Bindings: Env }>,
+  user: User,
+  sessionId: string
+): Promise<{ id: string; flags: LoginRiskFlag[]; signals: LoginSignals; failures: number }> {
+  const signals = readSignals(c);
+
+  const [{ results: history }, failures] = await Promise.all([
+    c.env.DB.prepare(
+      'SELECT * FROM login_events WHERE user_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?'
+    )
+      .bind(user.id, HISTORY_SIZE)
+      .all<LoginEvent>(),
+    countRecentFailures(c.env, user),
+  ]);
+
+  const flags = assessRisk(history || [], signals, failures);
+  const id = generateId();
+
+  await c.env.DB.prepare(`
+    INSERT INTO login_events (
+      id, user_id, tenant_id, session_id, ip_address, user_agent, device_label,
+      country, city, latitude, longitude, failed_attempts, risk_flags, flagged, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+  `).bind(
+    id,
+    user.id,
+    user.tenant_id,
+    sessionId,
+    signals.ipAddress,
+    signals.userAgent,
+    signals.deviceLabel,
+    signals.country,
+    signals.city,
+    signals.latitude,
+    signals.longitude,
+    failures,
+    JSON.stringify(flags),
+    flags.length > 0 ? 1 : 0
+  ).run();
+
+  return { id, flags, signals, failures };
+}
+
+// Email the user and their tenant admins about a flagged login
+export async function sendSuspiciousLoginAlert(
+  env: Env,
+  user: User,
+  event: { id: string; flags: LoginRiskFlag[]; signals: LoginSignals }
+): Promise<void> {
+  const { results: admins } = user.tenant_id
+    ? await env.DB.prepare(
+        "SELECT email FROM users WHERE tenant_id = ? AND role = 'admin' AND active = 1 AND id != ?"
+      )
+        .bind(user.tenant_id, user.id)
+        .all<{ email: string }>()
+    : { results: [] as { email: string }[] };
+
+  const { signals } = event;
+  const place = [signals.city, signals.country].filter(Boolean).join(', ') || 'ubicación desconocida';
+  const details = [
+    `Cuenta: ${user.name} (${user.email})`,
+    `IP: ${signals.ipAddress || 'desconocida'} - ${place}`,
+    `Dispositivo: ${signals.deviceLabel || 'desconocido'}`,
+  ];
+  const reasons = event.flags.map((flag) => riskFlagLabels[flag]);
+
+  const build = (subject: string, intro: string, action: string, url: string) => ({
+    subject,
+    text: [
+      'Hola,',
+      '',
+      intro,
+      '',
+      ...details,
+      '',
+      'Motivos:',
+      ...reasons.map((reason) => `- ${reason}`),
+      '',
+      `${action}: ${url}`,
+    ].join('\n'),
+    html: `<p>Hola,</p>
+<p>${escapeHtml(intro)}</p>
+<p>${details.map(escapeHtml).join('<br>')}</p>
+<p>Motivos:</p>
+<ul>${reasons.map((reason) => `<li>${escapeHtml(reason)}</li>`).join('')}</ul>
+<p><a href="${url}">${escapeHtml(action)}</a></p>`,
+  });
+
+  await sendMail(env, {
+    to: user.email,
+    ...build(
+      'Ingreso inusual a tu cuenta de Fixly',
+      'Detectamos un ingreso a tu cuenta que no se parece a los anteriores.',
+      'Si no lo reconocés, cerrá las sesiones y cambiá la contraseña',
+      `${env.ADMIN_URL}/security`
+    ),
+  });
+  for (const admin of admins || []) {
+    await sendMail(env, {
+      to: admin.email,
+      ...build(
+        `Ingreso inusual de ${user.name} en Fixly`,
+        `Detectamos un ingreso inusual a la cuenta de ${user.name} en tu organización.`,
+        'Revisalo en el panel de seguridad',
+        `${env.ADMIN_URL}/security/logins`
+      ),
+    });
+  }
+
+  await env.DB.prepare("UPDATE login_events SET alerted_at = datetime('now') WHERE id = ?")
+    .bind(event.id)
+    .run();
+}
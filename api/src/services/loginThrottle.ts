@@ -0,0 +1,102 @@
+import { Env, User } from '../types';
+import {
+  countHits,
+  getRateLimitStore,
+  recordHit,
+  secondsUntilWindowFrees,
+} from './rateLimit';
+
+// Failed attempts are counted over a sliding 15 minute window
+const FAILURE_WINDOW_SECONDS = 15 * 60;
+const MAX_FAILURES_PER_IP = 20;
+const MAX_FAILURES_PER_ACCOUNT = 5;
+
+// Each consecutive lockout lasts longer; the last step repeats
+const LOCKOUT_STEPS_SECONDS = [5 * 60, 15 * 60, 60 * 60, 24 * 60 * 60];
+// How long an account keeps its lockout level after the last lockout
+const LOCKOUT_MEMORY_SECONDS = 24 * 60 * 60;
+
+interface LockState {
+  level: number;
+  lockedUntil: number;
+}
+
+export type LoginThrottleResult =
+  | { allowed: true }
+  | { allowed: false; code: 'ACCOUNT_LOCKED' | 'TOO_MANY_ATTEMPTS'; retryAfter: number };
+
+const ipKey = (ip: string) => `login:ip:${ip}`;
+const failuresKey = (account: string) => `login:failures:${account}`;
+const lockKey = (account: string) => `login:lock:${account}`;
+
+// Known users are tracked by id so username, email and name share one counter;
+// unknown identifiers are tracked as typed so probing them is limited too
+export function loginAccountKey(user: Pick<User, 'id'> | null, identifier: string): string {
+  return user ? `user:${user.id}` : `identifier:${identifier.toLowerCase()}`;
+}
+
+export async function checkIpThrottle(env: Env, ip: string): Promise<LoginThrottleResult> {
+  const store = getRateLimitStore(env);
+  const failures = await countHits(store, ipKey(ip), FAILURE_WINDOW_SECONDS);
+
+  if (failures < MAX_FAILURES_PER_IP) {
+    return { allowed: true };
+  }
+
+  return {
+    allowed: false,
+    code: 'TOO_MANY_ATTEMPTS',
+    retryAfter: await secondsUntilWindowFrees(store, ipKey(ip), FAILURE_WINDOW_SECONDS),
+  };
+}
+
+export async function checkAccountLock(env: Env, account: string): Promise<LoginThrottleResult> {
+  const lock = await getRateLimitStore(env).get<LockState>(lockKey(account));
+
+  if (!lock || lock.lockedUntil <= Date.now()) {
+    return { allowed: true };
+  }
+
+  return {
+    allowed: false,
+    code: 'ACCOUNT_LOCKED',
+    retryAfter: Math.ceil((lock.lockedUntil - Date.now()) / 1000),
+  };
+}
+
+// Count a failed attempt; returns the lockout length in seconds when this attempt triggered one
+export async function recordLoginFailure(
+  env: Env,
+  ip: string,
+  account: string
+): Promise<{ failures: number; lockedFor: number | null }> {
+  const store = getRateLimitStore(env);
+
+  await recordHit(store, ipKey(ip), FAILURE_WINDOW_SECONDS);
+  const failures = await recordHit(store, failuresKey(account), FAILURE_WINDOW_SECONDS);
+
+  if (failures < MAX_FAILURES_PER_ACCOUNT) {
+    return { failures, lockedFor: null };
+  }
+
+  const previous = await store.get<LockState>(lockKey(account));
+  const level = Math.min((previous?.level ?? 0) + 1, LOCKOUT_STEPS_SECONDS.length);
+  const lockedFor = LOCKOUT_STEPS_SECONDS[level - 1];
+
+  await store.put(
+    lockKey(account),
+    { level, lockedUntil: Date.now() + lockedFor * 1000 } satisfies LockState,
+    Math.max(lockedFor, LOCKOUT_MEMORY_SECONDS)
+  );
+  // Start counting afresh once the lockout ends
+  await store.delete(failuresKey(account));
+
+  return { failures, lockedFor };
+}
+
+// A completed login resets the failure counter and the lockout level
+export async function clearLoginFailures(env: Env, account: string): Promise<void> {
+  const store = getRateLimitStore(env);
+  await store.delete(failuresKey(account));
+  await store.delete(lockKey(account));
+}
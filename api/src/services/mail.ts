@@ -0,0 +1,90 @@
+import { Env } from '../types';
+import { generateId } from '../utils/helpers';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailSender {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Local driver - keeps messages in the mail_outbox table for inspection
+class OutboxMailSender implements MailSender {
+  constructor(private env: Env) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await this.env.DB.prepare(`
+      INSERT INTO mail_outbox (id, to_email, subject, text_body, html_body, created_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+    `).bind(
+      generateId(),
+      message.to,
+      message.subject,
+      message.text,
+      message.html || null
+    ).run();
+  }
+}
+
+// HTTP driver - posts to a Resend-compatible endpoint
+class HttpMailSender implements MailSender {
+  constructor(private env: Env) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const response = await fetch(this.env.MAIL_API_URL!, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.env.MAIL_API_KEY}`,
+      },
+      body: JSON.stringify({
+        from: this.env.MAIL_FROM || 'Fixly <no-reply@fixlytaller.com>',
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mail delivery failed: ${response.status} ${await response.text()}`);
+    }
+  }
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// The outbox only when asked for: falling back to it would swallow real mail unnoticed
+export function getMailSender(env: Env): MailSender {
+  if (env.MAIL_DRIVER === 'outbox') {
+    return new OutboxMailSender(env);
+  }
+  if (env.MAIL_DRIVER === 'http') {
+    if (!env.MAIL_API_URL) {
+      throw new Error('MAIL_DRIVER is "http" but MAIL_API_URL is not set');
+    }
+    return new HttpMailSender(env);
+  }
+  throw new Error('MAIL_DRIVER is not configured; set it to "http" or "outbox"');
+}
+
+// Send without failing the request that triggered it
+export async function sendMail(env: Env, message: MailMessage): Promise<boolean> {
+  try {
+    await getMailSender(env).send(message);
+    return true;
+  } catch (error) {
+    console.error('Mail error:', error);
+    return false;
+  }
+}
@@ -0,0 +1,165 @@
+import { Env, User } from '../types';
+import { generateId, verifyPassword } from '../utils/helpers';
+import { BREACHED_PASSWORDS } from '../utils/breachedPasswords';
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  // How many previous passwords cannot be reused (0 disables the check)
+  historyCount: number;
+  // Days until a password has to be changed (0 means it never expires)
+  maxAgeDays: number;
+  blockBreached: boolean;
+}
+
+export type PasswordViolation =
+  | 'min_length'
+  | 'uppercase'
+  | 'lowercase'
+  | 'number'
+  | 'symbol'
+  | 'breached'
+  | 'reused';
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: false,
+  requireLowercase: false,
+  requireNumber: false,
+  requireSymbol: false,
+  historyCount: 0,
+  maxAgeDays: 0,
+  blockBreached: true,
+};
+
+// Bounds for tenant-provided values; history rows beyond the max are pruned
+const MIN_PASSWORD_LENGTH = 6;
+const MAX_PASSWORD_LENGTH = 128;
+const MAX_HISTORY_COUNT = 24;
+const MAX_AGE_DAYS = 730;
+
+function clampInt(value: unknown, min: number, max: number, fallback: number): number {
+  const parsed = Math.floor(Number(value));
+  if (!Number.isFinite(parsed)) return fallback;
+  return Math.min(Math.max(parsed, min), max);
+}
+
+// Fill in defaults and clamp a policy coming from tenant settings or a request body
+export function normalizePasswordPolicy(input?: Partial<PasswordPolicy> | null): PasswordPolicy {
+  const policy = { ...DEFAULT_PASSWORD_POLICY, ...input };
+
+  return {
+    minLength: clampInt(
+      policy.minLength,
+      MIN_PASSWORD_LENGTH,
+      MAX_PASSWORD_LENGTH,
+      DEFAULT_PASSWORD_POLICY.minLength
+    ),
+    requireUppercase: policy.requireUppercase === true,
+    requireLowercase: policy.requireLowercase === true,
+    requireNumber: policy.requireNumber === true,
+    requireSymbol: policy.requireSymbol === true,
+    historyCount: clampInt(policy.historyCount, 0, MAX_HISTORY_COUNT, 0),
+    maxAgeDays: clampInt(policy.maxAgeDays, 0, MAX_AGE_DAYS, 0),
+    blockBreached: policy.blockBreached !== false,
+  };
+}
+
+// Policy of the tenant, or the default for platform users and new signups
+export async function getPasswordPolicy(env: Env, tenantId: string | null): Promise<PasswordPolicy> {
+  if (!tenantId) return DEFAULT_PASSWORD_POLICY;
+
+  const tenant = await env.DB.prepare('SELECT settings FROM tenants WHERE id = ?')
+    .bind(tenantId)
+    .first<{ settings: string }>();
+
+  const settings = JSON.parse(tenant?.settings || '{}');
+  return normalizePasswordPolicy(settings.security?.passwordPolicy);
+}
+
+// Every rule the password breaks; pass the user to also check reuse
+export async function checkPassword(
+  env: Env,
+  policy: PasswordPolicy,
+  password: string,
+  user?: Pick<User, 'id' | 'password_hash'>
+): Promise<PasswordViolation[]> {
+  const violations: PasswordViolation[] = [];
+
+  if (password.length < policy.minLength) violations.push('min_length');
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) violations.push('uppercase');
+  if (policy.requireLowercase && !/[a-z]/.test(password)) violations.push('lowercase');
+  if (policy.requireNumber && !/[0-9]/.test(password)) violations.push('number');
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) violations.push('symbol');
+  if (policy.blockBreached && BREACHED_PASSWORDS.has(password.toLowerCase())) {
+    violations.push('breached');
+  }
+
+  if (user && policy.historyCount > 0 && (await isRecentPassword(env, user, password, policy.historyCount))) {
+    violations.push('reused');
+  }
+
+  return violations;
+}
+
+// Whether the password matches the current one or any of the last `count` ones
+async function isRecentPassword(
+  env: Env,
+  user: Pick<User, 'id' | 'password_hash'>,
+  password: string,
+  count: number
+): Promise<boolean> {
+  const { results } = await env.DB.prepare(
+    'SELECT password_hash FROM password_history WHERE user_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?'
+  )
+    .bind(user.id, count)
+    .all<{ password_hash: string }>();
+
+  const hashes = new Set([user.password_hash, ...(results || []).map((row) => row.password_hash)]);
+  for (const hash of hashes) {
+    if (await verifyPassword(password, hash)) return true;
+  }
+  return false;
+}
+
+// Remember a password hash so it can be checked against future changes
+export function passwordHistoryStatement(env: Env, userId: string, passwordHash: string): D1PreparedStatement {
+  return env.DB.prepare(
+    "INSERT INTO password_history (id, user_id, password_hash, created_at) VALUES (?, ?, ?, datetime('now'))"
+  ).bind(generateId(), userId, passwordHash);
+}
+
+// Statements that set a new password, restart its age and record it in the history
+export function passwordUpdateStatements(
+  env: Env,
+  userId: string,
+  passwordHash: string,
+  mustChange = false
+): D1PreparedStatement[] {
+  return [
+    env.DB.prepare(`
+      UPDATE users SET password_hash = ?, password_changed_at = datetime('now'),
+        must_change_password = ?, updated_at = datetime('now')
+      WHERE id = ?
+    `).bind(passwordHash, mustChange ? 1 : 0, userId),
+    passwordHistoryStatement(env, userId, passwordHash),
+    env.DB.prepare(`
+      DELETE FROM password_history WHERE user_id = ? AND id NOT IN (
+        SELECT id FROM password_history WHERE user_id = ? ORDER BY created_at DESC, rowid DESC LIMIT ?
+      )
+    `).bind(userId, userId, MAX_HISTORY_COUNT),
+  ];
+}
+
+// Flagged by an admin or older than the tenant's maximum age
+export function isPasswordChangeRequired(policy: PasswordPolicy, user: User): boolean {
+  if (user.must_change_password) return true;
+  if (!policy.maxAgeDays || !user.password_changed_at) return false;
+
+  // SQLite timestamps are UTC without a zone designator
+  const changedAt = Date.parse(`${user.password_changed_at.replace(' ', 'T')}Z`);
+  return Date.now() - changedAt > policy.maxAgeDays * 24 * 60 * 60 * 1000;
+}
@@ -0,0 +1,89 @@
+import { Env } from '../types';
+import { generateId, generateOpaqueToken, hashToken } from '../utils/helpers';
+import { escapeHtml, sendMail } from './mail';
+
+export const RESET_TOKEN_TTL_MINUTES = 60;
+
+// Create a single-use reset token, invalidating any earlier unused one
+export async function createPasswordResetToken(
+  env: Env,
+  userId: string,
+  requestedIp: string | null
+): Promise<string> {
+  const token = generateOpaqueToken();
+
+  await env.DB.batch([
+    env.DB.prepare(
+      "UPDATE password_reset_tokens SET used_at = datetime('now') WHERE user_id = ? AND used_at IS NULL"
+    ).bind(userId),
+    env.DB.prepare(`
+      INSERT INTO password_reset_tokens (id, user_id, token_hash, expires_at, requested_ip, created_at)
+      VALUES (?, ?, ?, datetime('now', ?), ?, datetime('now'))
+    `).bind(
+      generateId(),
+      userId,
+      await hashToken(token),
+      `+${RESET_TOKEN_TTL_MINUTES} minutes`,
+      requestedIp
+    ),
+  ]);
+
+  return token;
+}
+
+// Look up a usable token without spending it, or null if invalid/expired/used
+export async function findPasswordResetToken(
+  env: Env,
+  token: string
+): Promise<{ id: string; user_id: string } | null> {
+  return env.DB.prepare(`
+    SELECT id, user_id FROM password_reset_tokens
+    WHERE token_hash = ? AND used_at IS NULL AND expires_at > datetime('now')
+  `)
+    .bind(await hashToken(token))
+    .first<{ id: string; user_id: string }>();
+}
+
+// Mark a token as used; false if a concurrent request already spent it
+export async function claimPasswordResetToken(env: Env, id: string): Promise<boolean> {
+  const result = await env.DB.prepare(`
+    UPDATE password_reset_tokens SET used_at = datetime('now')
+    WHERE id = ? AND used_at IS NULL AND expires_at > datetime('now')
+  `)
+    .bind(id)
+    .run();
+
+  return (result.meta?.changes || 0) > 0;
+}
+
+export function buildResetUrl(env: Env, token: string): string {
+  return `${env.ADMIN_URL}/reset-password?token=${encodeURIComponent(token)}`;
+}
+
+export async function sendPasswordResetEmail(
+  env: Env,
+  user: { email: string; name: string },
+  token: string
+): Promise<boolean> {
+  const resetUrl = buildResetUrl(env, token);
+  const name = escapeHtml(user.name);
+
+  return sendMail(env, {
+    to: user.email,
+    subject: 'Restablecer tu contraseña de Fixly',
+    text: [
+      `Hola ${user.name},`,
+      '',
+      'Recibimos un pedido para restablecer tu contraseña. Usá este enlace para elegir una nueva:',
+      resetUrl,
+      '',
+      `El enlace vence en ${RESET_TOKEN_TTL_MINUTES} minutos y solo puede usarse una vez.`,
+      'Si no lo pediste, podés ignorar este email.',
+    ].join('\n'),
+    html: `<p>Hola ${name},</p>
+<p>Recibimos un pedido para restablecer tu contraseña. Usá este enlace para elegir una nueva:</p>
+<p><a href="${resetUrl}">Restablecer contraseña</a></p>
+<p>El enlace vence en ${RESET_TOKEN_TTL_MINUTES} minutos y solo puede usarse una vez.
+Si no lo pediste, podés ignorar este email.</p>`,
+  });
+}
@@ -0,0 +1,60 @@
+import { Env, Plan } from '../types';
+import { toCamelCase } from '../utils/helpers';
+
+// Plan every new tenant gets when none is chosen
+export const DEFAULT_PLAN_ID = 'starter';
+
+export async function getPlan(env: Env, id: string): Promise<Plan | null> {
+  return env.DB.prepare('SELECT * FROM plans WHERE id = ?').bind(id).first<Plan>();
+}
+
+// Active plans by id, for validating many rows at once
+export async function getActivePlans(env: Env): Promise<Map<string, Plan>> {
+  const { results } = await env.DB.prepare('SELECT * FROM plans WHERE active = 1').all<Plan>();
+  return new Map((results || []).map((plan) => [plan.id, plan]));
+}
+
+export function parsePlanFeatures(plan: Pick<Plan, 'features'>): Record<string, boolean> {
+  try {
+    const features = JSON.parse(plan.features || '{}');
+    return features && typeof features === 'object' && !Array.isArray(features) ? features : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Copy a plan's feature flags into settings.features of the tenants on it, or
+ * of one of them. Tenants can't edit these; superadmins may still override one.
+ */
+export function planFeaturesStatement(
+  env: Env,
+  plan: Pick<Plan, 'id' | 'features'>,
+  tenantId?: string
+): D1PreparedStatement {
+  return env.DB.prepare(`
+    UPDATE tenants SET settings = json_set(COALESCE(NULLIF(settings, ''), '{}'), '$.features', json(?)),
+      updated_at = datetime('now')
+    WHERE plan_id = ?${tenantId ? ' AND id = ?' : ''}
+  `).bind(JSON.stringify(parsePlanFeatures(plan)), plan.id, ...(tenantId ? [tenantId] : []));
+}
+
+// Tenant limits come from the plan unless the request sets them explicitly
+export function resolvePlanLimits(
+  plan: Pick<Plan, 'max_users' | 'max_locations'>,
+  overrides: { maxUsers?: number | null; maxLocations?: number | null } = {}
+): { maxUsers: number; maxLocations: number } {
+  return {
+    maxUsers: overrides.maxUsers ?? plan.max_users,
+    maxLocations: overrides.maxLocations ?? plan.max_locations,
+  };
+}
+
+export function serializePlan(plan: Plan, tenantCount?: number) {
+  return {
+    ...toCamelCase<Record<string, unknown>>(plan as unknown as Record<string, unknown>),
+    active: !!plan.active,
+    features: parsePlanFeatures(plan),
+    ...(tenantCount !== undefined ? { tenantCount } : {}),
+  };
+}
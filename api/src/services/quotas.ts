@@ -0,0 +1,74 @@
+import { Context } from 'hono';
+import { Env } from '../types';
+
+export type QuotaResource = 'users' | 'locations';
+
+export interface QuotaUsage {
+  used: number;
+  limit: number;
+  // Open invitations hold a seat until they are accepted, revoked or expire
+  pending: number;
+}
+
+export type TenantUsage = Record<QuotaResource, QuotaUsage>;
+
+export interface QuotaExceeded extends QuotaUsage {
+  resource: QuotaResource;
+}
+
+const QUOTA_MESSAGES: Record<QuotaResource, string> = {
+  users: 'The organization has reached its user limit',
+  locations: 'The organization has reached its location limit',
+};
+
+export async function getTenantUsage(env: Env, tenantId: string): Promise<TenantUsage | null> {
+  const row = await env.DB.prepare(`
+    SELECT t.max_users, t.max_locations,
+      (SELECT COUNT(*) FROM users WHERE tenant_id = t.id) as users,
+      (SELECT COUNT(*) FROM invitations
+        WHERE tenant_id = t.id AND accepted_at IS NULL AND revoked_at IS NULL
+          AND expires_at > datetime('now')) as invitations,
+      (SELECT COUNT(*) FROM locations WHERE tenant_id = t.id AND active = 1) as locations
+    FROM tenants t WHERE t.id = ?
+  `)
+    .bind(tenantId)
+    .first<{ max_users: number; max_locations: number; users: number; invitations: number; locations: number }>();
+
+  if (!row) return null;
+
+  return {
+    users: { used: row.users, limit: row.max_users, pending: row.invitations },
+    locations: { used: row.locations, limit: row.max_locations, pending: 0 },
+  };
+}
+
+/**
+ * Check whether the tenant has room for one more of the resource. Pending
+ * invitations count as taken, except when accepting one of them, which only
+ * turns a reserved seat into a used one.
+ */
+export async function checkQuota(
+  env: Env,
+  tenantId: string | null,
+  resource: QuotaResource,
+  options: { acceptingInvitation?: boolean } = {}
+): Promise<QuotaExceeded | null> {
+  // Platform users (no tenant) have no limits
+  if (!tenantId) return null;
+
+  const usage = await getTenantUsage(env, tenantId);
+  if (!usage) return null;
+
+  const { used, limit, pending } = usage[resource];
+  const taken = options.acceptingInvitation ? used : used + pending;
+
+  return taken >= limit ? { resource, used, limit, pending } : null;
+}
+
+export function quotaExceededResponse(c: Context<{ Bindings: Env }>, exceeded: QuotaExceeded) {
+  return c.json({
+    error: QUOTA_MESSAGES[exceeded.resource],
+    code: 'QUOTA_EXCEEDED',
+    quota: exceeded,
+  }, 403);
+}
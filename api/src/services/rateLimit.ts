@@ -0,0 +1,88 @@
+import { Env } from '../types';
+
+// Minimal key/value contract shared by the KV binding and the in-memory fallback
+export interface RateLimitStore {
+  get<T>(key: string): Promise<T | null>;
+  put(key: string, value: unknown, ttlSeconds: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// KV rejects expirations shorter than a minute
+const KV_MIN_TTL_SECONDS = 60;
+
+class KvRateLimitStore implements RateLimitStore {
+  constructor(private kv: KVNamespace) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    return this.kv.get<T>(key, 'json');
+  }
+
+  async put(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+    await this.kv.put(key, JSON.stringify(value), {
+      expirationTtl: Math.max(KV_MIN_TTL_SECONDS, Math.ceil(ttlSeconds)),
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.kv.delete(key);
+  }
+}
+
+// Per-isolate store for local dev when RATE_LIMIT_KV is not bound
+class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value as T;
+  }
+
+  async put(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+const memoryStore = new MemoryRateLimitStore();
+
+export function getRateLimitStore(env: Env): RateLimitStore {
+  return env.RATE_LIMIT_KV ? new KvRateLimitStore(env.RATE_LIMIT_KV) : memoryStore;
+}
+
+// Sliding window log: the key holds the timestamps (ms) of hits inside the window
+async function readWindow(store: RateLimitStore, key: string, windowSeconds: number): Promise<number[]> {
+  const since = Date.now() - windowSeconds * 1000;
+  const hits = (await store.get<number[]>(key)) || [];
+  return hits.filter((at) => at > since);
+}
+
+export async function countHits(store: RateLimitStore, key: string, windowSeconds: number): Promise<number> {
+  return (await readWindow(store, key, windowSeconds)).length;
+}
+
+// Record a hit and return how many hits the window now holds
+export async function recordHit(store: RateLimitStore, key: string, windowSeconds: number): Promise<number> {
+  const hits = await readWindow(store, key, windowSeconds);
+  hits.push(Date.now());
+  await store.put(key, hits, windowSeconds);
+  return hits.length;
+}
+
+// Seconds until the oldest hit in the window falls out of it
+export async function secondsUntilWindowFrees(
+  store: RateLimitStore,
+  key: string,
+  windowSeconds: number
+): Promise<number> {
+  const hits = await readWindow(store, key, windowSeconds);
+  if (hits.length === 0) return 0;
+  return Math.max(1, Math.ceil((Math.min(...hits) + windowSeconds * 1000 - Date.now()) / 1000));
+}
@@ -0,0 +1,61 @@
+import { Env, PLATFORM_PERMISSIONS, Role, User, UserRole } from '../types';
+
+// Permission list of a role row; tenant roles can never carry platform permissions
+export function parseRolePermissions(role: Pick<Role, 'tenant_id' | 'permissions'>): string[] {
+  const permissions: string[] = JSON.parse(role.permissions || '[]');
+  return role.tenant_id
+    ? permissions.filter((permission) => !PLATFORM_PERMISSIONS.includes(permission))
+    : permissions;
+}
+
+export async function getSystemRole(env: Env, key: string): Promise<Role | null> {
+  return env.DB.prepare('SELECT * FROM roles WHERE tenant_id IS NULL AND key = ?')
+    .bind(key)
+    .first<Role>();
+}
+
+// Role a user acts with: their tenant role when assigned, otherwise the system role
+export async function getEffectiveRole(env: Env, user: Pick<User, 'role' | 'role_id' | 'tenant_id'>): Promise<Role | null> {
+  if (user.role_id) {
+    const role = await env.DB.prepare(
+      'SELECT * FROM roles WHERE id = ? AND (tenant_id IS NULL OR tenant_id = ?)'
+    )
+      .bind(user.role_id, user.tenant_id)
+      .first<Role>();
+
+    if (role) return role;
+  }
+
+  return getSystemRole(env, user.role);
+}
+
+export async function resolvePermissions(env: Env, user: Pick<User, 'role' | 'role_id' | 'tenant_id'>): Promise<string[]> {
+  const role = await getEffectiveRole(env, user);
+  return role ? parseRolePermissions(role) : [];
+}
+
+// Look up a role that may be assigned to a user of the given tenant
+export async function findAssignableRole(env: Env, roleId: string, tenantId: string | null): Promise<Role | null> {
+  return env.DB.prepare('SELECT * FROM roles WHERE id = ? AND (tenant_id IS NULL OR tenant_id = ?)')
+    .bind(roleId, tenantId)
+    .first<Role>();
+}
+
+// Base roles from least to most privileged
+const BASE_ROLE_RANK: Record<UserRole, number> = { viewer: 0, operator: 1, admin: 2, superadmin: 3 };
+
+// Checks such as the tenant data export go by base role, so it can't be raised either
+export function canGrantBaseRole(baseRole: UserRole, ownRole: UserRole): boolean {
+  return BASE_ROLE_RANK[baseRole] <= BASE_ROLE_RANK[ownRole];
+}
+
+// Nobody can hand out a role that grants more than they hold themselves
+export function canGrantRole(
+  role: Pick<Role, 'tenant_id' | 'permissions' | 'base_role'>,
+  grantor: { role: UserRole; permissions: string[] }
+): boolean {
+  return (
+    canGrantBaseRole(role.base_role, grantor.role) &&
+    parseRolePermissions(role).every((permission) => grantor.permissions.includes(permission))
+  );
+}
@@ -0,0 +1,246 @@
+import { Context } from 'hono';
+import { Env, User } from '../types';
+import { generateId, generateOpaqueToken, generateToken, hashToken } from '../utils/helpers';
+import { ParsedUserAgent, parseUserAgent } from '../utils/userAgent';
+
+// Access tokens are short-lived; the session lives as long as its refresh token
+export const ACCESS_TOKEN_TTL_MINUTES = 15;
+export const REFRESH_TOKEN_TTL_DAYS = 7;
+export const IMPERSONATION_TTL_MINUTES = 60;
+// Browser tabs share one refresh token; another tab presenting it right after it
+// was rotated is a race, not a leak
+export const REFRESH_REUSE_GRACE_SECONDS = 30;
+
+export interface IssuedSession {
+  sessionId: string;
+  token: string;
+  expiresAt: string;
+  refreshToken: string;
+  refreshExpiresAt: string;
+}
+
+export type RefreshResult =
+  | { status: 'rotated'; userId: string; session: IssuedSession }
+  | { status: 'reused'; userId: string; sessionId: string }
+  | { status: 'invalid' };
+
+export interface SessionSummary extends ParsedUserAgent {
+  id: string;
+  user_id: string;
+  user_email: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  location: string | null;
+  impersonator_id: string | null;
+  last_activity_at: string;
+  expires_at: string;
+  created_at: string;
+}
+
+// "City, Region, Country" from Cloudflare's geolocation of the client IP
+function requestLocation(c: Context<{ Bindings: Env }>): string | null {
+  const cf = c.req.raw.cf as { city?: string; region?: string; country?: string } | undefined;
+  const parts = [cf?.city, cf?.region, cf?.country].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+function minutesFromNow(minutes: number): string {
+  return new Date(Date.now() + minutes * 60 * 1000).toISOString();
+}
+
+// Sign an access token for the session and a fresh refresh token in its family
+async function issueTokens(
+  env: Env,
+  sessionId: string,
+  userId: string
+): Promise<IssuedSession & { tokenHash: string }> {
+  const token = await generateToken(userId, env, `${ACCESS_TOKEN_TTL_MINUTES}m`, { sid: sessionId });
+  const refreshToken = generateOpaqueToken();
+
+  await env.DB.prepare(`
+    INSERT INTO refresh_tokens (id, session_id, user_id, token_hash, expires_at, created_at)
+    VALUES (?, ?, ?, ?, datetime('now', ?), datetime('now'))
+  `).bind(
+    generateId(),
+    sessionId,
+    userId,
+    await hashToken(refreshToken),
+    `+${REFRESH_TOKEN_TTL_DAYS} days`
+  ).run();
+
+  return {
+    sessionId,
+    token,
+    tokenHash: await hashToken(token),
+    expiresAt: minutesFromNow(ACCESS_TOKEN_TTL_MINUTES),
+    refreshToken,
+    refreshExpiresAt: minutesFromNow(REFRESH_TOKEN_TTL_DAYS * 24 * 60),
+  };
+}
+
+// Create a session row and issue the tokens that are bound to it
+export async function createSession(
+  c: Context<{ Bindings: Env }>,
+  user: Pick<User, 'id' | 'email'>
+): Promise<IssuedSession> {
+  const sessionId = generateId();
+  const ipAddress = c.req.header('CF-Connecting-IP') || c.req.header('X-Forwarded-For') || null;
+  const userAgent = c.req.header('User-Agent') || null;
+
+  // Drop this user's expired sessions while we are here
+  await c.env.DB.prepare(
+    "DELETE FROM sessions WHERE user_id = ? AND expires_at <= datetime('now')"
+  )
+    .bind(user.id)
+    .run();
+
+  // The row must exist before refresh tokens can reference it
+  await c.env.DB.prepare(`
+    INSERT INTO sessions (
+      id, user_id, user_email, token_hash, ip_address, user_agent, location,
+      last_activity_at, expires_at, created_at
+    ) VALUES (?, ?, ?, '', ?, ?, ?, datetime('now'), datetime('now', ?), datetime('now'))
+  `).bind(
+    sessionId,
+    user.id,
+    user.email,
+    ipAddress,
+    userAgent,
+    requestLocation(c),
+    `+${REFRESH_TOKEN_TTL_DAYS} days`
+  ).run();
+
+  const { tokenHash, ...issued } = await issueTokens(c.env, sessionId, user.id);
+
+  await c.env.DB.prepare('UPDATE sessions SET token_hash = ? WHERE id = ?')
+    .bind(tokenHash, sessionId)
+    .run();
+
+  return issued;
+}
+
+// Sign in as another user on behalf of a superadmin. These sessions are short,
+// get no refresh token and remember who started them.
+export async function createImpersonationSession(
+  c: Context<{ Bindings: Env }>,
+  target: Pick<User, 'id' | 'email'>,
+  impersonatorId: string
+): Promise<Pick<IssuedSession, 'sessionId' | 'token' | 'expiresAt'>> {
+  const sessionId = generateId();
+  const token = await generateToken(target.id, c.env, `${IMPERSONATION_TTL_MINUTES}m`, {
+    sid: sessionId,
+    imp: impersonatorId,
+  });
+
+  await c.env.DB.prepare(`
+    INSERT INTO sessions (
+      id, user_id, user_email, token_hash, ip_address, user_agent, location, impersonator_id,
+      last_activity_at, expires_at, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now', ?), datetime('now'))
+  `).bind(
+    sessionId,
+    target.id,
+    target.email,
+    await hashToken(token),
+    c.req.header('CF-Connecting-IP') || c.req.header('X-Forwarded-For') || null,
+    c.req.header('User-Agent') || null,
+    requestLocation(c),
+    impersonatorId,
+    `+${IMPERSONATION_TTL_MINUTES} minutes`
+  ).run();
+
+  return {
+    sessionId,
+    token,
+    expiresAt: minutesFromNow(IMPERSONATION_TTL_MINUTES),
+  };
+}
+
+// Exchange a refresh token for a new access/refresh pair. A refresh token that
+// was already exchanged means it leaked, so the whole session is revoked, unless
+// it was exchanged within the grace window.
+export async function rotateRefreshToken(env: Env, refreshToken: string): Promise<RefreshResult> {
+  const record = await env.DB.prepare(`
+    SELECT rt.id, rt.session_id, rt.user_id, rt.used_at,
+      rt.used_at > datetime('now', ?) as recently_used
+    FROM refresh_tokens rt
+    JOIN sessions s ON s.id = rt.session_id
+    WHERE rt.token_hash = ? AND rt.expires_at > datetime('now') AND s.expires_at > datetime('now')
+  `)
+    .bind(`-${REFRESH_REUSE_GRACE_SECONDS} seconds`, await hashToken(refreshToken))
+    .first<{ id: string; session_id: string; user_id: string; used_at: string | null; recently_used: number | null }>();
+
+  if (!record) {
+    return { status: 'invalid' };
+  }
+
+  let claimed = false;
+  if (!record.used_at) {
+    const result = await env.DB.prepare(
+      "UPDATE refresh_tokens SET used_at = datetime('now') WHERE id = ? AND used_at IS NULL"
+    )
+      .bind(record.id)
+      .run();
+    claimed = (result.meta?.changes || 0) > 0;
+  }
+
+  // Losing a concurrent race means the token was claimed just now, so it is
+  // within the grace window too; that request gets its own pair in the family
+  const withinGrace = !record.used_at || !!record.recently_used;
+  if (!claimed && !withinGrace) {
+    await revokeSession(env, record.session_id, record.user_id);
+    return { status: 'reused', userId: record.user_id, sessionId: record.session_id };
+  }
+
+  const { tokenHash, ...issued } = await issueTokens(env, record.session_id, record.user_id);
+
+  await env.DB.prepare(`
+    UPDATE sessions
+    SET token_hash = ?, last_activity_at = datetime('now'), expires_at = datetime('now', ?)
+    WHERE id = ?
+  `)
+    .bind(tokenHash, `+${REFRESH_TOKEN_TTL_DAYS} days`, record.session_id)
+    .run();
+
+  return { status: 'rotated', userId: record.user_id, session: issued };
+}
+
+// Look up the live session a token belongs to
+export async function findActiveSession(
+  env: Env,
+  sessionId: string,
+  userId: string,
+  token: string
+): Promise<{ id: string; impersonator_id: string | null } | null> {
+  const tokenHash = await hashToken(token);
+
+  return env.DB.prepare(`
+    SELECT id, impersonator_id FROM sessions
+    WHERE id = ? AND user_id = ? AND token_hash = ? AND expires_at > datetime('now')
+  `)
+    .bind(sessionId, userId, tokenHash)
+    .first<{ id: string; impersonator_id: string | null }>();
+}
+
+// Revoke a single session together with its refresh token family
+export async function revokeSession(env: Env, sessionId: string, userId: string): Promise<boolean> {
+  const [, result] = await env.DB.batch([
+    env.DB.prepare('DELETE FROM refresh_tokens WHERE session_id = ? AND user_id = ?').bind(sessionId, userId),
+    env.DB.prepare('DELETE FROM sessions WHERE id = ? AND user_id = ?').bind(sessionId, userId),
+  ]);
+
+  return (result.meta?.changes || 0) > 0;
+}
+
+// Live sessions of a user, most recently active first, with the device parsed
+export async function listActiveSessions(env: Env, userId: string): Promise<SessionSummary[]> {
+  const { results } = await env.DB.prepare(`
+    SELECT id, user_id, user_email, ip_address, user_agent, location, impersonator_id,
+      last_activity_at, expires_at, created_at
+    FROM sessions WHERE user_id = ? AND expires_at > datetime('now') ORDER BY last_activity_at DESC
+  `)
+    .bind(userId)
+    .all<Omit<SessionSummary, keyof ParsedUserAgent>>();
+
+  return (results || []).map((row) => ({ ...row, ...parseUserAgent(row.user_agent) }));
+}
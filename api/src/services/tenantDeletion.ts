@@ -0,0 +1,131 @@
+import { Env, Tenant } from '../types';
+import { generateId } from '../utils/helpers';
+import { deleteTenantExportFiles } from './tenantExport';
+
+const DEFAULT_RETENTION_DAYS = 30;
+const MAX_RETENTION_DAYS = 365;
+
+// Global config value; falls back to the default when missing or invalid
+export async function getDeletionRetentionDays(env: Env): Promise<number> {
+  const row = await env.DB.prepare(
+    "SELECT value FROM config WHERE key = 'tenant.deletion_retention_days' AND tenant_id IS NULL"
+  ).first<{ value: string }>();
+
+  const days = Math.floor(Number(row?.value));
+  return Number.isFinite(days) && days >= 0 ? Math.min(days, MAX_RETENTION_DAYS) : DEFAULT_RETENTION_DAYS;
+}
+
+export async function isTenantPendingDeletion(env: Env, tenantId: string): Promise<boolean> {
+  const tenant = await env.DB.prepare('SELECT deleted_at FROM tenants WHERE id = ?')
+    .bind(tenantId)
+    .first<Pick<Tenant, 'deleted_at'>>();
+
+  return !!tenant?.deleted_at;
+}
+
+/**
+ * Mark a tenant for deletion and sign all of its users out. Returns when the
+ * data will be purged, or null if the tenant was already pending deletion.
+ */
+export async function scheduleTenantDeletion(
+  env: Env,
+  tenantId: string,
+  data: { deletedBy: string; reason?: string | null }
+): Promise<string | null> {
+  const retentionDays = await getDeletionRetentionDays(env);
+
+  const [update] = await env.DB.batch([
+    env.DB.prepare(`
+      UPDATE tenants SET deleted_at = datetime('now'), deleted_by = ?, deletion_reason = ?,
+        purge_after = datetime('now', ?), updated_at = datetime('now')
+      WHERE id = ? AND deleted_at IS NULL
+    `).bind(data.deletedBy, data.reason?.trim() || null, `+${retentionDays} days`, tenantId),
+    env.DB.prepare(
+      'DELETE FROM refresh_tokens WHERE user_id IN (SELECT id FROM users WHERE tenant_id = ?)'
+    ).bind(tenantId),
+    env.DB.prepare(
+      'DELETE FROM sessions WHERE user_id IN (SELECT id FROM users WHERE tenant_id = ?)'
+    ).bind(tenantId),
+  ]);
+
+  if ((update.meta?.changes || 0) === 0) return null;
+
+  const tenant = await env.DB.prepare('SELECT purge_after FROM tenants WHERE id = ?')
+    .bind(tenantId)
+    .first<Pick<Tenant, 'purge_after'>>();
+
+  return tenant?.purge_after || null;
+}
+
+// Undo a pending deletion; false if the tenant was not pending deletion
+export async function restoreTenant(env: Env, tenantId: string): Promise<boolean> {
+  const result = await env.DB.prepare(`
+    UPDATE tenants SET deleted_at = NULL, deleted_by = NULL, deletion_reason = NULL,
+      purge_after = NULL, updated_at = datetime('now')
+    WHERE id = ? AND deleted_at IS NOT NULL
+  `)
+    .bind(tenantId)
+    .run();
+
+  return (result.meta?.changes || 0) > 0;
+}
+
+const PENDING_PURGE = 'SELECT id FROM tenants WHERE id = ? AND deleted_at IS NOT NULL';
+
+// Scheduled job: permanently delete tenants whose retention window ended
+export async function purgeDeletedTenants(env: Env): Promise<number> {
+  const { results: tenants } = await env.DB.prepare(`
+    SELECT * FROM tenants
+    WHERE deleted_at IS NOT NULL AND datetime(purge_after) <= datetime('now')
+  `).all<Tenant>();
+
+  let purged = 0;
+  for (const tenant of tenants || []) {
+    // Export archives are full copies of the data and outlive the tenant_exports
+    // rows, so they go first; skip the tenant if it was restored meanwhile
+    if (!(await isTenantPendingDeletion(env, tenant.id))) continue;
+    const exportFiles = await deleteTenantExportFiles(env, tenant.id);
+
+    const counts = await env.DB.prepare(`
+      SELECT
+        (SELECT COUNT(*) FROM users WHERE tenant_id = ?1) as users,
+        (SELECT COUNT(*) FROM locations WHERE tenant_id = ?1) as locations,
+        (SELECT COUNT(*) FROM orders WHERE tenant_id = ?1) as orders,
+        (SELECT COUNT(*) FROM payments WHERE tenant_id = ?1) as payments
+    `)
+      .bind(tenant.id)
+      .first<Record<string, number>>();
+
+    // The purge has no acting user; the final record survives the tenant (tenant_id stays NULL)
+    await env.DB.batch([
+      env.DB.prepare(`
+        INSERT INTO audit_logs (
+          id, user_id, user_name, user_email, tenant_id, action,
+          resource_type, resource_id, old_value, new_value, created_at
+        ) VALUES (?, 'system', 'Scheduled job', '', NULL, 'tenant.purged', 'tenant', ?, ?, ?, datetime('now'))
+      `).bind(
+        generateId(),
+        tenant.id,
+        JSON.stringify({
+          name: tenant.name,
+          slug: tenant.slug,
+          email: tenant.email,
+          deletedAt: tenant.deleted_at,
+          deletedBy: tenant.deleted_by,
+          deletionReason: tenant.deletion_reason,
+        }),
+        JSON.stringify({ purged: counts, exportFiles })
+      ),
+      // These reference the tenant with ON DELETE SET NULL: left alone, the
+      // users would survive as platform-level accounts that can sign in again.
+      // Each statement re-checks deleted_at in case the tenant was restored meanwhile
+      env.DB.prepare(`DELETE FROM invitations WHERE tenant_id IN (${PENDING_PURGE})`).bind(tenant.id),
+      env.DB.prepare(`DELETE FROM activation_codes WHERE tenant_id IN (${PENDING_PURGE})`).bind(tenant.id),
+      env.DB.prepare(`DELETE FROM users WHERE tenant_id IN (${PENDING_PURGE})`).bind(tenant.id),
+      env.DB.prepare('DELETE FROM tenants WHERE id = ? AND deleted_at IS NOT NULL').bind(tenant.id),
+    ]);
+    purged++;
+  }
+
+  return purged;
+}
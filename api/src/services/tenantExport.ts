@@ -0,0 +1,230 @@
+import { Env, Tenant, TenantExport } from '../types';
+import { generateId } from '../utils/helpers';
+import { ZipWriter } from '../utils/zip';
+
+// Archives can be downloaded for a week, then they are removed from the bucket
+const EXPORT_RETENTION_DAYS = 7;
+// Rows read per query so big tables don't hit D1 response limits
+const BATCH_SIZE = 1000;
+// A job still running after this long was cut off and is marked as failed
+const STALE_AFTER_MINUTES = 60;
+
+interface ExportSection {
+  name: string;
+  query: string;
+}
+
+// Everything a tenant owns; users are listed column by column so secrets never leave
+const SECTIONS: ExportSection[] = [
+  {
+    name: 'users',
+    query: `SELECT id, email, username, name, avatar, role, role_id, active, email_verified,
+      email_verified_at, totp_enabled, last_login_at, last_login_ip, created_at, updated_at
+      FROM users WHERE tenant_id = ?`,
+  },
+  { name: 'locations', query: 'SELECT * FROM locations WHERE tenant_id = ?' },
+  { name: 'orders', query: 'SELECT * FROM orders WHERE tenant_id = ?' },
+  { name: 'payments', query: 'SELECT * FROM payments WHERE tenant_id = ?' },
+  { name: 'subscriptions', query: 'SELECT * FROM subscriptions WHERE tenant_id = ?' },
+  { name: 'audit_logs', query: 'SELECT * FROM audit_logs WHERE tenant_id = ?' },
+];
+
+// Settings step plus one step per section, plus storing the archive
+const TOTAL_STEPS = SECTIONS.length + 2;
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: Record<string, unknown>[]): string {
+  if (rows.length === 0) return '';
+  const headers = Object.keys(rows[0]);
+  return [
+    headers.join(','),
+    ...rows.map((row) => headers.map((header) => csvValue(row[header])).join(',')),
+  ].join('\r\n');
+}
+
+async function readAll(env: Env, query: string, tenantId: string): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+  for (let offset = 0; ; offset += BATCH_SIZE) {
+    const { results } = await env.DB.prepare(`${query} ORDER BY rowid LIMIT ? OFFSET ?`)
+      .bind(tenantId, BATCH_SIZE, offset)
+      .all<Record<string, unknown>>();
+    rows.push(...(results || []));
+    if (!results || results.length < BATCH_SIZE) return rows;
+  }
+}
+
+async function updateProgress(env: Env, exportId: string, progress: number, step: string): Promise<void> {
+  await env.DB.prepare('UPDATE tenant_exports SET progress = ?, current_step = ? WHERE id = ?')
+    .bind(progress, step, exportId)
+    .run();
+}
+
+// Queue an export; null when the tenant already has one in progress
+export async function createTenantExport(
+  env: Env,
+  tenantId: string,
+  requestedBy: string
+): Promise<TenantExport | null> {
+  const active = await env.DB.prepare(
+    "SELECT id FROM tenant_exports WHERE tenant_id = ? AND status IN ('pending', 'running')"
+  )
+    .bind(tenantId)
+    .first();
+
+  if (active) return null;
+
+  const id = generateId();
+  await env.DB.prepare(`
+    INSERT INTO tenant_exports (id, tenant_id, requested_by, status, progress, total_steps, created_at)
+    VALUES (?, ?, ?, 'pending', 0, ?, datetime('now'))
+  `)
+    .bind(id, tenantId, requestedBy, TOTAL_STEPS)
+    .run();
+
+  return env.DB.prepare('SELECT * FROM tenant_exports WHERE id = ?').bind(id).first<TenantExport>();
+}
+
+/**
+ * Build the archive for a pending export and store it in the bucket.
+ * The job is claimed first, so a run from the request and one from the cron can't both build it.
+ */
+export async function runTenantExport(env: Env, exportId: string): Promise<void> {
+  const claim = await env.DB.prepare(`
+    UPDATE tenant_exports SET status = 'running', started_at = datetime('now')
+    WHERE id = ? AND status = 'pending'
+  `)
+    .bind(exportId)
+    .run();
+
+  if ((claim.meta?.changes || 0) === 0) return;
+
+  const job = await env.DB.prepare('SELECT * FROM tenant_exports WHERE id = ?')
+    .bind(exportId)
+    .first<TenantExport>();
+
+  try {
+    if (!env.EXPORTS_BUCKET) {
+      throw new Error('EXPORTS_BUCKET is not configured');
+    }
+
+    const tenant = await env.DB.prepare('SELECT * FROM tenants WHERE id = ?')
+      .bind(job!.tenant_id)
+      .first<Tenant & { mp_access_token?: string }>();
+
+    if (!tenant) {
+      throw new Error('Tenant not found');
+    }
+
+    const zip = new ZipWriter();
+    const counts: Record<string, number> = {};
+
+    // Tenant profile and its config values; the MercadoPago token stays out
+    await updateProgress(env, exportId, 0, 'settings');
+    const { mp_access_token: _token, ...profile } = tenant;
+    const { results: config } = await env.DB.prepare(
+      'SELECT key, value, type, description, updated_at FROM config WHERE tenant_id = ? ORDER BY key'
+    )
+      .bind(tenant.id)
+      .all<Record<string, unknown>>();
+
+    zip.addFile('settings.json', JSON.stringify({ tenant: profile, config: config || [] }, null, 2));
+    zip.addFile('settings.csv', toCsv(config || []));
+    counts.settings = config?.length || 0;
+
+    for (const [index, section] of SECTIONS.entries()) {
+      await updateProgress(env, exportId, index + 1, section.name);
+      const rows = await readAll(env, section.query, tenant.id);
+      zip.addFile(`${section.name}.json`, JSON.stringify(rows, null, 2));
+      zip.addFile(`${section.name}.csv`, toCsv(rows));
+      counts[section.name] = rows.length;
+    }
+
+    await updateProgress(env, exportId, SECTIONS.length + 1, 'archive');
+    zip.addFile('manifest.json', JSON.stringify({
+      tenantId: tenant.id,
+      tenantName: tenant.name,
+      exportId,
+      generatedAt: new Date().toISOString(),
+      records: counts,
+    }, null, 2));
+
+    const archive = zip.finish();
+    const fileKey = `exports/${tenant.id}/${exportId}.zip`;
+    await env.EXPORTS_BUCKET.put(fileKey, archive, {
+      httpMetadata: { contentType: 'application/zip' },
+    });
+
+    await env.DB.prepare(`
+      UPDATE tenant_exports SET status = 'completed', progress = total_steps, current_step = NULL,
+        file_key = ?, file_size = ?, record_counts = ?, completed_at = datetime('now'),
+        expires_at = datetime('now', ?)
+      WHERE id = ?
+    `)
+      .bind(fileKey, archive.length, JSON.stringify(counts), `+${EXPORT_RETENTION_DAYS} days`, exportId)
+      .run();
+  } catch (error) {
+    console.error('Tenant export failed:', error);
+    await env.DB.prepare(`
+      UPDATE tenant_exports SET status = 'failed', error = ?, completed_at = datetime('now') WHERE id = ?
+    `)
+      .bind(error instanceof Error ? error.message : 'Export failed', exportId)
+      .run();
+  }
+}
+
+// Scheduled job: build exports the request didn't finish, fail stuck ones, drop expired archives
+export async function processTenantExports(env: Env): Promise<{ built: number; expired: number }> {
+  await env.DB.prepare(`
+    UPDATE tenant_exports SET status = 'failed', error = 'Export timed out', completed_at = datetime('now')
+    WHERE status = 'running' AND datetime(started_at) <= datetime('now', ?)
+  `)
+    .bind(`-${STALE_AFTER_MINUTES} minutes`)
+    .run();
+
+  const { results: pending } = await env.DB.prepare(
+    "SELECT id FROM tenant_exports WHERE status = 'pending' ORDER BY created_at"
+  ).all<{ id: string }>();
+
+  for (const job of pending || []) {
+    await runTenantExport(env, job.id);
+  }
+
+  const { results: expired } = await env.DB.prepare(`
+    SELECT id, file_key FROM tenant_exports
+    WHERE status = 'completed' AND datetime(expires_at) <= datetime('now')
+  `).all<Pick<TenantExport, 'id' | 'file_key'>>();
+
+  for (const job of expired || []) {
+    if (job.file_key && env.EXPORTS_BUCKET) {
+      await env.EXPORTS_BUCKET.delete(job.file_key);
+    }
+    await env.DB.prepare("UPDATE tenant_exports SET status = 'expired', file_key = NULL WHERE id = ?")
+      .bind(job.id)
+      .run();
+  }
+
+  return { built: pending?.length || 0, expired: expired?.length || 0 };
+}
+
+// Remove every archive of a tenant from the bucket, including ones no job row points to anymore
+export async function deleteTenantExportFiles(env: Env, tenantId: string): Promise<number> {
+  if (!env.EXPORTS_BUCKET) return 0;
+
+  let deleted = 0;
+  let cursor: string | undefined;
+  do {
+    const listing = await env.EXPORTS_BUCKET.list({ prefix: `exports/${tenantId}/`, cursor });
+    if (listing.objects.length > 0) {
+      await env.EXPORTS_BUCKET.delete(listing.objects.map((object) => object.key));
+      deleted += listing.objects.length;
+    }
+    cursor = listing.truncated ? listing.cursor : undefined;
+  } while (cursor);
+
+  return deleted;
+}
@@ -0,0 +1,294 @@
+import { Env } from '../types';
+import { generateId, slugify } from '../utils/helpers';
+import {
+  INITIAL_STATUSES,
+  TenantStatus,
+  statusHistoryStatement,
+  tenantInsertStatement,
+} from './tenantLifecycle';
+import { invitationStatement, sendInvitationEmail } from './invitations';
+import { DEFAULT_PLAN_ID, getActivePlans, parsePlanFeatures, resolvePlanLimits } from './plans';
+
+// Reseller spreadsheets are a few hundred rows at most; bigger files go in parts
+export const MAX_IMPORT_ROWS = 500;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Accepted header spellings for each column
+const COLUMN_ALIASES: Record<keyof ImportColumns, string[]> = {
+  name: ['name', 'nombre'],
+  email: ['email', 'mail'],
+  phone: ['phone', 'telefono', 'teléfono'],
+  plan: ['plan'],
+  status: ['status', 'estado'],
+  adminEmail: ['admin email', 'admin_email', 'adminemail', 'email admin'],
+};
+
+interface ImportColumns {
+  name: string;
+  email: string;
+  phone: string;
+  plan: string;
+  status: string;
+  adminEmail: string;
+}
+
+export type ImportErrorCode =
+  | 'REQUIRED'
+  | 'INVALID_EMAIL'
+  | 'INVALID_PLAN'
+  | 'INVALID_STATUS'
+  | 'SLUG_TAKEN'
+  | 'DUPLICATE_IN_FILE'
+  | 'USER_EXISTS'
+  | 'INVITATION_PENDING';
+
+export interface ImportRow {
+  row: number; // position in the file counting the header as 1 (blank lines skipped)
+  name: string;
+  slug: string;
+  email: string;
+  phone: string | null;
+  plan: string;
+  status: TenantStatus;
+  adminEmail: string;
+  errors: { field: keyof ImportColumns | 'slug'; code: ImportErrorCode }[];
+  tenantId?: string;
+}
+
+// RFC 4180 parsing: quoted fields may hold commas, quotes ("") and line breaks
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  // Spreadsheets often export with a BOM and semicolons (es-AR locale)
+  const input = text.replace(/^\uFEFF/, '');
+  const firstLine = input.split(/\r?\n/, 1)[0];
+  const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines are skipped
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+/**
+ * Map the CSV onto tenant rows. Returns the missing columns instead when the
+ * header doesn't have the required ones.
+ */
+export function readImportRows(
+  csv: string[][]
+): { rows: Omit<ImportRow, 'slug' | 'errors'>[]; missingColumns: string[] } {
+  const [header = [], ...lines] = csv;
+  const normalized = header.map((cell) => cell.trim().toLowerCase());
+
+  const indexes = {} as Record<keyof ImportColumns, number>;
+  for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as [keyof ImportColumns, string[]][]) {
+    indexes[column] = normalized.findIndex((cell) => aliases.includes(cell));
+  }
+
+  const missingColumns = (['name', 'email'] as const).filter((column) => indexes[column] === -1);
+  if (missingColumns.length > 0) {
+    return { rows: [], missingColumns };
+  }
+
+  const cell = (line: string[], column: keyof ImportColumns) =>
+    indexes[column] === -1 ? '' : (line[indexes[column]] || '').trim();
+
+  return {
+    missingColumns: [],
+    rows: lines.map((line, index) => {
+      const email = cell(line, 'email').toLowerCase();
+      return {
+        row: index + 2,
+        name: cell(line, 'name'),
+        email,
+        phone: cell(line, 'phone') || null,
+        plan: cell(line, 'plan').toLowerCase() || DEFAULT_PLAN_ID,
+        status: (cell(line, 'status').toLowerCase() || 'trial') as TenantStatus,
+        // Without an admin column the tenant's contact email gets the invitation
+        adminEmail: cell(line, 'adminEmail').toLowerCase() || email,
+      };
+    }),
+  };
+}
+
+// Check every row against the file itself and the database
+export async function validateImportRows(
+  env: Env,
+  input: Omit<ImportRow, 'slug' | 'errors'>[]
+): Promise<ImportRow[]> {
+  const rows: ImportRow[] = input.map((row) => ({ ...row, slug: slugify(row.name), errors: [] }));
+
+  const slugs = [...new Set(rows.map((row) => row.slug).filter(Boolean))];
+  const adminEmails = [...new Set(rows.map((row) => row.adminEmail).filter(Boolean))];
+
+  const [plans, takenSlugs, existingUsers, pendingInvitations] = await Promise.all([
+    getActivePlans(env),
+    findExisting(env, 'SELECT slug as value FROM tenants WHERE slug IN', slugs),
+    findExisting(env, 'SELECT email as value FROM users WHERE email IN', adminEmails),
+    findExisting(
+      env,
+      `SELECT email as value FROM invitations
+       WHERE accepted_at IS NULL AND revoked_at IS NULL AND expires_at > datetime('now') AND email IN`,
+      adminEmails
+    ),
+  ]);
+
+  const seenSlugs = new Set<string>();
+  const seenAdmins = new Set<string>();
+
+  for (const row of rows) {
+    if (!row.name) {
+      row.errors.push({ field: 'name', code: 'REQUIRED' });
+    } else if (!row.slug) {
+      row.errors.push({ field: 'slug', code: 'REQUIRED' });
+    } else if (takenSlugs.has(row.slug)) {
+      row.errors.push({ field: 'slug', code: 'SLUG_TAKEN' });
+    } else if (seenSlugs.has(row.slug)) {
+      row.errors.push({ field: 'slug', code: 'DUPLICATE_IN_FILE' });
+    }
+    seenSlugs.add(row.slug);
+
+    if (!row.email) {
+      row.errors.push({ field: 'email', code: 'REQUIRED' });
+    } else if (!EMAIL_PATTERN.test(row.email)) {
+      row.errors.push({ field: 'email', code: 'INVALID_EMAIL' });
+    }
+
+    if (!plans.has(row.plan)) {
+      row.errors.push({ field: 'plan', code: 'INVALID_PLAN' });
+    }
+
+    if (!INITIAL_STATUSES.includes(row.status)) {
+      row.errors.push({ field: 'status', code: 'INVALID_STATUS' });
+    }
+
+    if (!row.adminEmail) {
+      row.errors.push({ field: 'adminEmail', code: 'REQUIRED' });
+    } else if (!EMAIL_PATTERN.test(row.adminEmail)) {
+      row.errors.push({ field: 'adminEmail', code: 'INVALID_EMAIL' });
+    } else if (existingUsers.has(row.adminEmail)) {
+      row.errors.push({ field: 'adminEmail', code: 'USER_EXISTS' });
+    } else if (pendingInvitations.has(row.adminEmail)) {
+      row.errors.push({ field: 'adminEmail', code: 'INVITATION_PENDING' });
+    } else if (seenAdmins.has(row.adminEmail)) {
+      row.errors.push({ field: 'adminEmail', code: 'DUPLICATE_IN_FILE' });
+    }
+    seenAdmins.add(row.adminEmail);
+  }
+
+  return rows;
+}
+
+async function findExisting(env: Env, query: string, values: string[]): Promise<Set<string>> {
+  const found = new Set<string>();
+
+  // D1 caps bound parameters per statement
+  for (let i = 0; i < values.length; i += 90) {
+    const chunk = values.slice(i, i + 90);
+    const { results } = await env.DB.prepare(`${query} (${chunk.map(() => '?').join(', ')})`)
+      .bind(...chunk)
+      .all<{ value: string }>();
+    for (const row of results || []) found.add(row.value);
+  }
+
+  return found;
+}
+
+/**
+ * Create every tenant with its default location and admin invitation in a
+ * single batch, so a failure leaves nothing half imported. Rows must be valid.
+ */
+export async function importTenants(
+  env: Env,
+  rows: ImportRow[],
+  actor: { id: string; name: string }
+): Promise<ImportRow[]> {
+  const plans = await getActivePlans(env);
+  const statements: D1PreparedStatement[] = [];
+  const invitations: { email: string; tenantName: string; token: string }[] = [];
+
+  for (const row of rows) {
+    row.tenantId = generateId();
+
+    statements.push(
+      tenantInsertStatement(env, {
+        id: row.tenantId,
+        name: row.name,
+        slug: row.slug,
+        email: row.email,
+        phone: row.phone,
+        planId: row.plan,
+        status: row.status,
+        ...resolvePlanLimits(plans.get(row.plan)!),
+        features: parsePlanFeatures(plans.get(row.plan)!),
+      }),
+      statusHistoryStatement(env, row.tenantId, null, row.status, {
+        reason: 'Imported from CSV',
+        source: 'manual',
+        changedBy: actor.id,
+      }),
+      env.DB.prepare(`
+        INSERT INTO locations (id, tenant_id, name, is_default, active, created_at, updated_at)
+        VALUES (?, ?, 'Sucursal Principal', 1, 1, datetime('now'), datetime('now'))
+      `).bind(generateId(), row.tenantId)
+    );
+
+    const invitation = await invitationStatement(env, {
+      email: row.adminEmail,
+      role: 'admin',
+      roleId: null,
+      tenantId: row.tenantId,
+      invitedBy: actor.id,
+    });
+    statements.push(invitation.statement);
+    invitations.push({ email: row.adminEmail, tenantName: row.name, token: invitation.token });
+  }
+
+  await env.DB.batch(statements);
+
+  // Emails go out once everything is stored; a failed send can be retried with "resend"
+  for (const invitation of invitations) {
+    await sendInvitationEmail(
+      env,
+      { email: invitation.email, tenantName: invitation.tenantName, inviterName: actor.name },
+      invitation.token
+    );
+  }
+
+  return rows;
+}
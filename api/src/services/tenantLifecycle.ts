@@ -0,0 +1,177 @@
+import { Env, Tenant } from '../types';
+import { generateId } from '../utils/helpers';
+import { DEFAULT_PASSWORD_POLICY } from './passwordPolicy';
+
+export type TenantStatus = Tenant['status'];
+export type TenantStatusSource = 'manual' | 'scheduled' | 'system';
+
+export const TENANT_STATUSES: TenantStatus[] = ['trial', 'active', 'suspended', 'cancelled'];
+
+// New tenants start either on trial or already paying
+export const INITIAL_STATUSES: TenantStatus[] = ['trial', 'active'];
+// Length of a new tenant's trial, for signup and tenants created by the platform team
+export const TRIAL_DAYS = 14;
+
+// Allowed status changes; anything else is rejected
+export const TENANT_STATUS_TRANSITIONS: Record<TenantStatus, TenantStatus[]> = {
+  trial: ['active', 'suspended', 'cancelled'],
+  active: ['suspended', 'cancelled'],
+  suspended: ['active', 'cancelled'],
+  cancelled: ['active'],
+};
+
+// Taking access away has to be explained
+const REASON_REQUIRED: TenantStatus[] = ['suspended', 'cancelled'];
+
+export type TransitionResult =
+  | { ok: true }
+  | { ok: false; code: 'INVALID_STATUS_TRANSITION' | 'REASON_REQUIRED' | 'STATUS_CHANGED'; error: string };
+
+export function isTenantStatus(value: unknown): value is TenantStatus {
+  return TENANT_STATUSES.includes(value as TenantStatus);
+}
+
+export function validateTransition(from: TenantStatus, to: TenantStatus, reason?: string | null): TransitionResult {
+  if (!TENANT_STATUS_TRANSITIONS[from]?.includes(to)) {
+    return {
+      ok: false,
+      code: 'INVALID_STATUS_TRANSITION',
+      error: `Cannot change tenant status from ${from} to ${to}`,
+    };
+  }
+
+  if (REASON_REQUIRED.includes(to) && !reason?.trim()) {
+    return { ok: false, code: 'REASON_REQUIRED', error: 'A reason is required for this status change' };
+  }
+
+  return { ok: true };
+}
+
+export function statusHistoryStatement(
+  env: Env,
+  tenantId: string,
+  from: TenantStatus | null,
+  to: TenantStatus,
+  data: { reason?: string | null; source: TenantStatusSource; changedBy?: string | null }
+): D1PreparedStatement {
+  return env.DB.prepare(`
+    INSERT INTO tenant_status_history (id, tenant_id, from_status, to_status, reason, source, changed_by, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))
+  `).bind(generateId(), tenantId, from, to, data.reason?.trim() || null, data.source, data.changedBy || null);
+}
+
+// Insert for a new tenant with the default settings; the caller resolves the plan limits
+// and features, and records the initial status
+export function tenantInsertStatement(
+  env: Env,
+  data: {
+    id: string;
+    name: string;
+    slug: string;
+    email: string;
+    phone?: string | null;
+    planId: string;
+    status: TenantStatus;
+    maxUsers: number;
+    maxLocations: number;
+    features: Record<string, boolean>;
+  }
+): D1PreparedStatement {
+  const settings = JSON.stringify({
+    branding: {},
+    notifications: { emailEnabled: true, smsEnabled: false, whatsappEnabled: false },
+    features: data.features,
+    security: {
+      requireTwoFactorForAdmins: false,
+      restrictUnverifiedUsers: false,
+      passwordPolicy: DEFAULT_PASSWORD_POLICY,
+    },
+  });
+
+  return env.DB.prepare(`
+    INSERT INTO tenants (
+      id, name, slug, email, phone, status, plan_id,
+      trial_ends_at, max_users, max_locations, settings,
+      created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
+  `).bind(
+    data.id,
+    data.name,
+    data.slug,
+    data.email.toLowerCase(),
+    data.phone || null,
+    data.status,
+    data.planId,
+    data.status === 'trial' ? new Date(Date.now() + TRIAL_DAYS * 24 * 60 * 60 * 1000).toISOString() : null,
+    data.maxUsers,
+    data.maxLocations,
+    settings
+  );
+}
+
+/**
+ * Move a tenant to a new status and record it. The update only applies if the
+ * tenant is still in the status it was read with, so concurrent changes can't skip a check.
+ */
+export async function transitionTenantStatus(
+  env: Env,
+  tenant: Pick<Tenant, 'id' | 'status'>,
+  to: TenantStatus,
+  data: { reason?: string | null; source: TenantStatusSource; changedBy?: string | null }
+): Promise<TransitionResult> {
+  const validation = validateTransition(tenant.status, to, data.reason);
+  if (!validation.ok) return validation;
+
+  // Activating a tenant ends its trial
+  const update = await env.DB.prepare(`
+    UPDATE tenants SET status = ?,
+      trial_ends_at = CASE WHEN ? = 'active' THEN NULL ELSE trial_ends_at END,
+      updated_at = datetime('now')
+    WHERE id = ? AND status = ?
+  `)
+    .bind(to, to, tenant.id, tenant.status)
+    .run();
+
+  if ((update.meta?.changes || 0) === 0) {
+    return { ok: false, code: 'STATUS_CHANGED', error: 'Tenant status changed meanwhile, reload and retry' };
+  }
+
+  await statusHistoryStatement(env, tenant.id, tenant.status, to, data).run();
+
+  return { ok: true };
+}
+
+// Scheduled job: suspend tenants whose trial ended or whose paid period lapsed
+export async function runTenantLifecycle(env: Env): Promise<{ trialsExpired: number; subscriptionsLapsed: number }> {
+  const [{ results: expiredTrials }, { results: lapsedSubscriptions }] = await Promise.all([
+    env.DB.prepare(`
+      SELECT id, status FROM tenants
+      WHERE status = 'trial' AND trial_ends_at IS NOT NULL AND datetime(trial_ends_at) <= datetime('now')
+    `).all<Pick<Tenant, 'id' | 'status'>>(),
+    env.DB.prepare(`
+      SELECT id, status FROM tenants
+      WHERE status = 'active' AND subscription_ends_at IS NOT NULL
+        AND datetime(subscription_ends_at) <= datetime('now')
+    `).all<Pick<Tenant, 'id' | 'status'>>(),
+  ]);
+
+  let trialsExpired = 0;
+  for (const tenant of expiredTrials || []) {
+    const result = await transitionTenantStatus(env, tenant, 'suspended', {
+      reason: 'Trial expired',
+      source: 'scheduled',
+    });
+    if (result.ok) trialsExpired++;
+  }
+
+  let subscriptionsLapsed = 0;
+  for (const tenant of lapsedSubscriptions || []) {
+    const result = await transitionTenantStatus(env, tenant, 'suspended', {
+      reason: 'Subscription lapsed',
+      source: 'scheduled',
+    });
+    if (result.ok) subscriptionsLapsed++;
+  }
+
+  return { trialsExpired, subscriptionsLapsed };
+}
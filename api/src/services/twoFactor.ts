@@ -0,0 +1,117 @@
+import { Env, User } from '../types';
+import { generateId, hashToken } from '../utils/helpers';
+import { buildOtpAuthUrl, generateTotpSecret, verifyTotp } from '../utils/totp';
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Roles allowed to enroll in two-factor authentication
+export const TWO_FACTOR_ROLES: User['role'][] = ['superadmin', 'admin'];
+
+// Whether the user's tenant policy forces 2FA on them
+export async function isTwoFactorRequired(env: Env, user: User): Promise<boolean> {
+  if (user.role !== 'admin' || !user.tenant_id) return false;
+
+  const tenant = await env.DB.prepare('SELECT settings FROM tenants WHERE id = ?')
+    .bind(user.tenant_id)
+    .first<{ settings: string }>();
+
+  const settings = JSON.parse(tenant?.settings || '{}');
+  return settings.security?.requireTwoFactorForAdmins === true;
+}
+
+// Store a new pending secret; it only takes effect once confirmed with a code
+export async function startEnrollment(
+  env: Env,
+  user: User
+): Promise<{ secret: string; otpauthUrl: string }> {
+  const secret = generateTotpSecret();
+
+  await env.DB.prepare(
+    "UPDATE users SET totp_secret = ?, totp_enabled = 0, updated_at = datetime('now') WHERE id = ?"
+  )
+    .bind(secret, user.id)
+    .run();
+
+  return { secret, otpauthUrl: buildOtpAuthUrl(secret, user.email) };
+}
+
+// Confirm the pending secret with a code and issue recovery codes
+export async function confirmEnrollment(env: Env, user: User, code: string): Promise<string[] | null> {
+  const current = await env.DB.prepare('SELECT totp_secret FROM users WHERE id = ?')
+    .bind(user.id)
+    .first<{ totp_secret: string | null }>();
+
+  if (!current?.totp_secret || !(await verifyTotp(current.totp_secret, code))) {
+    return null;
+  }
+
+  await env.DB.prepare(
+    "UPDATE users SET totp_enabled = 1, totp_enabled_at = datetime('now'), updated_at = datetime('now') WHERE id = ?"
+  )
+    .bind(user.id)
+    .run();
+
+  return regenerateRecoveryCodes(env, user.id);
+}
+
+// Replace all recovery codes for a user, returning the plain codes once
+export async function regenerateRecoveryCodes(env: Env, userId: string): Promise<string[]> {
+  const codes: string[] = [];
+  const statements: D1PreparedStatement[] = [
+    env.DB.prepare('DELETE FROM user_recovery_codes WHERE user_id = ?').bind(userId),
+  ];
+
+  for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+    const raw = Array.from(crypto.getRandomValues(new Uint8Array(5)))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+    const code = `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    codes.push(code);
+    statements.push(
+      env.DB.prepare(
+        "INSERT INTO user_recovery_codes (id, user_id, code_hash, created_at) VALUES (?, ?, ?, datetime('now'))"
+      ).bind(generateId(), userId, await hashToken(code))
+    );
+  }
+
+  await env.DB.batch(statements);
+  return codes;
+}
+
+// Check a TOTP code, falling back to a single-use recovery code
+export async function verifySecondFactor(
+  env: Env,
+  user: User,
+  input: { code?: string; recoveryCode?: string }
+): Promise<'totp' | 'recovery' | null> {
+  if (!user.totp_enabled || !user.totp_secret) return null;
+
+  if (input.code && (await verifyTotp(user.totp_secret, input.code))) {
+    return 'totp';
+  }
+
+  if (input.recoveryCode) {
+    const codeHash = await hashToken(input.recoveryCode.trim().toLowerCase());
+    const result = await env.DB.prepare(
+      "UPDATE user_recovery_codes SET used_at = datetime('now') WHERE user_id = ? AND code_hash = ? AND used_at IS NULL"
+    )
+      .bind(user.id, codeHash)
+      .run();
+
+    if ((result.meta?.changes || 0) > 0) {
+      return 'recovery';
+    }
+  }
+
+  return null;
+}
+
+// Turn 2FA off and drop the secret and recovery codes
+export async function disableTwoFactor(env: Env, userId: string): Promise<void> {
+  await env.DB.batch([
+    env.DB.prepare(
+      "UPDATE users SET totp_secret = NULL, totp_enabled = 0, totp_enabled_at = NULL, updated_at = datetime('now') WHERE id = ?"
+    ).bind(userId),
+    env.DB.prepare('DELETE FROM user_recovery_codes WHERE user_id = ?').bind(userId),
+  ]);
+}
@@ -2,11 +2,20 @@ export interface Env {
   DB: D1Database;
   RATE_LIMIT_KV?: KVNamespace;
   JWT_SECRET: string;
+  JWT_KEY_ID?: string;
+  JWT_PREVIOUS_KEYS?: string;
+  JWT_ROTATION_OVERLAP_HOURS?: string;
   MP_ACCESS_TOKEN: string;
   MP_PUBLIC_KEY: string;
   MP_WEBHOOK_SECRET?: string;
   ADMIN_URL: string;
+  MAIL_DRIVER?: 'outbox' | 'http';
+  MAIL_FROM?: string;
+  MAIL_API_URL?: string;
+  MAIL_API_KEY?: string;
   ADMIN_BOOTSTRAP_EMAIL?: string;
+  IP_ALLOWLIST_BYPASS?: string;
+  EXPORTS_BUCKET?: R2Bucket;
   ENVIRONMENT: 'development' | 'staging' | 'production';
 }
 
@@ -18,11 +27,17 @@ export interface User {
   username?: string;
   name: string;
   password_hash: string;
+  password_changed_at?: string | null;
+  must_change_password?: boolean;
   avatar?: string;
   role: UserRole;
+  role_id?: string | null;
   tenant_id: string | null;
   active: boolean;
   email_verified: boolean;
+  totp_secret?: string | null;
+  totp_enabled: boolean;
+  totp_enabled_at?: string;
   last_login_at?: string;
   created_at: string;
   updated_at: string;
@@ -35,7 +50,7 @@ export interface Tenant {
   email: string;
   phone?: string;
   logo_url?: string;
-  plan: 'free' | 'starter' | 'professional' | 'enterprise';
+  plan_id: string | null; // plans.id; the old plan column is no longer read
   status: 'trial' | 'active' | 'suspended' | 'cancelled';
   trial_ends_at?: string;
   subscription_ends_at?: string;
@@ -47,6 +62,27 @@ export interface Tenant {
   mp_webhook_configured: boolean;
   settings: string;
   branding: string;
+  deleted_at?: string | null;
+  deleted_by?: string | null;
+  deletion_reason?: string | null;
+  purge_after?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Location {
+  id: string;
+  tenant_id: string;
+  name: string;
+  address: string | null;
+  city: string | null;
+  province: string | null;
+  postal_code: string | null;
+  phone: string | null;
+  email: string | null;
+  is_default: number;
+  active: number;
+  settings: string;
   created_at: string;
   updated_at: string;
 }
@@ -84,6 +120,8 @@ export interface AuditLog {
   new_value?: string;
   ip_address?: string;
   user_agent?: string;
+  impersonator_id?: string;
+  impersonator_email?: string;
   created_at: string;
 }
 
@@ -94,39 +132,146 @@ export interface Session {
   token_hash: string;
   ip_address?: string;
   user_agent?: string;
+  impersonator_id?: string;
   last_activity_at: string;
   expires_at: string;
   created_at: string;
 }
 
-// Permissions by role
-export const rolePermissions: Record<UserRole, string[]> = {
-  superadmin: [
-    'tenants:read', 'tenants:write', 'tenants:delete',
-    'users:read', 'users:write', 'users:delete', 'users:invite',
-    'payments:read', 'payments:refund',
-    'operations:read', 'operations:export',
-    'audit:read', 'audit:export',
-    'config:read', 'config:write',
-    'mercadopago:read', 'mercadopago:write',
-  ],
-  admin: [
-    'users:read', 'users:write', 'users:invite',
-    'payments:read',
-    'operations:read', 'operations:export',
-    'audit:read',
-    'config:read', 'config:write',
-    'mercadopago:read', 'mercadopago:write',
-  ],
-  operator: [
-    'users:read',
-    'payments:read',
-    'operations:read',
-    'audit:read',
-  ],
-  viewer: [
-    'users:read',
-    'payments:read',
-    'operations:read',
-  ],
-};
+export interface ApiKey {
+  id: string;
+  tenant_id: string;
+  name: string;
+  prefix: string;
+  key_hash: string;
+  scopes: string;
+  expires_at?: string;
+  last_used_at?: string;
+  last_used_ip?: string;
+  created_by?: string;
+  revoked_at?: string;
+  created_at: string;
+}
+
+export interface Invitation {
+  id: string;
+  tenant_id: string | null;
+  email: string;
+  role: UserRole;
+  role_id?: string | null;
+  token_hash: string;
+  invited_by?: string | null;
+  expires_at: string;
+  send_count: number;
+  last_sent_at: string;
+  accepted_at?: string | null;
+  accepted_user_id?: string | null;
+  revoked_at?: string | null;
+  created_at: string;
+}
+
+export interface LoginEvent {
+  id: string;
+  user_id: string;
+  tenant_id: string | null;
+  session_id?: string | null;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  device_label?: string | null;
+  country?: string | null;
+  city?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  failed_attempts: number;
+  risk_flags: string;
+  flagged: boolean;
+  alerted_at?: string | null;
+  reviewed_at?: string | null;
+  reviewed_by?: string | null;
+  created_at: string;
+}
+
+export interface Plan {
+  id: string;
+  name: string;
+  description?: string | null;
+  price_monthly: number | null;
+  price_yearly: number | null;
+  currency: string;
+  max_users: number;
+  max_locations: number;
+  features: string; // JSON object of feature flags
+  active: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TenantExport {
+  id: string;
+  tenant_id: string;
+  requested_by: string | null;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'expired';
+  progress: number;
+  total_steps: number;
+  current_step?: string | null;
+  file_key?: string | null;
+  file_size?: number | null;
+  record_counts?: string | null;
+  error?: string | null;
+  started_at?: string | null;
+  completed_at?: string | null;
+  expires_at?: string | null;
+  created_at: string;
+}
+
+export type TenantNoteType = 'note' | 'call' | 'email' | 'meeting';
+
+export interface TenantNote {
+  id: string;
+  tenant_id: string;
+  type: TenantNoteType;
+  subject: string | null;
+  body: string;
+  owner_id: string | null;
+  follow_up_at: string | null;
+  follow_up_done_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Role {
+  id: string;
+  tenant_id: string | null;
+  key: string;
+  name: string;
+  description?: string;
+  base_role: UserRole;
+  is_system: boolean;
+  permissions: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Every permission the API checks; role permission sets live in the roles table
+export const PERMISSIONS = [
+  'tenants:read', 'tenants:write', 'tenants:delete', 'tenants:export',
+  'users:read', 'users:write', 'users:delete', 'users:invite',
+  'payments:read', 'payments:refund',
+  'operations:read', 'operations:export',
+  'audit:read', 'audit:export',
+  'config:read', 'config:write',
+  'mercadopago:read', 'mercadopago:write',
+];
+
+// Platform-level permissions: never granted by tenant roles or API keys
+export const PLATFORM_PERMISSIONS = [
+  'tenants:read', 'tenants:write', 'tenants:delete',
+  'payments:refund',
+  'audit:export',
+];
+
+export const TENANT_PERMISSIONS = PERMISSIONS.filter(
+  (permission) => !PLATFORM_PERMISSIONS.includes(permission)
+);
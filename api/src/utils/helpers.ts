@@ -7,32 +7,162 @@ export function generateId(): string {
   return crypto.randomUUID();
 }
 
-// Hash password using Web Crypto API
-export async function hashPassword(password: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const data = encoder.encode(password);
+// Password hashing parameters. Workers caps PBKDF2 at 100k iterations.
+const PASSWORD_ALGORITHM = 'pbkdf2_sha256';
+const PASSWORD_ITERATIONS = 100000;
+const PASSWORD_SALT_BYTES = 16;
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (ch) => ch.charCodeAt(0));
+}
+
+// Compare two strings without leaking where they differ
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const data = new TextEncoder().encode(value);
   const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+  return Array.from(new Uint8Array(hashBuffer))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function pbkdf2(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    256
+  );
+  return new Uint8Array(bits);
+}
+
+// Hash password with PBKDF2 and a per-user salt.
+// Stored as "pbkdf2_sha256$<iterations>$<salt>$<hash>" (base64 salt and hash).
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(PASSWORD_SALT_BYTES));
+  const hash = await pbkdf2(password, salt, PASSWORD_ITERATIONS);
+  return `${PASSWORD_ALGORITHM}$${PASSWORD_ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+}
+
+// Random URL-safe token for links sent by email; store only its hash
+export function generateOpaqueToken(bytes = 32): string {
+  const raw = crypto.getRandomValues(new Uint8Array(bytes));
+  return toBase64(raw)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+// Hash opaque tokens (sessions, reset links) before storing them
+export async function hashToken(token: string): Promise<string> {
+  return sha256Hex(token);
 }
 
-// Verify password
+// Verify password against a PBKDF2 hash or a legacy unsalted SHA-256 hex digest
 export async function verifyPassword(password: string, hash: string): Promise<boolean> {
-  const passwordHash = await hashPassword(password);
-  return passwordHash === hash;
+  if (!hash) return false;
+
+  if (hash.startsWith(`${PASSWORD_ALGORITHM}$`)) {
+    const [, iterations, salt, expected] = hash.split('$');
+    if (!iterations || !salt || !expected) return false;
+    const derived = await pbkdf2(password, fromBase64(salt), parseInt(iterations));
+    return constantTimeEqual(toBase64(derived), expected);
+  }
+
+  // Legacy SHA-256 hashes, upgraded on the next successful login
+  return constantTimeEqual(await sha256Hex(password), hash.toLowerCase());
 }
 
-// Generate JWT token
+// Whether a stored hash should be replaced with one using the current parameters
+export function passwordNeedsRehash(hash: string): boolean {
+  if (!hash.startsWith(`${PASSWORD_ALGORITHM}$`)) return true;
+  const iterations = parseInt(hash.split('$')[1] || '0');
+  return iterations < PASSWORD_ITERATIONS;
+}
+
+// JWT signing key (current key or a rotated-out one)
+export interface SigningKey {
+  kid: string;
+  secret: string;
+  retiredAt?: string;
+}
+
+// Resolve the signing keys configured for this environment.
+// JWT_SECRET/JWT_KEY_ID is the active key; JWT_PREVIOUS_KEYS is a JSON array of
+// { kid, secret, retiredAt } entries kept around while tokens signed with them expire.
+export function getSigningKeys(env: Env): { current: SigningKey; previous: SigningKey[] } {
+  const current: SigningKey = {
+    kid: env.JWT_KEY_ID || 'default',
+    secret: env.JWT_SECRET,
+  };
+
+  let previous: SigningKey[] = [];
+  if (env.JWT_PREVIOUS_KEYS) {
+    try {
+      previous = (JSON.parse(env.JWT_PREVIOUS_KEYS) as SigningKey[])
+        .filter((key) => key.kid && key.secret && key.kid !== current.kid);
+    } catch {
+      console.error('JWT_PREVIOUS_KEYS is not valid JSON, ignoring rotated keys');
+    }
+  }
+
+  return { current, previous };
+}
+
+// Find the key a token was signed with, honouring the rotation overlap window
+export function resolveSigningKey(env: Env, kid?: string): SigningKey | null {
+  const { current, previous } = getSigningKeys(env);
+
+  // Tokens issued before key ids were introduced carry no kid
+  if (!kid || kid === current.kid) {
+    return current;
+  }
+
+  const key = previous.find((k) => k.kid === kid);
+  if (!key) return null;
+
+  if (key.retiredAt) {
+    const overlapHours = parseInt(env.JWT_ROTATION_OVERLAP_HOURS || '24');
+    const validUntil = new Date(key.retiredAt).getTime() + overlapHours * 60 * 60 * 1000;
+    if (Number.isNaN(validUntil) || Date.now() >= validUntil) {
+      return null;
+    }
+  }
+
+  return key;
+}
+
+// Generate JWT token signed with the current key
 export async function generateToken(
   userId: string,
-  jwtSecret: string,
-  expiresIn: string = '24h'
+  env: Env,
+  expiresIn: string = '24h',
+  claims: Record<string, unknown> = {}
 ): Promise<string> {
-  const secret = new TextEncoder().encode(jwtSecret);
+  const { current } = getSigningKeys(env);
+  const secret = new TextEncoder().encode(current.secret);
   const alg = 'HS256';
 
-  const token = await new jose.SignJWT({ sub: userId })
-    .setProtectedHeader({ alg })
+  const token = await new jose.SignJWT({ ...claims, sub: userId })
+    .setProtectedHeader({ alg, kid: current.kid })
     .setIssuedAt()
     .setExpirationTime(expiresIn)
     .sign(secret);
@@ -40,6 +170,24 @@ export async function generateToken(
   return token;
 }
 
+// Verify JWT signature and expiration, returning the payload
+export async function verifyToken(token: string, env: Env): Promise<jose.JWTPayload | null> {
+  try {
+    const { kid } = jose.decodeProtectedHeader(token);
+    const key = resolveSigningKey(env, kid);
+    if (!key) return null;
+
+    const { payload } = await jose.jwtVerify(token, new TextEncoder().encode(key.secret), {
+      algorithms: ['HS256'],
+    });
+
+    if (!payload.sub) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
 // Parse pagination params
 export function parsePagination(params: URLSearchParams): PaginationParams {
   return {
@@ -81,6 +229,10 @@ export async function createAuditLog(
   const user = c.get('user');
   if (!user) return;
 
+  // During impersonation the entry is attributed to the impersonated user and
+  // also names the superadmin who actually acted
+  const impersonator = c.get('impersonator');
+
   const id = generateId();
   const ipAddress = c.req.header('CF-Connecting-IP') || c.req.header('X-Forwarded-For') || null;
   const userAgent = c.req.header('User-Agent') || null;
@@ -89,8 +241,8 @@ export async function createAuditLog(
     INSERT INTO audit_logs (
       id, user_id, user_name, user_email, tenant_id, action,
       resource_type, resource_id, old_value, new_value,
-      ip_address, user_agent, created_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+      ip_address, user_agent, impersonator_id, impersonator_email, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
   `).bind(
     id,
     user.id,
@@ -103,10 +255,18 @@ export async function createAuditLog(
     oldValue ? JSON.stringify(oldValue) : null,
     newValue ? JSON.stringify(newValue) : null,
     ipAddress,
-    userAgent
+    userAgent,
+    impersonator?.id ?? null,
+    impersonator?.email ?? null
   ).run();
 }
 
+// Strip credential columns before a user row leaves the API
+export function sanitizeUser(user: User): Omit<User, 'password_hash' | 'totp_secret'> {
+  const { password_hash, totp_secret, ...safeUser } = user;
+  return safeUser;
+}
+
 // Transform database row to camelCase
 export function toCamelCase<T>(obj: Record<string, unknown>): T {
   const result: Record<string, unknown> = {};
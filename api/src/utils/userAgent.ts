@@ -0,0 +1,46 @@
+// Just enough User-Agent parsing to label sessions ("Chrome en Windows").
+// Order matters: Edge and Opera also claim to be Chrome, and Chrome claims Safari.
+
+export interface ParsedUserAgent {
+  browser: string | null;
+  os: string | null;
+  device: 'desktop' | 'mobile' | 'tablet' | 'unknown';
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/curl\//, 'curl'],
+  [/PostmanRuntime\//, 'Postman'],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/Windows NT/, 'Windows'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'ChromeOS'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+export function parseUserAgent(userAgent: string | null | undefined): ParsedUserAgent {
+  if (!userAgent) return { browser: null, os: null, device: 'unknown' };
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] || null;
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1] || null;
+
+  let device: ParsedUserAgent['device'] = 'desktop';
+  if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+    device = 'tablet';
+  } else if (/Mobi|iPhone|iPod/.test(userAgent)) {
+    device = 'mobile';
+  } else if (!os) {
+    device = 'unknown';
+  }
+
+  return { browser, os, device };
+}
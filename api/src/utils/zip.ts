@@ -0,0 +1,111 @@
+// Minimal ZIP writer (stored entries, no compression) - enough for export archives
+
+const encoder = new TextEncoder();
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time fields used by ZIP headers
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | Math.floor(date.getUTCSeconds() / 2),
+    date: ((date.getUTCFullYear() - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  };
+}
+
+interface ZipEntry {
+  name: Uint8Array;
+  data: Uint8Array;
+  crc: number;
+  offset: number;
+}
+
+export class ZipWriter {
+  private chunks: Uint8Array[] = [];
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private readonly stamp = dosDateTime(new Date());
+
+  addFile(name: string, content: string | Uint8Array): void {
+    const data = typeof content === 'string' ? encoder.encode(content) : content;
+    const entry: ZipEntry = { name: encoder.encode(name), data, crc: crc32(data), offset: this.offset };
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true); // version needed
+    header.setUint16(6, 0x0800, true); // UTF-8 names
+    header.setUint16(8, 0, true); // stored
+    header.setUint16(10, this.stamp.time, true);
+    header.setUint16(12, this.stamp.date, true);
+    header.setUint32(14, entry.crc, true);
+    header.setUint32(18, data.length, true);
+    header.setUint32(22, data.length, true);
+    header.setUint16(26, entry.name.length, true);
+    header.setUint16(28, 0, true);
+
+    this.push(new Uint8Array(header.buffer), entry.name, data);
+    this.entries.push(entry);
+  }
+
+  finish(): Uint8Array {
+    const centralStart = this.offset;
+
+    for (const entry of this.entries) {
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, 0x02014b50, true);
+      header.setUint16(4, 20, true); // version made by
+      header.setUint16(6, 20, true); // version needed
+      header.setUint16(8, 0x0800, true);
+      header.setUint16(10, 0, true);
+      header.setUint16(12, this.stamp.time, true);
+      header.setUint16(14, this.stamp.date, true);
+      header.setUint32(16, entry.crc, true);
+      header.setUint32(20, entry.data.length, true);
+      header.setUint32(24, entry.data.length, true);
+      header.setUint16(28, entry.name.length, true);
+      header.setUint32(42, entry.offset, true);
+      this.push(new Uint8Array(header.buffer), entry.name);
+    }
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, this.offset - centralStart, true);
+    end.setUint32(16, centralStart, true);
+    this.push(new Uint8Array(end.buffer));
+
+    const archive = new Uint8Array(this.offset);
+    let position = 0;
+    for (const chunk of this.chunks) {
+      archive.set(chunk, position);
+      position += chunk.length;
+    }
+    return archive;
+  }
+
+  private push(...chunks: Uint8Array[]): void {
+    for (const chunk of chunks) {
+      this.chunks.push(chunk);
+      this.offset += chunk.length;
+    }
+  }
+}
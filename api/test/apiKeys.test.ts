@@ -0,0 +1,126 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { authenticateApiKey, createApiKey } from '../src/services/apiKeys';
+import { apiRequest, createTestEnv, insertTenant, insertUser, login, TestEnv } from './helpers';
+
+let testEnv: TestEnv;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+async function issueKey(data: { tenantId?: string; scopes?: string[]; expiresAt?: string | null } = {}) {
+  const tenantId = data.tenantId ?? (await insertTenant(testEnv.env));
+  const admin = await insertUser(testEnv.env, { role: 'admin', tenantId });
+  const issued = await createApiKey(testEnv.env, {
+    tenantId,
+    name: 'Integración',
+    scopes: data.scopes ?? ['users:read'],
+    expiresAt: data.expiresAt ?? null,
+    createdBy: admin.id,
+  });
+  return { tenantId, ...issued };
+}
+
+// Expiry dates are written as ISO 8601, as the api-keys route does
+function minutesFromNow(minutes: number): string {
+  return new Date(Date.now() + minutes * 60 * 1000).toISOString();
+}
+
+function authenticate(key: string) {
+  return authenticateApiKey(testEnv.env, key, '203.0.113.10');
+}
+
+describe('authenticateApiKey', () => {
+  it('resolves a valid key to its tenant and scopes', async () => {
+    const { tenantId, id, key } = await issueKey({ scopes: ['users:read', 'operations:read'] });
+
+    expect(await authenticate(key)).toMatchObject({ id, tenantId, scopes: ['users:read', 'operations:read'] });
+  });
+
+  it('rejects a key whose secret does not match', async () => {
+    const { prefix } = await issueKey();
+
+    expect(await authenticate(`${prefix}_not-the-secret`)).toBeNull();
+  });
+
+  it('accepts a key until it expires', async () => {
+    const { key } = await issueKey({ expiresAt: minutesFromNow(60) });
+
+    expect(await authenticate(key)).not.toBeNull();
+  });
+
+  it('rejects a key that expired earlier today', async () => {
+    // Compared as raw text, "…T10:00:00.000Z" sorts after "… 11:00:00" of the same day
+    const { key } = await issueKey({ expiresAt: minutesFromNow(-1) });
+
+    expect(await authenticate(key)).toBeNull();
+  });
+
+  it('rejects revoked keys', async () => {
+    const { id, key } = await issueKey();
+    await testEnv.env.DB.prepare("UPDATE api_keys SET revoked_at = datetime('now') WHERE id = ?").bind(id).run();
+
+    expect(await authenticate(key)).toBeNull();
+  });
+
+  it('rejects keys of suspended tenants and tenants pending deletion', async () => {
+    const suspended = await issueKey({ tenantId: await insertTenant(testEnv.env, { status: 'suspended' }) });
+    const deleted = await issueKey();
+    await testEnv.env.DB.prepare("UPDATE tenants SET deleted_at = datetime('now') WHERE id = ?")
+      .bind(deleted.tenantId)
+      .run();
+
+    expect(await authenticate(suspended.key)).toBeNull();
+    expect(await authenticate(deleted.key)).toBeNull();
+  });
+});
+
+describe('API key requests', () => {
+  it('are limited to the scopes of the key', async () => {
+    const { key } = await issueKey({ scopes: ['users:read'] });
+
+    expect((await apiRequest(testEnv.env, '/admin/users', { apiKey: key })).status).toBe(200);
+    expect((await apiRequest(testEnv.env, '/admin/payments', { apiKey: key })).status).toBe(403);
+  });
+
+  it('are refused once the key expires', async () => {
+    const { key } = await issueKey({ expiresAt: minutesFromNow(-1) });
+
+    const response = await apiRequest(testEnv.env, '/admin/users', { apiKey: key });
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_API_KEY' });
+  });
+
+  it('cannot manage API keys', async () => {
+    const { key } = await issueKey({ scopes: ['config:read', 'config:write'] });
+
+    const response = await apiRequest(testEnv.env, '/admin/api-keys', { apiKey: key });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: 'API_KEY_NOT_ALLOWED' });
+  });
+
+  it('issues keys with an expiry that is enforced', async () => {
+    const { env } = testEnv;
+    const tenantId = await insertTenant(env);
+    const { token } = await login(env, await insertUser(env, { role: 'admin', tenantId }));
+
+    const response = await apiRequest(env, '/admin/api-keys', {
+      token,
+      body: { name: 'ERP', scopes: ['users:read'], expiresInDays: 30 },
+    });
+    expect(response.status).toBe(201);
+    const { id, key } = await response.json<{ id: string; key: string }>();
+
+    expect((await apiRequest(env, '/admin/users', { apiKey: key })).status).toBe(200);
+
+    await env.DB.prepare('UPDATE api_keys SET expires_at = ? WHERE id = ?').bind(minutesFromNow(-1), id).run();
+
+    expect((await apiRequest(env, '/admin/users', { apiKey: key })).status).toBe(401);
+  });
+});
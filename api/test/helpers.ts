@@ -0,0 +1,153 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { Miniflare } from 'miniflare';
+import worker from '../src/index';
+import { Env, User, UserRole } from '../src/types';
+import { generateId, hashPassword } from '../src/utils/helpers';
+
+const MIGRATIONS_DIR = fileURLToPath(new URL('../migrations/', import.meta.url));
+
+export const TEST_PASSWORD = 'Correct-Horse-Battery-9';
+
+export interface TestEnv {
+  env: Env;
+  dispose: () => Promise<void>;
+}
+
+// D1's exec() treats every line as a statement, so split the files ourselves
+function migrationStatements(file: string): string[] {
+  const sql = readFileSync(`${MIGRATIONS_DIR}${file}`, 'utf8')
+    .split('\n')
+    .filter((line) => !line.trim().startsWith('--'))
+    .join('\n');
+
+  return sql
+    .split(/;\s*(?:\n|$)/)
+    .map((statement) => statement.trim())
+    .filter(Boolean);
+}
+
+// A local D1 database with every migration applied, as `npm run db:migrate` leaves it
+export async function createTestEnv(vars: Partial<Env> = {}): Promise<TestEnv> {
+  const mf = new Miniflare({
+    modules: true,
+    script: 'export default {}',
+    d1Databases: ['DB'],
+    r2Buckets: ['EXPORTS_BUCKET'],
+  });
+  const db = (await mf.getD1Database('DB')) as unknown as D1Database;
+
+  for (const file of readdirSync(MIGRATIONS_DIR).filter((name) => name.endsWith('.sql')).sort()) {
+    await db.batch(migrationStatements(file).map((statement) => db.prepare(statement)));
+  }
+
+  const env = {
+    DB: db,
+    EXPORTS_BUCKET: (await mf.getR2Bucket('EXPORTS_BUCKET')) as unknown as R2Bucket,
+    JWT_SECRET: 'test-secret',
+    MP_ACCESS_TOKEN: '',
+    MP_PUBLIC_KEY: '',
+    ADMIN_URL: 'http://localhost:5173',
+    ENVIRONMENT: 'development',
+    MAIL_DRIVER: 'outbox',
+    ...vars,
+  } as Env;
+
+  return { env, dispose: () => mf.dispose() };
+}
+
+export async function insertTenant(
+  env: Env,
+  data: { plan?: string; status?: string; maxUsers?: number; maxLocations?: number; settings?: object } = {}
+): Promise<string> {
+  const id = generateId();
+  await env.DB.prepare(`
+    INSERT INTO tenants (id, name, slug, email, plan_id, status, max_users, max_locations, settings, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
+  `).bind(
+    id,
+    `Taller ${id.slice(0, 8)}`,
+    `taller-${id}`,
+    `taller-${id}@example.com`,
+    data.plan ?? 'starter',
+    data.status ?? 'active',
+    data.maxUsers ?? 5,
+    data.maxLocations ?? 1,
+    JSON.stringify(data.settings ?? {})
+  ).run();
+
+  return id;
+}
+
+export async function insertUser(
+  env: Env,
+  data: { role?: UserRole; tenantId?: string | null; roleId?: string | null } = {}
+): Promise<User> {
+  const id = generateId();
+  await env.DB.prepare(`
+    INSERT INTO users (
+      id, email, name, password_hash, password_changed_at, role, role_id, tenant_id,
+      active, email_verified, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, datetime('now'), ?, ?, ?, 1, 1, datetime('now'), datetime('now'))
+  `).bind(
+    id,
+    `user-${id}@example.com`,
+    `User ${id.slice(0, 8)}`,
+    await hashPassword(TEST_PASSWORD),
+    data.role ?? 'operator',
+    data.roleId ?? null,
+    data.tenantId ?? null
+  ).run();
+
+  return (await env.DB.prepare('SELECT * FROM users WHERE id = ?').bind(id).first<User>())!;
+}
+
+const executionCtx = {
+  waitUntil: () => undefined,
+  passThroughOnException: () => undefined,
+} as unknown as ExecutionContext;
+
+// Send a request through the whole worker, as the console would
+export async function apiRequest(
+  env: Env,
+  path: string,
+  options: { method?: string; body?: unknown; token?: string; apiKey?: string; ip?: string } = {}
+): Promise<Response> {
+  const headers: Record<string, string> = { 'CF-Connecting-IP': options.ip ?? '203.0.113.10' };
+  if (options.body !== undefined) headers['Content-Type'] = 'application/json';
+  if (options.token) headers.Authorization = `Bearer ${options.token}`;
+  if (options.apiKey) headers['X-API-Key'] = options.apiKey;
+
+  const request = new Request(`http://localhost${path}`, {
+    method: options.method ?? (options.body !== undefined ? 'POST' : 'GET'),
+    headers,
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+  });
+
+  return worker.fetch(request, env, executionCtx);
+}
+
+export async function login(
+  env: Env,
+  user: Pick<User, 'email'>,
+  password = TEST_PASSWORD
+): Promise<{ token: string; refreshToken: string }> {
+  const response = await apiRequest(env, '/auth/login', { body: { email: user.email, password } });
+  if (response.status !== 200) {
+    throw new Error(`Login failed with ${response.status}: ${await response.text()}`);
+  }
+  const { token, refreshToken } = await response.json<{ token: string; refreshToken: string }>();
+  return { token, refreshToken };
+}
+
+// Token from the last link mailed to the address (reset, invitation) through the outbox
+export async function mailedToken(env: Env, email: string): Promise<string | null> {
+  const mail = await env.DB.prepare(
+    'SELECT text_body FROM mail_outbox WHERE to_email = ? ORDER BY created_at DESC, rowid DESC LIMIT 1'
+  )
+    .bind(email)
+    .first<{ text_body: string }>();
+
+  const match = mail?.text_body.match(/token=([^\s]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
@@ -0,0 +1,139 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { User } from '../src/types';
+import { apiRequest, createTestEnv, insertTenant, insertUser, login, TEST_PASSWORD, TestEnv } from './helpers';
+
+let testEnv: TestEnv;
+let superadmin: User;
+let superadminToken: string;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+  superadmin = await insertUser(testEnv.env, { role: 'superadmin' });
+  superadminToken = (await login(testEnv.env, superadmin)).token;
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+function impersonate(userId: string, body: { reason?: string } = { reason: 'Ticket de soporte' }) {
+  return apiRequest(testEnv.env, `/admin/users/${userId}/impersonate`, { token: superadminToken, body });
+}
+
+// A tenant admin and a token that acts as them on behalf of the superadmin
+async function impersonatedAdmin() {
+  const target = await insertUser(testEnv.env, { role: 'admin', tenantId: await insertTenant(testEnv.env) });
+  const response = await impersonate(target.id);
+  expect(response.status).toBe(200);
+  const { token } = await response.json<{ token: string }>();
+  return { target, token };
+}
+
+describe('starting an impersonation', () => {
+  it('acts as the target user and names the impersonator', async () => {
+    const { target, token } = await impersonatedAdmin();
+
+    const me = await apiRequest(testEnv.env, '/auth/me', { token });
+
+    expect(me.status).toBe(200);
+    expect(await me.json()).toMatchObject({
+      id: target.id,
+      impersonator: { id: superadmin.id, email: superadmin.email },
+    });
+
+    const audit = await testEnv.env.DB.prepare(
+      "SELECT user_id, new_value FROM audit_logs WHERE action = 'user.impersonation_started' AND resource_id = ?"
+    )
+      .bind(target.id)
+      .first<{ user_id: string; new_value: string }>();
+    expect(audit?.user_id).toBe(superadmin.id);
+    expect(JSON.parse(audit!.new_value)).toMatchObject({ reason: 'Ticket de soporte' });
+  });
+
+  it('requires a reason', async () => {
+    const target = await insertUser(testEnv.env, { role: 'operator' });
+
+    expect((await impersonate(target.id, {})).status).toBe(400);
+  });
+
+  it('refuses superadmin targets', async () => {
+    const other = await insertUser(testEnv.env, { role: 'superadmin' });
+
+    expect((await impersonate(other.id)).status).toBe(400);
+    expect((await impersonate(superadmin.id)).status).toBe(400);
+  });
+
+  it('is only open to superadmins', async () => {
+    const tenantId = await insertTenant(testEnv.env);
+    const { token } = await login(testEnv.env, await insertUser(testEnv.env, { role: 'admin', tenantId }));
+    const target = await insertUser(testEnv.env, { role: 'operator', tenantId });
+
+    const response = await apiRequest(testEnv.env, `/admin/users/${target.id}/impersonate`, {
+      token,
+      body: { reason: 'Ticket de soporte' },
+    });
+
+    expect(response.status).toBe(403);
+  });
+});
+
+describe('while impersonating', () => {
+  it('keeps the impersonator away from the user\'s credentials', async () => {
+    const { token } = await impersonatedAdmin();
+
+    const attempts = [
+      apiRequest(testEnv.env, '/auth/change-password', {
+        token,
+        body: { currentPassword: TEST_PASSWORD, newPassword: 'Another-Strong-Secret-42' },
+      }),
+      apiRequest(testEnv.env, '/auth/2fa/setup', { method: 'POST', token }),
+      apiRequest(testEnv.env, '/auth/2fa/disable', { token, body: { password: TEST_PASSWORD } }),
+      apiRequest(testEnv.env, '/auth/sessions/revoke-others', { method: 'POST', token }),
+    ];
+
+    for (const response of await Promise.all(attempts)) {
+      expect(response.status).toBe(403);
+      expect(await response.json()).toMatchObject({ code: 'IMPERSONATION_FORBIDDEN' });
+    }
+  });
+
+  it('stops working once the impersonation session expires', async () => {
+    const { target, token } = await impersonatedAdmin();
+    await testEnv.env.DB.prepare(
+      "UPDATE sessions SET expires_at = datetime('now', '-1 minute') WHERE user_id = ? AND impersonator_id IS NOT NULL"
+    )
+      .bind(target.id)
+      .run();
+
+    expect((await apiRequest(testEnv.env, '/auth/me', { token })).status).toBe(401);
+  });
+});
+
+describe('ending an impersonation', () => {
+  it('revokes the impersonation session and leaves the superadmin signed in', async () => {
+    const { target, token } = await impersonatedAdmin();
+
+    const response = await apiRequest(testEnv.env, '/auth/impersonation/end', { method: 'POST', token });
+
+    expect(response.status).toBe(200);
+    expect((await apiRequest(testEnv.env, '/auth/me', { token })).status).toBe(401);
+    expect((await apiRequest(testEnv.env, '/auth/me', { token: superadminToken })).status).toBe(200);
+
+    const audit = await testEnv.env.DB.prepare(
+      "SELECT id FROM audit_logs WHERE action = 'user.impersonation_ended' AND resource_id = ?"
+    )
+      .bind(target.id)
+      .first();
+    expect(audit).not.toBeNull();
+  });
+
+  it('is refused for a regular session', async () => {
+    const response = await apiRequest(testEnv.env, '/auth/impersonation/end', {
+      method: 'POST',
+      token: superadminToken,
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'NOT_IMPERSONATING' });
+  });
+});
@@ -0,0 +1,145 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { User } from '../src/types';
+import { generateId } from '../src/utils/helpers';
+import {
+  apiRequest,
+  createTestEnv,
+  insertTenant,
+  insertUser,
+  login,
+  mailedToken,
+  TEST_PASSWORD,
+  TestEnv,
+} from './helpers';
+
+let testEnv: TestEnv;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+async function tenantAdmin() {
+  const tenantId = await insertTenant(testEnv.env, { maxUsers: 10 });
+  const { token } = await login(testEnv.env, await insertUser(testEnv.env, { role: 'admin', tenantId }));
+  return { tenantId, token };
+}
+
+// Invite a fresh address and return the invitation with the token from the emailed link
+async function invite(token: string, role = 'operator') {
+  const email = `invitado-${generateId()}@example.com`;
+  const response = await apiRequest(testEnv.env, '/admin/users/invite', { token, body: { email, role } });
+  expect(response.status).toBe(201);
+  const { invitationId } = await response.json<{ invitationId: string }>();
+  return { email, invitationId, inviteToken: (await mailedToken(testEnv.env, email))! };
+}
+
+function accept(inviteToken: string) {
+  return apiRequest(testEnv.env, '/auth/invitation/accept', {
+    body: { token: inviteToken, name: 'Invitado', password: TEST_PASSWORD },
+  });
+}
+
+describe('accepting an invitation', () => {
+  it('creates the user in the inviting tenant and signs them in', async () => {
+    const { tenantId, token } = await tenantAdmin();
+    const { email, inviteToken } = await invite(token, 'viewer');
+
+    const details = await apiRequest(testEnv.env, `/auth/invitation?token=${encodeURIComponent(inviteToken)}`);
+    expect(details.status).toBe(200);
+    expect(await details.json()).toMatchObject({ email, role: 'viewer' });
+
+    const response = await accept(inviteToken);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ token: expect.any(String) });
+    const user = await testEnv.env.DB.prepare('SELECT * FROM users WHERE email = ?').bind(email).first<User>();
+    expect(user).toMatchObject({ tenant_id: tenantId, role: 'viewer', email_verified: 1 });
+  });
+
+  it('works only once', async () => {
+    const { token } = await tenantAdmin();
+    const { inviteToken } = await invite(token);
+    await accept(inviteToken);
+
+    const response = await accept(inviteToken);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_INVITATION' });
+  });
+
+  it('is refused once the invitation has expired', async () => {
+    const { token } = await tenantAdmin();
+    const { invitationId, inviteToken } = await invite(token);
+    await testEnv.env.DB.prepare("UPDATE invitations SET expires_at = datetime('now', '-1 minute') WHERE id = ?")
+      .bind(invitationId)
+      .run();
+
+    expect((await apiRequest(testEnv.env, `/auth/invitation?token=${encodeURIComponent(inviteToken)}`)).status)
+      .toBe(400);
+    const response = await accept(inviteToken);
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_INVITATION' });
+  });
+});
+
+describe('managing invitations', () => {
+  it('does not invite the same address twice while one is pending', async () => {
+    const { token } = await tenantAdmin();
+    const { email } = await invite(token);
+
+    const response = await apiRequest(testEnv.env, '/admin/users/invite', { token, body: { email } });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVITATION_PENDING' });
+  });
+
+  it('stops the emailed link from working once revoked', async () => {
+    const { token } = await tenantAdmin();
+    const { invitationId, inviteToken } = await invite(token);
+
+    const revoked = await apiRequest(testEnv.env, `/admin/users/invitations/${invitationId}`, {
+      method: 'DELETE',
+      token,
+    });
+
+    expect(revoked.status).toBe(200);
+    expect((await accept(inviteToken)).status).toBe(400);
+  });
+
+  it('replaces the link and restarts the expiry on resend', async () => {
+    const { token } = await tenantAdmin();
+    const { email, invitationId, inviteToken } = await invite(token);
+    await testEnv.env.DB.prepare("UPDATE invitations SET expires_at = datetime('now', '-1 minute') WHERE id = ?")
+      .bind(invitationId)
+      .run();
+
+    const resent = await apiRequest(testEnv.env, `/admin/users/invitations/${invitationId}/resend`, {
+      method: 'POST',
+      token,
+    });
+    expect(resent.status).toBe(200);
+
+    const newToken = (await mailedToken(testEnv.env, email))!;
+    expect(newToken).not.toBe(inviteToken);
+    expect((await accept(inviteToken)).status).toBe(400);
+    expect((await accept(newToken)).status).toBe(200);
+  });
+
+  it('hides invitations of other tenants', async () => {
+    const { token } = await tenantAdmin();
+    const { invitationId, inviteToken } = await invite(token);
+    const other = await tenantAdmin();
+
+    const response = await apiRequest(testEnv.env, `/admin/users/invitations/${invitationId}`, {
+      method: 'DELETE',
+      token: other.token,
+    });
+
+    expect(response.status).toBe(404);
+    expect((await accept(inviteToken)).status).toBe(200);
+  });
+});
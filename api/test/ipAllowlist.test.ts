@@ -0,0 +1,124 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { isIpAllowed, normalizeAllowlist } from '../src/services/ipAllowlist';
+import { apiRequest, createTestEnv, insertTenant, insertUser, login, TestEnv } from './helpers';
+
+const OFFICE_IP = '203.0.113.10';
+const OUTSIDE_IP = '198.51.100.7';
+
+let testEnv: TestEnv;
+let superadminToken: string;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+  superadminToken = (await login(testEnv.env, await insertUser(testEnv.env, { role: 'superadmin' }))).token;
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+function saveAllowlist(tenantId: string, token: string, entries: string[], ip = OFFICE_IP, env = testEnv.env) {
+  return apiRequest(env, `/admin/config/ip-allowlist/${tenantId}`, { method: 'PUT', token, body: { entries }, ip });
+}
+
+async function tenantAdmin() {
+  const tenantId = await insertTenant(testEnv.env);
+  const { token } = await login(testEnv.env, await insertUser(testEnv.env, { role: 'admin', tenantId }));
+  return { tenantId, token };
+}
+
+describe('isIpAllowed', () => {
+  it('allows every address while the list is empty', () => {
+    expect(isIpAllowed(OUTSIDE_IP, [])).toBe(true);
+    expect(isIpAllowed(null, [])).toBe(true);
+  });
+
+  it('matches IPv4 ranges and single addresses', () => {
+    expect(isIpAllowed('203.0.113.250', ['203.0.113.0/24'])).toBe(true);
+    expect(isIpAllowed('203.0.114.1', ['203.0.113.0/24'])).toBe(false);
+    expect(isIpAllowed(OFFICE_IP, [OFFICE_IP])).toBe(true);
+    expect(isIpAllowed('203.0.113.11', [OFFICE_IP])).toBe(false);
+    expect(isIpAllowed(OUTSIDE_IP, ['0.0.0.0/0'])).toBe(true);
+  });
+
+  it('matches IPv6 ranges, compressed or not', () => {
+    expect(isIpAllowed('2001:db8:0:0:0:0:0:1', ['2001:db8::/32'])).toBe(true);
+    expect(isIpAllowed('2001:db9::1', ['2001:db8::/32'])).toBe(false);
+  });
+
+  it('never matches across address families or unparseable addresses', () => {
+    expect(isIpAllowed('2001:db8::1', ['203.0.113.0/24'])).toBe(false);
+    expect(isIpAllowed('not-an-ip', ['0.0.0.0/0'])).toBe(false);
+    expect(isIpAllowed(null, ['0.0.0.0/0'])).toBe(false);
+  });
+});
+
+describe('normalizeAllowlist', () => {
+  it('drops blanks and duplicates and reports invalid entries', () => {
+    expect(
+      normalizeAllowlist(['203.0.113.0/24', ' ', '203.0.113.0/24', '10.0.0.0/33', '300.1.1.1', '2001:db8::/32'])
+    ).toEqual({
+      entries: ['203.0.113.0/24', '2001:db8::/32'],
+      invalid: ['10.0.0.0/33', '300.1.1.1'],
+    });
+  });
+});
+
+describe('tenant allowlist', () => {
+  it('refuses a list that would lock out the admin saving it', async () => {
+    const { tenantId, token } = await tenantAdmin();
+
+    const response = await saveAllowlist(tenantId, token, ['198.51.100.0/24']);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'IP_LOCKOUT', currentIp: OFFICE_IP });
+  });
+
+  it('rejects invalid ranges', async () => {
+    const { tenantId, token } = await tenantAdmin();
+
+    const response = await saveAllowlist(tenantId, token, ['203.0.113.0/24', 'oficina']);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_CIDR', invalid: ['oficina'] });
+  });
+
+  it('blocks the tenant\'s users outside the list but not superadmins', async () => {
+    const { tenantId, token } = await tenantAdmin();
+
+    expect((await saveAllowlist(tenantId, token, ['203.0.113.0/24'])).status).toBe(200);
+
+    expect((await apiRequest(testEnv.env, '/auth/me', { token, ip: OFFICE_IP })).status).toBe(200);
+    const blocked = await apiRequest(testEnv.env, '/auth/me', { token, ip: OUTSIDE_IP });
+    expect(blocked.status).toBe(403);
+    expect(await blocked.json()).toMatchObject({ code: 'IP_NOT_ALLOWED' });
+
+    expect((await apiRequest(testEnv.env, '/auth/me', { token: superadminToken, ip: OUTSIDE_IP })).status).toBe(200);
+  });
+
+  it('can only be changed by the tenant\'s own admins', async () => {
+    const { token } = await tenantAdmin();
+    const otherTenant = await insertTenant(testEnv.env);
+
+    expect((await saveAllowlist(otherTenant, token, ['203.0.113.0/24'])).status).toBe(403);
+    expect((await saveAllowlist('global', token, ['203.0.113.0/24'])).status).toBe(403);
+  });
+});
+
+describe('global allowlist', () => {
+  it('applies the lockout guard to the superadmin unless the bypass is on', async () => {
+    const locking = await saveAllowlist('global', superadminToken, ['198.51.100.0/24']);
+    expect(locking.status).toBe(400);
+    expect(await locking.json()).toMatchObject({ code: 'IP_LOCKOUT' });
+
+    const bypassEnv = { ...testEnv.env, IP_ALLOWLIST_BYPASS: 'true' };
+    const saved = await saveAllowlist('global', superadminToken, ['198.51.100.0/24'], OFFICE_IP, bypassEnv);
+    expect(saved.status).toBe(200);
+    expect(await saved.json()).toMatchObject({ bypassEnabled: true });
+
+    expect((await apiRequest(testEnv.env, '/auth/me', { token: superadminToken })).status).toBe(403);
+    expect((await apiRequest(bypassEnv, '/auth/me', { token: superadminToken })).status).toBe(200);
+
+    expect((await saveAllowlist('global', superadminToken, [], OFFICE_IP, bypassEnv)).status).toBe(200);
+  });
+});
@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as jose from 'jose';
+import { Env } from '../src/types';
+import { generateToken, verifyToken } from '../src/utils/helpers';
+
+const HOUR = 60 * 60 * 1000;
+
+function jwtEnv(vars: Partial<Env> = {}): Env {
+  return { JWT_SECRET: 'current-secret', JWT_KEY_ID: 'k2', ...vars } as Env;
+}
+
+async function signWith(secret: string, kid: string | undefined, expiresIn = '15m'): Promise<string> {
+  return new jose.SignJWT({ sub: 'user-1' })
+    .setProtectedHeader({ alg: 'HS256', ...(kid ? { kid } : {}) })
+    .setIssuedAt()
+    .setExpirationTime(expiresIn)
+    .sign(new TextEncoder().encode(secret));
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('verifyToken', () => {
+  it('accepts a token signed with the current key', async () => {
+    const env = jwtEnv();
+    const token = await generateToken('user-1', env, '15m', { sid: 'session-1' });
+
+    const payload = await verifyToken(token, env);
+
+    expect(payload?.sub).toBe('user-1');
+    expect(payload?.sid).toBe('session-1');
+    expect(jose.decodeProtectedHeader(token).kid).toBe('k2');
+  });
+
+  it('rejects a tampered payload', async () => {
+    const env = jwtEnv();
+    const [header, , signature] = (await generateToken('user-1', env)).split('.');
+    const forged = jose.base64url.encode(JSON.stringify({ sub: 'superadmin-001', exp: Date.now() / 1000 + 3600 }));
+
+    expect(await verifyToken(`${header}.${forged}.${signature}`, env)).toBeNull();
+  });
+
+  it('rejects a token signed with another secret', async () => {
+    expect(await verifyToken(await signWith('someone-else', 'k2'), jwtEnv())).toBeNull();
+  });
+
+  it('rejects unsigned tokens', async () => {
+    const token = new jose.UnsecuredJWT({ sub: 'user-1' }).setExpirationTime('15m').encode();
+
+    expect(await verifyToken(token, jwtEnv())).toBeNull();
+  });
+
+  it('rejects an expired token', async () => {
+    const env = jwtEnv();
+    const token = await generateToken('user-1', env, '15m');
+
+    vi.useFakeTimers({ now: Date.now() + 16 * 60 * 1000 });
+
+    expect(await verifyToken(token, env)).toBeNull();
+  });
+
+  it('treats tokens without a key id as signed with the current key', async () => {
+    expect((await verifyToken(await signWith('current-secret', undefined), jwtEnv()))?.sub).toBe('user-1');
+  });
+});
+
+describe('signing key rotation', () => {
+  const retiredAt = new Date(Date.now() - HOUR).toISOString();
+  const rotatedEnv = jwtEnv({
+    JWT_PREVIOUS_KEYS: JSON.stringify([{ kid: 'k1', secret: 'old-secret', retiredAt }]),
+    JWT_ROTATION_OVERLAP_HOURS: '24',
+  });
+
+  it('keeps accepting tokens of the previous key during the overlap window', async () => {
+    expect((await verifyToken(await signWith('old-secret', 'k1'), rotatedEnv))?.sub).toBe('user-1');
+  });
+
+  it('stops accepting the previous key once the overlap window ends', async () => {
+    const token = await signWith('old-secret', 'k1', '48h');
+
+    vi.useFakeTimers({ now: Date.now() + 24 * HOUR });
+
+    expect(await verifyToken(token, rotatedEnv)).toBeNull();
+  });
+
+  it('does not verify a previous key id with the current secret', async () => {
+    expect(await verifyToken(await signWith('current-secret', 'k1'), rotatedEnv)).toBeNull();
+  });
+
+  it('rejects unknown key ids', async () => {
+    expect(await verifyToken(await signWith('current-secret', 'k9'), rotatedEnv)).toBeNull();
+  });
+
+  it('signs new tokens with the current key only', async () => {
+    const token = await generateToken('user-1', rotatedEnv);
+
+    expect(jose.decodeProtectedHeader(token).kid).toBe('k2');
+    expect(await verifyToken(token, jwtEnv())).not.toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { apiRequest, createTestEnv, insertTenant, insertUser, login, TestEnv } from './helpers';
+
+let testEnv: TestEnv;
+let superadminToken: string;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+  superadminToken = (await login(testEnv.env, await insertUser(testEnv.env, { role: 'superadmin' }))).token;
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+function createLocation(token: string, body: { name: string; tenantId?: string }) {
+  return apiRequest(testEnv.env, '/admin/locations', { token, body });
+}
+
+describe('location creation', () => {
+  it('makes the first location of a tenant its default', async () => {
+    const tenantId = await insertTenant(testEnv.env);
+
+    const response = await createLocation(superadminToken, { name: 'Casa central', tenantId });
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toMatchObject({ tenantId, name: 'Casa central', isDefault: true });
+  });
+
+  it('returns 404 when a superadmin names a tenant that does not exist', async () => {
+    const response = await createLocation(superadminToken, { name: 'Casa central', tenantId: 'no-such-tenant' });
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toMatchObject({ error: 'Tenant not found' });
+  });
+
+  it('keeps tenant admins in their own tenant', async () => {
+    const { env } = testEnv;
+    const tenantId = await insertTenant(env);
+    const { token } = await login(env, await insertUser(env, { role: 'admin', tenantId }));
+
+    const response = await createLocation(token, { name: 'Casa central', tenantId: await insertTenant(env) });
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toMatchObject({ tenantId });
+  });
+});
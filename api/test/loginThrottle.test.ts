@@ -0,0 +1,133 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { User } from '../src/types';
+import { apiRequest, createTestEnv, insertTenant, insertUser, TEST_PASSWORD, TestEnv } from './helpers';
+
+let testEnv: TestEnv;
+let nextIp = 1;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// Failures are counted per IP too, so each test signs in from its own address
+function freshIp(): string {
+  return `198.51.100.${nextIp++}`;
+}
+
+function attemptLogin(identifier: string, password: string, ip: string) {
+  return apiRequest(testEnv.env, '/auth/login', { body: { email: identifier, password }, ip });
+}
+
+async function failLogins(user: Pick<User, 'email'>, count: number, ip: string) {
+  let response: Response | null = null;
+  for (let i = 0; i < count; i++) {
+    response = await attemptLogin(user.email, 'wrong-password', ip);
+  }
+  return response!;
+}
+
+async function newUser() {
+  return insertUser(testEnv.env, { role: 'admin', tenantId: await insertTenant(testEnv.env) });
+}
+
+describe('account lockout', () => {
+  it('locks the account on the fifth failed attempt', async () => {
+    const user = await newUser();
+    const ip = freshIp();
+
+    expect((await failLogins(user, 4, ip)).status).toBe(401);
+
+    const fifth = await failLogins(user, 1, ip);
+    expect(fifth.status).toBe(429);
+    expect(fifth.headers.get('Retry-After')).toBe('300');
+    expect(await fifth.json()).toMatchObject({ code: 'ACCOUNT_LOCKED', retryAfter: 300 });
+  });
+
+  it('refuses the right password while the account is locked, from any address', async () => {
+    const user = await newUser();
+    await failLogins(user, 5, freshIp());
+
+    const response = await attemptLogin(user.email, TEST_PASSWORD, freshIp());
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({ code: 'ACCOUNT_LOCKED' });
+  });
+
+  it('lets the user in again once the lockout ends', async () => {
+    const user = await newUser();
+    await failLogins(user, 5, freshIp());
+
+    vi.useFakeTimers({ now: Date.now() + 5 * 60 * 1000 + 1000, toFake: ['Date'] });
+
+    expect((await attemptLogin(user.email, TEST_PASSWORD, freshIp())).status).toBe(200);
+  });
+
+  it('makes each consecutive lockout longer', async () => {
+    const user = await newUser();
+    await failLogins(user, 5, freshIp());
+
+    vi.useFakeTimers({ now: Date.now() + 5 * 60 * 1000 + 1000, toFake: ['Date'] });
+    const second = await failLogins(user, 5, freshIp());
+
+    expect(await second.json()).toMatchObject({ code: 'ACCOUNT_LOCKED', retryAfter: 15 * 60 });
+  });
+
+  it('resets the failure count after a successful login', async () => {
+    const user = await newUser();
+    const ip = freshIp();
+
+    await failLogins(user, 4, ip);
+    expect((await attemptLogin(user.email, TEST_PASSWORD, ip)).status).toBe(200);
+
+    expect((await failLogins(user, 4, ip)).status).toBe(401);
+  });
+
+  it('records the failures and the lockout in the audit log', async () => {
+    const user = await newUser();
+    await failLogins(user, 5, freshIp());
+
+    const { results } = await testEnv.env.DB.prepare(
+      'SELECT action FROM audit_logs WHERE resource_id = ? ORDER BY rowid'
+    )
+      .bind(user.id)
+      .all<{ action: string }>();
+
+    expect(results.filter((row) => row.action === 'user.login_failed')).toHaveLength(5);
+    expect(results.map((row) => row.action)).toContain('user.locked');
+  });
+
+  it('limits guessing unknown accounts as well', async () => {
+    const ip = freshIp();
+
+    await failLogins({ email: 'nobody@example.com' }, 4, ip);
+    const response = await attemptLogin('nobody@example.com', 'wrong-password', ip);
+
+    expect(response.status).toBe(429);
+    expect(await response.json()).toMatchObject({ code: 'ACCOUNT_LOCKED' });
+  });
+});
+
+describe('IP throttling', () => {
+  it('blocks an address after 20 failures across different accounts', async () => {
+    const ip = freshIp();
+    for (let i = 0; i < 20; i++) {
+      await attemptLogin(`probe-${i}@example.com`, 'wrong-password', ip);
+    }
+
+    const user = await newUser();
+    const blocked = await attemptLogin(user.email, TEST_PASSWORD, ip);
+    expect(blocked.status).toBe(429);
+    expect(await blocked.json()).toMatchObject({ code: 'TOO_MANY_ATTEMPTS' });
+
+    // The account itself is not locked; other addresses still get in
+    expect((await attemptLogin(user.email, TEST_PASSWORD, freshIp())).status).toBe(200);
+  });
+});
@@ -0,0 +1,71 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { getMailSender, sendMail } from '../src/services/mail';
+import { Env } from '../src/types';
+import { createTestEnv, TestEnv } from './helpers';
+
+let testEnv: TestEnv;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const message = { to: 'cliente@example.com', subject: 'Hola', text: 'Mensaje de prueba' };
+
+function mailEnv(vars: Partial<Env>): Env {
+  return { ...testEnv.env, MAIL_DRIVER: undefined, MAIL_API_URL: undefined, ...vars };
+}
+
+async function outboxCount(): Promise<number> {
+  const row = await testEnv.env.DB.prepare('SELECT COUNT(*) as count FROM mail_outbox').first<{ count: number }>();
+  return row?.count || 0;
+}
+
+describe('getMailSender', () => {
+  it('refuses to pick a driver when none is configured', () => {
+    expect(() => getMailSender(mailEnv({}))).toThrow(/MAIL_DRIVER/);
+  });
+
+  it('refuses the http driver without an endpoint', () => {
+    expect(() => getMailSender(mailEnv({ MAIL_DRIVER: 'http' }))).toThrow(/MAIL_API_URL/);
+  });
+});
+
+describe('sendMail', () => {
+  it('stores the message when the outbox is selected', async () => {
+    const before = await outboxCount();
+
+    expect(await sendMail(mailEnv({ MAIL_DRIVER: 'outbox' }), message)).toBe(true);
+
+    expect(await outboxCount()).toBe(before + 1);
+  });
+
+  it('reports a misconfigured driver as a failure instead of using the outbox', async () => {
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const before = await outboxCount();
+
+    expect(await sendMail(mailEnv({ MAIL_DRIVER: 'http' }), message)).toBe(false);
+
+    expect(await outboxCount()).toBe(before);
+    expect(logged).toHaveBeenCalled();
+  });
+
+  it('posts to the configured endpoint with the http driver', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('{}', { status: 200 }));
+
+    const sent = await sendMail(
+      mailEnv({ MAIL_DRIVER: 'http', MAIL_API_URL: 'https://mail.example.com/emails', MAIL_API_KEY: 'key' }),
+      message
+    );
+
+    expect(sent).toBe(true);
+    expect(fetchMock).toHaveBeenCalledWith('https://mail.example.com/emails', expect.objectContaining({ method: 'POST' }));
+  });
+});
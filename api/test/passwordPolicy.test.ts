@@ -0,0 +1,177 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  checkPassword,
+  DEFAULT_PASSWORD_POLICY,
+  isPasswordChangeRequired,
+  normalizePasswordPolicy,
+  PasswordPolicy,
+} from '../src/services/passwordPolicy';
+import { User } from '../src/types';
+import { apiRequest, createTestEnv, insertTenant, insertUser, login, TEST_PASSWORD, TestEnv } from './helpers';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let testEnv: TestEnv;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+// A user of a tenant with the given password policy
+async function userWithPolicy(policy: Partial<PasswordPolicy>): Promise<User> {
+  const tenantId = await insertTenant(testEnv.env, { settings: { security: { passwordPolicy: policy } } });
+  return insertUser(testEnv.env, { role: 'operator', tenantId });
+}
+
+function changePassword(token: string, currentPassword: string, newPassword: string) {
+  return apiRequest(testEnv.env, '/auth/change-password', { token, body: { currentPassword, newPassword } });
+}
+
+describe('normalizePasswordPolicy', () => {
+  it('fills in the defaults', () => {
+    expect(normalizePasswordPolicy(null)).toEqual(DEFAULT_PASSWORD_POLICY);
+  });
+
+  it('clamps values out of range', () => {
+    expect(normalizePasswordPolicy({ minLength: 2, historyCount: 99, maxAgeDays: -5 })).toMatchObject({
+      minLength: 6,
+      historyCount: 24,
+      maxAgeDays: 0,
+    });
+  });
+});
+
+describe('checkPassword', () => {
+  const strict = normalizePasswordPolicy({
+    minLength: 12,
+    requireUppercase: true,
+    requireLowercase: true,
+    requireNumber: true,
+    requireSymbol: true,
+  });
+
+  it('lists every rule the password breaks', async () => {
+    expect(await checkPassword(testEnv.env, strict, 'corta')).toEqual([
+      'min_length',
+      'uppercase',
+      'number',
+      'symbol',
+    ]);
+  });
+
+  it('accepts a password that meets the policy', async () => {
+    expect(await checkPassword(testEnv.env, strict, 'Another-Strong-Secret-42')).toEqual([]);
+  });
+
+  it('blocks breached passwords regardless of case', async () => {
+    expect(await checkPassword(testEnv.env, DEFAULT_PASSWORD_POLICY, 'SunShine')).toEqual(['breached']);
+    expect(await checkPassword(testEnv.env, DEFAULT_PASSWORD_POLICY, 'IloveYou')).toEqual(['breached']);
+    expect(await checkPassword(testEnv.env, normalizePasswordPolicy({ blockBreached: false }), 'IloveYou')).toEqual([]);
+  });
+});
+
+describe('password history', () => {
+  it('refuses the last passwords the policy remembers', async () => {
+    const user = await userWithPolicy({ historyCount: 2 });
+    const { token } = await login(testEnv.env, user);
+    await changePassword(token, TEST_PASSWORD, 'Second-Strong-Secret-1');
+    await changePassword(token, 'Second-Strong-Secret-1', 'Third-Strong-Secret-2');
+
+    const current = await changePassword(token, 'Third-Strong-Secret-2', 'Third-Strong-Secret-2');
+    expect(current.status).toBe(400);
+    expect(await current.json()).toMatchObject({ code: 'WEAK_PASSWORD', violations: ['reused'] });
+
+    const previous = await changePassword(token, 'Third-Strong-Secret-2', 'Second-Strong-Secret-1');
+    expect(await previous.json()).toMatchObject({ code: 'WEAK_PASSWORD', violations: ['reused'] });
+  });
+
+  it('allows reuse when the policy keeps no history', async () => {
+    const user = await userWithPolicy({ historyCount: 0 });
+    const { token } = await login(testEnv.env, user);
+
+    expect((await changePassword(token, TEST_PASSWORD, TEST_PASSWORD)).status).toBe(200);
+  });
+});
+
+describe('password aging', () => {
+  it('requires a change once the password is older than the maximum age', () => {
+    const policy = normalizePasswordPolicy({ maxAgeDays: 30 });
+    const changedDaysAgo = (days: number) =>
+      ({
+        must_change_password: false,
+        password_changed_at: new Date(Date.now() - days * DAY).toISOString().slice(0, 19).replace('T', ' '),
+      }) as User;
+
+    expect(isPasswordChangeRequired(policy, changedDaysAgo(29))).toBe(false);
+    expect(isPasswordChangeRequired(policy, changedDaysAgo(31))).toBe(true);
+    expect(isPasswordChangeRequired(DEFAULT_PASSWORD_POLICY, changedDaysAgo(400))).toBe(false);
+  });
+
+  it('asks for a new password at login and refuses the expired one', async () => {
+    const { env } = testEnv;
+    const user = await userWithPolicy({ maxAgeDays: 30 });
+    await env.DB.prepare("UPDATE users SET password_changed_at = datetime('now', '-31 days') WHERE id = ?")
+      .bind(user.id)
+      .run();
+
+    const response = await apiRequest(env, '/auth/login', { body: { email: user.email, password: TEST_PASSWORD } });
+    const { passwordChangeRequired, challengeToken } = await response.json<{
+      passwordChangeRequired: boolean;
+      challengeToken: string;
+    }>();
+    expect(passwordChangeRequired).toBe(true);
+
+    const same = await apiRequest(env, '/auth/login/change-password', {
+      body: { challengeToken, newPassword: TEST_PASSWORD },
+    });
+    expect(await same.json()).toMatchObject({ code: 'WEAK_PASSWORD', violations: ['reused'] });
+
+    const changed = await apiRequest(env, '/auth/login/change-password', {
+      body: { challengeToken, newPassword: 'Another-Strong-Secret-42' },
+    });
+    expect(changed.status).toBe(200);
+    expect(await changed.json()).toMatchObject({ token: expect.any(String) });
+    expect(await login(env, user, 'Another-Strong-Secret-42')).toMatchObject({ token: expect.any(String) });
+  });
+});
+
+describe('voluntary password change', () => {
+  it('keeps the current session and signs out every other one', async () => {
+    const { env } = testEnv;
+    const user = await insertUser(env, { role: 'operator' });
+    const current = await login(env, user);
+    const other = await login(env, user);
+
+    const response = await apiRequest(env, '/auth/change-password', {
+      token: current.token,
+      body: { currentPassword: TEST_PASSWORD, newPassword: 'Another-Strong-Secret-42' },
+    });
+
+    expect(response.status).toBe(200);
+    expect((await apiRequest(env, '/auth/me', { token: current.token })).status).toBe(200);
+    expect((await apiRequest(env, '/auth/refresh', { body: { refreshToken: current.refreshToken } })).status)
+      .toBe(200);
+    expect((await apiRequest(env, '/auth/me', { token: other.token })).status).toBe(401);
+    expect((await apiRequest(env, '/auth/refresh', { body: { refreshToken: other.refreshToken } })).status)
+      .toBe(401);
+  });
+
+  it('leaves the sessions alone when the current password is wrong', async () => {
+    const { env } = testEnv;
+    const user = await insertUser(env, { role: 'operator' });
+    const current = await login(env, user);
+    const other = await login(env, user);
+
+    const response = await apiRequest(env, '/auth/change-password', {
+      token: current.token,
+      body: { currentPassword: 'not-my-password', newPassword: 'Another-Strong-Secret-42' },
+    });
+
+    expect(response.status).toBe(400);
+    expect((await apiRequest(env, '/auth/me', { token: other.token })).status).toBe(200);
+  });
+});
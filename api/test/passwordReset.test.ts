@@ -0,0 +1,108 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createPasswordResetToken } from '../src/services/passwordReset';
+import { hashToken } from '../src/utils/helpers';
+import { apiRequest, createTestEnv, insertUser, login, mailedToken, TestEnv } from './helpers';
+
+const NEW_PASSWORD = 'Another-Strong-Secret-42';
+
+let testEnv: TestEnv;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+function requestReset(email: string) {
+  return apiRequest(testEnv.env, '/auth/reset-password', { body: { email } });
+}
+
+function confirmReset(token: string, newPassword = NEW_PASSWORD) {
+  return apiRequest(testEnv.env, '/auth/reset-password/confirm', { body: { token, newPassword } });
+}
+
+describe('reset request', () => {
+  it('mails a reset link to an existing user', async () => {
+    const user = await insertUser(testEnv.env);
+
+    const response = await requestReset(user.email);
+
+    expect(response.status).toBe(200);
+    expect(await mailedToken(testEnv.env, user.email)).toEqual(expect.any(String));
+  });
+
+  it('answers the same for an unknown address without sending anything', async () => {
+    const response = await requestReset('nadie@example.com');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ success: true });
+    expect(await mailedToken(testEnv.env, 'nadie@example.com')).toBeNull();
+  });
+
+  it('invalidates the previous link when a new one is requested', async () => {
+    const user = await insertUser(testEnv.env);
+    await requestReset(user.email);
+    const first = (await mailedToken(testEnv.env, user.email))!;
+    await requestReset(user.email);
+
+    expect((await confirmReset(first)).status).toBe(400);
+    expect((await confirmReset((await mailedToken(testEnv.env, user.email))!)).status).toBe(200);
+  });
+});
+
+describe('reset confirmation', () => {
+  it('sets the new password and signs out every session', async () => {
+    const { env } = testEnv;
+    const user = await insertUser(env);
+    const session = await login(env, user);
+    const token = await createPasswordResetToken(env, user.id, null);
+
+    const response = await confirmReset(token);
+
+    expect(response.status).toBe(200);
+    expect((await apiRequest(env, '/auth/me', { token: session.token })).status).toBe(401);
+    expect((await apiRequest(env, '/auth/refresh', { body: { refreshToken: session.refreshToken } })).status)
+      .toBe(401);
+    await expect(login(env, user)).rejects.toThrow();
+    expect(await login(env, user, NEW_PASSWORD)).toMatchObject({ token: expect.any(String) });
+  });
+
+  it('accepts each link only once', async () => {
+    const user = await insertUser(testEnv.env);
+    const token = await createPasswordResetToken(testEnv.env, user.id, null);
+    await confirmReset(token);
+
+    const response = await confirmReset(token, 'Yet-Another-Secret-77');
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_RESET_TOKEN' });
+  });
+
+  it('refuses a link that has expired', async () => {
+    const user = await insertUser(testEnv.env);
+    const token = await createPasswordResetToken(testEnv.env, user.id, null);
+    await testEnv.env.DB.prepare(
+      "UPDATE password_reset_tokens SET expires_at = datetime('now', '-1 minute') WHERE token_hash = ?"
+    )
+      .bind(await hashToken(token))
+      .run();
+
+    const response = await confirmReset(token);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_RESET_TOKEN' });
+  });
+
+  it('keeps the link usable when the new password is rejected', async () => {
+    const user = await insertUser(testEnv.env);
+    const token = await createPasswordResetToken(testEnv.env, user.id, null);
+
+    const weak = await confirmReset(token, 'corta');
+    expect(weak.status).toBe(400);
+    expect(await weak.json()).toMatchObject({ code: 'WEAK_PASSWORD' });
+
+    expect((await confirmReset(token)).status).toBe(200);
+  });
+});
@@ -0,0 +1,162 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createInvitation } from '../src/services/invitations';
+import { checkQuota, getTenantUsage } from '../src/services/quotas';
+import { generateId } from '../src/utils/helpers';
+import { apiRequest, createTestEnv, insertTenant, insertUser, login, TEST_PASSWORD, TestEnv } from './helpers';
+
+let testEnv: TestEnv;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+function invite(tenantId: string) {
+  return createInvitation(testEnv.env, {
+    email: `invitee-${generateId()}@example.com`,
+    role: 'operator',
+    roleId: null,
+    tenantId,
+    invitedBy: null,
+  });
+}
+
+async function insertLocation(tenantId: string, active = true) {
+  await testEnv.env.DB.prepare(`
+    INSERT INTO locations (id, tenant_id, name, is_default, active, created_at, updated_at)
+    VALUES (?, ?, 'Sucursal', 0, ?, datetime('now'), datetime('now'))
+  `)
+    .bind(generateId(), tenantId, active ? 1 : 0)
+    .run();
+}
+
+function acceptInvitation(token: string) {
+  return apiRequest(testEnv.env, '/auth/invitation/accept', {
+    body: { token, name: 'Invitado', password: TEST_PASSWORD },
+  });
+}
+
+// A tenant with its admin signed in
+async function tenantWithAdmin(limits: { maxUsers?: number; maxLocations?: number }) {
+  const { env } = testEnv;
+  const tenantId = await insertTenant(env, limits);
+  const admin = await insertUser(env, { role: 'admin', tenantId });
+  const { token } = await login(env, admin);
+  return { tenantId, token };
+}
+
+describe('getTenantUsage', () => {
+  it('counts users, open invitations and active locations', async () => {
+    const { env } = testEnv;
+    const tenantId = await insertTenant(env, { maxUsers: 10, maxLocations: 3 });
+    await insertUser(env, { tenantId });
+    await insertUser(env, { tenantId });
+    await insertLocation(tenantId);
+    await insertLocation(tenantId, false);
+
+    await invite(tenantId);
+    const expired = await invite(tenantId);
+    const revoked = await invite(tenantId);
+    await env.DB.prepare("UPDATE invitations SET expires_at = datetime('now', '-1 minute') WHERE id = ?")
+      .bind(expired.id)
+      .run();
+    await env.DB.prepare("UPDATE invitations SET revoked_at = datetime('now') WHERE id = ?")
+      .bind(revoked.id)
+      .run();
+
+    expect(await getTenantUsage(env, tenantId)).toEqual({
+      users: { used: 2, limit: 10, pending: 1 },
+      locations: { used: 1, limit: 3, pending: 0 },
+    });
+  });
+});
+
+describe('checkQuota', () => {
+  it('counts pending invitations as taken seats', async () => {
+    const { env } = testEnv;
+    const tenantId = await insertTenant(env, { maxUsers: 2 });
+    await insertUser(env, { tenantId });
+    expect(await checkQuota(env, tenantId, 'users')).toBeNull();
+
+    await invite(tenantId);
+
+    expect(await checkQuota(env, tenantId, 'users')).toEqual({ resource: 'users', used: 1, limit: 2, pending: 1 });
+  });
+
+  it('lets an invitee take the seat their invitation reserved', async () => {
+    const { env } = testEnv;
+    const tenantId = await insertTenant(env, { maxUsers: 2 });
+    await insertUser(env, { tenantId });
+    await invite(tenantId);
+
+    expect(await checkQuota(env, tenantId, 'users', { acceptingInvitation: true })).toBeNull();
+  });
+
+  it('does not limit platform users', async () => {
+    expect(await checkQuota(testEnv.env, null, 'users')).toBeNull();
+  });
+});
+
+describe('quota enforcement', () => {
+  it('refuses new users once the seats are taken', async () => {
+    const { tenantId, token } = await tenantWithAdmin({ maxUsers: 2 });
+    await invite(tenantId);
+
+    const response = await apiRequest(testEnv.env, '/admin/users', {
+      token,
+      body: { name: 'Nuevo usuario', email: `new-${generateId()}@example.com`, password: TEST_PASSWORD, role: 'operator' },
+    });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({
+      code: 'QUOTA_EXCEEDED',
+      quota: { resource: 'users', used: 1, limit: 2, pending: 1 },
+    });
+  });
+
+  it('refuses invitations once the seats are taken', async () => {
+    const { token } = await tenantWithAdmin({ maxUsers: 1 });
+
+    const response = await apiRequest(testEnv.env, '/admin/users/invite', {
+      token,
+      body: { email: `invitee-${generateId()}@example.com`, role: 'operator' },
+    });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: 'QUOTA_EXCEEDED' });
+  });
+
+  it('accepts an invitation into the seat it reserved', async () => {
+    const { tenantId } = await tenantWithAdmin({ maxUsers: 2 });
+    const { token } = await invite(tenantId);
+
+    expect((await acceptInvitation(token)).status).toBe(200);
+  });
+
+  it('refuses an invitation when the limit was lowered after it was sent', async () => {
+    const { tenantId } = await tenantWithAdmin({ maxUsers: 2 });
+    const { token } = await invite(tenantId);
+    await testEnv.env.DB.prepare('UPDATE tenants SET max_users = 1 WHERE id = ?').bind(tenantId).run();
+
+    const response = await acceptInvitation(token);
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ code: 'QUOTA_EXCEEDED' });
+  });
+
+  it('refuses new locations once the limit is reached', async () => {
+    const { tenantId, token } = await tenantWithAdmin({ maxLocations: 1 });
+    await insertLocation(tenantId);
+
+    const response = await apiRequest(testEnv.env, '/admin/locations', { token, body: { name: 'Segunda sucursal' } });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({
+      code: 'QUOTA_EXCEEDED',
+      quota: { resource: 'locations', used: 1, limit: 1 },
+    });
+  });
+});
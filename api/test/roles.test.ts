@@ -0,0 +1,184 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createApiKey } from '../src/services/apiKeys';
+import { canGrantRole } from '../src/services/roles';
+import { UserRole } from '../src/types';
+import { generateId } from '../src/utils/helpers';
+import { apiRequest, createTestEnv, insertTenant, insertUser, login, TEST_PASSWORD, TestEnv } from './helpers';
+
+let testEnv: TestEnv;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+async function insertTenantRole(tenantId: string, baseRole: UserRole, permissions: string[]): Promise<string> {
+  const id = generateId();
+  await testEnv.env.DB.prepare(`
+    INSERT INTO roles (id, tenant_id, key, name, base_role, permissions)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `)
+    .bind(id, tenantId, `role-${id}`, `Rol ${id.slice(0, 8)}`, baseRole, JSON.stringify(permissions))
+    .run();
+
+  return id;
+}
+
+// A signed-in user of a fresh tenant, optionally restricted to a tenant role
+async function signedIn(role: UserRole, permissions?: string[]) {
+  const { env } = testEnv;
+  const tenantId = await insertTenant(env, { maxUsers: 20 });
+  const roleId = permissions ? await insertTenantRole(tenantId, role, permissions) : null;
+  const user = await insertUser(env, { role, tenantId, roleId });
+  const { token } = await login(env, user);
+  return { user, tenantId, token };
+}
+
+function createUser(token: string, data: { role?: string; roleId?: string }) {
+  const id = generateId();
+  return apiRequest(testEnv.env, '/admin/users', {
+    token,
+    body: { name: 'Nuevo usuario', email: `new-${id}@example.com`, password: TEST_PASSWORD, ...data },
+  });
+}
+
+function updateUser(token: string, userId: string, body: { roleId?: string | null }) {
+  return apiRequest(testEnv.env, `/admin/users/${userId}`, { method: 'PUT', token, body });
+}
+
+describe('canGrantRole', () => {
+  const role = { tenant_id: null, base_role: 'operator' as const, permissions: '["users:read","users:write"]' };
+
+  it('allows roles whose permissions the granter holds', () => {
+    expect(canGrantRole(role, { role: 'admin', permissions: ['users:read', 'users:write', 'audit:read'] })).toBe(true);
+  });
+
+  it('refuses roles with a permission the granter lacks', () => {
+    expect(canGrantRole(role, { role: 'admin', permissions: ['users:read'] })).toBe(false);
+  });
+
+  it('refuses roles with a base role above the granter\'s own', () => {
+    const emptyAdmin = { tenant_id: 'tenant-1', base_role: 'admin' as const, permissions: '[]' };
+
+    expect(canGrantRole(emptyAdmin, { role: 'operator', permissions: ['users:read', 'users:write'] })).toBe(false);
+    expect(canGrantRole(emptyAdmin, { role: 'admin', permissions: [] })).toBe(true);
+  });
+
+  it('ignores platform permissions stored on a tenant role', () => {
+    const tenantRole = { tenant_id: 'tenant-1', base_role: 'viewer' as const, permissions: '["users:read","tenants:write"]' };
+
+    expect(canGrantRole(tenantRole, { role: 'viewer', permissions: ['users:read'] })).toBe(true);
+  });
+});
+
+describe('assigning roles', () => {
+  it('lets an admin create users with roles inside their own permissions', async () => {
+    const { token, tenantId } = await signedIn('admin');
+    const roleId = await insertTenantRole(tenantId, 'operator', ['users:read', 'payments:read']);
+
+    expect((await createUser(token, { role: 'operator' })).status).toBe(201);
+
+    const response = await createUser(token, { roleId });
+    expect(response.status).toBe(201);
+    expect(await response.json()).toMatchObject({ role: 'operator', roleId, tenantId });
+  });
+
+  it('does not let an admin hand out the superadmin role', async () => {
+    const { token } = await signedIn('admin');
+
+    const response = await createUser(token, { roleId: 'role-superadmin' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_ROLE' });
+  });
+
+  it('does not let an admin assign a tenant role with permissions they lack', async () => {
+    const { token, tenantId } = await signedIn('admin');
+    const deleter = await insertTenantRole(tenantId, 'operator', ['users:read', 'users:delete']);
+    const target = await insertUser(testEnv.env, { role: 'operator', tenantId });
+
+    const response = await updateUser(token, target.id, { roleId: deleter });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_ROLE' });
+  });
+
+  it('does not let a restricted user promote anyone to admin', async () => {
+    const { token, tenantId } = await signedIn('operator', ['users:read', 'users:write']);
+    const target = await insertUser(testEnv.env, { role: 'viewer', tenantId });
+
+    expect((await createUser(token, { role: 'admin' })).status).toBe(400);
+    expect((await updateUser(token, target.id, { roleId: 'role-admin' })).status).toBe(400);
+
+    const stored = await testEnv.env.DB.prepare('SELECT role FROM users WHERE id = ?')
+      .bind(target.id)
+      .first<{ role: string }>();
+    expect(stored?.role).toBe('viewer');
+  });
+
+  it('checks the system role a user falls back to when their tenant role is removed', async () => {
+    const { token, tenantId } = await signedIn('admin', ['users:read', 'users:write']);
+    const limitedAdmin = await insertTenantRole(tenantId, 'admin', ['users:read']);
+    const target = await insertUser(testEnv.env, { role: 'admin', tenantId, roleId: limitedAdmin });
+
+    const response = await updateUser(token, target.id, { roleId: null });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_ROLE' });
+  });
+
+  it('does not let a user raise their own base role through a tenant role', async () => {
+    const { user, token, tenantId } = await signedIn('operator', ['users:read', 'users:write']);
+    const emptyAdmin = await insertTenantRole(tenantId, 'admin', []);
+
+    const response = await updateUser(token, user.id, { roleId: emptyAdmin });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_ROLE' });
+  });
+
+  it('limits API keys to the roles their scopes cover', async () => {
+    const { user, tenantId } = await signedIn('admin');
+    const { key } = await createApiKey(testEnv.env, {
+      tenantId,
+      name: 'Integración',
+      scopes: ['users:read', 'users:write'],
+      expiresAt: null,
+      createdBy: user.id,
+    });
+
+    const response = await apiRequest(testEnv.env, '/admin/users', {
+      apiKey: key,
+      body: { name: 'Nuevo admin', email: `new-${generateId()}@example.com`, password: TEST_PASSWORD, role: 'admin' },
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_ROLE' });
+  });
+});
+
+describe('managing roles', () => {
+  it('does not let a user create a role with a base role above their own', async () => {
+    const { token } = await signedIn('operator', ['users:read', 'users:write']);
+
+    const create = (baseRole: string) =>
+      apiRequest(testEnv.env, '/admin/roles', { token, body: { name: `Rol ${generateId()}`, baseRole, permissions: [] } });
+
+    expect((await create('admin')).status).toBe(400);
+    expect((await create('operator')).status).toBe(201);
+  });
+
+  it('does not let a user clone a role with a base role above their own', async () => {
+    const { token } = await signedIn('operator', ['users:read', 'users:write']);
+
+    const response = await apiRequest(testEnv.env, '/admin/roles/role-admin/clone', {
+      token,
+      body: { name: 'Administrador propio' },
+    });
+
+    expect(response.status).toBe(400);
+  });
+});
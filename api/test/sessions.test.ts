@@ -0,0 +1,132 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { REFRESH_REUSE_GRACE_SECONDS } from '../src/services/sessions';
+import { hashToken } from '../src/utils/helpers';
+import { apiRequest, createTestEnv, insertTenant, insertUser, login, TestEnv } from './helpers';
+
+let testEnv: TestEnv;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+async function signedInUser() {
+  const { env } = testEnv;
+  const user = await insertUser(env, { role: 'admin', tenantId: await insertTenant(env) });
+  return { user, ...(await login(env, user)) };
+}
+
+function refresh(refreshToken: string) {
+  return apiRequest(testEnv.env, '/auth/refresh', { body: { refreshToken } });
+}
+
+// Pretend the token was exchanged longer ago than the grace window
+async function ageRefreshToken(refreshToken: string) {
+  await testEnv.env.DB.prepare(
+    'UPDATE refresh_tokens SET used_at = datetime(\'now\', ?) WHERE token_hash = ?'
+  )
+    .bind(`-${REFRESH_REUSE_GRACE_SECONDS + 5} seconds`, await hashToken(refreshToken))
+    .run();
+}
+
+describe('access tokens', () => {
+  it('are only accepted while their session is alive', async () => {
+    const { token } = await signedInUser();
+
+    expect((await apiRequest(testEnv.env, '/auth/me', { token })).status).toBe(200);
+
+    await apiRequest(testEnv.env, '/auth/logout', { method: 'POST', token });
+
+    const response = await apiRequest(testEnv.env, '/auth/me', { token });
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'SESSION_REVOKED' });
+  });
+});
+
+describe('refresh token rotation', () => {
+  it('exchanges a refresh token for a new pair bound to the same session', async () => {
+    const { refreshToken } = await signedInUser();
+
+    const response = await refresh(refreshToken);
+    expect(response.status).toBe(200);
+
+    const rotated = await response.json<{ token: string; refreshToken: string }>();
+    expect(rotated.refreshToken).not.toBe(refreshToken);
+    expect((await apiRequest(testEnv.env, '/auth/me', { token: rotated.token })).status).toBe(200);
+  });
+
+  it('revokes the whole session when a spent refresh token is presented again', async () => {
+    const { user, refreshToken } = await signedInUser();
+    const rotated = await (await refresh(refreshToken)).json<{ token: string; refreshToken: string }>();
+    await ageRefreshToken(refreshToken);
+
+    const reuse = await refresh(refreshToken);
+    expect(reuse.status).toBe(401);
+    expect(await reuse.json()).toMatchObject({ code: 'REFRESH_TOKEN_REUSED' });
+
+    // Neither the legitimate holder's tokens nor the session survive
+    expect((await apiRequest(testEnv.env, '/auth/me', { token: rotated.token })).status).toBe(401);
+    expect((await refresh(rotated.refreshToken)).status).toBe(401);
+
+    const sessions = await testEnv.env.DB.prepare('SELECT COUNT(*) as count FROM sessions WHERE user_id = ?')
+      .bind(user.id)
+      .first<{ count: number }>();
+    expect(sessions?.count).toBe(0);
+
+    const audit = await testEnv.env.DB.prepare(
+      "SELECT COUNT(*) as count FROM audit_logs WHERE user_id = ? AND action = 'session.refresh_reused'"
+    )
+      .bind(user.id)
+      .first<{ count: number }>();
+    expect(audit?.count).toBe(1);
+  });
+
+  it('lets a second tab refresh with the just-rotated token within the grace window', async () => {
+    const { refreshToken } = await signedInUser();
+
+    const first = await refresh(refreshToken);
+    const second = await refresh(refreshToken);
+
+    expect(first.status).toBe(200);
+    expect(second.status).toBe(200);
+
+    const { token, refreshToken: next } = await second.json<{ token: string; refreshToken: string }>();
+    expect((await apiRequest(testEnv.env, '/auth/me', { token })).status).toBe(200);
+    expect((await refresh(next)).status).toBe(200);
+  });
+
+  it('rejects unknown refresh tokens without touching any session', async () => {
+    const { token } = await signedInUser();
+
+    const response = await refresh('not-a-real-token');
+
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_REFRESH_TOKEN' });
+    expect((await apiRequest(testEnv.env, '/auth/me', { token })).status).toBe(200);
+  });
+});
+
+describe('session listing', () => {
+  it('shows a user\'s sessions to admins of the same tenant', async () => {
+    const { user } = await signedInUser();
+    const admin = await insertUser(testEnv.env, { role: 'admin', tenantId: user.tenant_id });
+    const { token } = await login(testEnv.env, admin);
+
+    const response = await apiRequest(testEnv.env, `/admin/users/${user.id}/sessions`, { token });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toHaveLength(1);
+  });
+
+  it('hides users of other tenants', async () => {
+    const { user } = await signedInUser();
+    const { token } = await signedInUser();
+
+    const response = await apiRequest(testEnv.env, `/admin/users/${user.id}/sessions`, { token });
+
+    expect(response.status).toBe(404);
+  });
+});
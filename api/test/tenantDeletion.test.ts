@@ -0,0 +1,170 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { createInvitation } from '../src/services/invitations';
+import { getDeletionRetentionDays, purgeDeletedTenants } from '../src/services/tenantDeletion';
+import { Tenant } from '../src/types';
+import { apiRequest, createTestEnv, insertTenant, insertUser, login, TEST_PASSWORD, TestEnv } from './helpers';
+
+let testEnv: TestEnv;
+let superadminToken: string;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+  superadminToken = (await login(testEnv.env, await insertUser(testEnv.env, { role: 'superadmin' }))).token;
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+function setRetentionDays(value: string) {
+  return testEnv.env.DB.prepare(
+    "UPDATE config SET value = ? WHERE key = 'tenant.deletion_retention_days' AND tenant_id IS NULL"
+  )
+    .bind(value)
+    .run();
+}
+
+// A tenant whose admin is signed in
+async function tenantWithAdmin() {
+  const { env } = testEnv;
+  const tenantId = await insertTenant(env);
+  const admin = await insertUser(env, { role: 'admin', tenantId });
+  return { tenantId, admin, ...(await login(env, admin)) };
+}
+
+function deleteTenant(id: string) {
+  return apiRequest(testEnv.env, `/admin/tenants/${id}`, {
+    method: 'DELETE',
+    token: superadminToken,
+    body: { reason: 'Pedido del cliente' },
+  });
+}
+
+function restore(id: string) {
+  return apiRequest(testEnv.env, `/admin/tenants/${id}/restore`, { method: 'POST', token: superadminToken });
+}
+
+function getTenant(id: string) {
+  return testEnv.env.DB.prepare('SELECT * FROM tenants WHERE id = ?').bind(id).first<Tenant>();
+}
+
+function attemptLogin(email: string) {
+  return apiRequest(testEnv.env, '/auth/login', { body: { email, password: TEST_PASSWORD } });
+}
+
+describe('getDeletionRetentionDays', () => {
+  afterEach(async () => {
+    await setRetentionDays('30');
+  });
+
+  it('reads the configured retention', async () => {
+    await setRetentionDays('7');
+
+    expect(await getDeletionRetentionDays(testEnv.env)).toBe(7);
+  });
+
+  it('falls back to 30 days on an invalid value and caps it at a year', async () => {
+    await setRetentionDays('pronto');
+    expect(await getDeletionRetentionDays(testEnv.env)).toBe(30);
+
+    await setRetentionDays('5000');
+    expect(await getDeletionRetentionDays(testEnv.env)).toBe(365);
+  });
+});
+
+describe('soft delete', () => {
+  it('schedules the purge and signs every user of the tenant out', async () => {
+    const { tenantId, admin, token, refreshToken } = await tenantWithAdmin();
+
+    const response = await deleteTenant(tenantId);
+
+    expect(response.status).toBe(200);
+    const tenant = await getTenant(tenantId);
+    expect(tenant).toMatchObject({ deletion_reason: 'Pedido del cliente', purge_after: expect.any(String) });
+    const retention = new Date(`${tenant!.purge_after}Z`).getTime() - new Date(`${tenant!.deleted_at}Z`).getTime();
+    expect(retention).toBe(30 * 24 * 60 * 60 * 1000);
+
+    expect((await apiRequest(testEnv.env, '/auth/me', { token })).status).toBe(401);
+    expect((await apiRequest(testEnv.env, '/auth/refresh', { body: { refreshToken } })).status).toBe(401);
+
+    const loginAttempt = await attemptLogin(admin.email);
+    expect(loginAttempt.status).toBe(403);
+    expect(await loginAttempt.json()).toMatchObject({ code: 'TENANT_PENDING_DELETION' });
+  });
+
+  it('does not delete a tenant twice', async () => {
+    const { tenantId } = await tenantWithAdmin();
+    await deleteTenant(tenantId);
+
+    const response = await deleteTenant(tenantId);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'ALREADY_DELETED' });
+  });
+
+  it('lets the users back in once the tenant is restored', async () => {
+    const { tenantId, admin } = await tenantWithAdmin();
+    await deleteTenant(tenantId);
+
+    const response = await restore(tenantId);
+
+    expect(response.status).toBe(200);
+    expect(await getTenant(tenantId)).toMatchObject({ deleted_at: null, purge_after: null, deletion_reason: null });
+    expect((await attemptLogin(admin.email)).status).toBe(200);
+  });
+
+  it('only restores tenants pending deletion', async () => {
+    const { tenantId } = await tenantWithAdmin();
+
+    const response = await restore(tenantId);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'NOT_DELETED' });
+  });
+});
+
+describe('purgeDeletedTenants', () => {
+  it('keeps tenants whose retention window is still open', async () => {
+    const { tenantId } = await tenantWithAdmin();
+    await deleteTenant(tenantId);
+
+    await purgeDeletedTenants(testEnv.env);
+
+    expect(await getTenant(tenantId)).not.toBeNull();
+  });
+
+  it('removes the tenant with its users, invitations and export archives once the window ends', async () => {
+    const { env } = testEnv;
+    const { tenantId, admin } = await tenantWithAdmin();
+    const invitation = await createInvitation(env, {
+      email: 'pendiente@example.com',
+      role: 'operator',
+      roleId: null,
+      tenantId,
+      invitedBy: admin.id,
+    });
+    const archive = `exports/${tenantId}/export-1.zip`;
+    await env.EXPORTS_BUCKET!.put(archive, 'PK');
+    await env.EXPORTS_BUCKET!.put('exports/other-tenant/kept.zip', 'PK');
+    await deleteTenant(tenantId);
+    await env.DB.prepare("UPDATE tenants SET purge_after = datetime('now', '-1 minute') WHERE id = ?")
+      .bind(tenantId)
+      .run();
+
+    expect(await purgeDeletedTenants(env)).toBeGreaterThanOrEqual(1);
+
+    expect(await getTenant(tenantId)).toBeNull();
+    expect(await env.DB.prepare('SELECT id FROM users WHERE id = ?').bind(admin.id).first()).toBeNull();
+    expect(await env.DB.prepare('SELECT id FROM invitations WHERE id = ?').bind(invitation.id).first()).toBeNull();
+    expect((await attemptLogin(admin.email)).status).toBe(401);
+    expect(await env.EXPORTS_BUCKET!.head(archive)).toBeNull();
+    expect(await env.EXPORTS_BUCKET!.head('exports/other-tenant/kept.zip')).not.toBeNull();
+
+    const audit = await env.DB.prepare(
+      "SELECT user_id, tenant_id FROM audit_logs WHERE action = 'tenant.purged' AND resource_id = ?"
+    )
+      .bind(tenantId)
+      .first();
+    expect(audit).toEqual({ user_id: 'system', tenant_id: null });
+  });
+});
@@ -0,0 +1,80 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createApiKey } from '../src/services/apiKeys';
+import { UserRole } from '../src/types';
+import { generateId } from '../src/utils/helpers';
+import { apiRequest, createTestEnv, insertTenant, insertUser, login, TestEnv } from './helpers';
+
+let testEnv: TestEnv;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+async function signedIn(tenantId: string, role: UserRole, permissions?: string[]) {
+  const { env } = testEnv;
+  let roleId: string | null = null;
+  if (permissions) {
+    roleId = generateId();
+    await env.DB.prepare(`
+      INSERT INTO roles (id, tenant_id, key, name, base_role, permissions)
+      VALUES (?, ?, ?, 'Rol propio', ?, ?)
+    `)
+      .bind(roleId, tenantId, `role-${roleId}`, role, JSON.stringify(permissions))
+      .run();
+  }
+  const user = await insertUser(env, { role, tenantId, roleId });
+  return { user, ...(await login(env, user)) };
+}
+
+function listExports(tenantId: string, auth: { token?: string; apiKey?: string }) {
+  return apiRequest(testEnv.env, `/admin/tenants/${tenantId}/exports`, auth);
+}
+
+describe('tenant export access', () => {
+  it('is open to the tenant admin role', async () => {
+    const tenantId = await insertTenant(testEnv.env);
+    const { token } = await signedIn(tenantId, 'admin');
+
+    expect((await listExports(tenantId, { token })).status).toBe(200);
+  });
+
+  it('needs the export permission, not just an admin base role', async () => {
+    const tenantId = await insertTenant(testEnv.env);
+    const { token } = await signedIn(tenantId, 'admin', ['users:read', 'users:write', 'config:write']);
+
+    expect((await listExports(tenantId, { token })).status).toBe(403);
+    expect((await apiRequest(testEnv.env, `/admin/tenants/${tenantId}/export`, { method: 'POST', token })).status)
+      .toBe(403);
+  });
+
+  it('can be granted to a custom role', async () => {
+    const tenantId = await insertTenant(testEnv.env);
+    const { token } = await signedIn(tenantId, 'operator', ['tenants:export']);
+
+    expect((await listExports(tenantId, { token })).status).toBe(200);
+  });
+
+  it('is limited to the user\'s own tenant', async () => {
+    const { token } = await signedIn(await insertTenant(testEnv.env), 'admin');
+
+    expect((await listExports(await insertTenant(testEnv.env), { token })).status).toBe(403);
+  });
+
+  it('is not available to API keys', async () => {
+    const tenantId = await insertTenant(testEnv.env);
+    const { user } = await signedIn(tenantId, 'admin');
+    const { key } = await createApiKey(testEnv.env, {
+      tenantId,
+      name: 'Integración',
+      scopes: ['tenants:export'],
+      expiresAt: null,
+      createdBy: user.id,
+    });
+
+    expect((await listExports(tenantId, { apiKey: key })).status).toBe(403);
+  });
+});
@@ -0,0 +1,134 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { runTenantLifecycle, validateTransition } from '../src/services/tenantLifecycle';
+import { Tenant } from '../src/types';
+import { apiRequest, createTestEnv, insertTenant, insertUser, login, TestEnv } from './helpers';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let testEnv: TestEnv;
+let superadminToken: string;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+  superadminToken = (await login(testEnv.env, await insertUser(testEnv.env, { role: 'superadmin' }))).token;
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+// Trial end dates are written as ISO 8601 by tenantInsertStatement
+async function insertTrialTenant(trialEndsAt: Date): Promise<string> {
+  const id = await insertTenant(testEnv.env, { status: 'trial' });
+  await testEnv.env.DB.prepare('UPDATE tenants SET trial_ends_at = ? WHERE id = ?')
+    .bind(trialEndsAt.toISOString(), id)
+    .run();
+  return id;
+}
+
+function getTenant(id: string) {
+  return testEnv.env.DB.prepare('SELECT * FROM tenants WHERE id = ?').bind(id).first<Tenant>();
+}
+
+function getStatusHistory(id: string) {
+  return testEnv.env.DB.prepare(
+    'SELECT from_status, to_status, reason, source FROM tenant_status_history WHERE tenant_id = ? ORDER BY created_at'
+  )
+    .bind(id)
+    .all<{ from_status: string | null; to_status: string; reason: string | null; source: string }>();
+}
+
+function changeStatus(id: string, body: { status: string; reason?: string }) {
+  return apiRequest(testEnv.env, `/admin/tenants/${id}/status`, { token: superadminToken, body });
+}
+
+describe('validateTransition', () => {
+  it('allows the transitions of the lifecycle', () => {
+    expect(validateTransition('trial', 'active')).toEqual({ ok: true });
+    expect(validateTransition('suspended', 'active')).toEqual({ ok: true });
+    expect(validateTransition('cancelled', 'active')).toEqual({ ok: true });
+  });
+
+  it('rejects transitions outside the lifecycle', () => {
+    expect(validateTransition('active', 'trial')).toMatchObject({ ok: false, code: 'INVALID_STATUS_TRANSITION' });
+    expect(validateTransition('cancelled', 'suspended', 'Falta de pago')).toMatchObject({
+      ok: false,
+      code: 'INVALID_STATUS_TRANSITION',
+    });
+  });
+
+  it('requires a reason to take access away', () => {
+    expect(validateTransition('active', 'suspended')).toMatchObject({ ok: false, code: 'REASON_REQUIRED' });
+    expect(validateTransition('active', 'cancelled', '  ')).toMatchObject({ ok: false, code: 'REASON_REQUIRED' });
+    expect(validateTransition('active', 'suspended', 'Falta de pago')).toEqual({ ok: true });
+  });
+});
+
+describe('runTenantLifecycle', () => {
+  it('suspends trials that ended and leaves running ones alone', async () => {
+    // Earlier today, which only compares correctly once normalized by datetime()
+    const expired = await insertTrialTenant(new Date(Date.now() - 60 * 1000));
+    const running = await insertTrialTenant(new Date(Date.now() + 3 * DAY));
+
+    const result = await runTenantLifecycle(testEnv.env);
+
+    expect(result.trialsExpired).toBeGreaterThanOrEqual(1);
+    expect((await getTenant(expired))?.status).toBe('suspended');
+    expect((await getTenant(running))?.status).toBe('trial');
+
+    const { results } = await getStatusHistory(expired);
+    expect(results).toEqual([
+      { from_status: 'trial', to_status: 'suspended', reason: 'Trial expired', source: 'scheduled' },
+    ]);
+  });
+
+  it('suspends active tenants whose paid period lapsed', async () => {
+    const lapsed = await insertTenant(testEnv.env, { status: 'active' });
+    await testEnv.env.DB.prepare("UPDATE tenants SET subscription_ends_at = datetime('now', '-1 day') WHERE id = ?")
+      .bind(lapsed)
+      .run();
+
+    const result = await runTenantLifecycle(testEnv.env);
+
+    expect(result.subscriptionsLapsed).toBeGreaterThanOrEqual(1);
+    expect((await getTenant(lapsed))?.status).toBe('suspended');
+  });
+});
+
+describe('status changes', () => {
+  it('ends the trial when a tenant is activated and records who did it', async () => {
+    const id = await insertTrialTenant(new Date(Date.now() + 3 * DAY));
+
+    const response = await changeStatus(id, { status: 'active' });
+
+    expect(response.status).toBe(200);
+    const tenant = await getTenant(id);
+    expect(tenant?.status).toBe('active');
+    expect(tenant?.trial_ends_at).toBeNull();
+
+    const { results } = await getStatusHistory(id);
+    expect(results).toEqual([{ from_status: 'trial', to_status: 'active', reason: null, source: 'manual' }]);
+  });
+
+  it('rejects transitions the lifecycle does not allow', async () => {
+    const id = await insertTenant(testEnv.env, { status: 'active' });
+
+    const response = await changeStatus(id, { status: 'trial' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_STATUS_TRANSITION' });
+    expect((await getTenant(id))?.status).toBe('active');
+  });
+
+  it('requires a reason to suspend a tenant', async () => {
+    const id = await insertTenant(testEnv.env, { status: 'active' });
+
+    const response = await apiRequest(testEnv.env, `/admin/tenants/${id}/suspend`, {
+      method: 'POST',
+      token: superadminToken,
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'REASON_REQUIRED' });
+  });
+});
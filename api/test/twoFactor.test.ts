@@ -0,0 +1,204 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { regenerateRecoveryCodes } from '../src/services/twoFactor';
+import { User } from '../src/types';
+import { base32Decode, generateTotpSecret } from '../src/utils/totp';
+import { apiRequest, createTestEnv, insertTenant, insertUser, login, TEST_PASSWORD, TestEnv } from './helpers';
+
+let testEnv: TestEnv;
+
+beforeAll(async () => {
+  testEnv = await createTestEnv();
+});
+
+afterAll(async () => {
+  await testEnv.dispose();
+});
+
+// The code an authenticator app would show right now
+async function currentTotp(secret: string): Promise<string> {
+  const counter = Math.floor(Date.now() / 1000 / 30);
+  const buffer = new ArrayBuffer(8);
+  const view = new DataView(buffer);
+  view.setUint32(0, Math.floor(counter / 2 ** 32));
+  view.setUint32(4, counter >>> 0);
+
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, [
+    'sign',
+  ]);
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, buffer));
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const code =
+    ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+
+  return String(code % 10 ** 6).padStart(6, '0');
+}
+
+// An admin that already has 2FA turned on
+async function enrolledAdmin(): Promise<{ user: User; secret: string }> {
+  const user = await insertUser(testEnv.env, { role: 'admin' });
+  const secret = generateTotpSecret();
+  await testEnv.env.DB.prepare(
+    "UPDATE users SET totp_secret = ?, totp_enabled = 1, totp_enabled_at = datetime('now') WHERE id = ?"
+  )
+    .bind(secret, user.id)
+    .run();
+  return { user, secret };
+}
+
+async function passwordStep(email: string): Promise<Record<string, unknown> & { challengeToken: string }> {
+  const response = await apiRequest(testEnv.env, '/auth/login', { body: { email, password: TEST_PASSWORD } });
+  expect(response.status).toBe(200);
+  return response.json();
+}
+
+function secondStep(challengeToken: string, body: { code?: string; recoveryCode?: string }) {
+  return apiRequest(testEnv.env, '/auth/login/2fa', { body: { challengeToken, ...body } });
+}
+
+describe('enrollment', () => {
+  it('turns 2FA on once a code from the new secret is confirmed', async () => {
+    const { env } = testEnv;
+    const user = await insertUser(env, { role: 'admin' });
+    const { token } = await login(env, user);
+
+    const setup = await apiRequest(env, '/auth/2fa/setup', { method: 'POST', token });
+    expect(setup.status).toBe(200);
+    const { secret, otpauthUrl } = await setup.json<{ secret: string; otpauthUrl: string }>();
+    expect(otpauthUrl).toContain(`secret=${secret}`);
+
+    const wrong = await apiRequest(env, '/auth/2fa/enable', { token, body: { code: '000000' } });
+    expect(wrong.status).toBe(400);
+    expect(await wrong.json()).toMatchObject({ code: 'INVALID_2FA_CODE' });
+
+    const enabled = await apiRequest(env, '/auth/2fa/enable', { token, body: { code: await currentTotp(secret) } });
+    expect(enabled.status).toBe(200);
+    const { recoveryCodes } = await enabled.json<{ recoveryCodes: string[] }>();
+    expect(recoveryCodes).toHaveLength(10);
+
+    expect(await passwordStep(user.email)).toMatchObject({ twoFactorRequired: true });
+  });
+
+  it('is not offered to operators', async () => {
+    const { token } = await login(testEnv.env, await insertUser(testEnv.env, { role: 'operator' }));
+
+    expect((await apiRequest(testEnv.env, '/auth/2fa/setup', { method: 'POST', token })).status).toBe(403);
+  });
+
+  it('is forced on admins when their tenant requires it', async () => {
+    const { env } = testEnv;
+    const tenantId = await insertTenant(env, { settings: { security: { requireTwoFactorForAdmins: true } } });
+    const user = await insertUser(env, { role: 'admin', tenantId });
+
+    const { twoFactorSetupRequired, challengeToken } = await passwordStep(user.email);
+    expect(twoFactorSetupRequired).toBe(true);
+
+    const setup = await apiRequest(env, '/auth/login/2fa/setup', { body: { challengeToken } });
+    const { secret } = await setup.json<{ secret: string }>();
+
+    const enabled = await apiRequest(env, '/auth/login/2fa/enable', {
+      body: { challengeToken, code: await currentTotp(secret) },
+    });
+    expect(enabled.status).toBe(200);
+    expect(await enabled.json()).toMatchObject({ token: expect.any(String), recoveryCodes: expect.any(Array) });
+
+    // The enrollment challenge is spent with the sign-in
+    const replay = await apiRequest(env, '/auth/login/2fa/setup', { body: { challengeToken } });
+    expect(replay.status).toBe(401);
+  });
+});
+
+describe('2FA login challenge', () => {
+  it('signs in with a valid code', async () => {
+    const { user, secret } = await enrolledAdmin();
+
+    const challenge = await passwordStep(user.email);
+    expect(challenge).toMatchObject({ twoFactorRequired: true });
+
+    const response = await secondStep(challenge.challengeToken, { code: await currentTotp(secret) });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ token: expect.any(String) });
+  });
+
+  it('cannot be replayed once it has been used', async () => {
+    const { user, secret } = await enrolledAdmin();
+    const { challengeToken } = await passwordStep(user.email);
+    const code = await currentTotp(secret);
+
+    expect((await secondStep(challengeToken, { code })).status).toBe(200);
+
+    const replay = await secondStep(challengeToken, { code });
+    expect(replay.status).toBe(401);
+    expect(await replay.json()).toMatchObject({ code: 'CHALLENGE_EXPIRED' });
+  });
+
+  it('gives out after three wrong codes', async () => {
+    const { user, secret } = await enrolledAdmin();
+    const { challengeToken } = await passwordStep(user.email);
+
+    for (let i = 0; i < 3; i++) {
+      const response = await secondStep(challengeToken, { code: '000000' });
+      expect(await response.json()).toMatchObject({ code: 'INVALID_2FA_CODE' });
+    }
+
+    const response = await secondStep(challengeToken, { code: await currentTotp(secret) });
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'CHALLENGE_EXPIRED' });
+
+    // A fresh password step hands out a new challenge
+    const retry = await passwordStep(user.email);
+    expect((await secondStep(retry.challengeToken, { code: await currentTotp(secret) })).status).toBe(200);
+  });
+
+  it('accepts each recovery code only once', async () => {
+    const { user } = await enrolledAdmin();
+    const [recoveryCode] = await regenerateRecoveryCodes(testEnv.env, user.id);
+
+    const first = await passwordStep(user.email);
+    expect((await secondStep(first.challengeToken, { recoveryCode })).status).toBe(200);
+
+    const second = await passwordStep(user.email);
+    const response = await secondStep(second.challengeToken, { recoveryCode });
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'INVALID_2FA_CODE' });
+  });
+
+  it('drops the previous recovery codes when new ones are generated', async () => {
+    const { user, secret } = await enrolledAdmin();
+    const [oldCode] = await regenerateRecoveryCodes(testEnv.env, user.id);
+
+    const first = await passwordStep(user.email);
+    const signedIn = await secondStep(first.challengeToken, { code: await currentTotp(secret) });
+    const { token } = await signedIn.json<{ token: string }>();
+    const regenerated = await apiRequest(testEnv.env, '/auth/2fa/recovery-codes', {
+      token,
+      body: { code: await currentTotp(secret) },
+    });
+    const { recoveryCodes } = await regenerated.json<{ recoveryCodes: string[] }>();
+
+    const stale = await passwordStep(user.email);
+    expect((await secondStep(stale.challengeToken, { recoveryCode: oldCode })).status).toBe(401);
+    const fresh = await passwordStep(user.email);
+    expect((await secondStep(fresh.challengeToken, { recoveryCode: recoveryCodes[0] })).status).toBe(200);
+  });
+});
+
+describe('forced password change challenge', () => {
+  it('sets the new password only once per challenge', async () => {
+    const user = await insertUser(testEnv.env, { role: 'operator' });
+    await testEnv.env.DB.prepare('UPDATE users SET must_change_password = 1 WHERE id = ?').bind(user.id).run();
+
+    const { passwordChangeRequired, challengeToken } = await passwordStep(user.email);
+    expect(passwordChangeRequired).toBe(true);
+
+    const changed = await apiRequest(testEnv.env, '/auth/login/change-password', {
+      body: { challengeToken, newPassword: 'Another-Strong-Secret-42' },
+    });
+    expect(changed.status).toBe(200);
+
+    const replay = await apiRequest(testEnv.env, '/auth/login/change-password', {
+      body: { challengeToken, newPassword: 'Attacker-Chosen-Secret-77' },
+    });
+    expect(replay.status).toBe(401);
+    expect(await replay.json()).toMatchObject({ code: 'CHALLENGE_EXPIRED' });
+  });
+});
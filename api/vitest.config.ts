@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // Every file starts its own local D1 (workerd); one at a time keeps memory down
+    fileParallelism: false,
+    hookTimeout: 60000,
+    testTimeout: 30000,
+    // Hono's request logger only adds noise here
+    onConsoleLog: (log) => !/^\s*(<--|-->) /.test(log),
+  },
+});